@@ -1,23 +1,177 @@
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import SimulationCanvas from './components/SimulationCanvas';
 import Controls from './components/Controls';
+import ClockControls from './components/ClockControls';
 import TelemetryPanel from './components/TelemetryPanel';
-import { SimulationState } from './types';
-import { INITIAL_STATE } from './constants';
+import ScenarioTimeline from './components/ScenarioTimeline';
+import CalibrationPanel from './components/CalibrationPanel';
+import SweepPanel from './components/SweepPanel';
+import ComparisonControls, { ComparisonLane } from './components/ComparisonControls';
+import PhotoperiodControls from './components/PhotoperiodControls';
+import ChamberPanel from './components/ChamberPanel';
+import FanPanel from './components/FanPanel';
+import AlarmPanel from './components/AlarmPanel';
+import CanopyPanel from './components/CanopyPanel';
+import SpeciesPanel from './components/SpeciesPanel';
+import ConfigurationPanel from './components/ConfigurationPanel';
+import { RosetteSettings, SimulationState, SpeciesProfile, TelemetryLog } from './types';
+import { ModelParameters, withParameter } from './physics/modelParameters';
+import { DEFAULT_ALARM_RULES, DEFAULT_SPECIES, INITIAL_STATE, MODEL_VERSION } from './constants';
+import { computeLeafState, environmentFromState } from './physics/leafPhysics';
+import { layoutRosette, solveCanopy } from './physics/canopy';
+import { morphologyShape } from './physics/morphology';
+import { speciesParameters } from './species/speciesProfiles';
+import { useSimulationClock } from './hooks/useSimulationClock';
+import { telemetryToScenario } from './telemetry/telemetryImport';
+import { validateAgainstTelemetry } from './telemetry/validation';
+import {
+  captureConfiguration,
+  configurationFromHash,
+  configurationParameters,
+  configurationScenario,
+  configurationSpecies,
+  configurationToHash,
+  ConfigurationInputs,
+  SavedConfiguration,
+} from './persistence/configuration';
+
+// Setup encoded in the page URL, if it was opened from a shared link
+const readLinkedConfiguration = (): { config: SavedConfiguration | null; error: string | null } => {
+  try {
+    return { config: configurationFromHash(window.location.hash), error: null };
+  } catch (err) {
+    return { config: null, error: `Shared link: ${err instanceof Error ? err.message : 'could not be opened'}` };
+  }
+};
 
 const App: React.FC = () => {
-  const [simState, setSimState] = useState<SimulationState>(INITIAL_STATE);
+  // Start from the steady state of the initial environment
+  const [initialState] = useState<SimulationState>(() => ({
+    ...INITIAL_STATE,
+    ...computeLeafState(environmentFromState(INITIAL_STATE)),
+  }));
+  const clock = useSimulationClock(initialState);
+  const simState = clock.state;
+
+  // Comparison mode: the controls edit either configuration
+  const [editing, setEditing] = useState<ComparisonLane>('A');
+  const editingB = editing === 'B' && clock.comparison !== null;
+  const controlledState = editingB ? clock.comparison! : simState;
+
+  // Imported telemetry replays as a scenario and is compared against the recorded run
+  const [telemetry, setTelemetry] = useState<TelemetryLog | null>(null);
+  const validation = useMemo(
+    () => (telemetry ? validateAgainstTelemetry(telemetry, clock.getRecords()) : []),
+    [telemetry, clock.recordCount, clock.time]
+  );
+
+  // Active model parameters and the name of the profile they came from (null: defaults)
+  const [parameterProfile, setParameterProfile] = useState<string | null>(null);
+  const handleApplyParameters = (parameters: ModelParameters, profile: string | null) => {
+    clock.setParameters(parameters);
+    setParameterProfile(profile);
+  };
+
+  // Canopy mode: the rosette is re-solved whenever the environment of configuration A changes.
+  // Its leaves narrow as the µG morphology develops.
+  const [rosette, setRosette] = useState<RosetteSettings | null>(null);
+  const [species, setSpecies] = useState<SpeciesProfile>(DEFAULT_SPECIES);
+  const widthFactor = morphologyShape(simState, species.morphology).narrowing;
+  const rosetteLayout = useMemo(
+    () => (rosette ? layoutRosette({ ...rosette, leafWidth: rosette.leafWidth * widthFactor }) : null),
+    [rosette, widthFactor]
+  );
+  const environment = environmentFromState(simState, species.morphology);
+  const environmentKey = JSON.stringify(environment);
+  const canopy = useMemo(
+    () => (rosetteLayout ? { layout: rosetteLayout, state: solveCanopy(environment, rosetteLayout, clock.parameters) } : null),
+    [rosetteLayout, environmentKey, clock.parameters]
+  );
 
-  const handleStateUpdate = (updates: Partial<SimulationState>) => {
-    setSimState(prev => ({ ...prev, ...updates }));
+  // Species: selecting one applies its physiology, leaf size and gravity response; shape edits keep the
+  // physiology but carry the leaf length and gravity response over to the physics
+  const handleSelectSpecies = (next: SpeciesProfile) => {
+    setSpecies(next);
+    handleApplyParameters(speciesParameters(next), next.name);
+    if (rosette) setRosette({ ...rosette, leafLength: next.leafLength, leafWidth: next.leafWidth });
   };
+  const handleEditSpecies = (next: SpeciesProfile) => {
+    setSpecies(next);
+    if (next.leafLength !== species.leafLength || next.morphology !== species.morphology) {
+      clock.setParameters({ ...withParameter(clock.parameters, 'leafLength', next.leafLength / 1000), morphology: next.morphology });
+    }
+  };
+
+  const handleImportTelemetry = (log: TelemetryLog | null) => {
+    setTelemetry(log);
+    if (log) clock.loadScenario(telemetryToScenario(log));
+  };
+
+  // Saved setups and links: inputs, comparison, scenario, photoperiod, chamber, fan, canopy, species, alarm rules and parameters.
+  // A loaded setup starts from steady state and its scenario restarts the clock.
+  const captureSetup = (name: string) =>
+    captureConfiguration(name, {
+      state: simState,
+      comparison: clock.comparison,
+      scenario: clock.scenario,
+      photoperiod: clock.photoperiod,
+      chamber: clock.chamber,
+      fan: clock.fan,
+      canopy: rosette,
+      species,
+      alarmRules: clock.alarmRules,
+      parameters: clock.parameters,
+      parameterProfile,
+    });
+
+  const applyConfiguration = (config: SavedConfiguration) => {
+    const parameters = configurationParameters(config);
+    const steady = (inputs: ConfigurationInputs) => ({ ...inputs, ...computeLeafState(inputs, undefined, parameters) });
+    clock.setParameters(parameters);
+    setParameterProfile(config.parameterProfile ?? (config.parameters ? config.name : null));
+    clock.setInputs(steady(config.inputs));
+    if (config.comparison) {
+      clock.startComparison(steady(config.comparison));
+    } else {
+      clock.stopComparison();
+      setEditing('A');
+    }
+    clock.setPhotoperiod(config.photoperiod ?? null);
+    clock.setChamber(config.chamber ?? null);
+    clock.setFan(config.fan ?? null);
+    setRosette(config.canopy ?? null);
+    setSpecies(configurationSpecies(config));
+    clock.setAlarmRules(config.alarmRules ?? DEFAULT_ALARM_RULES);
+    clock.loadScenario(configurationScenario(config));
+  };
+
+  // The URL always describes the current setup, so a refresh or a copied address reproduces it
+  const [linked] = useState(readLinkedConfiguration);
+  const setupHash = configurationToHash(captureSetup('Shared setup'));
+  const applyRef = useRef(applyConfiguration);
+  applyRef.current = applyConfiguration;
+
+  useEffect(() => {
+    if (linked.config) applyRef.current(linked.config);
+    // A link pasted into the address bar of an open tab
+    const handleHashChange = () => {
+      const { config } = readLinkedConfiguration();
+      if (config) applyRef.current(config);
+    };
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, []);
+
+  useEffect(() => {
+    window.history.replaceState(null, '', setupHash);
+  }, [setupHash]);
 
   return (
     <div className="relative w-screen h-screen bg-space-900 text-white overflow-hidden flex flex-col md:flex-row">
       
       {/* 3D Visualization Area */}
       <div className="flex-grow h-[60vh] md:h-full relative order-2 md:order-1">
-        <SimulationCanvas simulationState={simState} />
+        <SimulationCanvas simulationState={simState} comparisonState={clock.comparison} canopy={canopy} species={species} />
         
         {/* Overlay Title */}
         <div className="absolute top-6 left-6 pointer-events-none z-10">
@@ -26,17 +180,53 @@ const App: React.FC = () => {
           </h1>
           <p className="text-xs text-gray-400 font-mono mt-1">
             FLUID DYNAMICS MODELING // {simState.gravityMode}
+            {clock.comparison && ` vs ${clock.comparison.gravityMode}`}
           </p>
         </div>
       </div>
 
       {/* Sidebar Interface */}
       <div className="w-full md:w-[400px] h-auto md:h-full bg-space-900/80 backdrop-blur-md border-l border-space-700 flex flex-col p-4 gap-4 z-20 order-1 md:order-2 overflow-y-auto">
-        <Controls state={simState} onUpdate={handleStateUpdate} />
-        <TelemetryPanel state={simState} />
+        <ClockControls clock={clock} parameterProfile={parameterProfile} />
+        <ComparisonControls clock={clock} editing={editing} onEdit={setEditing} />
+        <PhotoperiodControls clock={clock} />
+        <ChamberPanel clock={clock} />
+        <FanPanel clock={clock} />
+        <SpeciesPanel species={species} parameters={clock.parameters} onSelect={handleSelectSpecies} onEdit={handleEditSpecies} />
+        <CanopyPanel rosette={rosette} onChange={setRosette} />
+        <ConfigurationPanel capture={captureSetup} onLoad={applyConfiguration} linkError={linked.error} />
+        {clock.scenario && <ScenarioTimeline scenario={clock.scenario} time={clock.time} />}
+        <Controls
+          state={controlledState}
+          onUpdate={editingB ? clock.setComparisonInputs : clock.setInputs}
+          scenario={clock.scenario}
+          onLoadScenario={clock.loadScenario}
+          telemetry={telemetry}
+          onImportTelemetry={handleImportTelemetry}
+          lane={clock.comparison ? (editingB ? 'B' : 'A') : undefined}
+          fanDriven={clock.fan !== null}
+        />
+        <TelemetryPanel
+          state={simState}
+          history={clock.history}
+          validation={validation}
+          alarms={clock.activeAlarms}
+          comparison={clock.comparison}
+          comparisonHistory={clock.comparisonHistory}
+          canopy={canopy?.state}
+        />
+        <AlarmPanel clock={clock} />
+        <CalibrationPanel
+          telemetry={telemetry}
+          baseInputs={environment}
+          parameters={clock.parameters}
+          profile={parameterProfile}
+          onApply={handleApplyParameters}
+        />
+        <SweepPanel inputs={environment} parameters={clock.parameters} />
         
         <div className="mt-auto text-center text-[10px] text-gray-600 font-mono py-2">
-          Purdue AstroBotany Lab // Simulation Build v2.5.0
+          Purdue AstroBotany Lab // Simulation Build v{MODEL_VERSION}
         </div>
       </div>
     </div>
@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import { activeAlarms, AlarmTracker, evaluateAlarms, parseAlarmRules } from './alarmRules';
+import { DEFAULT_ALARM_RULES, INITIAL_STATE } from '../constants';
+import { AlarmRule, SimulationState } from '../types';
+
+const hot: AlarmRule = {
+  id: 'hot',
+  enabled: true,
+  metric: 'temperature',
+  comparator: '>',
+  threshold: 30,
+  duration: 10,
+  hysteresis: 1,
+  severity: 'WARNING',
+  message: 'Leaf hot',
+};
+
+// Evaluates the rules over a series of (time, state changes) ticks
+const run = (rules: AlarmRule[], ticks: [number, Partial<SimulationState>][]) => {
+  let trackers: Record<string, AlarmTracker> = {};
+  const events = ticks.flatMap(([time, changes]) => {
+    const result = evaluateAlarms(rules, trackers, { ...INITIAL_STATE, ...changes }, time);
+    trackers = result.trackers;
+    return result.events;
+  });
+  return { trackers, events };
+};
+
+describe('evaluateAlarms', () => {
+  it('raises once the condition has held for the duration', () => {
+    const { events } = run([hot], [
+      [0, { temperature: 31 }],
+      [5, { temperature: 31 }],
+      [10, { temperature: 31 }],
+      [15, { temperature: 31 }],
+    ]);
+    expect(events).toEqual([{ time: 10, ruleId: 'hot', kind: 'RAISED', severity: 'WARNING', message: 'Leaf hot', value: 31 }]);
+  });
+
+  it('restarts the duration when the condition lapses', () => {
+    const { events } = run([hot], [
+      [0, { temperature: 31 }],
+      [5, { temperature: 29 }],
+      [10, { temperature: 31 }],
+      [15, { temperature: 31 }],
+    ]);
+    expect(events).toEqual([]);
+  });
+
+  it('clears only past the hysteresis band', () => {
+    const { events } = run([{ ...hot, duration: 0 }], [
+      [0, { temperature: 31 }],
+      [1, { temperature: 29.5 }],
+      [2, { temperature: 28.5 }],
+    ]);
+    expect(events.map(event => [event.time, event.kind])).toEqual([
+      [0, 'RAISED'],
+      [2, 'CLEARED'],
+    ]);
+  });
+
+  it('handles "below" rules and guards', () => {
+    const lowFlow = DEFAULT_ALARM_RULES.find(rule => rule.id === 'low-airflow')!;
+    const onEarth = run([lowFlow], [[0, { airVelocity: 0, gravityFactor: 1 }], [10, { airVelocity: 0, gravityFactor: 1 }]]);
+    expect(onEarth.events).toEqual([]);
+    const inOrbit = run([lowFlow], [
+      [0, { airVelocity: 0, gravityFactor: 0 }],
+      [10, { airVelocity: 0.1, gravityFactor: 0 }],
+      [20, { airVelocity: 0.5, gravityFactor: 0 }],
+    ]);
+    expect(inOrbit.events.map(event => [event.time, event.kind])).toEqual([
+      [10, 'RAISED'],
+      [20, 'CLEARED'],
+    ]);
+  });
+
+  it('clears disabled rules and lists active alarms by severity', () => {
+    const critical: AlarmRule = { ...hot, id: 'critical', duration: 0, severity: 'CRITICAL' };
+    const rules = [{ ...hot, duration: 0 }, critical];
+    const { trackers } = run(rules, [[0, { temperature: 35 }]]);
+    expect(activeAlarms(rules, trackers).map(rule => rule.id)).toEqual(['critical', 'hot']);
+    const disabled = evaluateAlarms([{ ...hot, enabled: false }], trackers, { ...INITIAL_STATE, temperature: 35 }, 1);
+    expect(disabled.events.map(event => event.kind)).toEqual(['CLEARED']);
+  });
+
+  it('keeps the default rules quiet in the nominal state', () => {
+    expect(run(DEFAULT_ALARM_RULES, [[0, {}], [60, {}]]).events).toEqual([]);
+  });
+
+  it('does not report photosynthesis inhibited in the dark', () => {
+    const inhibited = DEFAULT_ALARM_RULES.find(rule => rule.id === 'photosynthesis-inhibited')!;
+    const dark = { photosyntheticEfficiency: 0 };
+    expect(run([inhibited], [[0, { ...dark, ppfd: 0 }], [60, { ...dark, ppfd: 0 }]]).events).toEqual([]);
+    // Night of a photoperiod: the setpoint stays, the lights are off
+    expect(run([inhibited], [[0, { ...dark, lightFraction: 0 }], [60, { ...dark, lightFraction: 0 }]]).events).toEqual([]);
+    expect(run([inhibited], [[0, dark], [60, dark]]).events.map(event => event.kind)).toEqual(['RAISED']);
+  });
+});
+
+describe('parseAlarmRules', () => {
+  it('accepts valid rules and rejects the rest', () => {
+    expect(parseAlarmRules(DEFAULT_ALARM_RULES)).toEqual(DEFAULT_ALARM_RULES);
+    expect(() => parseAlarmRules([{ ...hot, metric: 'co2Bogus' }])).toThrow('co2Bogus');
+    expect(() => parseAlarmRules([{ ...hot, comparator: '>=' }])).toThrow('comparator');
+    expect(() => parseAlarmRules([{ ...hot, severity: 'PANIC' }])).toThrow('PANIC');
+    expect(() => parseAlarmRules([hot, hot])).toThrow('Duplicate');
+    expect(() => parseAlarmRules({})).toThrow();
+  });
+});
@@ -0,0 +1,134 @@
+import { AlarmCondition, AlarmMetric, AlarmRule, AlarmSeverity, SimulationState } from '../types';
+
+// Alarm rules engine: each tick every enabled rule compares one metric of the simulation state
+// against its threshold. An alarm raises once the condition has held for the rule's duration,
+// and clears when the metric is back past the threshold by the hysteresis (or the guard lapses).
+
+export const ALARM_METRICS: Record<AlarmMetric, { label: string; unit: string; value: (state: SimulationState) => number }> = {
+  temperature: { label: 'Leaf temp', unit: '°C', value: state => state.temperature },
+  temperatureRise: { label: 'Leaf above air', unit: '°C', value: state => state.temperature - state.ambientTemperature },
+  boundaryLayerThickness: { label: 'Boundary layer', unit: 'mm', value: state => state.boundaryLayerThickness },
+  vapourPressureDeficit: { label: 'VPD', unit: 'kPa', value: state => state.vapourPressureDeficit },
+  photosyntheticEfficiency: { label: 'Efficiency', unit: '%', value: state => state.photosyntheticEfficiency },
+  stressLevel: { label: 'Stress', unit: '0-100', value: state => state.stressLevel },
+  co2Flux: { label: 'CO2 uptake', unit: 'µmol/m²/s', value: state => state.co2Flux },
+  h2oFlux: { label: 'Transpiration', unit: 'mmol/m²/s', value: state => state.h2oFlux },
+  stomatalConductance: { label: 'Stomatal cond.', unit: 'mol/m²/s', value: state => state.stomatalConductance },
+  surfaceCO2: { label: 'Surface CO2', unit: 'ppm', value: state => state.surfaceCO2 },
+  intercellularCO2: { label: 'Ci', unit: 'ppm', value: state => state.intercellularCO2 },
+  ambientCO2: { label: 'Ambient CO2', unit: 'ppm', value: state => state.ambientCO2 },
+  ambientO2: { label: 'Ambient O2', unit: '%', value: state => state.ambientO2 },
+  airVelocity: { label: 'Leaf airflow', unit: 'm/s', value: state => state.airVelocity },
+  gravityFactor: { label: 'Gravity', unit: 'g', value: state => state.gravityFactor },
+  light: { label: 'Light', unit: 'µmol/m²/s', value: state => state.ppfd * state.lightFraction },
+};
+
+export const ALARM_SEVERITIES: AlarmSeverity[] = ['INFO', 'WARNING', 'CRITICAL'];
+
+// Per-rule progress between ticks
+export interface AlarmTracker {
+  pendingSince: number | null; // s, when the condition started to hold
+  active: boolean;
+  raisedAt: number | null;
+}
+
+export interface AlarmEvent {
+  time: number; // s of simulated time
+  ruleId: string;
+  kind: 'RAISED' | 'CLEARED';
+  severity: AlarmSeverity;
+  message: string;
+  value: number; // Metric value at the event
+}
+
+export const IDLE_TRACKER: AlarmTracker = { pendingSince: null, active: false, raisedAt: null };
+
+const holds = ({ metric, comparator, threshold }: AlarmCondition, state: SimulationState, margin = 0): boolean => {
+  const value = ALARM_METRICS[metric].value(state);
+  return comparator === '>' ? value > threshold - margin : value < threshold + margin;
+};
+
+// Advances every rule's tracker to `time`, returning the alarms raised and cleared on the way
+export const evaluateAlarms = (
+  rules: AlarmRule[],
+  trackers: Record<string, AlarmTracker>,
+  state: SimulationState,
+  time: number
+): { trackers: Record<string, AlarmTracker>; events: AlarmEvent[] } => {
+  const next: Record<string, AlarmTracker> = {};
+  const events: AlarmEvent[] = [];
+  for (const rule of rules) {
+    const tracker = trackers[rule.id] ?? IDLE_TRACKER;
+    const value = ALARM_METRICS[rule.metric].value(state);
+    const event = (kind: AlarmEvent['kind']) =>
+      events.push({ time, ruleId: rule.id, kind, severity: rule.severity, message: rule.message, value });
+    const guarded = !rule.guard || holds(rule.guard, state);
+
+    if (tracker.active) {
+      // Stays raised until the metric recovers past the hysteresis band
+      if (rule.enabled && guarded && holds(rule, state, rule.hysteresis)) {
+        next[rule.id] = tracker;
+      } else {
+        event('CLEARED');
+        next[rule.id] = IDLE_TRACKER;
+      }
+      continue;
+    }
+    if (!rule.enabled || !guarded || !holds(rule, state)) {
+      next[rule.id] = IDLE_TRACKER;
+      continue;
+    }
+    const pendingSince = tracker.pendingSince ?? time;
+    if (time - pendingSince >= rule.duration) {
+      event('RAISED');
+      next[rule.id] = { pendingSince, active: true, raisedAt: time };
+    } else {
+      next[rule.id] = { ...tracker, pendingSince };
+    }
+  }
+  return { trackers: next, events };
+};
+
+// Rules currently raised, most severe first
+export const activeAlarms = (rules: AlarmRule[], trackers: Record<string, AlarmTracker>): AlarmRule[] =>
+  rules
+    .filter(rule => trackers[rule.id]?.active)
+    .sort((a, b) => ALARM_SEVERITIES.indexOf(b.severity) - ALARM_SEVERITIES.indexOf(a.severity));
+
+const parseCondition = (value: unknown, label: string): AlarmCondition => {
+  if (typeof value !== 'object' || value === null) throw new Error(`${label} must be an object`);
+  const { metric, comparator, threshold } = value as Record<string, unknown>;
+  if (typeof metric !== 'string' || !(metric in ALARM_METRICS)) throw new Error(`${label} has an unknown metric: ${metric}`);
+  if (comparator !== '>' && comparator !== '<') throw new Error(`${label} comparator must be ">" or "<"`);
+  if (typeof threshold !== 'number' || !Number.isFinite(threshold)) throw new Error(`${label} threshold must be a number`);
+  return { metric: metric as AlarmMetric, comparator, threshold };
+};
+
+// Validates alarm rules read from a file or link
+export const parseAlarmRules = (value: unknown): AlarmRule[] => {
+  if (!Array.isArray(value)) throw new Error('Alarm rules must be an array');
+  const ids = new Set<string>();
+  return value.map((entry, index) => {
+    const label = `Alarm rule ${index + 1}`;
+    const data = (entry ?? {}) as Record<string, unknown>;
+    if (typeof data.id !== 'string' || !data.id) throw new Error(`${label} needs an id`);
+    if (ids.has(data.id)) throw new Error(`Duplicate alarm rule id: ${data.id}`);
+    ids.add(data.id);
+    const nonNegative = (name: 'duration' | 'hysteresis'): number => {
+      const entry = data[name] ?? 0;
+      if (typeof entry !== 'number' || !Number.isFinite(entry) || entry < 0) throw new Error(`${label} ${name} must be a non-negative number`);
+      return entry;
+    };
+    if (!ALARM_SEVERITIES.includes(data.severity as AlarmSeverity)) throw new Error(`${label} has an unknown severity: ${data.severity}`);
+    return {
+      id: data.id,
+      enabled: data.enabled !== false,
+      ...parseCondition(entry, label),
+      duration: nonNegative('duration'),
+      hysteresis: nonNegative('hysteresis'),
+      severity: data.severity as AlarmSeverity,
+      message: typeof data.message === 'string' ? data.message : '',
+      ...(data.guard !== undefined ? { guard: parseCondition(data.guard, `${label} guard`) } : {}),
+    };
+  });
+};
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { EnvironmentInputs, TelemetryLog } from '../types';
+import { computeLeafState } from '../physics/leafPhysics';
+import { DEFAULT_MODEL_PARAMETERS, withParameter } from '../physics/modelParameters';
+import { calibrate, calibrationSamples, predictPoint, preparePoints } from './calibration';
+
+const base: EnvironmentInputs = {
+  gravityFactor: 1,
+  airVelocity: 0.5,
+  ambientCO2: 400,
+  ambientO2: 21,
+  ambientTemperature: 24,
+  relativeHumidity: 60,
+  ppfd: 600,
+  ledMix: { white: 1 },
+};
+
+// A CO2 response curve "measured" on a leaf with a lower Vcmax than the default
+const TRUE_VCMAX = 40;
+const truth = withParameter(DEFAULT_MODEL_PARAMETERS, 'photosynthesis.vcmax25', TRUE_VCMAX);
+const curve: TelemetryLog = {
+  name: 'aci.csv',
+  columns: { CO2_r: 'ambientCO2', A: 'co2Flux' },
+  samples: [150, 300, 600, 1000].map((ambientCO2, i) => ({
+    time: i * 300,
+    inputs: { ambientCO2 },
+    measured: { co2Flux: computeLeafState({ ...base, ambientCO2 }, undefined, truth).co2Flux },
+  })),
+};
+
+describe('calibrationSamples', () => {
+  it('carries recorded inputs forward and thins to the point limit', () => {
+    const log: TelemetryLog = {
+      name: 'log',
+      columns: {},
+      samples: [
+        { time: 0, inputs: { ambientCO2: 800 }, measured: {} },
+        ...Array.from({ length: 10 }, (_, i) => ({ time: i + 1, inputs: {}, measured: { co2Flux: i } })),
+      ],
+    };
+    const samples = calibrationSamples(log, base, 4);
+    expect(samples).toHaveLength(4);
+    expect(samples[0].inputs.ambientCO2).toBe(800);
+    expect(samples[0].measured.co2Flux).toBe(0);
+    expect(samples[3].measured.co2Flux).toBe(9);
+  });
+});
+
+describe('predictPoint', () => {
+  it('reproduces the full steady-state solve at the point it was prepared from', () => {
+    const [point] = preparePoints(calibrationSamples(curve, base).slice(1, 2), DEFAULT_MODEL_PARAMETERS);
+    const full = computeLeafState(point.inputs);
+    const surrogate = predictPoint(point, DEFAULT_MODEL_PARAMETERS);
+    expect(surrogate.co2Flux).toBeCloseTo(full.co2Flux, 0);
+    expect(surrogate.temperature).toBeCloseTo(full.temperature, 1);
+    expect(surrogate.stomatalConductance).toBeCloseTo(full.stomatalConductance, 2);
+  });
+});
+
+describe('calibrate', () => {
+  const result = calibrate({ log: curve, baseInputs: base, parameters: DEFAULT_MODEL_PARAMETERS, keys: ['photosynthesis.vcmax25'] });
+  const [vcmax] = result.fitted;
+
+  it('recovers Vcmax from a CO2 response curve', () => {
+    expect(vcmax.initial).toBe(60);
+    expect(vcmax.value).toBeGreaterThan(TRUE_VCMAX * 0.93);
+    expect(vcmax.value).toBeLessThan(TRUE_VCMAX * 1.07);
+    expect(result.parameters.photosynthesis.vcmax25).toBe(vcmax.value);
+    expect(result.parameters.photosynthesis.jmax25).toBe(DEFAULT_MODEL_PARAMETERS.photosynthesis.jmax25);
+  });
+
+  it('reports confidence and goodness of fit', () => {
+    expect(result.objective).toBeLessThan(result.initialObjective);
+    expect(vcmax.lower).toBeLessThanOrEqual(vcmax.value);
+    expect(vcmax.upper).toBeGreaterThanOrEqual(vcmax.value);
+    expect(vcmax.atBound).toBe(false);
+    const [co2] = result.fields;
+    expect(co2.field).toBe('co2Flux');
+    expect(co2.n).toBe(4);
+    expect(co2.rSquared).toBeGreaterThan(0.95);
+  });
+
+  it('rejects unknown parameters and logs without measurements', () => {
+    expect(() => calibrate({ log: curve, baseInputs: base, parameters: DEFAULT_MODEL_PARAMETERS, keys: ['grid.nx'] })).toThrow(
+      /cannot be fitted/
+    );
+    const empty = { ...curve, samples: curve.samples.map(sample => ({ ...sample, measured: {} })) };
+    expect(() =>
+      calibrate({ log: empty, baseInputs: base, parameters: DEFAULT_MODEL_PARAMETERS, keys: ['photosynthesis.vcmax25'] })
+    ).toThrow(/no measured values/);
+  });
+});
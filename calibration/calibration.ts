@@ -0,0 +1,269 @@
+import { EnvironmentInputs, MeasuredField, TelemetryLog } from '../types';
+import { computeLeafState, solveLumpedLeaf } from '../physics/leafPhysics';
+import { FITTABLE_PARAMETERS, FittableParameter, getParameter, ModelParameters, withParameter } from '../physics/modelParameters';
+import { nelderMead } from './nelderMead';
+
+// Calibration: fits selected model parameters to an imported gas-exchange log by least squares.
+//
+// Each measured sample is treated as a steady state of the environment recorded with it
+// (as in an LI-COR response curve). The full FDM boundary-layer solve is too slow to sit
+// inside the optimiser, so every sample is reduced to its CO2 boundary-layer conductance,
+// taken from one full solve; the objective then runs the energy balance and FvCB/Medlyn
+// against that conductance. The conductances are refreshed from the fitted parameters and
+// the fit repeated, and the final goodness-of-fit uses the refreshed values.
+
+export const MAX_CALIBRATION_POINTS = 40;
+const FIT_PASSES = 2;
+const Z_95 = 1.96;
+
+export interface CalibrationPoint {
+  time: number; // s
+  inputs: EnvironmentInputs;
+  measured: Partial<Record<MeasuredField, number>>;
+  co2Conductance: number; // Boundary-layer conductance to CO2, mol/m2/s (from the full solve)
+}
+
+export interface CalibrationRequest {
+  log: TelemetryLog;
+  baseInputs: EnvironmentInputs; // Environment for inputs the log does not record
+  parameters: ModelParameters; // Starting point; parameters not fitted keep these values
+  keys: string[]; // Dotted keys from FITTABLE_PARAMETERS
+  maxIterations?: number; // Per pass
+  maxPoints?: number;
+}
+
+export interface FittedParameter {
+  key: string;
+  label: string;
+  unit: string;
+  initial: number;
+  value: number;
+  standardError: number; // NaN when the parameter is not identifiable from the data
+  lower: number; // 95% confidence interval
+  upper: number;
+  atBound: boolean;
+}
+
+export interface FieldFit {
+  field: MeasuredField;
+  n: number;
+  rmse: number; // Model units
+  rSquared: number;
+}
+
+export interface CalibrationResult {
+  parameters: ModelParameters;
+  fitted: FittedParameter[];
+  fields: FieldFit[];
+  points: number;
+  initialObjective: number; // Sum of squared scaled residuals
+  objective: number;
+  iterations: number;
+  converged: boolean;
+}
+
+export interface CalibrationProgress {
+  pass: number;
+  passes: number;
+  iteration: number;
+  objective: number;
+}
+
+type Prediction = Record<MeasuredField, number>;
+
+const MEASURED_FIELDS: MeasuredField[] = ['co2Flux', 'h2oFlux', 'temperature', 'stomatalConductance'];
+
+// Samples with measurements, each with the full environment in effect at its time
+// (recorded inputs carry forward, as in the telemetry replay), evenly thinned to `maxPoints`
+export const calibrationSamples = (
+  log: TelemetryLog,
+  baseInputs: EnvironmentInputs,
+  maxPoints = MAX_CALIBRATION_POINTS
+): Omit<CalibrationPoint, 'co2Conductance'>[] => {
+  let inputs = baseInputs;
+  const samples = log.samples.flatMap(sample => {
+    inputs = { ...inputs, ...sample.inputs };
+    return Object.keys(sample.measured).length ? [{ time: sample.time, inputs, measured: sample.measured }] : [];
+  });
+  if (samples.length <= maxPoints) return samples;
+  return Array.from({ length: maxPoints }, (_, i) => samples[Math.round((i * (samples.length - 1)) / (maxPoints - 1))]);
+};
+
+// CO2 conductance of the boundary layer, from the full coupled solve
+const boundaryLayerCO2Conductance = (inputs: EnvironmentInputs, params: ModelParameters): number => {
+  const state = computeLeafState(inputs, undefined, params);
+  const drawdown = inputs.ambientCO2 - state.surfaceCO2;
+  // In the dark, or with no gradient, the layer does not limit the flux
+  return Math.abs(drawdown) > 1e-3 && state.co2Flux / drawdown > 0 ? state.co2Flux / drawdown : Infinity;
+};
+
+export const preparePoints = (
+  samples: Omit<CalibrationPoint, 'co2Conductance'>[],
+  params: ModelParameters
+): CalibrationPoint[] => samples.map(sample => ({ ...sample, co2Conductance: boundaryLayerCO2Conductance(sample.inputs, params) }));
+
+// Steady-state leaf response at one point, with the boundary layer held at its conductance
+export const predictPoint = (point: CalibrationPoint, params: ModelParameters): Prediction => {
+  const { energy, exchange } = solveLumpedLeaf(point.inputs, point.co2Conductance, params.leafLength, params);
+  return {
+    co2Flux: exchange.netAssimilation,
+    h2oFlux: energy.transpiration * 1000,
+    temperature: energy.temperature,
+    stomatalConductance: exchange.stomatalConductance,
+  };
+};
+
+// Fields are weighted by the spread of their measurements, so no unit dominates
+const fieldScales = (points: CalibrationPoint[]): Partial<Record<MeasuredField, number>> =>
+  Object.fromEntries(
+    MEASURED_FIELDS.flatMap(field => {
+      const values = points.flatMap(point => (point.measured[field] === undefined ? [] : [point.measured[field]!]));
+      if (!values.length) return [];
+      const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+      const spread = Math.sqrt(values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length);
+      return [[field, spread > 1e-9 ? spread : Math.max(Math.abs(mean), 1)]];
+    })
+  );
+
+const scaledResiduals = (
+  points: CalibrationPoint[],
+  params: ModelParameters,
+  scales: Partial<Record<MeasuredField, number>>
+): number[] =>
+  points.flatMap(point => {
+    const predicted = predictPoint(point, params);
+    return (Object.keys(point.measured) as MeasuredField[]).map(
+      field => (point.measured[field]! - predicted[field]) / scales[field]!
+    );
+  });
+
+const sumOfSquares = (values: number[]): number => values.reduce((sum, v) => sum + v * v, 0);
+
+// Gauss–Jordan inverse of a small symmetric matrix; null when singular
+const invert = (matrix: number[][]): number[][] | null => {
+  const n = matrix.length;
+  const a = matrix.map((row, i) => [...row, ...row.map((_, j) => (i === j ? 1 : 0))]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    if (Math.abs(a[pivot][col]) < 1e-12) return null;
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    const divisor = a[col][col];
+    a[col] = a[col].map(v => v / divisor);
+    for (let row = 0; row < n; row++) {
+      if (row === col) continue;
+      const factor = a[row][col];
+      a[row] = a[row].map((v, j) => v - factor * a[col][j]);
+    }
+  }
+  return a.map(row => row.slice(n));
+};
+
+// Standard errors from the linearised covariance s²(JᵀJ)⁻¹, Jacobian by central differences
+const standardErrors = (
+  points: CalibrationPoint[],
+  params: ModelParameters,
+  specs: FittableParameter[],
+  scales: Partial<Record<MeasuredField, number>>
+): number[] => {
+  const residuals = scaledResiduals(points, params, scales);
+  const dof = residuals.length - specs.length;
+  if (dof <= 0) return specs.map(() => NaN);
+
+  const columns = specs.map(spec => {
+    const value = getParameter(params, spec.key);
+    const h = 1e-4 * (spec.max - spec.min);
+    const up = scaledResiduals(points, withParameter(params, spec.key, value + h), scales);
+    const down = scaledResiduals(points, withParameter(params, spec.key, value - h), scales);
+    return up.map((r, i) => (r - down[i]) / (2 * h));
+  });
+  const normal = columns.map(a => columns.map(b => a.reduce((sum, v, i) => sum + v * b[i], 0)));
+  const inverse = invert(normal);
+  const variance = sumOfSquares(residuals) / dof;
+  return specs.map((_, i) => (inverse && inverse[i][i] > 0 ? Math.sqrt(variance * inverse[i][i]) : NaN));
+};
+
+const fieldFits = (points: CalibrationPoint[], params: ModelParameters): FieldFit[] => {
+  const predictions = points.map(point => predictPoint(point, params));
+  return MEASURED_FIELDS.flatMap(field => {
+    const pairs = points.flatMap((point, i) =>
+      point.measured[field] === undefined ? [] : [{ measured: point.measured[field]!, predicted: predictions[i][field] }]
+    );
+    if (!pairs.length) return [];
+    const mean = pairs.reduce((sum, p) => sum + p.measured, 0) / pairs.length;
+    const residual = pairs.reduce((sum, p) => sum + (p.measured - p.predicted) ** 2, 0);
+    const total = pairs.reduce((sum, p) => sum + (p.measured - mean) ** 2, 0);
+    return [{ field, n: pairs.length, rmse: Math.sqrt(residual / pairs.length), rSquared: total > 0 ? 1 - residual / total : NaN }];
+  });
+};
+
+export const calibrate = (
+  { log, baseInputs, parameters, keys, maxIterations = 150, maxPoints = MAX_CALIBRATION_POINTS }: CalibrationRequest,
+  onProgress?: (progress: CalibrationProgress) => void
+): CalibrationResult => {
+  const specs = keys.map(key => {
+    const spec = FITTABLE_PARAMETERS.find(candidate => candidate.key === key);
+    if (!spec) throw new Error(`Parameter cannot be fitted: ${key}`);
+    return spec;
+  });
+  if (!specs.length) throw new Error('Select at least one parameter to fit');
+  const samples = calibrationSamples(log, baseInputs, maxPoints);
+  if (!samples.length) throw new Error('The telemetry has no measured values to fit');
+
+  // The optimiser works on each parameter scaled to 0-1 over its allowed range, clamped at the bounds
+  const toParameters = (unit: number[]) =>
+    specs.reduce((params, spec, i) => {
+      const clamped = Math.min(Math.max(unit[i], 0), 1);
+      return withParameter(params, spec.key, spec.min + clamped * (spec.max - spec.min));
+    }, parameters);
+  const toUnit = (params: ModelParameters) =>
+    specs.map(spec => (getParameter(params, spec.key) - spec.min) / (spec.max - spec.min));
+
+  let points = preparePoints(samples, parameters);
+  const scales = fieldScales(points);
+  const initialObjective = sumOfSquares(scaledResiduals(points, parameters, scales));
+
+  let fitted = parameters;
+  let iterations = 0;
+  let converged = false;
+  let objective = initialObjective;
+  for (let pass = 1; pass <= FIT_PASSES; pass++) {
+    if (pass > 1) points = preparePoints(samples, fitted);
+    const result = nelderMead(unit => sumOfSquares(scaledResiduals(points, toParameters(unit), scales)), toUnit(fitted), {
+      initialStep: 0.05,
+      maxIterations,
+      tolerance: 1e-10,
+      onIteration: (iteration, _, value) => onProgress?.({ pass, passes: FIT_PASSES, iteration, objective: value }),
+    });
+    fitted = toParameters(result.point);
+    iterations += result.iterations;
+    converged = result.converged;
+    objective = result.value;
+  }
+
+  const errors = standardErrors(points, fitted, specs, scales);
+  return {
+    parameters: fitted,
+    fitted: specs.map((spec, i) => {
+      const value = getParameter(fitted, spec.key);
+      const span = spec.max - spec.min;
+      return {
+        key: spec.key,
+        label: spec.label,
+        unit: spec.unit,
+        initial: getParameter(parameters, spec.key),
+        value,
+        standardError: errors[i],
+        lower: value - Z_95 * errors[i],
+        upper: value + Z_95 * errors[i],
+        atBound: value - spec.min < 1e-6 * span || spec.max - value < 1e-6 * span,
+      };
+    }),
+    fields: fieldFits(points, fitted),
+    points: points.length,
+    initialObjective,
+    objective,
+    iterations,
+    converged,
+  };
+};
@@ -0,0 +1,5 @@
+import { calibrate } from './calibration';
+import { serveTask } from '../workers/workerTask';
+
+// Runs a calibration off the main thread so the simulation keeps running during the fit
+serveTask(calibrate);
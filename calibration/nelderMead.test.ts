@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { nelderMead } from './nelderMead';
+
+describe('nelderMead', () => {
+  it('finds the minimum of a quadratic bowl', () => {
+    const result = nelderMead(([x, y]) => (x - 3) ** 2 + 2 * (y + 1) ** 2, [0, 0], { initialStep: 1, tolerance: 1e-14 });
+    expect(result.converged).toBe(true);
+    expect(result.point[0]).toBeCloseTo(3, 3);
+    expect(result.point[1]).toBeCloseTo(-1, 3);
+  });
+
+  it('follows the curved valley of the Rosenbrock function', () => {
+    const rosenbrock = ([x, y]: number[]) => (1 - x) ** 2 + 100 * (y - x * x) ** 2;
+    const result = nelderMead(rosenbrock, [-1.2, 1], { initialStep: 0.5, maxIterations: 1000, tolerance: 1e-16 });
+    expect(result.point[0]).toBeCloseTo(1, 2);
+    expect(result.point[1]).toBeCloseTo(1, 2);
+  });
+
+  it('stops at the iteration limit and reports progress', () => {
+    const seen: number[] = [];
+    const result = nelderMead(([x]) => x * x, [10], { maxIterations: 5, onIteration: (_, __, value) => seen.push(value) });
+    expect(result.iterations).toBe(5);
+    expect(result.converged).toBe(false);
+    expect(seen).toHaveLength(5);
+    expect(seen[4]).toBeLessThanOrEqual(seen[0]);
+  });
+
+  it('treats non-finite objective values as worse than any finite one', () => {
+    const result = nelderMead(([x]) => (x < 0 ? NaN : (x - 2) ** 2), [1], { initialStep: 0.5 });
+    expect(result.point[0]).toBeCloseTo(2, 3);
+  });
+});
@@ -0,0 +1,76 @@
+// Nelder–Mead simplex minimiser (standard reflection / expansion / contraction / shrink coefficients).
+// Derivative-free, so it copes with the piecewise FvCB limitation switches.
+
+export interface NelderMeadOptions {
+  initialStep?: number | number[]; // Simplex edge along each axis
+  maxIterations?: number;
+  tolerance?: number; // Stop when the objective spread across the simplex falls below this
+  onIteration?: (iteration: number, best: number[], value: number) => void;
+}
+
+export interface NelderMeadResult {
+  point: number[];
+  value: number;
+  iterations: number;
+  converged: boolean;
+}
+
+const REFLECTION = 1;
+const EXPANSION = 2;
+const CONTRACTION = 0.5;
+const SHRINK = 0.5;
+
+// x + scale * (y - x)
+const towards = (x: number[], y: number[], scale: number): number[] => x.map((value, i) => value + scale * (y[i] - value));
+
+export const nelderMead = (
+  objective: (point: number[]) => number,
+  start: number[],
+  { initialStep = 0.1, maxIterations = 200, tolerance = 1e-8, onIteration }: NelderMeadOptions = {}
+): NelderMeadResult => {
+  const n = start.length;
+  const steps = Array.isArray(initialStep) ? initialStep : start.map(() => initialStep);
+  const evaluate = (point: number[]) => {
+    const value = objective(point);
+    return { point, value: Number.isFinite(value) ? value : Infinity };
+  };
+
+  let simplex = [evaluate(start)];
+  for (let i = 0; i < n; i++) simplex.push(evaluate(start.map((value, j) => (i === j ? value + steps[i] : value))));
+
+  let iteration = 0;
+  let converged = false;
+  while (iteration < maxIterations) {
+    simplex.sort((a, b) => a.value - b.value);
+    const best = simplex[0];
+    const worst = simplex[n];
+    if (worst.value - best.value <= tolerance) {
+      converged = true;
+      break;
+    }
+    iteration++;
+
+    const centroid = start.map((_, j) => simplex.slice(0, n).reduce((sum, vertex) => sum + vertex.point[j], 0) / n);
+    const reflected = evaluate(towards(centroid, worst.point, -REFLECTION));
+
+    if (reflected.value < best.value) {
+      const expanded = evaluate(towards(centroid, worst.point, -EXPANSION));
+      simplex[n] = expanded.value < reflected.value ? expanded : reflected;
+    } else if (reflected.value < simplex[n - 1].value) {
+      simplex[n] = reflected;
+    } else {
+      // Contract towards the better of the worst point and its reflection
+      const outside = reflected.value < worst.value;
+      const contracted = evaluate(towards(centroid, outside ? reflected.point : worst.point, CONTRACTION));
+      if (contracted.value < Math.min(worst.value, reflected.value)) simplex[n] = contracted;
+      else simplex = simplex.map((vertex, i) => (i === 0 ? vertex : evaluate(towards(best.point, vertex.point, SHRINK))));
+    }
+    if (onIteration) {
+      const leader = simplex.reduce((a, b) => (b.value < a.value ? b : a));
+      onIteration(iteration, leader.point, leader.value);
+    }
+  }
+
+  simplex.sort((a, b) => a.value - b.value);
+  return { point: simplex[0].point, value: simplex[0].value, iterations: iteration, converged };
+};
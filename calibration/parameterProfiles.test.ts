@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_MODEL_PARAMETERS, withParameter } from '../physics/modelParameters';
+import {
+  createProfile,
+  deleteProfile,
+  loadProfiles,
+  parseProfile,
+  profileParameters,
+  profileToJson,
+  PROFILE_STORAGE_KEY,
+  saveProfile,
+} from './parameterProfiles';
+
+const memoryStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => void items.set(key, value),
+  };
+};
+
+const fitted = withParameter(DEFAULT_MODEL_PARAMETERS, 'photosynthesis.vcmax25', 42);
+
+describe('parameter profiles', () => {
+  it('round-trip a parameter set', () => {
+    const profile = createProfile('  Lettuce ', fitted, 'aci.csv');
+    expect(profile.name).toBe('Lettuce');
+    expect(profile.source).toBe('aci.csv');
+    expect(profileParameters(profile)).toEqual(fitted);
+    expect(profileParameters(parseProfile(JSON.parse(profileToJson(profile))))).toEqual(fitted);
+  });
+
+  it('fill parameters missing from older profiles with defaults', () => {
+    const profile = parseProfile({ name: 'old', parameters: { 'photosynthesis.vcmax25': 42, unknown: 1 } });
+    expect(profileParameters(profile)).toEqual(fitted);
+  });
+
+  it('reject malformed profiles', () => {
+    expect(() => parseProfile([])).toThrow(/name/);
+    expect(() => parseProfile({ name: 'x' })).toThrow(/parameters/);
+    expect(() => parseProfile({ name: 'x', parameters: { g1: 'four' } })).toThrow(/"g1" must be a number/);
+  });
+
+  it('are saved by name, replaced and deleted', () => {
+    const storage = memoryStorage();
+    saveProfile(createProfile('Wheat', DEFAULT_MODEL_PARAMETERS), storage);
+    saveProfile(createProfile('Lettuce', DEFAULT_MODEL_PARAMETERS), storage);
+    const profiles = saveProfile(createProfile('Wheat', fitted), storage);
+    expect(profiles.map(profile => profile.name)).toEqual(['Lettuce', 'Wheat']);
+    expect(profileParameters(loadProfiles(storage)[1])).toEqual(fitted);
+    expect(deleteProfile('Lettuce', storage).map(profile => profile.name)).toEqual(['Wheat']);
+  });
+
+  it('ignore unreadable storage', () => {
+    const storage = memoryStorage();
+    storage.setItem(PROFILE_STORAGE_KEY, '{not json');
+    expect(loadProfiles(storage)).toEqual([]);
+    storage.setItem(PROFILE_STORAGE_KEY, JSON.stringify([{ name: 'ok', parameters: {} }, { bad: true }]));
+    expect(loadProfiles(storage).map(profile => profile.name)).toEqual(['ok']);
+  });
+});
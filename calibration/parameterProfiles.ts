@@ -0,0 +1,59 @@
+import { DEFAULT_MODEL_PARAMETERS, flattenParameters, ModelParameters, parametersFromFlat } from '../physics/modelParameters';
+import { MODEL_NAME, MODEL_VERSION } from '../constants';
+import { deleteNamed, loadNamed, NamedStorage, saveNamed } from '../persistence/namedStore';
+
+// Named model parameter sets, kept in the browser's localStorage and exchangeable as JSON files
+
+export const PROFILE_STORAGE_KEY = 'astrobotany.parameterProfiles';
+
+export interface ParameterProfile {
+  name: string;
+  savedAt: string; // ISO 8601
+  model: string;
+  version: string;
+  source?: string; // e.g. the telemetry file a calibration was fitted to
+  parameters: Record<string, number>; // Dotted keys, as flattenParameters
+}
+
+export const createProfile = (name: string, params: ModelParameters, source?: string): ParameterProfile => ({
+  name: name.trim(),
+  savedAt: new Date().toISOString(),
+  model: MODEL_NAME,
+  version: MODEL_VERSION,
+  ...(source ? { source } : {}),
+  parameters: flattenParameters(params),
+});
+
+// Missing keys take their default values, so profiles survive new parameters being added
+export const profileParameters = (profile: ParameterProfile): ModelParameters =>
+  parametersFromFlat(profile.parameters, DEFAULT_MODEL_PARAMETERS);
+
+export const parseProfile = (data: unknown): ParameterProfile => {
+  const profile = data as Partial<ParameterProfile> | null;
+  if (!profile || typeof profile !== 'object') throw new Error('Profile must be a JSON object');
+  if (typeof profile.name !== 'string' || !profile.name.trim()) throw new Error('Profile needs a "name"');
+  if (!profile.parameters || typeof profile.parameters !== 'object') throw new Error('Profile needs "parameters"');
+  for (const [key, value] of Object.entries(profile.parameters)) {
+    if (typeof value !== 'number' || !Number.isFinite(value)) throw new Error(`Parameter "${key}" must be a number`);
+  }
+  return {
+    name: profile.name.trim(),
+    savedAt: typeof profile.savedAt === 'string' ? profile.savedAt : new Date().toISOString(),
+    model: typeof profile.model === 'string' ? profile.model : MODEL_NAME,
+    version: typeof profile.version === 'string' ? profile.version : MODEL_VERSION,
+    ...(typeof profile.source === 'string' ? { source: profile.source } : {}),
+    parameters: profile.parameters,
+  };
+};
+
+export const profileToJson = (profile: ParameterProfile): string => JSON.stringify(profile, null, 2);
+
+export const loadProfiles = (storage?: NamedStorage): ParameterProfile[] =>
+  loadNamed(PROFILE_STORAGE_KEY, parseProfile, storage);
+
+// Saving under an existing name replaces that profile. Returns the updated list.
+export const saveProfile = (profile: ParameterProfile, storage?: NamedStorage): ParameterProfile[] =>
+  saveNamed(PROFILE_STORAGE_KEY, parseProfile, profile, storage);
+
+export const deleteProfile = (name: string, storage?: NamedStorage): ParameterProfile[] =>
+  deleteNamed(PROFILE_STORAGE_KEY, parseProfile, name, storage);
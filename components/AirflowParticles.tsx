@@ -0,0 +1,80 @@
+import React, { useEffect, useMemo } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { AirflowParticleSettings, SimulationState, SpeciesProfile } from '../types';
+import { advanceParticles, airflowConditions, createParticleSystem, trailSegmentIndices, writeParticleColors } from './particleTracer';
+
+interface AirflowParticlesProps {
+  simulationState: SimulationState;
+  settings: AirflowParticleSettings;
+  species: SpeciesProfile; // Leaf size, outline and gravity response: the blade the particles flow around
+}
+
+// Longest frame replayed in one step (e.g. after a hidden tab), s
+const MAX_FRAME_TIME = 0.1;
+
+const dynamicAttribute = (array: Float32Array) => new THREE.BufferAttribute(array, 3).setUsage(THREE.DynamicDrawUsage);
+
+// Particles carried by the air around the leaf, with fading trails.
+// Rendered in leaf-local space (as a child of the leaf mesh), like ConcentrationSlice.
+const AirflowParticles: React.FC<AirflowParticlesProps> = ({ simulationState, settings, species }) => {
+  const { count, trailLength, colorBy } = settings;
+  const conditions = useMemo(() => airflowConditions(simulationState, species), [simulationState, species]);
+
+  // Trails share the system's position buffer; the heads are copied out as points
+  const { system, heads, trails } = useMemo(() => {
+    const system = createParticleSystem(count, trailLength);
+    const trails = new THREE.BufferGeometry();
+    trails.setAttribute('position', dynamicAttribute(system.trails));
+    trails.setAttribute('color', dynamicAttribute(new Float32Array(system.trails.length)));
+    trails.setIndex(new THREE.BufferAttribute(trailSegmentIndices(count, system.trailLength), 1));
+    const heads = new THREE.BufferGeometry();
+    heads.setAttribute('position', dynamicAttribute(new Float32Array(count * 3)));
+    heads.setAttribute('color', dynamicAttribute(new Float32Array(count * 3)));
+    return { system, heads, trails };
+  }, [count, trailLength]);
+
+  useEffect(
+    () => () => {
+      heads.dispose();
+      trails.dispose();
+    },
+    [heads, trails]
+  );
+
+  useFrame((_, delta) => {
+    advanceParticles(system, conditions, Math.min(delta, MAX_FRAME_TIME));
+    const trailColors = trails.attributes.color.array as Float32Array;
+    writeParticleColors(system, trailColors, colorBy, conditions, simulationState);
+
+    const headPositions = heads.attributes.position.array as Float32Array;
+    const headColors = heads.attributes.color.array as Float32Array;
+    for (let p = 0; p < system.count; p++) {
+      const base = p * system.trailLength * 3;
+      for (let c = 0; c < 3; c++) {
+        headPositions[p * 3 + c] = system.trails[base + c];
+        headColors[p * 3 + c] = trailColors[base + c];
+      }
+    }
+    for (const geometry of [heads, trails]) {
+      geometry.attributes.position.needsUpdate = true;
+      geometry.attributes.color.needsUpdate = true;
+    }
+  });
+
+  return (
+    <group>
+      {/* Particles roam the whole traced volume: skip the culling against the initial bounds */}
+      <points geometry={heads} frustumCulled={false}>
+        <pointsMaterial size={0.06} vertexColors transparent blending={THREE.AdditiveBlending} depthWrite={false} />
+      </points>
+      {system.trailLength > 1 && (
+        <lineSegments geometry={trails} frustumCulled={false}>
+          <lineBasicMaterial vertexColors transparent opacity={0.7} blending={THREE.AdditiveBlending} depthWrite={false} />
+        </lineSegments>
+      )}
+    </group>
+  );
+};
+
+export default AirflowParticles;
@@ -0,0 +1,214 @@
+import React, { useState } from 'react';
+import { AlarmCondition, AlarmMetric, AlarmRule, AlarmSeverity } from '../types';
+import { ALARM_SEVERITY_CLASSES, DEFAULT_ALARM_RULES } from '../constants';
+import { SimulationClock } from '../hooks/useSimulationClock';
+import { ALARM_METRICS, ALARM_SEVERITIES } from '../alarms/alarmRules';
+
+interface AlarmPanelProps {
+  clock: SimulationClock;
+}
+
+const METRICS = Object.keys(ALARM_METRICS) as AlarmMetric[];
+
+const selectClass = 'bg-space-700 text-gray-300 font-mono text-[10px] rounded px-1 py-0.5 border border-space-600';
+const numberClass = `${selectClass} w-14`;
+
+const formatTime = (time: number): string => {
+  const h = Math.floor(time / 3600);
+  const m = Math.floor((time % 3600) / 60);
+  const s = Math.floor(time % 60);
+  return `T+${h}:${String(m).padStart(2, '0')}:${String(s).padStart(2, '0')}`;
+};
+
+// Guard given to a rule when one is switched on in the editor
+const NEW_GUARD: AlarmCondition = { metric: 'light', comparator: '>', threshold: 0 };
+
+// Metric, comparator and threshold of a rule or of its guard
+const ConditionFields: React.FC<{ condition: AlarmCondition; onChange: (changes: Partial<AlarmCondition>) => void }> = ({
+  condition,
+  onChange,
+}) => (
+  <>
+    <select value={condition.metric} onChange={(e) => onChange({ metric: e.target.value as AlarmMetric })} className={selectClass}>
+      {METRICS.map(metric => (
+        <option key={metric} value={metric}>
+          {ALARM_METRICS[metric].label}
+        </option>
+      ))}
+    </select>
+    <select
+      value={condition.comparator}
+      onChange={(e) => onChange({ comparator: e.target.value as AlarmCondition['comparator'] })}
+      className={selectClass}
+    >
+      <option value=">">&gt;</option>
+      <option value="<">&lt;</option>
+    </select>
+    <input
+      type="number"
+      value={condition.threshold}
+      onChange={(e) => onChange({ threshold: Number(e.target.value) })}
+      className={numberClass}
+    />
+    <span>{ALARM_METRICS[condition.metric].unit}</span>
+  </>
+);
+
+// Next free id for a new rule
+const newRuleId = (rules: AlarmRule[]): string => {
+  let n = rules.length + 1;
+  while (rules.some(rule => rule.id === `rule-${n}`)) n += 1;
+  return `rule-${n}`;
+};
+
+// Alarm event log and rule editor; rules are evaluated on configuration A every tick
+const AlarmPanel: React.FC<AlarmPanelProps> = ({ clock }) => {
+  const { alarmRules, alarmLog, activeAlarms } = clock;
+  const [editing, setEditing] = useState(false);
+
+  const updateRule = (id: string, changes: Partial<AlarmRule>) =>
+    clock.setAlarmRules(alarmRules.map(rule => (rule.id === id ? { ...rule, ...changes } : rule)));
+  const addRule = () =>
+    clock.setAlarmRules([
+      ...alarmRules,
+      {
+        id: newRuleId(alarmRules),
+        enabled: true,
+        metric: 'temperature',
+        comparator: '>',
+        threshold: 30,
+        duration: 0,
+        hysteresis: 0,
+        severity: 'WARNING',
+        message: 'Leaf temperature high',
+      },
+    ]);
+
+  return (
+    <div className="bg-space-800 border border-space-700 px-6 py-4 rounded-lg shadow-xl backdrop-blur-sm bg-opacity-90 font-mono text-xs">
+      <div className="flex justify-between items-center">
+        <span className="text-sci-cyan text-sm uppercase tracking-wider">Alarms</span>
+        <div className="flex gap-2 items-center">
+          <span className={activeAlarms.length ? ALARM_SEVERITY_CLASSES[activeAlarms[0].severity] : 'text-gray-500'}>
+            {activeAlarms.length} ACTIVE
+          </span>
+          <button
+            onClick={() => setEditing(!editing)}
+            className={`px-3 py-1 rounded text-xs transition-all duration-300 ${
+              editing ? 'bg-sci-cyan text-space-900' : 'bg-space-700 text-gray-400 hover:bg-space-600'
+            }`}
+          >
+            RULES
+          </button>
+        </div>
+      </div>
+
+      {editing && (
+        <div className="mt-3 space-y-2">
+          {alarmRules.map(rule => (
+            <div key={rule.id} className="p-2 bg-space-900 rounded border border-space-700 space-y-1">
+              <div className="flex items-center gap-1">
+                <input type="checkbox" checked={rule.enabled} onChange={(e) => updateRule(rule.id, { enabled: e.target.checked })} />
+                <input
+                  value={rule.message}
+                  onChange={(e) => updateRule(rule.id, { message: e.target.value })}
+                  className={`${selectClass} flex-1`}
+                />
+                <button
+                  onClick={() => clock.setAlarmRules(alarmRules.filter(other => other.id !== rule.id))}
+                  className="px-1 text-gray-500 hover:text-sci-alert"
+                  title="Delete rule"
+                >
+                  ×
+                </button>
+              </div>
+              <div className="flex flex-wrap items-center gap-1 text-[10px] text-gray-400">
+                <ConditionFields condition={rule} onChange={(changes) => updateRule(rule.id, changes)} />
+                <select
+                  value={rule.severity}
+                  onChange={(e) => updateRule(rule.id, { severity: e.target.value as AlarmSeverity })}
+                  className={`${selectClass} ${ALARM_SEVERITY_CLASSES[rule.severity]}`}
+                >
+                  {ALARM_SEVERITIES.map(severity => (
+                    <option key={severity} value={severity}>
+                      {severity}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex flex-wrap items-center gap-1 text-[10px] text-gray-400">
+                FOR
+                <input
+                  type="number"
+                  min={0}
+                  value={rule.duration}
+                  onChange={(e) => updateRule(rule.id, { duration: Math.max(Number(e.target.value), 0) })}
+                  className={numberClass}
+                />
+                s · CLEAR ±
+                <input
+                  type="number"
+                  min={0}
+                  step={0.1}
+                  value={rule.hysteresis}
+                  onChange={(e) => updateRule(rule.id, { hysteresis: Math.max(Number(e.target.value), 0) })}
+                  className={numberClass}
+                />
+              </div>
+              <div className="flex flex-wrap items-center gap-1 text-[10px] text-gray-400">
+                <label className="flex items-center gap-1" title="Only evaluate the rule while this holds">
+                  <input
+                    type="checkbox"
+                    checked={!!rule.guard}
+                    onChange={(e) => updateRule(rule.id, { guard: e.target.checked ? NEW_GUARD : undefined })}
+                  />
+                  WHEN
+                </label>
+                {rule.guard && (
+                  <ConditionFields
+                    condition={rule.guard}
+                    onChange={(changes) => rule.guard && updateRule(rule.id, { guard: { ...rule.guard, ...changes } })}
+                  />
+                )}
+              </div>
+            </div>
+          ))}
+          <div className="flex gap-2">
+            <button onClick={addRule} className="flex-1 py-1 rounded text-[10px] bg-space-700 text-gray-400 hover:bg-space-600">
+              + ADD RULE
+            </button>
+            <button
+              onClick={() => clock.setAlarmRules(DEFAULT_ALARM_RULES)}
+              className="flex-1 py-1 rounded text-[10px] bg-space-700 text-gray-400 hover:bg-space-600"
+            >
+              DEFAULTS
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="flex justify-between items-center mt-3 text-[10px] text-gray-500">
+        <span>EVENT LOG</span>
+        {alarmLog.length > 0 && (
+          <button onClick={clock.clearAlarmLog} className="hover:text-white">
+            CLEAR
+          </button>
+        )}
+      </div>
+      <div className="mt-1 max-h-40 overflow-y-auto text-[10px] space-y-0.5">
+        {alarmLog.length === 0 && <div className="text-gray-600">No alarms since T+0</div>}
+        {[...alarmLog].reverse().map((event, i) => (
+          <div key={`${event.time}-${event.ruleId}-${i}`} className="grid grid-cols-[4.5rem_3.5rem_1fr] gap-1">
+            <span className="text-gray-500">{formatTime(event.time)}</span>
+            <span className={event.kind === 'RAISED' ? ALARM_SEVERITY_CLASSES[event.severity] : 'text-sci-green'}>{event.kind}</span>
+            <span className="text-gray-300 truncate" title={`${event.message} (${event.value.toFixed(2)})`}>
+              {event.message}
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default AlarmPanel;
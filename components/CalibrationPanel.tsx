@@ -0,0 +1,250 @@
+import React, { useRef, useState } from 'react';
+import { EnvironmentInputs, TelemetryLog } from '../types';
+import { DEFAULT_MODEL_PARAMETERS, FITTABLE_PARAMETERS, ModelParameters } from '../physics/modelParameters';
+import { useCalibration } from '../hooks/useCalibration';
+import { MEASURED_FIELD_LABELS } from '../telemetry/validation';
+import {
+  createProfile,
+  deleteProfile,
+  loadProfiles,
+  parseProfile,
+  ParameterProfile,
+  profileParameters,
+  profileToJson,
+  saveProfile,
+} from '../calibration/parameterProfiles';
+import { downloadText } from '../recording/download';
+
+interface CalibrationPanelProps {
+  telemetry: TelemetryLog | null;
+  baseInputs: EnvironmentInputs; // Environment for inputs the telemetry does not record
+  parameters: ModelParameters;
+  profile: string | null; // Name of the active parameter set, null for the defaults
+  onApply: (parameters: ModelParameters, profile: string | null) => void;
+}
+
+const DEFAULT_FIT_KEYS = ['photosynthesis.vcmax25', 'photosynthesis.jmax25'];
+
+const formatValue = (value: number): string => (Number.isFinite(value) ? value.toPrecision(3) : '—');
+
+// Parameter profiles, plus fitting parameters to the imported telemetry
+const CalibrationPanel: React.FC<CalibrationPanelProps> = ({ telemetry, baseInputs, parameters, profile, onApply }) => {
+  const calibration = useCalibration();
+  const [keys, setKeys] = useState<string[]>(DEFAULT_FIT_KEYS);
+  const [profiles, setProfiles] = useState<ParameterProfile[]>(() => loadProfiles());
+  const [name, setName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const { result, progress } = calibration;
+
+  const toggleKey = (key: string) =>
+    setKeys(prev => (prev.includes(key) ? prev.filter(k => k !== key) : [...prev, key]));
+
+  const startFit = () => {
+    if (!telemetry) return;
+    calibration.start({ log: telemetry, baseInputs, parameters, keys });
+  };
+
+  const applyFit = () => {
+    if (!result || !telemetry) return;
+    onApply(result.parameters, `Fit: ${telemetry.name}`);
+    setName(`${telemetry.name.replace(/\.[^.]+$/, '')} fit`);
+  };
+
+  const handleSave = () => {
+    if (!name.trim()) return;
+    const saved = createProfile(name, parameters, profile?.startsWith('Fit: ') ? profile.slice(5) : undefined);
+    setProfiles(saveProfile(saved));
+    onApply(parameters, saved.name);
+    setError(null);
+  };
+
+  const handleSelect = (selected: string) => {
+    const match = profiles.find(p => p.name === selected);
+    if (match) onApply(profileParameters(match), match.name);
+    else onApply(DEFAULT_MODEL_PARAMETERS, null);
+    setName(match?.name ?? '');
+  };
+
+  const handleExport = () => {
+    const exported = createProfile(profile ?? 'Defaults', parameters);
+    downloadText(`astrobotany-parameters-${exported.name.replace(/[^\w-]+/g, '_')}.json`, profileToJson(exported), 'application/json');
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const imported = parseProfile(JSON.parse(await file.text()));
+      setProfiles(saveProfile(imported));
+      onApply(profileParameters(imported), imported.name);
+      setName(imported.name);
+      setError(null);
+    } catch (err) {
+      setError(`${file.name}: ${err instanceof Error ? err.message : 'could not be read'}`);
+    } finally {
+      if (fileInput.current) fileInput.current.value = '';
+    }
+  };
+
+  const isSaved = profile !== null && profiles.some(p => p.name === profile);
+
+  return (
+    <div className="bg-space-800 border border-space-700 p-6 rounded-lg shadow-xl backdrop-blur-sm bg-opacity-90">
+      <h3 className="text-sci-cyan font-mono text-sm mb-4 border-b border-space-700 pb-2 uppercase tracking-wider">
+        Model Parameters
+      </h3>
+
+      <label className="text-gray-400 text-xs font-mono mb-2 block">PARAMETER PROFILE</label>
+      <div className="flex gap-2">
+        <select
+          value={profile ?? ''}
+          onChange={(e) => handleSelect(e.target.value)}
+          className="flex-1 min-w-0 bg-space-700 text-gray-300 font-mono text-xs rounded px-2 py-2 border border-space-600"
+        >
+          <option value="">Defaults</option>
+          {profiles.map((p) => (
+            <option key={p.name} value={p.name}>{p.name}</option>
+          ))}
+          {profile && !isSaved && <option value={profile}>{profile} (unsaved)</option>}
+        </select>
+        <button
+          onClick={() => fileInput.current?.click()}
+          className="px-2 py-2 rounded font-mono text-xs bg-space-700 text-gray-400 hover:bg-space-600 transition-all duration-300"
+        >
+          IMPORT
+        </button>
+        <button
+          onClick={handleExport}
+          className="px-2 py-2 rounded font-mono text-xs bg-space-700 text-gray-400 hover:bg-space-600 transition-all duration-300"
+        >
+          EXPORT
+        </button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => handleFile(e.target.files?.[0])}
+        />
+      </div>
+      <div className="flex gap-2 mt-2">
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Profile name"
+          className="flex-1 min-w-0 bg-space-700 text-gray-300 font-mono text-xs rounded px-2 py-1 border border-space-600"
+        />
+        <button
+          onClick={handleSave}
+          disabled={!name.trim()}
+          className="px-3 py-1 rounded font-mono text-xs bg-space-700 text-gray-300 hover:bg-space-600 disabled:opacity-40 transition-all duration-300"
+        >
+          SAVE
+        </button>
+        {isSaved && (
+          <button
+            onClick={() => {
+              setProfiles(deleteProfile(profile!));
+              onApply(parameters, null);
+            }}
+            className="px-3 py-1 rounded font-mono text-xs bg-space-700 text-gray-500 hover:bg-space-600 transition-all duration-300"
+          >
+            DELETE
+          </button>
+        )}
+      </div>
+      {error && <div className="text-[9px] text-sci-alert font-mono mt-1">⚠️ {error}</div>}
+
+      {telemetry && (
+        <div className="mt-6 font-mono text-xs">
+          <label className="text-gray-400 text-xs mb-2 block">CALIBRATE TO {telemetry.name}</label>
+          <div className="grid grid-cols-2 gap-x-2 gap-y-1 mb-3">
+            {FITTABLE_PARAMETERS.map((spec) => (
+              <label key={spec.key} className="flex items-center gap-1 text-[10px] text-gray-300 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={keys.includes(spec.key)}
+                  onChange={() => toggleKey(spec.key)}
+                  disabled={calibration.running}
+                  className="accent-sci-cyan"
+                />
+                {spec.label}
+              </label>
+            ))}
+          </div>
+          <button
+            onClick={calibration.running ? calibration.cancel : startFit}
+            disabled={!calibration.running && !keys.length}
+            className={`w-full py-1 rounded text-xs transition-all duration-300 disabled:opacity-40 ${
+              calibration.running ? 'bg-space-700 text-yellow-500' : 'bg-sci-cyan text-space-900'
+            }`}
+          >
+            {calibration.running ? 'CANCEL FIT' : `FIT ${keys.length} PARAMETER${keys.length === 1 ? '' : 'S'}`}
+          </button>
+          {calibration.running && (
+            <div className="text-[9px] text-gray-500 mt-1">
+              {progress
+                ? `Pass ${progress.pass}/${progress.passes} · iteration ${progress.iteration} · SSR ${progress.objective.toPrecision(4)}`
+                : 'Solving the boundary layer at each sample…'}
+            </div>
+          )}
+          {calibration.error && <div className="text-[9px] text-sci-alert mt-1">⚠️ {calibration.error}</div>}
+
+          {result && (
+            <div className="mt-3 pt-3 border-t border-space-700">
+              <div className="grid grid-cols-4 gap-1 text-gray-500 mb-1">
+                <span className="col-span-2">PARAMETER</span>
+                <span className="text-right">FIT</span>
+                <span className="text-right">±95%</span>
+              </div>
+              {result.fitted.map((item) => (
+                <div
+                  key={item.key}
+                  className="grid grid-cols-4 gap-1"
+                  title={`Was ${formatValue(item.initial)} ${item.unit}; 95% CI ${formatValue(item.lower)} – ${formatValue(item.upper)}`}
+                >
+                  <span className="col-span-2 text-gray-300">{item.label}</span>
+                  <span className={`text-right ${item.atBound ? 'text-yellow-500' : 'text-white'}`}>{formatValue(item.value)}</span>
+                  <span className="text-right">{formatValue(1.96 * item.standardError)}</span>
+                </div>
+              ))}
+              <div className="grid grid-cols-4 gap-1 text-gray-500 mt-2 mb-1">
+                <span className="col-span-2">SERIES</span>
+                <span className="text-right">RMSE</span>
+                <span className="text-right">R²</span>
+              </div>
+              {result.fields.map((item) => (
+                <div key={item.field} className="grid grid-cols-4 gap-1">
+                  <span className="col-span-2 text-gray-300">{MEASURED_FIELD_LABELS[item.field].label}</span>
+                  <span className="text-right text-white">{formatValue(item.rmse)}</span>
+                  <span className="text-right">{formatValue(item.rSquared)}</span>
+                </div>
+              ))}
+              <div className="text-[9px] text-gray-500 mt-1">
+                {result.points} samples · {result.iterations} iterations{result.converged ? '' : ' (limit reached)'} · SSR{' '}
+                {result.initialObjective.toPrecision(3)} → {result.objective.toPrecision(3)}
+                {result.fitted.some(item => item.atBound) && ' · yellow: at the allowed range limit'}
+              </div>
+              <div className="flex gap-2 mt-2">
+                <button
+                  onClick={applyFit}
+                  className="flex-1 py-1 rounded text-xs bg-sci-green text-space-900 transition-all duration-300"
+                >
+                  APPLY
+                </button>
+                <button
+                  onClick={calibration.clear}
+                  className="px-3 py-1 rounded text-xs bg-space-700 text-gray-500 hover:bg-space-600 transition-all duration-300"
+                >
+                  DISCARD
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CalibrationPanel;
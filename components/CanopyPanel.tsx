@@ -0,0 +1,88 @@
+import React from 'react';
+import { RosetteSettings } from '../types';
+import { DEFAULT_ROSETTE } from '../constants';
+import { MAX_ROSETTE_LEAVES } from '../physics/canopy';
+
+interface CanopyPanelProps {
+  rosette: RosetteSettings | null; // null: single leaf
+  onChange: (rosette: RosetteSettings | null) => void;
+}
+
+const SLIDERS: { key: 'leafCount' | 'phyllotaxisAngle' | 'petioleLength'; label: string; min: number; max: number; step: number; unit: string }[] = [
+  { key: 'leafCount', label: 'LEAVES', min: 1, max: MAX_ROSETTE_LEAVES, step: 1, unit: '' },
+  { key: 'phyllotaxisAngle', label: 'PHYLLOTAXIS', min: 90, max: 180, step: 0.5, unit: '°' },
+  { key: 'petioleLength', label: 'PETIOLE', min: 0, max: 30, step: 1, unit: 'mm' },
+];
+
+const FIELDS: { key: 'leafLength' | 'leafWidth' | 'inclination'; label: string; min: number; max: number; unit: string }[] = [
+  { key: 'leafLength', label: 'BLADE', min: 1, max: 200, unit: 'mm' },
+  { key: 'leafWidth', label: 'WIDTH', min: 1, max: 200, unit: 'mm' },
+  { key: 'inclination', label: 'TILT', min: 0, max: 85, unit: '°' },
+];
+
+const inputClass = 'w-12 bg-space-700 text-gray-300 font-mono text-xs rounded px-1 py-1 border border-space-600';
+
+// Canopy mode: an Arabidopsis rosette around configuration A, solved leaf by leaf
+// with shading by younger leaves and the wakes of upstream ones
+const CanopyPanel: React.FC<CanopyPanelProps> = ({ rosette, onChange }) => {
+  const update = (changes: Partial<RosetteSettings>) => onChange({ ...(rosette ?? DEFAULT_ROSETTE), ...changes });
+
+  return (
+    <div className="bg-space-800 border border-space-700 px-6 py-4 rounded-lg shadow-xl backdrop-blur-sm bg-opacity-90 font-mono text-xs">
+      <div className="flex justify-between items-center">
+        <span className="text-sci-cyan text-sm uppercase tracking-wider">Canopy</span>
+        <button
+          onClick={() => onChange(rosette ? null : DEFAULT_ROSETTE)}
+          className={`px-3 py-1 rounded text-xs transition-all duration-300 ${
+            rosette ? 'bg-sci-cyan text-space-900' : 'bg-space-700 text-gray-400 hover:bg-space-600'
+          }`}
+        >
+          {rosette ? 'ROSETTE' : 'SINGLE LEAF'}
+        </button>
+      </div>
+      {rosette && (
+        <>
+          <div className="grid grid-cols-[5.5rem_1fr_3rem] gap-x-2 gap-y-1 items-center mt-3 text-[10px]">
+            {SLIDERS.map(({ key, label, min, max, step, unit }) => (
+              <React.Fragment key={key}>
+                <span className="text-gray-400">{label}</span>
+                <input
+                  type="range"
+                  min={min}
+                  max={max}
+                  step={step}
+                  value={rosette[key]}
+                  onChange={(e) => update({ [key]: parseFloat(e.target.value) })}
+                  className="w-full h-1 bg-space-700 rounded appearance-none accent-white"
+                />
+                <span className="text-right text-gray-300">
+                  {rosette[key]}
+                  {unit}
+                </span>
+              </React.Fragment>
+            ))}
+          </div>
+          <div className="flex justify-between items-center gap-2 mt-2 text-[10px] text-gray-400">
+            {FIELDS.map(({ key, label, min, max, unit }) => (
+              <label key={key} className="flex items-center gap-1">
+                {label}
+                <input
+                  type="number"
+                  min={min}
+                  max={max}
+                  value={rosette[key]}
+                  onChange={(e) => update({ [key]: Math.min(Math.max(Number(e.target.value), min), max) })}
+                  className={inputClass}
+                />
+                {unit}
+              </label>
+            ))}
+          </div>
+          <div className="text-[9px] text-gray-500 mt-2">Sizes of the oldest leaf, drawn with the species outline · airflow along +x, left to right in the view</div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CanopyPanel;
@@ -0,0 +1,156 @@
+import React from 'react';
+import { ComposedChart, Area, Line, XAxis, YAxis, Tooltip, ResponsiveContainer, CartesianGrid, ReferenceLine } from 'recharts';
+import { ChamberController, ChamberSettings } from '../types';
+import { DEFAULT_CHAMBER } from '../constants';
+import { SimulationClock } from '../hooks/useSimulationClock';
+import { totalLeafArea } from '../physics/chamber';
+
+interface ChamberPanelProps {
+  clock: SimulationClock;
+}
+
+type NumericSetting = Exclude<keyof ChamberSettings, 'controller' | 'pidGains'>;
+
+const CONTROLLERS: { id: ChamberController; label: string }[] = [
+  { id: 'ON_OFF', label: 'ON/OFF' },
+  { id: 'PID', label: 'PID' },
+];
+
+const inputClass = 'w-16 bg-space-700 text-gray-300 font-mono text-xs rounded px-1 py-1 border border-space-600';
+
+interface FieldProps {
+  label: string;
+  unit: string;
+  value: number;
+  step: number;
+  min?: number;
+  onChange: (value: number) => void;
+}
+
+const Field: React.FC<FieldProps> = ({ label, unit, value, step, min = 0, onChange }) => (
+  <label className="flex items-center justify-between gap-1">
+    <span>{label}</span>
+    <span className="flex items-center gap-1">
+      <input
+        type="number"
+        min={min}
+        step={step}
+        value={value}
+        onChange={(e) => onChange(Math.max(Number(e.target.value), min))}
+        className={inputClass}
+      />
+      <span className="w-8 text-gray-500">{unit}</span>
+    </span>
+  </label>
+);
+
+// Sealed growth chamber: the leaves draw its CO2 down against the makeup controller,
+// the scrubber and the leak to the cabin. Configuration B runs its own chamber with the same settings.
+const ChamberPanel: React.FC<ChamberPanelProps> = ({ clock }) => {
+  const { chamber, state, history } = clock;
+  // Edits keep the controller running; only sealing or opening the chamber resets it
+  const update = (changes: Partial<ChamberSettings>) => clock.updateChamber({ ...(chamber ?? DEFAULT_CHAMBER), ...changes });
+  const field = (key: NumericSetting, label: string, unit: string, step: number, min = 0) =>
+    chamber && (
+      <Field label={label} unit={unit} value={chamber[key]} step={step} min={min} onChange={(value) => update({ [key]: value })} />
+    );
+
+  return (
+    <div className="bg-space-800 border border-space-700 px-6 py-4 rounded-lg shadow-xl backdrop-blur-sm bg-opacity-90 font-mono text-xs">
+      <div className="flex justify-between items-center">
+        <span className="text-sci-cyan text-sm uppercase tracking-wider">Growth Chamber</span>
+        <button
+          onClick={() => clock.setChamber(chamber ? null : DEFAULT_CHAMBER)}
+          className={`px-3 py-1 rounded text-xs transition-all duration-300 ${
+            chamber ? 'bg-sci-cyan text-space-900' : 'bg-space-700 text-gray-400 hover:bg-space-600'
+          }`}
+        >
+          {chamber ? 'SEALED' : 'OPEN'}
+        </button>
+      </div>
+      {chamber && (
+        <>
+          <div className="grid grid-cols-2 gap-x-4 gap-y-1 mt-3 text-[10px] text-gray-400">
+            {field('volume', 'VOLUME', 'm³', 0.05, 0.01)}
+            {field('leakRate', 'LEAK', 'ACH', 0.05)}
+            {field('leafCount', 'LEAVES', '', 1)}
+            {field('leafArea', 'AREA', 'cm²', 1)}
+            {field('cabinCO2', 'CABIN', 'ppm', 50)}
+            {field('cabinO2', 'CABIN O2', '%', 0.1)}
+          </div>
+
+          <div className="flex gap-2 mt-3">
+            {CONTROLLERS.map(({ id, label }) => (
+              <button
+                key={id}
+                onClick={() => update({ controller: id })}
+                className={`flex-1 py-1 rounded text-xs transition-all duration-300 ${
+                  chamber.controller === id ? 'bg-sci-cyan text-space-900' : 'bg-space-700 text-gray-400 hover:bg-space-600'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <div className="grid grid-cols-2 gap-x-4 gap-y-1 mt-3 text-[10px] text-gray-400">
+            {field('co2Setpoint', 'SETPOINT', 'ppm', 10)}
+            {field('maxInjection', 'MAX INJ', 'µmol/s', 0.5)}
+            {chamber.controller === 'ON_OFF' ? (
+              field('hysteresis', 'BAND', 'ppm', 5)
+            ) : (
+              (['kp', 'ki', 'kd'] as const).map((gain) => (
+                <Field
+                  key={gain}
+                  label={gain.toUpperCase()}
+                  unit=""
+                  value={chamber.pidGains[gain]}
+                  step={gain === 'ki' ? 0.0001 : 0.01}
+                  onChange={(value) => update({ pidGains: { ...chamber.pidGains, [gain]: value } })}
+                />
+              ))
+            )}
+            {field('scrubberSetpoint', 'SCRUB >', 'ppm', 50)}
+            {field('scrubberRate', 'SCRUB', 'µmol/s', 0.5)}
+          </div>
+
+          <div className="flex justify-between mt-3 text-[10px]">
+            <span className="text-sci-green">CO2 {state.ambientCO2.toFixed(0)} ppm</span>
+            <span className="text-sci-cyan">O2 {state.ambientO2.toFixed(2)} %</span>
+            <span className={state.co2Injection > 0 ? 'text-yellow-200' : 'text-gray-500'}>
+              INJ {state.co2Injection.toFixed(2)}
+            </span>
+            <span className={state.co2Scrubbing > 0 ? 'text-sci-alert' : 'text-gray-500'}>SCRUB {state.co2Scrubbing.toFixed(2)}</span>
+          </div>
+          <div className="text-[9px] text-gray-500 mt-1 text-right">
+            Leaves {(state.co2Flux * totalLeafArea(chamber)).toFixed(2)} µmol/s CO2 uptake over {totalLeafArea(chamber).toFixed(2)} m²
+          </div>
+
+          <div className="h-32 w-full mt-2">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={history}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#1f2544" vertical={false} />
+                <XAxis dataKey="time" type="number" domain={['dataMin', 'dataMax']} hide />
+                <YAxis yAxisId="co2" stroke="#64748b" fontSize={9} width={30} domain={['auto', 'auto']} tickFormatter={(val) => Math.round(val).toString()} />
+                <YAxis yAxisId="rate" orientation="right" stroke="#fef08a" fontSize={9} width={25} tickFormatter={(val) => val.toFixed(1)} />
+                <Tooltip
+                  contentStyle={{ backgroundColor: 'rgba(11, 13, 23, 0.9)', borderColor: '#1f2544', color: '#fff', fontSize: '12px' }}
+                  itemStyle={{ fontFamily: 'monospace' }}
+                  formatter={(value) => Number(value).toFixed(2)}
+                  labelFormatter={(time) => `t = ${Number(time).toFixed(1)} s`}
+                  labelStyle={{ color: '#9ca3af', fontSize: '10px' }}
+                />
+                <ReferenceLine yAxisId="co2" y={chamber.co2Setpoint} stroke="#fef08a" strokeDasharray="4 2" />
+                <Area yAxisId="rate" type="stepAfter" dataKey="co2Injection" name="Injection" stroke="#fef08a" fill="#fef08a" fillOpacity={0.15} isAnimationActive={false} />
+                <Line yAxisId="co2" type="monotone" dataKey="ambientCO2" name="Chamber CO2" stroke="#00ff9d" strokeWidth={2} dot={false} isAnimationActive={false} />
+                {/* The leaf sees the chamber air through its boundary layer */}
+                <Line yAxisId="co2" type="monotone" dataKey="surfaceCO2" name="Leaf surface CO2" stroke="#00f0ff" strokeWidth={1.5} strokeDasharray="4 2" dot={false} isAnimationActive={false} />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ChamberPanel;
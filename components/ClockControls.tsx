@@ -0,0 +1,63 @@
+import React from 'react';
+import { SimulationClock } from '../hooks/useSimulationClock';
+import { SIMULATION_SPEEDS } from '../constants';
+import RunExport from './RunExport';
+
+interface ClockControlsProps {
+  clock: SimulationClock;
+  parameterProfile: string | null;
+}
+
+// Simulated time as T+hh:mm:ss
+const formatSimulationTime = (seconds: number): string => {
+  const total = Math.floor(seconds);
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return `T+${pad(Math.floor(total / 3600))}:${pad(Math.floor(total / 60) % 60)}:${pad(total % 60)}`;
+};
+
+const ClockControls: React.FC<ClockControlsProps> = ({ clock, parameterProfile }) => {
+  return (
+    <div className="bg-space-800 border border-space-700 px-6 py-4 rounded-lg shadow-xl backdrop-blur-sm bg-opacity-90">
+      <div className="flex justify-between items-center mb-3">
+        <span className="text-sci-cyan font-mono text-sm uppercase tracking-wider">Mission Clock</span>
+        <span className={`font-mono text-sm ${clock.running ? 'text-white' : 'text-yellow-500'}`}>
+          {formatSimulationTime(clock.time)}
+          {!clock.running && ' ❚❚'}
+        </span>
+      </div>
+
+      <div className="flex gap-2">
+        <button
+          onClick={clock.running ? clock.pause : clock.play}
+          className="flex-1 py-1 rounded font-mono text-xs bg-space-700 text-white hover:bg-space-600 transition-all duration-300"
+        >
+          {clock.running ? '❚❚ PAUSE' : '▶ PLAY'}
+        </button>
+        <button
+          onClick={clock.step}
+          disabled={clock.running}
+          className="flex-1 py-1 rounded font-mono text-xs bg-space-700 text-gray-300 hover:bg-space-600 disabled:opacity-40 disabled:cursor-not-allowed transition-all duration-300"
+        >
+          STEP {clock.speed}s
+        </button>
+        {SIMULATION_SPEEDS.map((speed) => (
+          <button
+            key={speed}
+            onClick={() => clock.setSpeed(speed)}
+            className={`px-2 py-1 rounded font-mono text-xs transition-all duration-300 ${
+              clock.speed === speed
+                ? 'bg-sci-cyan text-space-900 shadow-[0_0_10px_rgba(0,240,255,0.3)]'
+                : 'bg-space-700 text-gray-400 hover:bg-space-600'
+            }`}
+          >
+            {speed}x
+          </button>
+        ))}
+      </div>
+
+      <RunExport clock={clock} parameterProfile={parameterProfile} />
+    </div>
+  );
+};
+
+export default ClockControls;
@@ -0,0 +1,64 @@
+import React from 'react';
+import { GravityMode } from '../types';
+import { GRAVITY_PRESETS } from '../constants';
+import { SimulationClock } from '../hooks/useSimulationClock';
+
+export type ComparisonLane = 'A' | 'B';
+
+interface ComparisonControlsProps {
+  clock: SimulationClock;
+  editing: ComparisonLane;
+  onEdit: (lane: ComparisonLane) => void;
+}
+
+// Comparison mode: runs a second configuration (B) next to the current one (A).
+// B starts as a copy of A in the other gravity regime: microgravity, or Earth if A is already in orbit.
+const ComparisonControls: React.FC<ComparisonControlsProps> = ({ clock, editing, onEdit }) => {
+  const start = () => {
+    const target = clock.state.gravityMode === GravityMode.MICRO_UG ? GravityMode.EARTH_1G : GravityMode.MICRO_UG;
+    const preset = GRAVITY_PRESETS.find(p => p.mode === target)!;
+    clock.startComparison({ gravityMode: preset.mode, gravityFactor: preset.gravityFactor });
+    onEdit('B');
+  };
+
+  const stop = () => {
+    clock.stopComparison();
+    onEdit('A');
+  };
+
+  return (
+    <div className="bg-space-800 border border-space-700 px-6 py-4 rounded-lg shadow-xl backdrop-blur-sm bg-opacity-90 font-mono text-xs">
+      <div className="flex justify-between items-center">
+        <span className="text-sci-cyan text-sm uppercase tracking-wider">Compare A | B</span>
+        <button
+          onClick={clock.comparison ? stop : start}
+          className={`px-3 py-1 rounded text-xs transition-all duration-300 ${
+            clock.comparison ? 'bg-sci-cyan text-space-900' : 'bg-space-700 text-gray-400 hover:bg-space-600'
+          }`}
+        >
+          {clock.comparison ? 'ON' : 'OFF'}
+        </button>
+      </div>
+      {clock.comparison && (
+        <div className="flex gap-2 items-center mt-3">
+          <span className="text-gray-400 text-[10px]">CONTROLS EDIT</span>
+          {(['A', 'B'] as ComparisonLane[]).map((lane) => (
+            <button
+              key={lane}
+              onClick={() => onEdit(lane)}
+              className={`flex-1 py-1 rounded text-xs transition-all duration-300 ${
+                editing === lane
+                  ? 'bg-sci-cyan text-space-900 shadow-[0_0_10px_rgba(0,240,255,0.3)]'
+                  : 'bg-space-700 text-gray-400 hover:bg-space-600'
+              }`}
+            >
+              {lane}: {(lane === 'A' ? clock.state : clock.comparison!).gravityMode}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ComparisonControls;
@@ -0,0 +1,51 @@
+import React, { useMemo } from 'react';
+import * as THREE from 'three';
+import { GAS_FIELD_COLORMAP, GAS_SLICE_FRAGMENT_SHADER, GAS_SLICE_VERTEX_SHADER, LEAF_MESH_LENGTH } from '../constants';
+import { GasField } from '../physics/boundaryLayerSolver';
+import { LeafFace } from '../types';
+import { LEAF_LENGTH } from '../physics/physicalConstants';
+
+interface ConcentrationSliceProps {
+  field: GasField;
+  texture: THREE.DataTexture;
+  face?: LeafFace; // The abaxial field is drawn below the leaf
+}
+
+// Scene units per metre of leaf
+const UNITS_PER_METRE = LEAF_MESH_LENGTH / LEAF_LENGTH;
+
+// Vertical cut-plane through the FDM domain along the midrib.
+// Rendered in leaf-local space: leaf base at y = -LEAF_MESH_LENGTH / 2, adaxial normal along +z.
+const ConcentrationSlice: React.FC<ConcentrationSliceProps> = ({ field, texture, face = 'adaxial' }) => {
+  const { nx, ny, dx, dy, leafStart } = field.grid;
+  const length = nx * dx * UNITS_PER_METRE;
+  const height = ny * dy * UNITS_PER_METRE;
+  const start = -LEAF_MESH_LENGTH / 2 - leafStart * dx * UNITS_PER_METRE;
+  const side = face === 'adaxial' ? 1 : -1;
+
+  const uniforms = useMemo(
+    () => ({
+      uGasField: { value: texture },
+      uColorStops: { value: GAS_FIELD_COLORMAP.map(c => new THREE.Color(c)) },
+      uOpacity: { value: 0.85 },
+    }),
+    [texture]
+  );
+
+  return (
+    // Plane x -> leaf y (along the flow), plane y -> away from the face
+    <mesh position={[0, start + length / 2, (side * height) / 2]} rotation={[Math.PI / 2, Math.PI / 2, 0]} scale={[1, side, 1]}>
+      <planeGeometry args={[length, height]} />
+      <shaderMaterial
+        vertexShader={GAS_SLICE_VERTEX_SHADER}
+        fragmentShader={GAS_SLICE_FRAGMENT_SHADER}
+        uniforms={uniforms}
+        side={THREE.DoubleSide}
+        transparent={true}
+        depthWrite={false}
+      />
+    </mesh>
+  );
+};
+
+export default ConcentrationSlice;
@@ -0,0 +1,144 @@
+import React, { useRef, useState } from 'react';
+import {
+  configurationToHash,
+  configurationToJson,
+  deleteConfiguration,
+  linkOmitsScenario,
+  loadConfigurations,
+  parseConfiguration,
+  saveConfiguration,
+  SavedConfiguration,
+} from '../persistence/configuration';
+import { downloadText } from '../recording/download';
+
+interface ConfigurationPanelProps {
+  capture: (name: string) => SavedConfiguration; // Current setup
+  onLoad: (config: SavedConfiguration) => void;
+  linkError: string | null; // From a shared link that could not be opened
+}
+
+const buttonClass = 'px-2 py-1 rounded font-mono text-xs bg-space-700 text-gray-300 hover:bg-space-600 disabled:opacity-40 transition-all duration-300';
+
+// Named saves of the whole setup, JSON files and shareable links
+const ConfigurationPanel: React.FC<ConfigurationPanelProps> = ({ capture, onLoad, linkError }) => {
+  const [saves, setSaves] = useState<SavedConfiguration[]>(() => loadConfigurations());
+  const [selected, setSelected] = useState('');
+  const [name, setName] = useState('');
+  const [message, setMessage] = useState<string | null>(linkError ? `⚠️ ${linkError}` : null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const handleSave = () => {
+    if (!name.trim()) return;
+    const config = capture(name);
+    setSaves(saveConfiguration(config));
+    setSelected(config.name);
+    setMessage(`Saved "${config.name}"`);
+  };
+
+  const handleLoad = () => {
+    const config = saves.find(save => save.name === selected);
+    if (!config) return;
+    onLoad(config);
+    setName(config.name);
+    setMessage(`Loaded "${config.name}"`);
+  };
+
+  const handleDelete = () => {
+    setSaves(deleteConfiguration(selected));
+    setSelected('');
+  };
+
+  const handleCopyLink = async () => {
+    const config = capture(name.trim() || 'Shared setup');
+    const url = `${window.location.origin}${window.location.pathname}${configurationToHash(config)}`;
+    const note = linkOmitsScenario(config) ? ' (scenario too long for a link: export JSON to share it)' : '';
+    try {
+      await navigator.clipboard.writeText(url);
+      setMessage(`Link copied${note}`);
+    } catch {
+      window.prompt('Copy this link', url);
+      setMessage(note ? note.trim() : null);
+    }
+  };
+
+  const handleExport = () => {
+    const config = capture(name.trim() || 'Setup');
+    downloadText(`astrobotany-setup-${config.name.replace(/[^\w-]+/g, '_')}.json`, configurationToJson(config), 'application/json');
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const config = parseConfiguration(JSON.parse(await file.text()));
+      setSaves(saveConfiguration(config));
+      setSelected(config.name);
+      setName(config.name);
+      onLoad(config);
+      setMessage(`Imported and loaded "${config.name}"`);
+    } catch (err) {
+      setMessage(`⚠️ ${file.name}: ${err instanceof Error ? err.message : 'could not be read'}`);
+    } finally {
+      if (fileInput.current) fileInput.current.value = '';
+    }
+  };
+
+  return (
+    <div className="bg-space-800 border border-space-700 px-6 py-4 rounded-lg shadow-xl backdrop-blur-sm bg-opacity-90 font-mono text-xs">
+      <div className="flex justify-between items-center mb-3">
+        <span className="text-sci-cyan text-sm uppercase tracking-wider">Saved Setups</span>
+        <button onClick={handleCopyLink} className={buttonClass} title="Link reproducing the current inputs, scenario and parameters">
+          🔗 COPY LINK
+        </button>
+      </div>
+      <div className="flex gap-2">
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Setup name"
+          className="flex-1 min-w-0 bg-space-700 text-gray-300 text-xs rounded px-2 py-1 border border-space-600"
+        />
+        <button onClick={handleSave} disabled={!name.trim()} className={buttonClass}>
+          SAVE
+        </button>
+      </div>
+      <div className="flex gap-2 mt-2">
+        <select
+          value={selected}
+          onChange={(e) => setSelected(e.target.value)}
+          className="flex-1 min-w-0 bg-space-700 text-gray-300 text-xs rounded px-2 py-1 border border-space-600"
+        >
+          <option value="">{saves.length ? 'Select a saved setup' : 'No saved setups'}</option>
+          {saves.map((save) => (
+            <option key={save.name} value={save.name}>{save.name}</option>
+          ))}
+        </select>
+        <button onClick={handleLoad} disabled={!selected} className={buttonClass}>
+          LOAD
+        </button>
+        <button onClick={handleDelete} disabled={!selected} className={`${buttonClass} text-gray-500`}>
+          DELETE
+        </button>
+      </div>
+      <div className="flex gap-2 mt-2">
+        <button onClick={handleExport} className={`flex-1 ${buttonClass}`}>
+          EXPORT JSON
+        </button>
+        <button onClick={() => fileInput.current?.click()} className={`flex-1 ${buttonClass}`}>
+          IMPORT JSON
+        </button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => handleFile(e.target.files?.[0])}
+        />
+      </div>
+      {message && (
+        <div className={`text-[9px] mt-1 ${message.startsWith('⚠️') ? 'text-sci-alert' : 'text-gray-500'}`}>{message}</div>
+      )}
+    </div>
+  );
+};
+
+export default ConfigurationPanel;
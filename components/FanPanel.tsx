@@ -0,0 +1,167 @@
+import React, { useMemo } from 'react';
+import { FanFault, FanSettings } from '../types';
+import { DEFAULT_FAN } from '../constants';
+import { SimulationClock } from '../hooks/useSimulationClock';
+import { canopyTopVelocity, fanRunning, lowAirflow, MIN_LEAF_AIR_VELOCITY, operatingFlow } from '../physics/circulation';
+
+interface FanPanelProps {
+  clock: SimulationClock;
+}
+
+const WIDTH = 240;
+const HEIGHT = 60;
+const CURVE_POINTS = 40;
+
+const FAULTS: { fault: FanFault; label: string }[] = [
+  { fault: FanFault.NONE, label: 'OK' },
+  { fault: FanFault.DEGRADED, label: 'DEGRADED' },
+  { fault: FanFault.INTERMITTENT, label: 'INTERMIT.' },
+  { fault: FanFault.STALL, label: 'STALL' },
+];
+
+const SLIDERS: { key: 'speed' | 'dutyCycle' | 'leafDepth'; label: string }[] = [
+  { key: 'speed', label: 'SPEED' },
+  { key: 'dutyCycle', label: 'DUTY' },
+  { key: 'leafDepth', label: 'LEAF DEPTH' },
+];
+
+const inputClass = 'w-14 bg-space-700 text-gray-300 font-mono text-xs rounded px-1 py-1 border border-space-600';
+
+// Fan and system curves on pressure-flow axes, with the operating point
+const curvePaths = (fan: FanSettings, fault: FanFault) => {
+  const qMax = fan.maxFlow || 1;
+  const pMax = fan.maxPressure || 1;
+  const x = (q: number) => (q / qMax) * WIDTH;
+  const y = (p: number) => HEIGHT - Math.min(p / pMax, 1) * HEIGHT;
+  const path = (pressure: (q: number) => number, flowLimit: number) =>
+    Array.from({ length: CURVE_POINTS + 1 }, (_, i) => {
+      const q = (flowLimit * i) / CURVE_POINTS;
+      return `${i ? 'L' : 'M'}${x(q).toFixed(1)},${y(pressure(q)).toFixed(1)}`;
+    }).join(' ');
+  const resistance = fan.systemResistance * (fault === FanFault.DEGRADED ? fan.degradedResistance : 1);
+  const flow = operatingFlow(fan, fan.speed, resistance);
+  return {
+    fanCurve: path(q => fan.maxPressure * fan.speed ** 2 - (fan.maxPressure / qMax ** 2) * q ** 2, fan.speed * qMax),
+    system: path(q => fan.systemResistance * q ** 2, qMax),
+    degraded: path(q => fan.systemResistance * fan.degradedResistance * q ** 2, qMax),
+    point: { x: x(flow), y: y(resistance * flow ** 2) },
+    flow,
+  };
+};
+
+// Circulation hardware: fan curve, duty cycle and canopy attenuation set the air velocity at the leaf.
+// Faults are injected into configuration A; scenarios schedule them for both.
+const FanPanel: React.FC<FanPanelProps> = ({ clock }) => {
+  const { fan, state, time } = clock;
+  const update = (changes: Partial<FanSettings>) => clock.setFan({ ...(fan ?? DEFAULT_FAN), ...changes });
+  const curves = useMemo(() => fan && curvePaths(fan, state.fanFault), [fan, state.fanFault]);
+  const flagged = lowAirflow(state);
+
+  return (
+    <div className="bg-space-800 border border-space-700 px-6 py-4 rounded-lg shadow-xl backdrop-blur-sm bg-opacity-90 font-mono text-xs">
+      <div className="flex justify-between items-center">
+        <span className="text-sci-cyan text-sm uppercase tracking-wider">Circulation Fan</span>
+        <button
+          onClick={() => clock.setFan(fan ? null : DEFAULT_FAN)}
+          className={`px-3 py-1 rounded text-xs transition-all duration-300 ${
+            fan ? 'bg-sci-cyan text-space-900' : 'bg-space-700 text-gray-400 hover:bg-space-600'
+          }`}
+        >
+          {fan ? 'HARDWARE' : 'UNIFORM'}
+        </button>
+      </div>
+      {fan && curves && (
+        <>
+          <div className="flex gap-2 mt-3">
+            {FAULTS.map(({ fault, label }) => (
+              <button
+                key={fault}
+                onClick={() => clock.setInputs({ fanFault: fault })}
+                className={`flex-1 py-1 rounded text-[10px] transition-all duration-300 ${
+                  state.fanFault === fault
+                    ? fault === FanFault.NONE
+                      ? 'bg-sci-green text-space-900'
+                      : 'bg-sci-alert text-space-900'
+                    : 'bg-space-700 text-gray-400 hover:bg-space-600'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+
+          <svg viewBox={`0 0 ${WIDTH} ${HEIGHT + 10}`} className="w-full mt-3">
+            <path d={curves.fanCurve} fill="none" stroke="#00f0ff" strokeWidth={1.5} />
+            <path d={curves.system} fill="none" stroke="#64748b" strokeWidth={1} />
+            <path d={curves.degraded} fill="none" stroke="#ff4d4d" strokeWidth={1} strokeDasharray="3 2" />
+            <circle cx={curves.point.x} cy={curves.point.y} r={3} fill="#ffffff" />
+            <text x={0} y={HEIGHT + 9} fill="#64748b" fontSize={7}>
+              FLOW →
+            </text>
+            <text x={WIDTH} y={8} fill="#64748b" fontSize={7} textAnchor="end">
+              PRESSURE · FAN / SYSTEM / CLOGGED
+            </text>
+          </svg>
+
+          <div className="grid grid-cols-[4.5rem_1fr_2rem] gap-x-2 gap-y-1 items-center mt-2 text-[10px]">
+            {SLIDERS.map(({ key, label }) => (
+              <React.Fragment key={key}>
+                <span className="text-gray-400">{label}</span>
+                <input
+                  type="range"
+                  min="0"
+                  max="1"
+                  step="0.05"
+                  value={fan[key]}
+                  onChange={(e) => update({ [key]: parseFloat(e.target.value) })}
+                  className="w-full h-1 bg-space-700 rounded appearance-none accent-white"
+                />
+                <span className="text-right text-gray-300">{fan[key].toFixed(2)}</span>
+              </React.Fragment>
+            ))}
+          </div>
+          <div className="flex justify-between items-center gap-2 mt-2 text-[10px] text-gray-400">
+            <label className="flex items-center gap-1">
+              PERIOD
+              <input
+                type="number"
+                min={0}
+                step={30}
+                value={fan.dutyPeriod}
+                onChange={(e) => update({ dutyPeriod: Math.max(Number(e.target.value), 0) })}
+                className={inputClass}
+              />
+              s
+            </label>
+            <label className="flex items-center gap-1">
+              CANOPY a
+              <input
+                type="number"
+                min={0}
+                step={0.1}
+                value={fan.canopyAttenuation}
+                onChange={(e) => update({ canopyAttenuation: Math.max(Number(e.target.value), 0) })}
+                className={inputClass}
+              />
+            </label>
+          </div>
+
+          <div className="flex justify-between mt-3 text-[10px]">
+            <span className={fanRunning(fan, state.fanFault, time) ? 'text-sci-green' : 'text-gray-500'}>
+              {fanRunning(fan, state.fanFault, time) ? 'RUNNING' : 'OFF'} · {(curves.flow * 1000).toFixed(1)} L/s
+            </span>
+            <span className="text-gray-400">TOP {canopyTopVelocity(fan, state.fanFault).toFixed(2)} m/s</span>
+            <span className="text-white">LEAF {state.airVelocity.toFixed(2)} m/s</span>
+          </div>
+        </>
+      )}
+      {flagged && (
+        <div className="text-[9px] text-sci-alert mt-2 italic animate-pulse">
+          ⚠️ LOW AIRFLOW: {state.airVelocity.toFixed(2)} m/s at the leaf, below {MIN_LEAF_AIR_VELOCITY} m/s; the boundary layer builds up
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FanPanel;
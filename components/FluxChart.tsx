@@ -1,50 +1,47 @@
-import React, { useEffect, useState } from 'react';
-import { AreaChart, Area, XAxis, YAxis, Tooltip, ResponsiveContainer, CartesianGrid } from 'recharts';
-import { SimulationState } from '../types';
+import React from 'react';
+import { ComposedChart, Area, Line, Scatter, XAxis, YAxis, Tooltip, ResponsiveContainer, CartesianGrid, ReferenceArea, ReferenceLine } from 'recharts';
+import { TimelineSample } from '../types';
+import { ValidationPoint } from '../telemetry/validation';
 
 interface FluxChartProps {
-  state: SimulationState;
+  history: TimelineSample[];
+  // Imported measurements, drawn as points over the predicted series
+  measuredCO2?: ValidationPoint[];
+  measuredH2O?: ValidationPoint[];
+  // Comparison mode: configuration B on the same clock, drawn dashed
+  comparison?: TimelineSample[];
 }
 
-const FluxChart: React.FC<FluxChartProps> = ({ state }) => {
-  const [history, setHistory] = useState<any[]>([]);
-
-  useEffect(() => {
-    // Generate initial dummy data
-    const initialData = [];
-    for (let i = 0; i < 20; i++) {
-        initialData.push({ time: i, co2: 50, o2: 45 });
+// Spans of the timeline with the lights on; none when the lights never went out
+const lightBands = (history: TimelineSample[]): [number, number][] => {
+  if (!history.some(sample => sample.ppfd <= 0)) return [];
+  const bands: [number, number][] = [];
+  let start: number | null = null;
+  history.forEach((sample, i) => {
+    if (sample.ppfd > 0 && start === null) start = sample.time;
+    const last = i === history.length - 1;
+    if (start !== null && (sample.ppfd <= 0 || last)) {
+      bands.push([start, sample.time]);
+      start = null;
     }
-    setHistory(initialData);
-  }, []);
-
-  useEffect(() => {
-    const interval = setInterval(() => {
-      setHistory(prev => {
-        const now = new Date();
-        const timeLabel = `${now.getHours()}:${now.getMinutes()}:${now.getSeconds()}`;
-        // Add simulated sensor noise
-        const noiseCO2 = (Math.random() - 0.5) * 4;
-        const noiseO2 = (Math.random() - 0.5) * 3;
-        
-        const newPoint = {
-            time: timeLabel,
-            co2: Math.max(0, state.co2Flux + noiseCO2),
-            o2: Math.max(0, state.o2Flux + noiseO2)
-        };
-        
-        const newHistory = [...prev, newPoint];
-        if (newHistory.length > 30) newHistory.shift();
-        return newHistory;
-      });
-    }, 500); // 2Hz update rate
-    return () => clearInterval(interval);
-  }, [state.co2Flux, state.o2Flux]);
+  });
+  return bands;
+};
 
+// Gas exchange along the simulation timeline; fluxes turn negative when the leaf respires in the dark
+const FluxChart: React.FC<FluxChartProps> = ({ history, measuredCO2 = [], measuredH2O = [], comparison = [] }) => {
+  const start = history.length ? history[0].time : 0;
+  const inWindow = (points: ValidationPoint[]) => points.filter(point => point.time >= start);
+  // Both configurations tick together, so their samples share time stamps
+  const byTime = new Map(comparison.map(sample => [sample.time, sample]));
+  const data = comparison.length
+    ? history.map(sample => ({ ...sample, co2FluxB: byTime.get(sample.time)?.co2Flux, h2oFluxB: byTime.get(sample.time)?.h2oFlux }))
+    : history;
+  const bands = lightBands(history);
   return (
     <div className="h-40 w-full mt-2">
       <div className="flex justify-between items-center mb-2 px-2">
-         <span className="text-[10px] text-gray-400 font-mono">GAS EXCHANGE RATES (nmol/cm²/s)</span>
+         <span className="text-[10px] text-gray-400 font-mono">GAS EXCHANGE (µmol | H2O mmol /m²/s)</span>
          <div className="flex gap-3">
              <div className="flex items-center gap-1">
                  <div className="w-2 h-2 rounded-full bg-sci-green"></div>
@@ -54,10 +51,32 @@ const FluxChart: React.FC<FluxChartProps> = ({ state }) => {
                  <div className="w-2 h-2 rounded-full bg-sci-cyan"></div>
                  <span className="text-[10px] text-sci-cyan font-mono">O2 OUT</span>
              </div>
+             <div className="flex items-center gap-1">
+                 <div className="w-2 h-2 rounded-full bg-blue-400"></div>
+                 <span className="text-[10px] text-blue-400 font-mono">H2O OUT</span>
+             </div>
+             {bands.length > 0 && (
+                 <div className="flex items-center gap-1">
+                     <div className="w-2 h-2 bg-yellow-200/30"></div>
+                     <span className="text-[10px] text-yellow-200 font-mono">LIGHT</span>
+                 </div>
+             )}
+             {comparison.length > 0 && (
+                 <div className="flex items-center gap-1">
+                     <div className="w-3 border-t border-dashed border-white"></div>
+                     <span className="text-[10px] text-white font-mono">B</span>
+                 </div>
+             )}
+             {(measuredCO2.length > 0 || measuredH2O.length > 0) && (
+                 <div className="flex items-center gap-1">
+                     <div className="w-2 h-2 rounded-full bg-white"></div>
+                     <span className="text-[10px] text-white font-mono">MEASURED</span>
+                 </div>
+             )}
          </div>
       </div>
       <ResponsiveContainer width="100%" height="100%">
-        <AreaChart data={history}>
+        <ComposedChart data={data}>
           <defs>
             <linearGradient id="colorCo2" x1="0" y1="0" x2="0" y2="1">
               <stop offset="5%" stopColor="#00ff9d" stopOpacity={0.3}/>
@@ -67,18 +86,39 @@ const FluxChart: React.FC<FluxChartProps> = ({ state }) => {
               <stop offset="5%" stopColor="#00f0ff" stopOpacity={0.3}/>
               <stop offset="95%" stopColor="#00f0ff" stopOpacity={0}/>
             </linearGradient>
+            <linearGradient id="colorH2O" x1="0" y1="0" x2="0" y2="1">
+              <stop offset="5%" stopColor="#60a5fa" stopOpacity={0.2}/>
+              <stop offset="95%" stopColor="#60a5fa" stopOpacity={0}/>
+            </linearGradient>
           </defs>
           <CartesianGrid strokeDasharray="3 3" stroke="#1f2544" vertical={false} />
-          <XAxis dataKey="time" hide />
-          <YAxis stroke="#64748b" fontSize={9} width={25} tickFormatter={(val) => Math.round(val).toString()} />
+          <XAxis dataKey="time" type="number" domain={['dataMin', 'dataMax']} hide />
+          <YAxis yAxisId="gas" stroke="#64748b" fontSize={9} width={25} tickFormatter={(val) => Math.round(val).toString()} />
+          {/* Transpiration is ~100x smaller, so it gets its own axis (mmol/m²/s) */}
+          <YAxis yAxisId="h2o" orientation="right" stroke="#60a5fa" fontSize={9} width={25} tickFormatter={(val) => val.toFixed(1)} />
           <Tooltip 
             contentStyle={{backgroundColor: 'rgba(11, 13, 23, 0.9)', borderColor: '#1f2544', color: '#fff', fontSize: '12px'}}
             itemStyle={{fontFamily: 'monospace'}}
-            labelStyle={{display: 'none'}}
+            formatter={(value) => Number(value).toFixed(2)}
+            labelFormatter={(time) => `t = ${Number(time).toFixed(1)} s`}
+            labelStyle={{color: '#9ca3af', fontSize: '10px'}}
           />
-          <Area type="monotone" dataKey="co2" stroke="#00ff9d" strokeWidth={2} fillOpacity={1} fill="url(#colorCo2)" animationDuration={300} isAnimationActive={false} />
-          <Area type="monotone" dataKey="o2" stroke="#00f0ff" strokeWidth={2} fillOpacity={1} fill="url(#colorO2)" animationDuration={300} isAnimationActive={false} />
-        </AreaChart>
+          {bands.map(([x1, x2]) => (
+            <ReferenceArea key={x1} yAxisId="gas" x1={x1} x2={x2} fill="#fef08a" fillOpacity={0.08} ifOverflow="hidden" />
+          ))}
+          <ReferenceLine yAxisId="gas" y={0} stroke="#64748b" strokeDasharray="2 2" />
+          <Area yAxisId="gas" type="monotone" dataKey="co2Flux" name="CO2" stroke="#00ff9d" strokeWidth={2} fillOpacity={1} fill="url(#colorCo2)" animationDuration={300} isAnimationActive={false} />
+          <Area yAxisId="gas" type="monotone" dataKey="o2Flux" name="O2" stroke="#00f0ff" strokeWidth={2} fillOpacity={1} fill="url(#colorO2)" animationDuration={300} isAnimationActive={false} />
+          <Scatter yAxisId="gas" data={inWindow(measuredCO2)} dataKey="measured" name="CO2 measured" fill="#ffffff" shape="circle" isAnimationActive={false} />
+          <Scatter yAxisId="h2o" data={inWindow(measuredH2O)} dataKey="measured" name="H2O measured" fill="#93c5fd" shape="diamond" isAnimationActive={false} />
+          <Area yAxisId="h2o" type="monotone" dataKey="h2oFlux" name="H2O" stroke="#60a5fa" strokeWidth={2} fillOpacity={1} fill="url(#colorH2O)" animationDuration={300} isAnimationActive={false} />
+          {comparison.length > 0 && (
+            <>
+              <Line yAxisId="gas" type="monotone" dataKey="co2FluxB" name="CO2 (B)" stroke="#00ff9d" strokeWidth={1.5} strokeDasharray="4 2" dot={false} connectNulls isAnimationActive={false} />
+              <Line yAxisId="h2o" type="monotone" dataKey="h2oFluxB" name="H2O (B)" stroke="#60a5fa" strokeWidth={1.5} strokeDasharray="4 2" dot={false} connectNulls isAnimationActive={false} />
+            </>
+          )}
+        </ComposedChart>
       </ResponsiveContainer>
     </div>
   );
@@ -2,26 +2,80 @@
 import React, { useRef, useMemo } from 'react';
 import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
-import { LEAF_VERTEX_SHADER, LEAF_FRAGMENT_SHADER } from '../constants';
-import { SimulationState } from '../types';
+import { DEFAULT_SPECIES, LEAF_VERTEX_SHADER, LEAF_FRAGMENT_SHADER, LEAF_MESH_LENGTH, LEAF_MESH_WIDTH, SHADER_REFERENCE_PPFD } from '../constants';
+import { AirflowParticleSettings, SimulationState, SpeciesProfile } from '../types';
+import { describeLight } from '../physics/lightSpectrum';
+import { LeafMorphology, morphologyShape } from '../physics/morphology';
+import { gasFieldLeafRange, gasFieldSurfaceV, useGasFieldTexture } from './gasFieldTexture';
+import { leafLightIntensity } from './leafLighting';
+import ConcentrationSlice from './ConcentrationSlice';
+import AirflowParticles from './AirflowParticles';
 
 interface LeafModelProps {
   simulationState: SimulationState;
+  showSlice?: boolean;
+  particles?: AirflowParticleSettings | null; // Airflow particle tracer, null: off
+  tilt?: number; // radians about the leaf's width axis
+  species?: SpeciesProfile; // Outline, trichomes and gravity response
+  showGasField?: boolean; // Colour the boundary layer by the state's gas field; off where that field is not this leaf's
 }
 
-const LeafModel: React.FC<LeafModelProps> = ({ simulationState }) => {
+// Shader uniform values for a species' outline, and its gravity response as developed so far
+const speciesUniforms = ({ outline, trichomeDensity, morphology }: SpeciesProfile, developed: LeafMorphology) => {
+  const shape = morphologyShape(developed, morphology);
+  return {
+    uStemWidth: outline.stemWidth,
+    uBladeStart: outline.bladeStart,
+    uBladeLength: outline.bladeLength,
+    uBladeWidth: outline.bladeWidth,
+    uBladeRoundness: outline.bladeRoundness,
+    uMarginDepth: outline.marginDepth,
+    uMarginFrequency: outline.marginFrequency,
+    uTrichomeDensity: trichomeDensity,
+    uNarrowing: shape.narrowing,
+    uCurl: shape.curl,
+  };
+};
+
+const LeafModel: React.FC<LeafModelProps> = ({ simulationState, showSlice = false, particles = null, tilt = -Math.PI / 4, species = DEFAULT_SPECIES, showGasField = true }) => {
   const meshRef = useRef<THREE.Mesh>(null);
   const materialRef = useRef<THREE.ShaderMaterial>(null);
 
+  // Solved concentration fields of both faces, uploaded as data textures
+  const gasTexture = useGasFieldTexture(
+    simulationState.gasField,
+    simulationState.ambientCO2,
+    simulationState.ambientO2
+  );
+  const abaxialGasTexture = useGasFieldTexture(
+    simulationState.abaxialGasField,
+    simulationState.ambientCO2,
+    simulationState.ambientO2
+  );
+  const stomata = simulationState.adaxialConductance + simulationState.abaxialConductance;
+  const adaxialStomata = stomata > 0 ? simulationState.adaxialConductance / stomata : 0.5;
+
+  // Grow light colour as seen by eye, from the LED spectrum; brightness follows the PPFD on the leaf
+  const lightColor = useMemo(() => describeLight(SHADER_REFERENCE_PPFD, simulationState.ledMix).color, [simulationState.ledMix]);
+  const lightIntensity = leafLightIntensity(simulationState, species.morphology);
+
   // Uniforms object
   const uniforms = useMemo(
     () => ({
       uTime: { value: 0 },
       uGravityFactor: { value: 1.0 },
       uBoundaryLayerThickness: { value: 0.0 },
+      uAbaxialBoundaryLayerThickness: { value: 0.0 },
       uAirVelocity: { value: 1.0 },
-      uLightColor: { value: new THREE.Color(simulationState.lightColor) },
-      uLightIntensity: { value: simulationState.lightIntensity },
+      uLightColor: { value: new THREE.Color(lightColor) },
+      uLightIntensity: { value: lightIntensity },
+      uGasField: { value: gasTexture },
+      uGasFieldLeafRange: { value: new THREE.Vector2(...gasFieldLeafRange(simulationState.gasField)) },
+      uGasFieldSurfaceV: { value: gasFieldSurfaceV(simulationState.gasField) },
+      uAbaxialGasField: { value: abaxialGasTexture },
+      uShowGasField: { value: showGasField ? 1 : 0 },
+      uAdaxialStomata: { value: adaxialStomata },
+      ...Object.fromEntries(Object.entries(speciesUniforms(species, simulationState)).map(([name, value]) => [name, { value }])),
     }),
     []
   );
@@ -33,6 +87,7 @@ const LeafModel: React.FC<LeafModelProps> = ({ simulationState }) => {
         materialRef.current.uniforms.uTime.value = state.clock.getElapsedTime();
       }
       
+      // Sway in the air follows the gravity within a few frames
       if (materialRef.current.uniforms.uGravityFactor) {
         materialRef.current.uniforms.uGravityFactor.value = THREE.MathUtils.lerp(
           materialRef.current.uniforms.uGravityFactor.value,
@@ -41,14 +96,20 @@ const LeafModel: React.FC<LeafModelProps> = ({ simulationState }) => {
         );
       }
 
-      // Map physical boundary layer (mm) to visual opacity (0-1)
-      const normalizedLayer = Math.min(Math.max((simulationState.boundaryLayerThickness - 0.4) / 2.0, 0), 1);
-      const visualLayer = 0.1 + (normalizedLayer * 0.9);
+      // Map physical boundary layer (mm) to visual opacity (0-1), per face
+      const visualLayer = (thickness: number) => 0.1 + Math.min(Math.max((thickness - 0.4) / 2.0, 0), 1) * 0.9;
 
       if (materialRef.current.uniforms.uBoundaryLayerThickness) {
         materialRef.current.uniforms.uBoundaryLayerThickness.value = THREE.MathUtils.lerp(
           materialRef.current.uniforms.uBoundaryLayerThickness.value,
-          visualLayer,
+          visualLayer(simulationState.adaxialBoundaryLayer),
+          0.05
+        );
+      }
+      if (materialRef.current.uniforms.uAbaxialBoundaryLayerThickness) {
+        materialRef.current.uniforms.uAbaxialBoundaryLayerThickness.value = THREE.MathUtils.lerp(
+          materialRef.current.uniforms.uAbaxialBoundaryLayerThickness.value,
+          visualLayer(simulationState.abaxialBoundaryLayer),
           0.05
         );
       }
@@ -59,16 +120,41 @@ const LeafModel: React.FC<LeafModelProps> = ({ simulationState }) => {
 
       // Update Light Uniforms
       if (materialRef.current.uniforms.uLightColor) {
-        materialRef.current.uniforms.uLightColor.value.set(simulationState.lightColor);
+        materialRef.current.uniforms.uLightColor.value.set(lightColor);
       }
       if (materialRef.current.uniforms.uLightIntensity) {
           // Lerp for smooth brightness transition
           materialRef.current.uniforms.uLightIntensity.value = THREE.MathUtils.lerp(
               materialRef.current.uniforms.uLightIntensity.value,
-              simulationState.lightIntensity,
+              lightIntensity,
               0.1
           );
       }
+
+      // Gas field (texture contents are refreshed by useGasFieldTexture)
+      if (materialRef.current.uniforms.uGasField) {
+        materialRef.current.uniforms.uGasField.value = gasTexture;
+      }
+      if (materialRef.current.uniforms.uAbaxialGasField) {
+        materialRef.current.uniforms.uAbaxialGasField.value = abaxialGasTexture;
+      }
+      if (materialRef.current.uniforms.uAdaxialStomata) {
+        materialRef.current.uniforms.uAdaxialStomata.value = adaxialStomata;
+      }
+      if (materialRef.current.uniforms.uGasFieldLeafRange) {
+        materialRef.current.uniforms.uGasFieldLeafRange.value.set(...gasFieldLeafRange(simulationState.gasField));
+      }
+      if (materialRef.current.uniforms.uGasFieldSurfaceV) {
+        materialRef.current.uniforms.uGasFieldSurfaceV.value = gasFieldSurfaceV(simulationState.gasField);
+      }
+      if (materialRef.current.uniforms.uShowGasField) {
+        materialRef.current.uniforms.uShowGasField.value = showGasField ? 1 : 0;
+      }
+
+      // Species shape; curl and narrowing follow the simulation clock, not the frame rate
+      for (const [name, value] of Object.entries(speciesUniforms(species, simulationState))) {
+        if (materialRef.current.uniforms[name]) materialRef.current.uniforms[name].value = value;
+      }
     }
     
     // Subtle floating rotation
@@ -78,9 +164,9 @@ const LeafModel: React.FC<LeafModelProps> = ({ simulationState }) => {
   });
 
   return (
-    <mesh ref={meshRef} rotation={[-Math.PI / 4, 0, 0]} position={[0, 0, 0]}>
+    <mesh ref={meshRef} rotation={[tilt, 0, 0]} position={[0, 0, 0]}>
       {/* Increased resolution to 128x128 for smoother curling and vertex displacement */}
-      <planeGeometry args={[5, 8, 128, 128]} />
+      <planeGeometry args={[LEAF_MESH_WIDTH, LEAF_MESH_LENGTH, 128, 128]} />
       <shaderMaterial
         ref={materialRef}
         vertexShader={LEAF_VERTEX_SHADER}
@@ -89,6 +175,13 @@ const LeafModel: React.FC<LeafModelProps> = ({ simulationState }) => {
         side={THREE.DoubleSide}
         transparent={true}
       />
+      {showSlice && (
+        <>
+          <ConcentrationSlice field={simulationState.gasField} texture={gasTexture} />
+          <ConcentrationSlice field={simulationState.abaxialGasField} texture={abaxialGasTexture} face="abaxial" />
+        </>
+      )}
+      {particles && <AirflowParticles simulationState={simulationState} settings={particles} species={species} />}
     </mesh>
   );
 };
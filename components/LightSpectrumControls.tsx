@@ -0,0 +1,115 @@
+import React, { useMemo } from 'react';
+import { LedMix, SimulationState } from '../types';
+import { LIGHT_PRESETS, MAX_PPFD, SHADER_REFERENCE_PPFD } from '../constants';
+import { describeLight, LED_CHANNELS, lightSpectrum, PAR_MAX, PAR_MIN, SPECTRUM_MAX, SPECTRUM_MIN, WAVELENGTHS } from '../physics/lightSpectrum';
+
+interface LightSpectrumControlsProps {
+  ppfd: number;
+  ledMix: LedMix;
+  onUpdate: (updates: Partial<SimulationState>) => void;
+}
+
+const WIDTH = 240;
+const HEIGHT = 50;
+
+const x = (wavelength: number) => ((wavelength - SPECTRUM_MIN) / (SPECTRUM_MAX - SPECTRUM_MIN)) * WIDTH;
+
+// Mixes are equal when their channels have the same share of the total output
+const sameMix = (a: LedMix, b: LedMix): boolean => {
+  const total = (mix: LedMix) => Object.values(mix).reduce((sum, v) => sum + v, 0) || 1;
+  const ta = total(a);
+  const tb = total(b);
+  return LED_CHANNELS.every(({ id }) => Math.abs((a[id] ?? 0) / ta - (b[id] ?? 0) / tb) < 1e-3);
+};
+
+// Grow light: PPFD, LED channel mix and hardware presets, with a preview of the spectrum
+const LightSpectrumControls: React.FC<LightSpectrumControlsProps> = ({ ppfd, ledMix, onUpdate }) => {
+  const light = useMemo(() => describeLight(ppfd, ledMix), [ppfd, ledMix]);
+  // Preview shape at a fixed PPFD so it stays visible with the lights off
+  const { path, color } = useMemo(() => {
+    const spectrum = lightSpectrum(SHADER_REFERENCE_PPFD, ledMix);
+    const peak = Math.max(...spectrum) || 1;
+    const points = spectrum.map((n, i) => `${x(WAVELENGTHS[i]).toFixed(1)},${(HEIGHT - (HEIGHT - 2) * (n / peak)).toFixed(1)}`);
+    return {
+      path: `M0,${HEIGHT} L${points.join(' L')} L${WIDTH},${HEIGHT} Z`,
+      color: describeLight(SHADER_REFERENCE_PPFD, ledMix).color,
+    };
+  }, [ledMix]);
+
+  const setChannel = (id: string, output: number) => {
+    const next = { ...ledMix, [id]: output };
+    // At least one channel stays on; dim with the PPFD instead
+    if (Object.values(next).some(v => v > 0)) onUpdate({ ledMix: next });
+  };
+
+  return (
+    <div className="pt-2 border-t border-space-700">
+      <label className="text-gray-400 text-xs font-mono mb-2 block">GROW LIGHT SPECTRUM</label>
+      <div className="flex flex-wrap gap-2 mb-3">
+        {LIGHT_PRESETS.map((preset) => {
+          const active = sameMix(ledMix, preset.ledMix);
+          return (
+            <button
+              key={preset.name}
+              title={preset.description}
+              onClick={() => onUpdate({ ledMix: { ...preset.ledMix }, ppfd: preset.ppfd })}
+              className={`px-2 py-1 text-[10px] font-mono rounded border ${
+                active ? 'border-white text-white bg-space-600' : 'border-space-600 text-gray-500 hover:bg-space-700'
+              }`}
+            >
+              {preset.name}
+            </button>
+          );
+        })}
+      </div>
+
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT + 10}`} className="w-full mb-2">
+        <rect x={x(PAR_MIN)} y={0} width={x(PAR_MAX) - x(PAR_MIN)} height={HEIGHT} fill="#1f2544" opacity={0.5} />
+        <path d={path} fill={color} fillOpacity={0.6} stroke={color} strokeWidth={1} />
+        {[400, 500, 600, 700, 800].map((w) => (
+          <text key={w} x={Math.min(x(w), WIDTH - 8)} y={HEIGHT + 9} fill="#64748b" fontSize={7} textAnchor="middle">
+            {w}
+          </text>
+        ))}
+      </svg>
+
+      <div className="flex justify-between mb-1">
+        <label className="text-gray-400 text-xs font-mono">PPFD</label>
+        <span className="text-yellow-200 text-xs font-mono">{ppfd.toFixed(0)} µmol/m²/s</span>
+      </div>
+      <input
+        type="range"
+        min="0"
+        max={MAX_PPFD}
+        step="10"
+        value={ppfd}
+        onChange={(e) => onUpdate({ ppfd: parseFloat(e.target.value) })}
+        className="w-full h-2 bg-space-700 rounded-lg appearance-none cursor-pointer accent-yellow-200"
+      />
+
+      <div className="grid grid-cols-[4.5rem_1fr_2rem] gap-x-2 gap-y-1 items-center mt-3 font-mono text-[10px]">
+        {LED_CHANNELS.map((channel) => (
+          <React.Fragment key={channel.id}>
+            <span className="text-gray-400">{channel.label}</span>
+            <input
+              type="range"
+              min="0"
+              max="1"
+              step="0.01"
+              value={ledMix[channel.id] ?? 0}
+              onChange={(e) => setChannel(channel.id, parseFloat(e.target.value))}
+              className="w-full h-1 bg-space-700 rounded appearance-none accent-yellow-200"
+            />
+            <span className="text-right text-gray-300">{(ledMix[channel.id] ?? 0).toFixed(2)}</span>
+          </React.Fragment>
+        ))}
+      </div>
+
+      <div className="text-[9px] text-gray-500 font-mono mt-2 text-right">
+        YPF {light.yieldPhotonFlux.toFixed(0)} µmol/m²/s · absorbed {light.absorbedShortwave.toFixed(0)} W/m² heats the leaf
+      </div>
+    </div>
+  );
+};
+
+export default LightSpectrumControls;
@@ -0,0 +1,99 @@
+import React from 'react';
+import { Photoperiod } from '../types';
+import { DEFAULT_PHOTOPERIOD, PHOTOPERIOD_PRESETS } from '../constants';
+import { SimulationClock } from '../hooks/useSimulationClock';
+import { dailyLightIntegral, hourOfDay, SECONDS_PER_DAY } from '../scenarios/photoperiod';
+
+interface PhotoperiodControlsProps {
+  clock: SimulationClock;
+}
+
+const formatHour = (hours: number): string => {
+  const minutes = Math.floor(hours * 60) % (24 * 60);
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+};
+
+const inputClass = 'w-14 bg-space-700 text-gray-300 font-mono text-xs rounded px-1 py-1 border border-space-600';
+
+// Day/night cycle of the grow light over the simulated timeline, shared by both configurations
+const PhotoperiodControls: React.FC<PhotoperiodControlsProps> = ({ clock }) => {
+  const { photoperiod, state, time } = clock;
+  const update = (changes: Partial<Photoperiod>) => clock.setPhotoperiod({ ...(photoperiod ?? DEFAULT_PHOTOPERIOD), ...changes });
+  const day = Math.floor(time / SECONDS_PER_DAY) + 1;
+
+  return (
+    <div className="bg-space-800 border border-space-700 px-6 py-4 rounded-lg shadow-xl backdrop-blur-sm bg-opacity-90 font-mono text-xs">
+      <div className="flex justify-between items-center">
+        <span className="text-sci-cyan text-sm uppercase tracking-wider">Photoperiod</span>
+        <button
+          onClick={() => clock.setPhotoperiod(photoperiod ? null : DEFAULT_PHOTOPERIOD)}
+          className={`px-3 py-1 rounded text-xs transition-all duration-300 ${
+            photoperiod ? 'bg-sci-cyan text-space-900' : 'bg-space-700 text-gray-400 hover:bg-space-600'
+          }`}
+        >
+          {photoperiod ? 'ON' : 'OFF'}
+        </button>
+      </div>
+      {photoperiod && (
+        <>
+          <div className="flex gap-2 mt-3">
+            {PHOTOPERIOD_PRESETS.map((hours) => (
+              <button
+                key={hours}
+                onClick={() => update({ lightHours: hours })}
+                className={`flex-1 py-1 rounded text-xs transition-all duration-300 ${
+                  photoperiod.lightHours === hours
+                    ? 'bg-sci-cyan text-space-900'
+                    : 'bg-space-700 text-gray-400 hover:bg-space-600'
+                }`}
+              >
+                {hours}/{24 - hours}
+              </button>
+            ))}
+          </div>
+          <div className="flex justify-between items-center gap-2 mt-3 text-[10px] text-gray-400">
+            <label className="flex items-center gap-1">
+              ON AT
+              <input
+                type="number"
+                min={0}
+                max={23.5}
+                step={0.5}
+                value={photoperiod.lightsOn}
+                onChange={(e) => update({ lightsOn: Math.min(Math.max(Number(e.target.value), 0), 23.5) })}
+                className={inputClass}
+              />
+              h
+            </label>
+            <label className="flex items-center gap-1">
+              RAMP
+              <input
+                type="number"
+                min={0}
+                max={240}
+                step={5}
+                value={photoperiod.rampMinutes}
+                onChange={(e) => update({ rampMinutes: Math.min(Math.max(Number(e.target.value), 0), 240) })}
+                className={inputClass}
+              />
+              min
+            </label>
+          </div>
+          <div className="flex justify-between mt-3 text-[10px]">
+            <span className="text-gray-400">
+              DAY {day} · {formatHour(hourOfDay(time))}
+            </span>
+            <span className={state.lightFraction > 0 ? 'text-yellow-200' : 'text-gray-500'}>
+              {state.lightFraction > 0 ? `LIGHTS ${Math.round(state.lightFraction * 100)}%` : 'NIGHT · RESPIRING'}
+            </span>
+          </div>
+          <div className="text-[9px] text-gray-500 mt-1 text-right">
+            DLI {dailyLightIntegral(state.ppfd, photoperiod).toFixed(1)} mol/m²/day at {state.ppfd.toFixed(0)} µmol/m²/s
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PhotoperiodControls;
@@ -0,0 +1,47 @@
+import React from 'react';
+import { SimulationClock } from '../hooks/useSimulationClock';
+import { runMetadata, runToCsv, runToJson } from '../recording/runRecorder';
+import { downloadText, fileTimestamp } from '../recording/download';
+
+interface RunExportProps {
+  clock: SimulationClock;
+  parameterProfile: string | null;
+}
+
+// Recorder status and CSV / JSON download of every tick of the run
+const RunExport: React.FC<RunExportProps> = ({ clock, parameterProfile }) => {
+  const exportRun = (format: 'csv' | 'json') => {
+    const records = clock.getRecords();
+    const metadata = runMetadata(records, clock.scenario?.name ?? null, clock.parameters, parameterProfile);
+    const filename = `astrobotany-run-${fileTimestamp()}.${format}`;
+    if (format === 'csv') downloadText(filename, runToCsv(metadata, records), 'text/csv');
+    else downloadText(filename, runToJson(metadata, records), 'application/json');
+  };
+
+  return (
+    <div className="flex items-center gap-2 mt-3 pt-3 border-t border-space-700 font-mono text-[10px]">
+      <span className={`w-2 h-2 rounded-full ${clock.running ? 'bg-sci-alert animate-pulse' : 'bg-gray-500'}`}></span>
+      <span className="flex-1 text-gray-400">REC {clock.recordCount} TICKS</span>
+      <button
+        onClick={() => exportRun('csv')}
+        className="px-2 py-1 rounded bg-space-700 text-gray-300 hover:bg-space-600 transition-all duration-300"
+      >
+        CSV
+      </button>
+      <button
+        onClick={() => exportRun('json')}
+        className="px-2 py-1 rounded bg-space-700 text-gray-300 hover:bg-space-600 transition-all duration-300"
+      >
+        JSON
+      </button>
+      <button
+        onClick={clock.clearRecords}
+        className="px-2 py-1 rounded bg-space-700 text-gray-500 hover:bg-space-600 transition-all duration-300"
+      >
+        CLEAR
+      </button>
+    </div>
+  );
+};
+
+export default RunExport;
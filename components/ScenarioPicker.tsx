@@ -0,0 +1,72 @@
+import React, { useRef, useState } from 'react';
+import { Scenario } from '../types';
+import { SCENARIO_PRESETS } from '../constants';
+import { parseScenario } from '../scenarios/scenario';
+
+interface ScenarioPickerProps {
+  scenario: Scenario | null;
+  onLoad: (scenario: Scenario | null) => void;
+}
+
+// Built-in scenarios plus scenario JSON files from disk
+const ScenarioPicker: React.FC<ScenarioPickerProps> = ({ scenario, onLoad }) => {
+  const [error, setError] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const handleSelect = (name: string) => {
+    setError(null);
+    onLoad(SCENARIO_PRESETS.find(preset => preset.name === name) ?? null);
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      onLoad(parseScenario(JSON.parse(await file.text())));
+      setError(null);
+    } catch (err) {
+      setError(`${file.name}: ${err instanceof Error ? err.message : 'could not be read'}`);
+    } finally {
+      if (fileInput.current) fileInput.current.value = '';
+    }
+  };
+
+  const isPreset = scenario !== null && SCENARIO_PRESETS.includes(scenario);
+
+  return (
+    <div className="mb-6">
+      <label className="text-gray-400 text-xs font-mono mb-2 block">MISSION SCENARIO</label>
+      <div className="flex gap-2">
+        <select
+          value={scenario ? scenario.name : ''}
+          onChange={(e) => handleSelect(e.target.value)}
+          className="flex-1 bg-space-700 text-gray-300 font-mono text-xs rounded px-2 py-2 border border-space-600"
+        >
+          <option value="">Manual control</option>
+          {SCENARIO_PRESETS.map((preset) => (
+            <option key={preset.name} value={preset.name}>{preset.name}</option>
+          ))}
+          {scenario && !isPreset && <option value={scenario.name}>{scenario.name} (file)</option>}
+        </select>
+        <button
+          onClick={() => fileInput.current?.click()}
+          className="px-3 py-2 rounded font-mono text-xs bg-space-700 text-gray-400 hover:bg-space-600 transition-all duration-300"
+        >
+          LOAD JSON
+        </button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => handleFile(e.target.files?.[0])}
+        />
+      </div>
+      {scenario?.description && (
+        <div className="text-[9px] text-gray-500 font-mono mt-1">{scenario.description}</div>
+      )}
+      {error && <div className="text-[9px] text-sci-alert font-mono mt-1">⚠️ {error}</div>}
+    </div>
+  );
+};
+
+export default ScenarioPicker;
@@ -0,0 +1,61 @@
+import React from 'react';
+import { Scenario } from '../types';
+import { scenarioDuration } from '../scenarios/scenario';
+
+interface ScenarioTimelineProps {
+  scenario: Scenario;
+  time: number; // s of simulated time
+}
+
+const UPCOMING_SHOWN = 3;
+
+// Compact h/m/s for event times and countdowns
+const formatDuration = (seconds: number): string => {
+  if (seconds >= 3600) return `${(seconds / 3600).toFixed(seconds % 3600 ? 1 : 0)}h`;
+  if (seconds >= 60) return `${Math.round(seconds / 60)}m`;
+  return `${Math.round(seconds)}s`;
+};
+
+// Strip with the scheduled events, a playhead at the current time and the next events due
+const ScenarioTimeline: React.FC<ScenarioTimelineProps> = ({ scenario, time }) => {
+  const duration = Math.max(scenarioDuration(scenario), time);
+  const position = (t: number) => `${(t / duration) * 100}%`;
+  const upcoming = scenario.events.filter(event => event.time > time).slice(0, UPCOMING_SHOWN);
+
+  return (
+    <div className="bg-space-800 border border-space-700 px-6 py-4 rounded-lg shadow-xl backdrop-blur-sm bg-opacity-90 font-mono">
+      <div className="flex justify-between text-[10px] text-gray-400 mb-2">
+        <span className="text-sci-cyan uppercase tracking-wider">{scenario.name}</span>
+        <span>{formatDuration(duration)}</span>
+      </div>
+
+      <div className="relative h-3 bg-space-900 rounded border border-space-700 mb-2">
+        <div className="absolute inset-y-0 left-0 bg-sci-cyan/20 rounded" style={{ width: position(time) }} />
+        {scenario.events.map((event, index) => (
+          <div
+            key={index}
+            title={`${formatDuration(event.time)}: ${event.label}`}
+            className={`absolute top-0 bottom-0 w-1 -ml-0.5 rounded ${event.time <= time ? 'bg-gray-500' : 'bg-yellow-400'}`}
+            style={{ left: position(event.time) }}
+          />
+        ))}
+        <div className="absolute -top-1 -bottom-1 w-0.5 bg-white shadow-[0_0_6px_white]" style={{ left: position(time) }} />
+      </div>
+
+      {upcoming.length ? (
+        <div className="space-y-0.5 text-[10px]">
+          {upcoming.map((event, index) => (
+            <div key={index} className="flex justify-between text-gray-400">
+              <span className="text-yellow-400">{event.label}</span>
+              <span>in {formatDuration(event.time - time)}</span>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="text-[10px] text-gray-500">All scheduled events applied</div>
+      )}
+    </div>
+  );
+};
+
+export default ScenarioTimeline;
@@ -1,42 +1,243 @@
-import React, { Suspense } from 'react';
+import React, { Suspense, useMemo, useState } from 'react';
 import { Canvas } from '@react-three/fiber';
 import { OrbitControls, Stars, Environment } from '@react-three/drei';
 import LeafModel from './LeafModel';
-import { SimulationState } from '../types';
+import { AirflowParticleSettings, ParticleColoring, SimulationState, SpeciesProfile } from '../types';
+import {
+  DEFAULT_AIRFLOW_PARTICLES,
+  GAS_FIELD_COLORMAP,
+  GAS_FIELD_DEPLETION_RANGE,
+  LEAF_MESH_LENGTH,
+  MAX_AIRFLOW_PARTICLES,
+  MAX_PARTICLE_TRAIL,
+  ROSETTE_VIEW_RADIUS,
+} from '../constants';
+import { CanopyState, RosetteLeaf } from '../physics/canopy';
+import { airflowConditions, PARTICLE_SLOW_MOTION, referenceSpeed } from './particleTracer';
+
+export interface CanopyView {
+  layout: RosetteLeaf[];
+  state: CanopyState;
+}
 
 interface SimulationCanvasProps {
   simulationState: SimulationState;
+  comparisonState?: SimulationState | null; // Comparison mode: shown in a second viewport
+  canopy?: CanopyView | null; // Canopy mode: the rosette replaces leaf A
+  species: SpeciesProfile;
+}
+
+interface LeafViewportProps {
+  state: SimulationState;
+  showSlice: boolean;
+  particles: AirflowParticleSettings | null;
+  canopy?: CanopyView | null;
+  species: SpeciesProfile;
 }
 
-const SimulationCanvas: React.FC<SimulationCanvasProps> = ({ simulationState }) => {
+// Rosette seen from above: each leaf drawn with its own light, airflow and boundary layer
+const Rosette: React.FC<{ state: SimulationState; canopy: CanopyView; species: SpeciesProfile }> = ({ state, canopy, species }) => {
+  // Scene units per metre, fitting the outermost leaf tip to the view
+  const extent = Math.max(...canopy.layout.map(leaf => Math.hypot(leaf.position.x, leaf.position.y) + leaf.length / 2), 1e-3);
+  const scale = ROSETTE_VIEW_RADIUS / extent;
   return (
-    <div className="w-full h-full relative bg-space-900">
-      <Canvas camera={{ position: [0, 0, 10], fov: 45 }}>
-        <Suspense fallback={null}>
-          <color attach="background" args={['#0b0d17']} />
-          
-          <ambientLight intensity={0.5} />
-          <pointLight position={[10, 10, 10]} intensity={1} color="#ffffff" />
-          <pointLight position={[-10, -10, -5]} intensity={0.5} color="#00f0ff" />
-          
-          <Stars radius={100} depth={50} count={5000} factor={4} saturation={0} fade speed={1} />
-          
-          <LeafModel simulationState={simulationState} />
-          
-          <OrbitControls 
-            enablePan={false} 
-            minDistance={5} 
-            maxDistance={20} 
-            autoRotate={simulationState.boundaryLayerThickness > 1.0} // Rotate slowly in space mode
-            autoRotateSpeed={0.5}
-          />
-        </Suspense>
-      </Canvas>
+    <group>
+      {canopy.layout.map((leaf, i) => {
+        const solved = canopy.state.leaves[i];
+        return (
+          <group
+            key={leaf.index}
+            position={[leaf.position.x * scale, leaf.position.y * scale, leaf.position.z * scale]}
+            rotation={[0, 0, leaf.azimuth - Math.PI / 2]}
+          >
+            <group rotation={[leaf.inclination, 0, 0]}>
+              {/* The species outline sets the blade's width within the mesh */}
+              <group scale={(leaf.length * scale) / LEAF_MESH_LENGTH}>
+                <LeafModel
+                  simulationState={{
+                    ...state,
+                    lightFraction: state.lightFraction * solved.lightFraction, // Shaded on top of the photoperiod
+                    airVelocity: solved.airVelocity,
+                    boundaryLayerThickness: solved.boundaryLayerThickness,
+                    adaxialBoundaryLayer: solved.boundaryLayerThickness,
+                    abaxialBoundaryLayer: solved.boundaryLayerThickness,
+                  }}
+                  tilt={0}
+                  species={species}
+                  showGasField={false} // The solved field is the single leaf's; the rosette solves no field per leaf
+                />
+              </group>
+            </group>
+          </group>
+        );
+      })}
+    </group>
+  );
+};
+
+// One leaf (or the rosette) in its own scene and camera
+const LeafViewport: React.FC<LeafViewportProps> = ({ state: simulationState, showSlice, particles, canopy = null, species }) => (
+  <Canvas camera={{ position: [0, 0, 10], fov: 45 }}>
+    <Suspense fallback={null}>
+      <color attach="background" args={['#0b0d17']} />
+      
+      <ambientLight intensity={0.5} />
+      <pointLight position={[10, 10, 10]} intensity={1} color="#ffffff" />
+      <pointLight position={[-10, -10, -5]} intensity={0.5} color="#00f0ff" />
+      
+      <Stars radius={100} depth={50} count={5000} factor={4} saturation={0} fade speed={1} />
       
-      {/* Overlay Text for 3D context */}
-      <div className="absolute top-4 left-1/2 -translate-x-1/2 text-white/50 text-xs tracking-[0.2em] font-mono pointer-events-none">
-        VIEWPORT: LEAF_SURFACE_CAM_01
+      {canopy ? (
+        <Rosette state={simulationState} canopy={canopy} species={species} />
+      ) : (
+        <LeafModel simulationState={simulationState} showSlice={showSlice} particles={particles} species={species} />
+      )}
+      
+      <OrbitControls 
+        enablePan={false} 
+        minDistance={5} 
+        maxDistance={20} 
+        autoRotate={simulationState.boundaryLayerThickness > 1.0} // Rotate slowly in space mode
+        autoRotateSpeed={0.5}
+      />
+    </Suspense>
+  </Canvas>
+);
+
+const SimulationCanvas: React.FC<SimulationCanvasProps> = ({ simulationState, comparisonState = null, canopy = null, species }) => {
+  const [showSlice, setShowSlice] = useState(false);
+  const [particles, setParticles] = useState<AirflowParticleSettings | null>(null);
+  const updateParticles = (changes: Partial<AirflowParticleSettings>) =>
+    setParticles(prev => ({ ...(prev ?? DEFAULT_AIRFLOW_PARTICLES), ...changes }));
+  // Speed coloured as free stream on the particle legend
+  const particleSpeed = useMemo(() => referenceSpeed(airflowConditions(simulationState, species)), [simulationState, species]);
+
+  return (
+    <div className="w-full h-full relative bg-space-900">
+      {comparisonState ? (
+        <div className="w-full h-full flex">
+          {[simulationState, comparisonState].map((state, i) => (
+            <div key={i} className={`relative flex-1 h-full ${i === 1 ? 'border-l border-space-700' : ''}`}>
+              <LeafViewport state={state} showSlice={showSlice} particles={particles} canopy={i === 0 ? canopy : null} species={species} />
+              <div className="absolute top-4 left-1/2 -translate-x-1/2 text-white/50 text-xs tracking-[0.2em] font-mono pointer-events-none whitespace-nowrap">
+                {i === 0 ? 'A' : 'B'} // {state.gravityMode} // {state.airVelocity.toFixed(1)} m/s
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <>
+          <LeafViewport state={simulationState} showSlice={showSlice} particles={particles} canopy={canopy} species={species} />
+
+          {/* Overlay Text for 3D context */}
+          <div className="absolute top-4 left-1/2 -translate-x-1/2 text-white/50 text-xs tracking-[0.2em] font-mono pointer-events-none">
+            {canopy ? `VIEWPORT: ROSETTE_TOP_CAM_01 // ${canopy.layout.length} LEAVES // AIRFLOW →` : 'VIEWPORT: LEAF_SURFACE_CAM_01'}
+          </div>
+        </>
+      )}
+
+      <div className="absolute bottom-4 right-4 flex flex-col items-end gap-2 font-mono text-[10px]">
+        {/* Particle tracer settings and legend */}
+        {particles && (
+          <div className="w-56 p-2 bg-space-900/80 border border-space-700 rounded text-gray-400">
+            <div className="grid grid-cols-[3.5rem_1fr_2.5rem] gap-x-2 gap-y-1 items-center">
+              <span>COUNT</span>
+              <input
+                type="range"
+                min={100}
+                max={MAX_AIRFLOW_PARTICLES}
+                step={100}
+                value={particles.count}
+                onChange={(e) => updateParticles({ count: parseInt(e.target.value, 10) })}
+                className="w-full h-1 bg-space-700 rounded appearance-none accent-white"
+              />
+              <span className="text-right text-gray-300">{particles.count}</span>
+              <span>TRAIL</span>
+              <input
+                type="range"
+                min={1}
+                max={MAX_PARTICLE_TRAIL}
+                step={1}
+                value={particles.trailLength}
+                onChange={(e) => updateParticles({ trailLength: parseInt(e.target.value, 10) })}
+                className="w-full h-1 bg-space-700 rounded appearance-none accent-white"
+              />
+              <span className="text-right text-gray-300">{particles.trailLength}</span>
+            </div>
+            <div className="flex gap-1 mt-2">
+              {(['co2', 'speed'] as ParticleColoring[]).map(coloring => (
+                <button
+                  key={coloring}
+                  onClick={() => updateParticles({ colorBy: coloring })}
+                  className={`flex-1 px-2 py-0.5 rounded transition-all duration-300 ${
+                    particles.colorBy === coloring ? 'bg-sci-cyan text-space-900' : 'bg-space-700 text-gray-400 hover:bg-space-600'
+                  }`}
+                >
+                  {coloring === 'co2' ? 'CO2' : 'SPEED'}
+                </button>
+              ))}
+            </div>
+            <div
+              className="h-2 rounded mt-2"
+              style={{ background: `linear-gradient(to right, ${GAS_FIELD_COLORMAP.join(', ')})` }}
+            />
+            <div className="flex justify-between mt-1">
+              {particles.colorBy === 'co2' ? (
+                <>
+                  <span>{simulationState.ambientCO2.toFixed(0)} ppm</span>
+                  <span>{(simulationState.ambientCO2 * (1 - GAS_FIELD_DEPLETION_RANGE)).toFixed(0)} ppm</span>
+                </>
+              ) : (
+                <>
+                  <span>{particleSpeed.toFixed(2)} m/s</span>
+                  <span>STAGNANT</span>
+                </>
+              )}
+            </div>
+            <div className="text-[9px] text-gray-500 mt-1">Slowed {1 / PARTICLE_SLOW_MOTION}× · single-leaf view</div>
+          </div>
+        )}
+
+        {/* Particle tracer toggle */}
+        <button
+          onClick={() => setParticles(prev => (prev ? null : DEFAULT_AIRFLOW_PARTICLES))}
+          className={`px-3 py-1 rounded tracking-wider border transition-all duration-300 ${
+            particles
+              ? 'border-sci-cyan text-sci-cyan bg-space-800'
+              : 'border-space-700 text-gray-400 bg-space-900/80 hover:bg-space-700'
+          }`}
+        >
+          AIRFLOW PARTICLES: {particles ? 'ON' : 'OFF'}
+        </button>
+
+        {/* Cross-section toggle */}
+        <button
+          onClick={() => setShowSlice(prev => !prev)}
+          className={`px-3 py-1 rounded tracking-wider border transition-all duration-300 ${
+            showSlice
+              ? 'border-sci-cyan text-sci-cyan bg-space-800'
+              : 'border-space-700 text-gray-400 bg-space-900/80 hover:bg-space-700'
+          }`}
+        >
+          CO2 CROSS-SECTION: {showSlice ? 'ON' : 'OFF'}
+        </button>
       </div>
+
+      {/* Colour-bar legend for the cross-section */}
+      {showSlice && (
+        <div className="absolute bottom-4 left-4 w-48 p-2 bg-space-900/80 border border-space-700 rounded font-mono text-[10px] text-gray-400 pointer-events-none">
+          <div className="mb-1">CO2 AT MIDRIB SLICE (ppm)</div>
+          <div
+            className="h-2 rounded"
+            style={{ background: `linear-gradient(to right, ${GAS_FIELD_COLORMAP.join(', ')})` }}
+          />
+          <div className="flex justify-between mt-1">
+            <span>{simulationState.ambientCO2.toFixed(0)}</span>
+            <span>{(simulationState.ambientCO2 * (1 - GAS_FIELD_DEPLETION_RANGE)).toFixed(0)}</span>
+          </div>
+          <div className="text-[9px] text-gray-500 mt-1">Airflow: leaf base → tip</div>
+        </div>
+      )}
     </div>
   );
 };
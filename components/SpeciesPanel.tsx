@@ -0,0 +1,165 @@
+import React, { useState } from 'react';
+import { GravityMorphology, LeafOutline, SpeciesProfile } from '../types';
+import { SPECIES_PROFILES } from '../constants';
+import { ModelParameters } from '../physics/modelParameters';
+import {
+  createSpeciesProfile,
+  deleteCustomSpecies,
+  isBuiltInSpecies,
+  loadCustomSpecies,
+  saveCustomSpecies,
+} from '../species/speciesProfiles';
+
+interface SpeciesPanelProps {
+  species: SpeciesProfile;
+  parameters: ModelParameters; // Saved with a custom species
+  onSelect: (species: SpeciesProfile) => void; // Applies its shape and parameters
+  onEdit: (species: SpeciesProfile) => void; // Shape and leaf length only
+}
+
+type ShapeKey = keyof LeafOutline | keyof GravityMorphology | 'trichomeDensity';
+
+const SLIDERS: { key: ShapeKey; label: string; min: number; max: number; step: number }[] = [
+  { key: 'bladeWidth', label: 'WIDTH', min: 0.05, max: 1, step: 0.01 },
+  { key: 'bladeRoundness', label: 'POINTED', min: 0.05, max: 2, step: 0.05 },
+  { key: 'marginDepth', label: 'MARGIN', min: 0, max: 0.5, step: 0.01 },
+  { key: 'marginFrequency', label: 'LOBES', min: 0, max: 60, step: 1 },
+  { key: 'trichomeDensity', label: 'TRICHOMES', min: 0, max: 1, step: 0.05 },
+  { key: 'narrowing', label: 'µG WIDTH', min: 0, max: 1, step: 0.05 },
+  { key: 'curl', label: 'µG CURL', min: 0, max: 10, step: 0.1 },
+];
+
+const buttonClass = 'px-2 py-1 rounded font-mono text-xs bg-space-700 text-gray-300 hover:bg-space-600 disabled:opacity-40 transition-all duration-300';
+
+const shapeValue = (species: SpeciesProfile, key: ShapeKey): number =>
+  key === 'trichomeDensity'
+    ? species.trichomeDensity
+    : key === 'narrowing' || key === 'curl'
+      ? species.morphology[key]
+      : species.outline[key];
+
+const withShape = (species: SpeciesProfile, key: ShapeKey, value: number): SpeciesProfile =>
+  key === 'trichomeDensity'
+    ? { ...species, trichomeDensity: value }
+    : key === 'narrowing' || key === 'curl'
+      ? { ...species, morphology: { ...species.morphology, [key]: value } }
+      : { ...species, outline: { ...species.outline, [key]: value } };
+
+// Crop species: leaf outline and µG response in the 3D view, physiology and leaf size in the model.
+// Custom species keep the current model parameters, e.g. from a calibration.
+const SpeciesPanel: React.FC<SpeciesPanelProps> = ({ species, parameters, onSelect, onEdit }) => {
+  const [custom, setCustom] = useState<SpeciesProfile[]>(() => loadCustomSpecies());
+  const [editing, setEditing] = useState(false);
+  const [name, setName] = useState('');
+  const available = [...SPECIES_PROFILES, ...custom];
+  const stored = custom.some(entry => entry.name === species.name);
+
+  const handleSave = () => {
+    if (!name.trim()) return;
+    const saved = createSpeciesProfile(name, species, parameters);
+    setCustom(saveCustomSpecies(saved));
+    onEdit(saved);
+    setName('');
+  };
+
+  const handleDelete = () => {
+    setCustom(deleteCustomSpecies(species.name));
+    onSelect(SPECIES_PROFILES[0]);
+  };
+
+  return (
+    <div className="bg-space-800 border border-space-700 px-6 py-4 rounded-lg shadow-xl backdrop-blur-sm bg-opacity-90 font-mono text-xs">
+      <div className="flex justify-between items-center gap-2">
+        <span className="text-sci-cyan text-sm uppercase tracking-wider">Species</span>
+        <select
+          value={available.some(entry => entry.name === species.name) ? species.name : ''}
+          onChange={(e) => {
+            const next = available.find(entry => entry.name === e.target.value);
+            if (next) onSelect(next);
+          }}
+          className="flex-1 min-w-0 bg-space-700 text-gray-300 text-xs rounded px-2 py-1 border border-space-600"
+        >
+          {!available.some(entry => entry.name === species.name) && <option value="">{species.name}</option>}
+          <optgroup label="Built-in">
+            {SPECIES_PROFILES.map(entry => (
+              <option key={entry.name} value={entry.name}>{entry.name}</option>
+            ))}
+          </optgroup>
+          {custom.length > 0 && (
+            <optgroup label="Custom">
+              {custom.map(entry => (
+                <option key={entry.name} value={entry.name}>{entry.name}</option>
+              ))}
+            </optgroup>
+          )}
+        </select>
+        <button
+          onClick={() => setEditing(!editing)}
+          className={`px-3 py-1 rounded text-xs transition-all duration-300 ${
+            editing ? 'bg-sci-cyan text-space-900' : 'bg-space-700 text-gray-400 hover:bg-space-600'
+          }`}
+        >
+          SHAPE
+        </button>
+      </div>
+      <div className="text-[10px] text-gray-500 mt-2">
+        {species.description || 'Custom species'} · {species.leafLength} × {species.leafWidth} mm
+        {!isBuiltInSpecies(species) && !stored && ' · modified'}
+      </div>
+
+      {editing && (
+        <>
+          <div className="grid grid-cols-[4.5rem_1fr_2.5rem] gap-x-2 gap-y-1 items-center mt-3 text-[10px]">
+            {SLIDERS.map(({ key, label, min, max, step }) => (
+              <React.Fragment key={key}>
+                <span className="text-gray-400">{label}</span>
+                <input
+                  type="range"
+                  min={min}
+                  max={max}
+                  step={step}
+                  value={shapeValue(species, key)}
+                  onChange={(e) => onEdit(withShape(species, key, parseFloat(e.target.value)))}
+                  className="w-full h-1 bg-space-700 rounded appearance-none accent-white"
+                />
+                <span className="text-right text-gray-300">{shapeValue(species, key)}</span>
+              </React.Fragment>
+            ))}
+          </div>
+          <div className="flex justify-between items-center gap-2 mt-2 text-[10px] text-gray-400">
+            {(['leafLength', 'leafWidth'] as const).map(key => (
+              <label key={key} className="flex items-center gap-1">
+                {key === 'leafLength' ? 'LENGTH' : 'WIDTH'}
+                <input
+                  type="number"
+                  min={1}
+                  max={500}
+                  value={species[key]}
+                  onChange={(e) => onEdit({ ...species, [key]: Math.min(Math.max(Number(e.target.value), 1), 500) })}
+                  className="w-14 bg-space-700 text-gray-300 font-mono text-xs rounded px-1 py-1 border border-space-600"
+                />
+                mm
+              </label>
+            ))}
+          </div>
+          <div className="flex gap-2 mt-3">
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Custom species name"
+              className="flex-1 min-w-0 bg-space-700 text-gray-300 text-xs rounded px-2 py-1 border border-space-600"
+            />
+            <button onClick={handleSave} disabled={!name.trim()} className={buttonClass} title="Saves this shape with the current model parameters">
+              SAVE
+            </button>
+            <button onClick={handleDelete} disabled={!stored} className={`${buttonClass} text-gray-500`}>
+              DELETE
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SpeciesPanel;
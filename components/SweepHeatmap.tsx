@@ -0,0 +1,146 @@
+import React from 'react';
+import { LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer, CartesianGrid, ReferenceLine } from 'recharts';
+import { contourSegments, SWEEP_INPUTS, SWEEP_OUTPUTS, SweepOutput, SweepResult } from '../sweep/sweep';
+
+interface SweepHeatmapProps {
+  result: SweepResult;
+  output: SweepOutput;
+  contourLevel: number | null; // Iso-line drawn over the map
+}
+
+// Dark blue -> cyan -> green -> yellow -> red
+const RAMP: [number, number, number][] = [
+  [11, 13, 60],
+  [0, 140, 200],
+  [0, 240, 157],
+  [250, 220, 40],
+  [255, 60, 60],
+];
+
+const rampColor = (t: number): string => {
+  const scaled = Math.min(Math.max(t, 0), 1) * (RAMP.length - 1);
+  const i = Math.min(Math.floor(scaled), RAMP.length - 2);
+  const f = scaled - i;
+  const [r, g, b] = RAMP[i].map((c, k) => Math.round(c + (RAMP[i + 1][k] - c) * f));
+  return `rgb(${r},${g},${b})`;
+};
+
+const format = (value: number) => (Math.abs(value) >= 100 ? value.toFixed(0) : value.toPrecision(2));
+
+const WIDTH = 300;
+const HEIGHT = 190;
+const MARGIN = { left: 34, right: 6, top: 6, bottom: 26 };
+
+// Chosen output over the sweep grid: a heatmap with an optional contour, or a line for one-input sweeps
+const SweepHeatmap: React.FC<SweepHeatmapProps> = ({ result, output, contourLevel }) => {
+  const grid = result.values[output];
+  const { label, unit } = SWEEP_OUTPUTS[output];
+  const xInfo = SWEEP_INPUTS[result.x.input];
+
+  if (!result.y) {
+    const data = result.xValues.map((x, i) => ({ x, value: grid[0][i] }));
+    return (
+      <div className="h-40 w-full mt-2">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={data}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#1f2544" vertical={false} />
+            <XAxis dataKey="x" type="number" domain={['dataMin', 'dataMax']} stroke="#64748b" fontSize={9} tickFormatter={format} />
+            <YAxis stroke="#64748b" fontSize={9} width={30} tickFormatter={format} />
+            <Tooltip
+              contentStyle={{backgroundColor: 'rgba(11, 13, 23, 0.9)', borderColor: '#1f2544', color: '#fff', fontSize: '12px'}}
+              itemStyle={{fontFamily: 'monospace'}}
+              formatter={(value) => `${Number(value).toFixed(2)} ${unit}`}
+              labelFormatter={(x) => `${xInfo.label} = ${Number(x).toFixed(2)} ${xInfo.unit}`}
+              labelStyle={{color: '#9ca3af', fontSize: '10px'}}
+            />
+            {contourLevel !== null && <ReferenceLine y={contourLevel} stroke="#ffffff" strokeDasharray="4 2" />}
+            <Line type="monotone" dataKey="value" name={label} stroke="#00f0ff" strokeWidth={2} dot={{ r: 2 }} isAnimationActive={false} />
+          </LineChart>
+        </ResponsiveContainer>
+        <div className="text-[9px] text-gray-500 font-mono text-center">{xInfo.label} ({xInfo.unit})</div>
+      </div>
+    );
+  }
+
+  const yInfo = SWEEP_INPUTS[result.y.input];
+  const nx = result.xValues.length;
+  const ny = result.yValues.length;
+  const finite = grid.flat().filter(Number.isFinite);
+  const low = Math.min(...finite);
+  const high = Math.max(...finite);
+  const span = high - low || 1;
+  const plotWidth = WIDTH - MARGIN.left - MARGIN.right;
+  const plotHeight = HEIGHT - MARGIN.top - MARGIN.bottom;
+  const cellWidth = plotWidth / nx;
+  const cellHeight = plotHeight / ny;
+  // Row 0 (lowest y value) at the bottom; grid indices map to cell centres
+  const px = (i: number) => MARGIN.left + (i + 0.5) * cellWidth;
+  const py = (j: number) => MARGIN.top + (ny - 1 - j + 0.5) * cellHeight;
+  const segments = contourLevel !== null ? contourSegments(grid, contourLevel) : [];
+
+  return (
+    <div className="mt-2 font-mono">
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full">
+        {grid.map((row, j) =>
+          row.map((value, i) => (
+            <rect
+              key={`${i}-${j}`}
+              x={MARGIN.left + i * cellWidth}
+              y={MARGIN.top + (ny - 1 - j) * cellHeight}
+              width={cellWidth + 0.5}
+              height={cellHeight + 0.5}
+              fill={Number.isFinite(value) ? rampColor((value - low) / span) : '#333'}
+            >
+              <title>
+                {`${xInfo.label} ${result.xValues[i].toFixed(2)} ${xInfo.unit}, ${yInfo.label} ${result.yValues[j].toFixed(2)} ${yInfo.unit}: ${value.toFixed(2)} ${unit}`}
+              </title>
+            </rect>
+          ))
+        )}
+        {segments.map(([x1, y1, x2, y2], k) => (
+          <line key={k} x1={px(x1)} y1={py(y1)} x2={px(x2)} y2={py(y2)} stroke="#ffffff" strokeWidth={1.5} strokeDasharray="3 1.5" />
+        ))}
+        {[0, nx - 1].map((i) => (
+          <text key={`x${i}`} x={px(i)} y={HEIGHT - MARGIN.bottom + 10} fill="#64748b" fontSize={8} textAnchor="middle">
+            {format(result.xValues[i])}
+          </text>
+        ))}
+        <text x={MARGIN.left + plotWidth / 2} y={HEIGHT - 4} fill="#9ca3af" fontSize={8} textAnchor="middle">
+          {xInfo.label} ({xInfo.unit})
+        </text>
+        {[0, ny - 1].map((j) => (
+          <text key={`y${j}`} x={MARGIN.left - 3} y={py(j) + 3} fill="#64748b" fontSize={8} textAnchor="end">
+            {format(result.yValues[j])}
+          </text>
+        ))}
+        <text
+          x={8}
+          y={MARGIN.top + plotHeight / 2}
+          fill="#9ca3af"
+          fontSize={8}
+          textAnchor="middle"
+          transform={`rotate(-90 8 ${MARGIN.top + plotHeight / 2})`}
+        >
+          {yInfo.label} ({yInfo.unit})
+        </text>
+      </svg>
+      <div className="flex items-center gap-2 text-[9px] text-gray-400 mt-1">
+        <span>{format(low)}</span>
+        <div
+          className="flex-1 h-2 rounded"
+          style={{ background: `linear-gradient(to right, ${RAMP.map((_, k) => rampColor(k / (RAMP.length - 1))).join(', ')})` }}
+        ></div>
+        <span>{format(high)}</span>
+        <span className="text-gray-500">{unit}</span>
+      </div>
+      {contourLevel !== null && (
+        <div className="text-[9px] text-gray-500 mt-1">
+          - - {label} = {contourLevel} {unit}
+          {!segments.length && ' (not reached in this range)'}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SweepHeatmap;
@@ -0,0 +1,193 @@
+import React, { useState } from 'react';
+import { EnvironmentInputs } from '../types';
+import { ModelParameters } from '../physics/modelParameters';
+import { SWEEP_INPUTS, SWEEP_OUTPUTS, SweepAxis, SweepInput, SweepOutput } from '../sweep/sweep';
+import { useSensitivity, useSweep } from '../hooks/useSweep';
+import SweepHeatmap from './SweepHeatmap';
+
+interface SweepPanelProps {
+  inputs: EnvironmentInputs; // Current environment: base of the sweep and point of the sensitivity analysis
+  parameters: ModelParameters;
+}
+
+const INPUT_KEYS = Object.keys(SWEEP_INPUTS) as SweepInput[];
+const OUTPUT_KEYS = Object.keys(SWEEP_OUTPUTS) as SweepOutput[];
+
+const fullRange = (input: SweepInput, steps: number): SweepAxis => ({ input, ...SWEEP_INPUTS[input], steps });
+
+// Default iso-lines: the 1 mm boundary layer, half of full efficiency, the stress alarm
+const DEFAULT_CONTOURS: Partial<Record<SweepOutput, number>> = {
+  boundaryLayerThickness: 1,
+  photosyntheticEfficiency: 50,
+  stressLevel: 50,
+};
+
+const inputClass = 'bg-space-700 text-gray-300 font-mono text-xs rounded px-1 py-1 border border-space-600';
+
+interface AxisEditorProps {
+  label: string;
+  axis: SweepAxis;
+  onChange: (axis: SweepAxis) => void;
+  disabled: boolean;
+}
+
+const AxisEditor: React.FC<AxisEditorProps> = ({ label, axis, onChange, disabled }) => (
+  <div className="grid grid-cols-[1.5rem_1fr_3.5rem_3.5rem_2.5rem] gap-1 items-center mb-1">
+    <span className="text-gray-500">{label}</span>
+    <select
+      value={axis.input}
+      onChange={(e) => onChange(fullRange(e.target.value as SweepInput, axis.steps))}
+      disabled={disabled}
+      className={inputClass}
+    >
+      {INPUT_KEYS.map((key) => (
+        <option key={key} value={key}>{SWEEP_INPUTS[key].label} ({SWEEP_INPUTS[key].unit})</option>
+      ))}
+    </select>
+    <input type="number" value={axis.min} onChange={(e) => onChange({ ...axis, min: Number(e.target.value) })} disabled={disabled} className={inputClass} title="From" />
+    <input type="number" value={axis.max} onChange={(e) => onChange({ ...axis, max: Number(e.target.value) })} disabled={disabled} className={inputClass} title="To" />
+    <input
+      type="number"
+      min={2}
+      max={25}
+      value={axis.steps}
+      onChange={(e) => onChange({ ...axis, steps: Math.min(Math.max(Math.round(Number(e.target.value)), 2), 25) })}
+      disabled={disabled}
+      className={inputClass}
+      title="Points"
+    />
+  </div>
+);
+
+// Headless sweeps of one or two inputs, and one-at-a-time sensitivity around the current state
+const SweepPanel: React.FC<SweepPanelProps> = ({ inputs, parameters }) => {
+  const sweep = useSweep();
+  const sensitivity = useSensitivity();
+  const [x, setX] = useState<SweepAxis>(fullRange('airVelocity', 11));
+  const [y, setY] = useState<SweepAxis>(fullRange('gravityFactor', 6));
+  const [twoAxes, setTwoAxes] = useState(true);
+  const [output, setOutput] = useState<SweepOutput>('boundaryLayerThickness');
+  const [contour, setContour] = useState<string>(String(DEFAULT_CONTOURS.boundaryLayerThickness));
+
+  const points = x.steps * (twoAxes ? y.steps : 1);
+  const sameInput = twoAxes && x.input === y.input;
+  const contourLevel = contour.trim() !== '' && Number.isFinite(Number(contour)) ? Number(contour) : null;
+
+  const selectOutput = (next: SweepOutput) => {
+    setOutput(next);
+    setContour(DEFAULT_CONTOURS[next] !== undefined ? String(DEFAULT_CONTOURS[next]) : '');
+  };
+
+  const runSweep = () => sweep.start({ base: inputs, parameters, x, y: twoAxes ? y : null });
+
+  const ranked = sensitivity.result
+    ? [...sensitivity.result].sort((a, b) => Math.abs(b.rangeEffect[output]) - Math.abs(a.rangeEffect[output]))
+    : [];
+  const largestEffect = ranked.length ? Math.abs(ranked[0].rangeEffect[output]) || 1 : 1;
+
+  return (
+    <div className="bg-space-800 border border-space-700 p-6 rounded-lg shadow-xl backdrop-blur-sm bg-opacity-90 font-mono text-xs">
+      <h3 className="text-sci-cyan font-mono text-sm mb-4 border-b border-space-700 pb-2 uppercase tracking-wider">
+        Parameter Sweep
+      </h3>
+
+      <div className="grid grid-cols-[1.5rem_1fr_3.5rem_3.5rem_2.5rem] gap-1 text-[9px] text-gray-500 mb-1">
+        <span></span>
+        <span>INPUT</span>
+        <span>FROM</span>
+        <span>TO</span>
+        <span>PTS</span>
+      </div>
+      <AxisEditor label="X" axis={x} onChange={setX} disabled={sweep.running} />
+      {twoAxes && <AxisEditor label="Y" axis={y} onChange={setY} disabled={sweep.running} />}
+      <label className="flex items-center gap-1 text-[10px] text-gray-400 mb-3 cursor-pointer">
+        <input type="checkbox" checked={twoAxes} onChange={() => setTwoAxes(!twoAxes)} disabled={sweep.running} className="accent-sci-cyan" />
+        Sweep a second input (heatmap)
+      </label>
+
+      <div className="flex gap-2 items-center mb-3">
+        <select value={output} onChange={(e) => selectOutput(e.target.value as SweepOutput)} className={`flex-1 ${inputClass}`}>
+          {OUTPUT_KEYS.map((key) => (
+            <option key={key} value={key}>{SWEEP_OUTPUTS[key].label} ({SWEEP_OUTPUTS[key].unit})</option>
+          ))}
+        </select>
+        <span className="text-gray-500 text-[10px]">CONTOUR</span>
+        <input value={contour} onChange={(e) => setContour(e.target.value)} placeholder="—" className={`w-14 ${inputClass}`} />
+      </div>
+
+      <button
+        onClick={sweep.running ? sweep.cancel : runSweep}
+        disabled={!sweep.running && sameInput}
+        className={`w-full py-1 rounded text-xs transition-all duration-300 disabled:opacity-40 ${
+          sweep.running ? 'bg-space-700 text-yellow-500' : 'bg-sci-cyan text-space-900'
+        }`}
+      >
+        {sweep.running
+          ? `CANCEL (${sweep.progress?.done ?? 0}/${sweep.progress?.total ?? points})`
+          : `RUN SWEEP · ${points} POINTS`}
+      </button>
+      {sameInput && <div className="text-[9px] text-yellow-500 mt-1">X and Y must vary different inputs</div>}
+      {sweep.running && (
+        <div className="w-full h-1 bg-space-900 rounded mt-1 overflow-hidden">
+          <div
+            className="h-full bg-sci-cyan transition-all duration-300"
+            style={{ width: `${(100 * (sweep.progress?.done ?? 0)) / (sweep.progress?.total ?? points)}%` }}
+          ></div>
+        </div>
+      )}
+      {sweep.error && <div className="text-[9px] text-sci-alert mt-1">⚠️ {sweep.error}</div>}
+      {sweep.result && <SweepHeatmap result={sweep.result} output={output} contourLevel={contourLevel} />}
+
+      <div className="mt-4 pt-3 border-t border-space-700">
+        <div className="flex justify-between items-center mb-2">
+          <span className="text-gray-400">LOCAL SENSITIVITY</span>
+          <button
+            onClick={sensitivity.running ? sensitivity.cancel : () => sensitivity.start({ base: inputs, parameters })}
+            className="px-2 py-1 rounded text-[10px] bg-space-700 text-gray-300 hover:bg-space-600 transition-all duration-300"
+          >
+            {sensitivity.running ? 'CANCEL' : 'ANALYSE CURRENT STATE'}
+          </button>
+        </div>
+        {sensitivity.error && <div className="text-[9px] text-sci-alert mb-1">⚠️ {sensitivity.error}</div>}
+        {ranked.length > 0 && (
+          <>
+            <div className="grid grid-cols-[5.5rem_3rem_1fr] gap-1 text-[9px] text-gray-500 mb-1">
+              <span>INPUT</span>
+              <span className="text-right">ELAST.</span>
+              <span className="text-right">EFFECT OVER RANGE ({SWEEP_OUTPUTS[output].unit})</span>
+            </div>
+            {ranked.map((item, k) => {
+              const effect = item.rangeEffect[output];
+              const elasticity = item.elasticity[output];
+              return (
+                <div
+                  key={item.input}
+                  className="grid grid-cols-[5.5rem_3rem_1fr] gap-1 items-center"
+                  title={`At ${item.value.toPrecision(3)} ${SWEEP_INPUTS[item.input].unit}`}
+                >
+                  <span className={k === 0 ? 'text-white' : 'text-gray-300'}>{SWEEP_INPUTS[item.input].label}</span>
+                  <span className="text-right">{Number.isFinite(elasticity) ? elasticity.toFixed(2) : '—'}</span>
+                  <div className="flex items-center gap-1">
+                    <div className="flex-1 h-1.5 bg-space-900 rounded overflow-hidden">
+                      <div
+                        className={`h-full ${effect >= 0 ? 'bg-sci-green' : 'bg-sci-alert'}`}
+                        style={{ width: `${(100 * Math.abs(effect)) / largestEffect}%` }}
+                      ></div>
+                    </div>
+                    <span className="w-10 text-right text-[10px]">{effect.toPrecision(2)}</span>
+                  </div>
+                </div>
+              );
+            })}
+            <div className="text-[9px] text-gray-500 mt-1">
+              Elasticity: % change in {SWEEP_OUTPUTS[output].label.toLowerCase()} per % change in the input. Effect: local
+              slope × the input's control range. Dominant factor: {SWEEP_INPUTS[ranked[0].input].label}.
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SweepPanel;
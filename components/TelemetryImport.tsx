@@ -0,0 +1,63 @@
+import React, { useRef, useState } from 'react';
+import { TelemetryLog } from '../types';
+import { parseTelemetryCsv } from '../telemetry/telemetryImport';
+
+interface TelemetryImportProps {
+  telemetry: TelemetryLog | null;
+  onImport: (log: TelemetryLog | null) => void;
+}
+
+// Loads a measured gas-exchange log to replay and validate against
+const TelemetryImport: React.FC<TelemetryImportProps> = ({ telemetry, onImport }) => {
+  const [error, setError] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      onImport(parseTelemetryCsv(await file.text(), file.name));
+      setError(null);
+    } catch (err) {
+      setError(`${file.name}: ${err instanceof Error ? err.message : 'could not be read'}`);
+    } finally {
+      if (fileInput.current) fileInput.current.value = '';
+    }
+  };
+
+  return (
+    <div className="mb-6">
+      <label className="text-gray-400 text-xs font-mono mb-2 block">MEASURED TELEMETRY</label>
+      <div className="flex gap-2">
+        <button
+          onClick={() => fileInput.current?.click()}
+          className="flex-1 py-2 rounded font-mono text-xs bg-space-700 text-gray-300 hover:bg-space-600 transition-all duration-300"
+        >
+          IMPORT CSV (LI-COR)
+        </button>
+        {telemetry && (
+          <button
+            onClick={() => onImport(null)}
+            className="px-3 py-2 rounded font-mono text-xs bg-space-700 text-gray-500 hover:bg-space-600 transition-all duration-300"
+          >
+            CLEAR
+          </button>
+        )}
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".csv,.txt,text/csv,text/plain"
+          className="hidden"
+          onChange={(e) => handleFile(e.target.files?.[0])}
+        />
+      </div>
+      {telemetry && (
+        <div className="text-[9px] text-gray-500 font-mono mt-1">
+          {telemetry.name}: {telemetry.samples.length} samples · {Object.entries(telemetry.columns).map(([column, field]) => `${column}→${field}`).join(', ')}
+        </div>
+      )}
+      {error && <div className="text-[9px] text-sci-alert font-mono mt-1">⚠️ {error}</div>}
+    </div>
+  );
+};
+
+export default TelemetryImport;
@@ -1,25 +1,68 @@
 
 import React from 'react';
-import { SimulationState } from '../types';
+import { AlarmMetric, AlarmRule, SimulationState, TimelineSample } from '../types';
 import FluxChart from './FluxChart';
+import { describeConvectionRegime } from '../physics/convection';
+import { ALARM_METRICS } from '../alarms/alarmRules';
+import { ALARM_SEVERITY_CLASSES } from '../constants';
+import { FieldValidation, MEASURED_FIELD_LABELS } from '../telemetry/validation';
+import { CanopyState } from '../physics/canopy';
 
 interface TelemetryPanelProps {
   state: SimulationState;
+  history: TimelineSample[];
+  validation: FieldValidation[]; // Empty without imported telemetry
+  alarms: AlarmRule[]; // Active alarms, most severe first
+  // Comparison mode: configuration B alongside the primary state (A)
+  comparison?: SimulationState | null;
+  comparisonHistory?: TimelineSample[];
+  canopy?: CanopyState | null; // Canopy mode: the rosette around configuration A
 }
 
-const TelemetryPanel: React.FC<TelemetryPanelProps> = ({ state }) => {
-  const data = [
-    { name: 'Boundary Layer', value: state.boundaryLayerThickness, max: 4, unit: 'mm', color: '#00f0ff' },
-    { name: 'Leaf Temp', value: state.temperature, max: 40, unit: '°C', color: state.temperature > 30 ? '#ff4d4d' : '#fbbf24' },
-    { name: 'Ambient Temp', value: state.ambientTemperature, max: 40, unit: '°C', color: '#9ca3af' },
-    { name: 'Efficiency', value: state.photosyntheticEfficiency, max: 100, unit: '%', color: '#84cc16' }, // Lime green
+type ComparedKey = 'co2Flux' | 'h2oFlux' | 'temperature' | 'boundaryLayerThickness' | 'stomatalConductance' | 'photosyntheticEfficiency' | 'stressLevel';
+
+// Side-by-side outputs in comparison mode, with the difference B - A
+const COMPARED_OUTPUTS: { name: string; key: ComparedKey; unit: string; digits: number }[] = [
+  { name: 'CO2 uptake', key: 'co2Flux', unit: 'µmol/m²/s', digits: 1 },
+  { name: 'Transpiration', key: 'h2oFlux', unit: 'mmol/m²/s', digits: 2 },
+  { name: 'Leaf temp', key: 'temperature', unit: '°C', digits: 1 },
+  { name: 'Boundary layer', key: 'boundaryLayerThickness', unit: 'mm', digits: 2 },
+  { name: 'Stomatal cond.', key: 'stomatalConductance', unit: 'mol/m²/s', digits: 3 },
+  { name: 'Efficiency', key: 'photosyntheticEfficiency', unit: '%', digits: 0 },
+  { name: 'Stress', key: 'stressLevel', unit: '', digits: 0 },
+];
+
+type FaceKey = 'adaxialCO2Flux' | 'abaxialCO2Flux' | 'adaxialH2OFlux' | 'abaxialH2OFlux' | 'adaxialConductance' | 'abaxialConductance' | 'adaxialBoundaryLayer' | 'abaxialBoundaryLayer';
+
+const FACES: { label: string; co2: FaceKey; h2o: FaceKey; conductance: FaceKey; layer: FaceKey }[] = [
+  { label: 'Upper', co2: 'adaxialCO2Flux', h2o: 'adaxialH2OFlux', conductance: 'adaxialConductance', layer: 'adaxialBoundaryLayer' },
+  { label: 'Lower', co2: 'abaxialCO2Flux', h2o: 'abaxialH2OFlux', conductance: 'abaxialConductance', layer: 'abaxialBoundaryLayer' },
+];
+
+const TelemetryPanel: React.FC<TelemetryPanelProps> = ({ state, history, validation, alarms, comparison = null, comparisonHistory = [], canopy = null }) => {
+  const measuredPoints = (field: string) => validation.find(v => v.field === field)?.points ?? [];
+  // Upper-face convection as solved, at the species' leaf length
+  const regime = describeConvectionRegime({ reynolds: state.reynoldsNumber, grashof: state.grashofNumber, richardson: state.richardsonNumber });
+
+  // Each bar lists the active alarms on its metrics; the status report lists them all
+  const data: { name: string; value: number; max: number; unit: string; color: string; metrics: AlarmMetric[] }[] = [
+    { name: 'Boundary Layer', value: state.boundaryLayerThickness, max: 4, unit: 'mm', color: '#00f0ff', metrics: ['boundaryLayerThickness', 'airVelocity'] },
+    { name: 'Leaf Temp', value: state.temperature, max: 40, unit: '°C', color: state.temperature > 30 ? '#ff4d4d' : '#fbbf24', metrics: ['temperature', 'temperatureRise'] },
+    { name: 'Ambient Temp', value: state.ambientTemperature, max: 40, unit: '°C', color: '#9ca3af', metrics: [] },
+    { name: 'Transpiration', value: state.h2oFlux, max: 5, unit: 'mmol/m²/s', color: '#60a5fa', metrics: ['h2oFlux', 'vapourPressureDeficit'] },
+    { name: 'Efficiency', value: state.photosyntheticEfficiency, max: 100, unit: '%', color: '#84cc16', metrics: ['photosyntheticEfficiency'] }, // Lime green
   ];
+  const worst = alarms[0];
 
   return (
     <div className="bg-space-800 border border-space-700 p-6 rounded-lg shadow-xl backdrop-blur-sm bg-opacity-90 h-full flex flex-col">
       <h3 className="text-sci-cyan font-mono text-sm mb-6 border-b border-space-700 pb-2 uppercase tracking-wider flex justify-between items-center">
         <span>Leaf Telemetry</span>
-        <span className={`w-2 h-2 rounded-full animate-pulse ${state.stressLevel > 50 ? 'bg-sci-alert' : 'bg-sci-green'}`}></span>
+        <span
+          className={`w-2 h-2 rounded-full animate-pulse ${
+            worst?.severity === 'CRITICAL' ? 'bg-sci-alert' : worst?.severity === 'WARNING' ? 'bg-yellow-500' : 'bg-sci-green'
+          }`}
+        ></span>
       </h3>
 
       {/* Primary Metrics Bars */}
@@ -41,38 +84,194 @@ const TelemetryPanel: React.FC<TelemetryPanelProps> = ({ state }) => {
                />
              </div>
              
-             {/* Dynamic Alerts based on Metric Context */}
-             {item.name === 'Leaf Temp' && state.temperature > state.ambientTemperature + 2 && (
-                 <div className="text-[9px] text-yellow-500 mt-0.5 font-mono">
-                     +{(state.temperature - state.ambientTemperature).toFixed(1)}°C Heat Trap Effect
-                 </div>
-             )}
-             {item.name === 'Boundary Layer' && state.gravityFactor < 0.2 && state.boundaryLayerThickness > 1.5 && (
-                <div className="text-[9px] text-sci-alert mt-1 font-mono italic animate-pulse">
-                   ⚠️ Diffusional resistance CRITICAL
-                </div>
-             )}
-             {item.name === 'Efficiency' && item.value < 40 && (
-                 <div className="text-[9px] text-sci-alert mt-1 font-mono italic">
-                     Photosynthesis Inhibited
+             {/* Active alarms on this metric (alarms/alarmRules.ts) */}
+             {alarms
+               .filter(alarm => item.metrics.includes(alarm.metric))
+               .map(alarm => (
+                 <div
+                   key={alarm.id}
+                   className={`text-[9px] mt-0.5 font-mono ${ALARM_SEVERITY_CLASSES[alarm.severity]} ${alarm.severity === 'CRITICAL' ? 'italic animate-pulse' : ''}`}
+                 >
+                   {alarm.severity === 'CRITICAL' && '⚠️ '}
+                   {alarm.message} ({ALARM_METRICS[alarm.metric].value(state).toFixed(2)} {ALARM_METRICS[alarm.metric].unit})
                  </div>
-             )}
+               ))}
+          </div>
+        ))}
+      </div>
+      
+      {/* A vs B */}
+      {comparison && (
+        <div className="mb-4 p-3 bg-space-900 rounded border border-space-700 font-mono text-[10px] text-gray-400">
+          <div className="grid grid-cols-5 gap-1 text-gray-500 mb-1">
+            <span className="col-span-2">OUTPUT</span>
+            <span className="text-right">A</span>
+            <span className="text-right">B</span>
+            <span className="text-right">Δ B−A</span>
+          </div>
+          {COMPARED_OUTPUTS.map(({ name, key, unit, digits }) => {
+            const a = state[key];
+            const b = comparison[key];
+            const delta = b - a;
+            const relative = Math.abs(a) > 1e-9 ? (100 * delta) / Math.abs(a) : null;
+            return (
+              <div key={key} className="grid grid-cols-5 gap-1" title={unit}>
+                <span className="col-span-2 text-gray-300">{name}</span>
+                <span className="text-right text-white">{a.toFixed(digits)}</span>
+                <span className="text-right text-white">{b.toFixed(digits)}</span>
+                <span
+                  className={`text-right ${Math.abs(delta) < 0.5 * 10 ** -digits ? '' : delta > 0 ? 'text-sci-green' : 'text-sci-alert'}`}
+                  title={relative !== null ? `${relative >= 0 ? '+' : ''}${relative.toFixed(0)}%` : undefined}
+                >
+                  {delta >= 0 ? '+' : ''}
+                  {delta.toFixed(digits)}
+                </span>
+              </div>
+            );
+          })}
+          <div className="text-[9px] text-gray-500 mt-1">A: {state.gravityMode} · B: {comparison.gravityMode} (dashed in the chart)</div>
+        </div>
+      )}
+
+      {/* Rosette totals and per-leaf breakdown (oldest leaf first) */}
+      {canopy && (
+        <div className="mb-4 p-3 bg-space-900 rounded border border-space-700 font-mono text-[10px] text-gray-400">
+          <p className="mb-2 text-sci-cyan text-xs">CANOPY: {canopy.leaves.length} LEAVES</p>
+          <div className="grid grid-cols-3 gap-1 text-center mb-2">
+            <div>UPTAKE<div className="text-white">{canopy.co2Uptake.toFixed(3)} µmol/s</div></div>
+            <div>TRANSPIRATION<div className="text-white">{canopy.transpiration.toFixed(2)} µmol/s</div></div>
+            <div>LEAF AREA<div className="text-white">{canopy.leafArea.toFixed(1)} cm²</div></div>
+            <div>MEAN FLUX<div className="text-white">{canopy.meanCO2Flux.toFixed(1)} µmol/m²/s</div></div>
+            <div>MEAN LIGHT<div className="text-yellow-200">{(canopy.meanLightFraction * 100).toFixed(0)}%</div></div>
+            <div>LOWEST CO2<div className={canopy.minAmbientCO2 < state.ambientCO2 - 20 ? 'text-sci-alert' : 'text-white'}>{canopy.minAmbientCO2.toFixed(0)} ppm</div></div>
+          </div>
+          <div className="grid grid-cols-7 gap-1 text-gray-500 mb-1 text-right">
+            <span className="text-left">LEAF</span>
+            <span>LIGHT</span>
+            <span>AIR</span>
+            <span>CO2</span>
+            <span>δ</span>
+            <span>A</span>
+            <span>T</span>
+          </div>
+          <div className="max-h-32 overflow-y-auto">
+            {canopy.leaves.map(leaf => (
+              <div key={leaf.index} className="grid grid-cols-7 gap-1 text-right">
+                <span className="text-left text-gray-300">#{leaf.index + 1}</span>
+                <span>{(leaf.lightFraction * 100).toFixed(0)}%</span>
+                <span>{leaf.airVelocity.toFixed(2)}</span>
+                <span className={leaf.ambientCO2 < state.ambientCO2 - 20 ? 'text-sci-alert' : ''}>{leaf.ambientCO2.toFixed(0)}</span>
+                <span>{leaf.boundaryLayerThickness.toFixed(2)}</span>
+                <span className="text-white">{leaf.co2Flux.toFixed(1)}</span>
+                <span>{leaf.temperature.toFixed(1)}</span>
+              </div>
+            ))}
+          </div>
+          <div className="text-[9px] text-gray-500 mt-1">Light % of canopy top · air m/s · CO2 ppm reaching the leaf · δ mm · A µmol/m²/s · T °C</div>
+        </div>
+      )}
+
+      {/* Convection Regime */}
+      <div className="flex justify-between text-[10px] font-mono text-gray-400 mb-4">
+        <span>CONVECTION: <span className="text-white">{regime}</span></span>
+        <span>h {state.heatTransferCoefficient.toFixed(1)} W/m²K</span>
+        <span>Ri {Number.isFinite(state.richardsonNumber) ? state.richardsonNumber.toFixed(2) : '∞'}</span>
+      </div>
+      
+      {/* Per face: each with its own boundary layer and stomata */}
+      <div className="mb-4 font-mono text-[10px] text-gray-400">
+        <div className="grid grid-cols-5 gap-1 text-gray-500 text-right">
+          <span className="text-left">FACE</span>
+          <span>A</span>
+          <span>E</span>
+          <span>gs</span>
+          <span>δ</span>
+        </div>
+        {FACES.map(({ label, co2, h2o, conductance, layer }) => (
+          <div key={label} className="grid grid-cols-5 gap-1 text-right">
+            <span className="text-left text-gray-300">{label}</span>
+            <span className="text-white">{state[co2].toFixed(1)}</span>
+            <span>{state[h2o].toFixed(2)}</span>
+            <span>{state[conductance].toFixed(3)}</span>
+            <span className={state[layer] > 1.5 ? 'text-yellow-500' : ''}>{state[layer].toFixed(2)}</span>
           </div>
         ))}
+        <div className="text-[9px] text-gray-500 mt-1">A µmol/m²/s · E mmol/m²/s · gs mol/m²/s · δ mm</div>
+      </div>
+
+      {/* Gravitropic morphology, as developed so far */}
+      <div className="flex justify-between text-[10px] font-mono text-gray-400 mb-4">
+        <span>CURL <span className="text-white">{(state.leafCurl * 100).toFixed(0)}%</span></span>
+        <span>NARROWING <span className="text-white">{(state.leafNarrowing * 100).toFixed(0)}%</span></span>
+        <span>µG DOSE <span className="text-white">{(state.microgravityExposure / 3600).toFixed(1)} h</span></span>
+      </div>
+
+      {/* Gas Exchange (FvCB + Medlyn) */}
+      <div className="flex justify-between text-[10px] font-mono text-gray-400 mb-4">
+        <span>CO2 <span className="text-white">{state.surfaceCO2.toFixed(0)}</span> → Ci <span className="text-white">{state.intercellularCO2.toFixed(0)}</span> ppm</span>
+        <span>gs {state.stomatalConductance.toFixed(2)}</span>
+        <span>PR {state.photorespiration.toFixed(1)}</span>
+        <span className="text-sci-green">{state.photosynthesisLimitation}</span>
+      </div>
+
+      {/* Leaf Energy Budget */}
+      <div className="grid grid-cols-4 gap-1 text-[10px] font-mono text-gray-400 mb-4 text-center">
+        <div>ABSORBED<div className="text-yellow-200">{state.absorbedRadiation.toFixed(0)}</div></div>
+        <div>LONGWAVE<div className="text-white">{state.longwaveLoss.toFixed(0)}</div></div>
+        <div>SENSIBLE<div className="text-white">{state.sensibleHeatFlux.toFixed(0)}</div></div>
+        <div>LATENT<div className="text-sci-cyan">{state.latentHeatFlux.toFixed(0)}</div></div>
+        <div className="col-span-4 text-[9px] text-gray-500">LEAF ENERGY BALANCE (W/m²)</div>
       </div>
       
       {/* Flux Chart Component */}
       <div className="flex-grow border-t border-space-700 pt-4">
-        <FluxChart state={state} />
+        <FluxChart
+          history={history}
+          measuredCO2={measuredPoints('co2Flux')}
+          measuredH2O={measuredPoints('h2oFlux')}
+          comparison={comparison ? comparisonHistory : []}
+        />
       </div>
 
+      {/* Measured vs predicted, for imported telemetry */}
+      {validation.length > 0 && (
+        <div className="mt-4 p-3 bg-space-900 rounded border border-space-700 font-mono text-[10px] text-gray-400">
+          <p className="mb-2 text-sci-cyan text-xs">MODEL VALIDATION:</p>
+          <div className="grid grid-cols-5 gap-1 text-gray-500 mb-1">
+            <span className="col-span-2">SERIES</span>
+            <span className="text-right">N</span>
+            <span className="text-right">RMSE</span>
+            <span className="text-right">BIAS</span>
+          </div>
+          {validation.map((item) => {
+            const { label, unit } = MEASURED_FIELD_LABELS[item.field];
+            const last = item.points[item.points.length - 1];
+            return (
+              <div key={item.field} className="grid grid-cols-5 gap-1" title={last ? `Latest residual ${last.residual.toFixed(3)} ${unit}` : undefined}>
+                <span className="col-span-2 text-gray-300">{label}</span>
+                <span className="text-right">{item.points.length}</span>
+                <span className="text-right text-white">{item.points.length ? item.rmse.toPrecision(3) : '—'}</span>
+                <span className={`text-right ${Math.abs(item.bias) > item.rmse / 2 ? 'text-yellow-500' : ''}`}>
+                  {item.points.length ? item.bias.toPrecision(2) : '—'}
+                </span>
+              </div>
+            );
+          })}
+          <div className="text-[9px] text-gray-500 mt-1">Residual = measured − predicted, in the series' units</div>
+        </div>
+      )}
+
       <div className="mt-4 p-3 bg-space-900 rounded border border-space-700 font-mono text-xs text-gray-400">
         <p className="mb-1 text-sci-cyan">STATUS REPORT:</p>
-        <p className={state.stressLevel > 50 ? "text-sci-alert" : "text-gray-300"}>
-          {state.stressLevel > 50 
-            ? "CRITICAL: HYPOXIA IMMINENT. Thick boundary layer inhibiting gas exchange."
-            : "NOMINAL: Photosynthetic rates stable. Adequate diffusion."}
-        </p>
+        {worst ? (
+          alarms.map(alarm => (
+            <p key={alarm.id} className={ALARM_SEVERITY_CLASSES[alarm.severity]}>
+              {alarm.severity}: {alarm.message}
+            </p>
+          ))
+        ) : (
+          <p className="text-gray-300">NOMINAL: Photosynthetic rates stable. Adequate diffusion.</p>
+        )}
       </div>
     </div>
   );
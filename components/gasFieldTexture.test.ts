@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { encodeGasField, gasFieldLeafRange } from './gasFieldTexture';
+import { createGasField } from '../physics/boundaryLayerSolver';
+import { GAS_FIELD_DEPLETION_RANGE } from '../constants';
+
+describe('encodeGasField', () => {
+  it('encodes ambient air as no depletion', () => {
+    const data = encodeGasField(createGasField(400, 21), 400, 21);
+    expect(data[0]).toBe(0);
+    expect(data[1]).toBe(0);
+    expect(data[3]).toBe(255);
+  });
+
+  it('scales CO2 drawdown to the display range and clamps beyond it', () => {
+    const field = createGasField(400, 21);
+    field.co2[0] = 400 * (1 - GAS_FIELD_DEPLETION_RANGE / 2);
+    field.co2[1] = 0;
+    field.o2[2] = 21 + 0.01; // +100 ppm
+    const data = encodeGasField(field, 400, 21);
+    expect(data[0]).toBe(127);
+    expect(data[4]).toBe(255);
+    expect(data[9]).toBe(Math.floor((100 / (400 * GAS_FIELD_DEPLETION_RANGE)) * 255));
+  });
+});
+
+describe('gasFieldLeafRange', () => {
+  it('spans the leaf columns of the grid', () => {
+    const field = createGasField(400, 21);
+    const [start, end] = gasFieldLeafRange(field);
+    expect(start).toBeCloseTo(field.grid.leafStart / field.grid.nx);
+    expect(end).toBeGreaterThan(start);
+    expect(end).toBeLessThanOrEqual(1);
+  });
+});
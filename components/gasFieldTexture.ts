@@ -0,0 +1,52 @@
+import { useEffect, useMemo } from 'react';
+import * as THREE from 'three';
+import { GasField } from '../physics/boundaryLayerSolver';
+import { GAS_FIELD_DEPLETION_RANGE } from '../constants';
+
+// Packs the FDM solution into RGBA bytes (one texel per grid node, row 0 at the leaf):
+// R = CO2 drawdown, G = O2 build-up, both as a fraction of ambient CO2 over GAS_FIELD_DEPLETION_RANGE.
+export const encodeGasField = (field: GasField, ambientCO2: number, ambientO2: number, target?: Uint8Array): Uint8Array => {
+  const { nx, ny } = field.grid;
+  const data = target ?? new Uint8Array(nx * ny * 4);
+  const scale = 255 / (Math.max(ambientCO2, 1) * GAS_FIELD_DEPLETION_RANGE);
+  for (let k = 0; k < nx * ny; k++) {
+    const depletion = (ambientCO2 - field.co2[k]) * scale;
+    const buildup = (field.o2[k] - ambientO2) * 1e4 * scale; // % -> ppm
+    data[k * 4] = Math.min(Math.max(depletion, 0), 255);
+    data[k * 4 + 1] = Math.min(Math.max(buildup, 0), 255);
+    data[k * 4 + 2] = 0;
+    data[k * 4 + 3] = 255;
+  }
+  return data;
+};
+
+// Texture coordinates of the leaf within the field texture
+export const gasFieldLeafRange = (field: GasField): [number, number] => [
+  field.grid.leafStart / field.grid.nx,
+  field.grid.leafEnd / field.grid.nx,
+];
+
+export const gasFieldSurfaceV = (field: GasField): number => 0.5 / field.grid.ny;
+
+// Keeps a THREE.DataTexture in sync with the latest solved field
+export const useGasFieldTexture = (field: GasField, ambientCO2: number, ambientO2: number): THREE.DataTexture => {
+  const { nx, ny } = field.grid;
+
+  const texture = useMemo(() => {
+    const tex = new THREE.DataTexture(new Uint8Array(nx * ny * 4), nx, ny, THREE.RGBAFormat);
+    tex.magFilter = THREE.LinearFilter;
+    tex.minFilter = THREE.LinearFilter;
+    tex.wrapS = THREE.ClampToEdgeWrapping;
+    tex.wrapT = THREE.ClampToEdgeWrapping;
+    return tex;
+  }, [nx, ny]);
+
+  useEffect(() => () => texture.dispose(), [texture]);
+
+  useEffect(() => {
+    encodeGasField(field, ambientCO2, ambientO2, texture.image.data as Uint8Array);
+    texture.needsUpdate = true;
+  }, [field, ambientCO2, ambientO2, texture]);
+
+  return texture;
+};
@@ -0,0 +1,19 @@
+import { describe, it, expect } from 'vitest';
+import { leafLightIntensity } from './leafLighting';
+import { DEFAULT_SPECIES, INITIAL_STATE, SHADER_REFERENCE_PPFD } from '../constants';
+import { environmentFromState } from '../physics/leafPhysics';
+
+const response = DEFAULT_SPECIES.morphology;
+
+describe('leafLightIntensity', () => {
+  it('draws the leaf dark in the dark phase of the photoperiod', () => {
+    expect(leafLightIntensity({ ...INITIAL_STATE, lightFraction: 0 }, response)).toBe(0);
+    expect(leafLightIntensity({ ...INITIAL_STATE, ppfd: SHADER_REFERENCE_PPFD, lightFraction: 0.5 }, response)).toBe(0.5);
+  });
+
+  it('shades a curled blade like the physics does', () => {
+    const curled = { ...INITIAL_STATE, leafCurl: 1 };
+    expect(leafLightIntensity(curled, response)).toBeLessThan(leafLightIntensity(INITIAL_STATE, response));
+    expect(leafLightIntensity(curled, response) * SHADER_REFERENCE_PPFD).toBeCloseTo(environmentFromState(curled, response).ppfd);
+  });
+});
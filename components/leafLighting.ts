@@ -0,0 +1,8 @@
+import { SHADER_REFERENCE_PPFD } from '../constants';
+import { environmentFromState } from '../physics/leafPhysics';
+import { GravityMorphology, SimulationState } from '../types';
+
+// Grow-light brightness drawn on the leaf: the PPFD the physics puts on it (dimmed by the
+// photoperiod and by the curl of the species' blade), relative to SHADER_REFERENCE_PPFD
+export const leafLightIntensity = (state: SimulationState, response: GravityMorphology): number =>
+  environmentFromState(state, response).ppfd / SHADER_REFERENCE_PPFD;
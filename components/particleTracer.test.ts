@@ -0,0 +1,239 @@
+import { describe, it, expect } from 'vitest';
+import {
+  advanceParticles,
+  airflowConditions,
+  bladeSurface,
+  airflowVelocity,
+  AirflowConditions,
+  createParticleSystem,
+  PARTICLE_DOMAIN,
+  particleColormap,
+  sampleParticleCO2,
+  trailSegmentIndices,
+} from './particleTracer';
+import { DEFAULT_SPECIES, INITIAL_STATE, SPECIES_PROFILES } from '../constants';
+import { computeLeafState, environmentFromState } from '../physics/leafPhysics';
+import { LEAF_LENGTH } from '../physics/physicalConstants';
+import { SimulationState } from '../types';
+
+// Solved state at a gravity and fan speed
+const solved = (gravityFactor: number, airVelocity: number): SimulationState => {
+  const state = { ...INITIAL_STATE, gravityFactor, airVelocity };
+  return { ...state, ...computeLeafState(environmentFromState(state)) };
+};
+
+// Repeatable uniform deviates
+const seeded = (seed = 1) => () => {
+  seed = (seed * 16807) % 2147483647;
+  return (seed - 1) / 2147483646;
+};
+
+const FLAT = { narrowing: 1, curl: 0 };
+const STILL: AirflowConditions = {
+  adaxialVelocity: 0,
+  abaxialVelocity: 0,
+  adaxialLayer: 0.002,
+  abaxialLayer: 0.002,
+  plumeVelocity: 0,
+  leafLength: LEAF_LENGTH,
+  bladeWidth: 1,
+  shape: FLAT,
+};
+const response = DEFAULT_SPECIES.morphology;
+
+describe('airflowVelocity', () => {
+  const conditions: AirflowConditions = { ...STILL, adaxialVelocity: 1, abaxialVelocity: 1 };
+
+  it('is the free stream away from the leaf and slows to rest at its surface', () => {
+    expect(airflowVelocity(conditions, 0, -5.5, 1)[1]).toBeCloseTo(1);
+    expect(airflowVelocity(conditions, 0, 0, 2.5)[1]).toBeCloseTo(1);
+    expect(airflowVelocity(conditions, 0, 0, 1e-6)[1]).toBeLessThan(0.01);
+    expect(airflowVelocity(conditions, 0, 0, 0.3)[1]).toBeLessThan(airflowVelocity(conditions, 0, 0, 0.6)[1]);
+    // Beside the leaf nothing slows the air
+    expect(airflowVelocity(conditions, 3.5, 0, 0.01)[1]).toBeCloseTo(1);
+  });
+
+  it('recovers in the wake behind the tip', () => {
+    const overLeaf = airflowVelocity(conditions, 0, 3, 0.2)[1];
+    const wake = airflowVelocity(conditions, 0, 5.5, 0.2)[1];
+    expect(wake).toBeGreaterThan(overLeaf);
+    expect(wake).toBeLessThan(1);
+  });
+
+  it('lifts a plume off a warm leaf only on the side the air rises from', () => {
+    const warm: AirflowConditions = { ...STILL, plumeVelocity: 0.05 };
+    expect(airflowVelocity(warm, 0, 0, 1)[2]).toBeGreaterThan(0);
+    expect(airflowVelocity(warm, 0, 0, -1)[2]).toBe(0);
+    const cool: AirflowConditions = { ...STILL, plumeVelocity: -0.05 };
+    expect(airflowVelocity(cool, 0, 0, -1)[2]).toBeLessThan(0);
+    expect(airflowVelocity(cool, 0, 0, 1)[2]).toBe(0);
+  });
+});
+
+describe('airflowConditions', () => {
+  it('follows the solved state: the plume vanishes in µG and still air stagnates', () => {
+    const ground = airflowConditions(solved(1, 0), DEFAULT_SPECIES);
+    expect(Math.abs(ground.plumeVelocity)).toBeGreaterThan(0.005);
+    const orbit = airflowConditions(solved(0, 0), DEFAULT_SPECIES);
+    expect(Math.abs(orbit.plumeVelocity)).toBe(0);
+    expect(orbit.adaxialVelocity).toBe(0);
+    expect(orbit.adaxialLayer).toBeGreaterThan(ground.adaxialLayer);
+  });
+
+  it('shelters the upper face of a curled leaf', () => {
+    const conditions = airflowConditions({ ...solved(0, 0.5), leafCurl: 1 }, DEFAULT_SPECIES);
+    expect(conditions.adaxialVelocity).toBeLessThan(conditions.abaxialVelocity);
+  });
+
+  it('draws the species leaf: its length, outline width and convective length', () => {
+    const lettuce = SPECIES_PROFILES.find(species => species.leafLength > DEFAULT_SPECIES.leafLength)!;
+    const small = airflowConditions(solved(1, 0), DEFAULT_SPECIES);
+    const large = airflowConditions(solved(1, 0), lettuce);
+    expect(small.leafLength).toBeCloseTo(DEFAULT_SPECIES.leafLength / 1000);
+    expect(large.leafLength).toBeCloseTo(lettuce.leafLength / 1000);
+    expect(large.bladeWidth).toBe(lettuce.outline.bladeWidth);
+    // Same leaf-air difference, longer blade: the plume is solved at the species' length
+    expect(large.plumeVelocity).not.toBeCloseTo(small.plumeVelocity, 4);
+  });
+});
+
+// A system with every particle (and its whole trail) at the given point
+const placed = (count: number, trailLength: number, x: number, y: number, z: number) => {
+  const system = createParticleSystem(count, trailLength, seeded());
+  for (let i = 0; i < system.trails.length; i += 3) system.trails.set([x, y, z], i);
+  system.ages.fill(0);
+  return system;
+};
+
+describe('advanceParticles', () => {
+  const conditions: AirflowConditions = { ...STILL, adaxialVelocity: 0.5, abaxialVelocity: 0.5 };
+  // Mean streamwise position of two-point trails, averaging out the diffusion
+  const meanY = (system: ReturnType<typeof placed>) =>
+    system.trails.filter((_, i) => i % 6 === 1).reduce((sum, y) => sum + y, 0) / system.count;
+
+  it('carries particles downstream, slower inside the boundary layer', () => {
+    const free = placed(200, 2, 0, 0, 2.5);
+    const near = placed(200, 2, 0, 0, 0.2);
+    advanceParticles(free, conditions, 0.05, seeded(2));
+    advanceParticles(near, conditions, 0.05, seeded(2));
+    // 0.5 m/s, 400 units per metre, in slow motion
+    expect(meanY(free)).toBeCloseTo(0.5 * 400 * 0.01 * 0.05, 1);
+    expect(meanY(near)).toBeLessThan(meanY(free) / 2);
+  });
+
+  it('keeps drifting by diffusion in still µG air, without crossing the leaf', () => {
+    const system = placed(100, 1, 0, 0, 0.01);
+    for (let step = 0; step < 20; step++) advanceParticles(system, STILL, 1 / 60, seeded(step + 2));
+    for (let p = 0; p < system.count; p++) {
+      expect(system.trails[p * 3 + 2]).toBeGreaterThanOrEqual(0);
+      expect(system.speeds[p]).toBe(0);
+    }
+    expect(system.trails.some((value, i) => i % 3 === 1 && value !== 0)).toBe(true);
+  });
+
+  it('recycles particles that leave the traced volume', () => {
+    const system = placed(10, 3, 0, PARTICLE_DOMAIN.y - 1e-3, 1);
+    advanceParticles(system, conditions, 0.1, seeded(2));
+    for (let p = 0; p < system.count; p++) {
+      expect(system.ages[p]).toBe(0);
+      // Back upstream, with the trail collapsed onto the new position
+      expect(system.trails[p * 9 + 1]).toBe(-PARTICLE_DOMAIN.y);
+      expect(system.trails[p * 9 + 7]).toBe(-PARTICLE_DOMAIN.y);
+    }
+  });
+
+  it('carries the same air more slowly across the mesh of a longer leaf', () => {
+    const small = placed(200, 2, 0, 0, 2.5);
+    const large = placed(200, 2, 0, 0, 2.5);
+    advanceParticles(small, conditions, 0.05, seeded(2));
+    advanceParticles(large, { ...conditions, leafLength: 5 * LEAF_LENGTH }, 0.05, seeded(2));
+    expect(meanY(large)).toBeCloseTo(meanY(small) / 5, 2);
+  });
+
+  it('shifts the trail, newest point first', () => {
+    const system = placed(1, 3, 0, 0, 1);
+    advanceParticles(system, conditions, 0.01, seeded(3));
+    expect(Array.from(system.trails.slice(3, 9))).toEqual([0, 0, 1, 0, 0, 1]);
+    expect(system.trails[1]).toBeGreaterThan(0);
+  });
+});
+
+describe('curled leaf', () => {
+  // Grown in µG: the species' full narrowing and curl, the blade edges well above the midrib
+  const grown = { ...solved(0, 0.5), leafCurl: 1, leafNarrowing: 1 };
+  const conditions = airflowConditions(grown, DEFAULT_SPECIES);
+  const halfWidth = 2.5 * DEFAULT_SPECIES.outline.bladeWidth * response.narrowing;
+  const edge = bladeSurface(conditions, halfWidth);
+
+  it('takes the blade shape the shader draws', () => {
+    expect(conditions.shape).toEqual(response);
+    expect(bladeSurface(conditions, 0)).toBe(0);
+    expect(edge).toBeCloseTo((0.6 * halfWidth) ** 2 * response.curl);
+    expect(edge).toBeGreaterThan(2);
+    // Beyond the blade the surface is held at the edge height
+    expect(bladeSurface(conditions, halfWidth + 1)).toBe(edge);
+  });
+
+  it('slows the air against the curled surface and not beside the narrowed blade', () => {
+    const free = conditions.abaxialVelocity;
+    // Inside the trough, just over the blade near its edge
+    const x = 0.9 * halfWidth;
+    expect(airflowVelocity(conditions, x, 0, bladeSurface(conditions, x) + 1e-3)[1]).toBeLessThan(0.01 * free);
+    // Same height over the flat midrib plane: well clear of the curled blade, outside its layer
+    expect(airflowVelocity(conditions, x, 0, 1e-3)[1]).toBeGreaterThan(0.5 * free);
+    // Beside the narrowed blade, where the flat leaf used to be
+    expect(airflowVelocity(conditions, halfWidth + 0.6, 0, 0.01)[1]).toBeCloseTo(free);
+  });
+
+  it('keeps particles from passing through the curled blade', () => {
+    const x = 0.8 * halfWidth;
+    const z = bladeSurface(conditions, x);
+    const system = placed(200, 1, x, 0, z + 0.01);
+    // Half the particles start just under the blade
+    for (let i = 3 * 100; i < system.trails.length; i += 3) system.trails.set([x, 0, z - 0.01], i);
+    // Which side of the blade each particle is on, where the blade is under it
+    const sides = () =>
+      Array.from({ length: system.count }, (_, p) => {
+        const [px, py, pz] = system.trails.slice(p * 3, p * 3 + 3);
+        return Math.abs(px) < halfWidth && Math.abs(py) < 4 /* blade half length */ ? pz >= bladeSurface(conditions, px) : undefined;
+      });
+    for (let step = 0; step < 30; step++) {
+      const before = sides();
+      advanceParticles(system, conditions, 1 / 60, seeded(step + 2));
+      sides().forEach((side, p) => {
+        if (side !== undefined && before[p] !== undefined && system.ages[p] > 0) expect(side).toBe(before[p]);
+      });
+    }
+  });
+
+  it('samples the gas field by distance from the curled blade', () => {
+    const x = 0.5 * halfWidth;
+    const surface = bladeSurface(conditions, x);
+    const { gasField, abaxialGasField, ambientCO2 } = grown;
+    expect(sampleParticleCO2(gasField, abaxialGasField, ambientCO2, conditions, x, 0, surface + 0.01)).toBe(
+      sampleParticleCO2(gasField, abaxialGasField, ambientCO2, STILL, 0, 0, 0.01)
+    );
+  });
+});
+
+describe('particle colours', () => {
+  it('samples the depleted air over the leaf and ambient air away from it', () => {
+    const state = solved(0, 0);
+    const { gasField, abaxialGasField, ambientCO2 } = state;
+    expect(sampleParticleCO2(gasField, abaxialGasField, ambientCO2, STILL, 0, 0, 0.01)).toBeLessThan(ambientCO2 - 1);
+    expect(sampleParticleCO2(gasField, abaxialGasField, ambientCO2, STILL, 0, 0, -0.01)).toBeLessThan(ambientCO2 - 1);
+    expect(sampleParticleCO2(gasField, abaxialGasField, ambientCO2, STILL, 0, -5.5, 0.01)).toBe(ambientCO2);
+    expect(sampleParticleCO2(gasField, abaxialGasField, ambientCO2, STILL, 3.5, 0, 0.01)).toBe(ambientCO2);
+  });
+
+  it('uses the cross-section colormap', () => {
+    expect(particleColormap(0)).toEqual([0x1e / 255, 0x3a / 255, 0x8a / 255]);
+    expect(particleColormap(1)).toEqual([1, 0x4d / 255, 0x4d / 255]);
+    expect(particleColormap(2)).toEqual(particleColormap(1));
+  });
+
+  it('joins consecutive trail points', () => {
+    expect(Array.from(trailSegmentIndices(2, 3))).toEqual([0, 1, 1, 2, 3, 4, 4, 5]);
+    expect(trailSegmentIndices(5, 1)).toHaveLength(0);
+  });
+});
@@ -0,0 +1,328 @@
+import { GasField } from '../physics/boundaryLayerSolver';
+import { computeConvection } from '../physics/convection';
+import { characteristicLength, environmentFromState, faceAirVelocity } from '../physics/leafPhysics';
+import { DIFFUSIVITY_CO2, LEAF_LENGTH } from '../physics/physicalConstants';
+import { morphologyShape } from '../physics/morphology';
+import { GAS_FIELD_COLORMAP, GAS_FIELD_DEPLETION_RANGE, LEAF_CURL_PROFILE, LEAF_MESH_LENGTH, LEAF_MESH_WIDTH } from '../constants';
+import { GravityMorphology, LeafFace, ParticleColoring, SimulationState, SpeciesProfile } from '../types';
+
+// Particle tracer of the air around the leaf, advected on the CPU and drawn as instanced points
+// with fading trails. Positions are leaf-local scene units (as ConcentrationSlice): the leaf's base
+// is at y = -LEAF_MESH_LENGTH / 2, the airflow runs base to tip along +y and the adaxial face looks
+// along +z. The mesh is the species' leaf, and the blade is the surface the leaf shader draws:
+// the outline's width, narrowed, and curled up to z = (LEAF_CURL_PROFILE x)^2 curl away from the
+// midrib. The velocity field is a sketch of the solved state, not a CFD solution:
+//   - the forced flow over each face, slowed inside that face's boundary layer (Pohlhausen profile)
+//     and recovering in the wake behind the tip;
+//   - a buoyant plume off the face the warm (or cool) air leaves from, scaled by gravity;
+//   - molecular diffusion, so the air still visibly moves when nothing carries it in µG.
+
+// Scene units per metre of the solved gas field and its boundary layers: the FDM grid keeps its
+// 20 mm leaf, drawn over the mesh as ConcentrationSlice draws it
+const FIELD_UNITS_PER_METRE = LEAF_MESH_LENGTH / LEAF_LENGTH;
+// Playback rate: one second on screen is this many seconds of air motion (1 m/s crosses a 20 mm leaf in 2 s)
+export const PARTICLE_SLOW_MOTION = 0.01;
+// Half-extents of the traced volume, scene units
+export const PARTICLE_DOMAIN = { x: LEAF_MESH_WIDTH / 2 + 1.5, y: LEAF_MESH_LENGTH / 2 + 2, z: 3 };
+// Particles are recycled after this long on screen, s
+const MAX_AGE = 8;
+// Softened edge of the leaf footprint and distance over which the wake recovers, scene units
+const FOOTPRINT_EDGE = 0.5;
+const WAKE_LENGTH = LEAF_MESH_LENGTH / 2;
+// Plume entrainment: inflow toward the plume axis near the leaf, share of the plume speed
+const ENTRAINMENT = 0.3;
+// Below this, speeds colour as stagnant air, m/s
+const MIN_REFERENCE_SPEED = 0.01;
+
+const HALF_WIDTH = LEAF_MESH_WIDTH / 2;
+const HALF_LENGTH = LEAF_MESH_LENGTH / 2;
+
+export interface AirflowConditions {
+  adaxialVelocity: number; // m/s, forced flow over each face
+  abaxialVelocity: number;
+  adaxialLayer: number; // m, boundary-layer thickness of each face
+  abaxialLayer: number;
+  plumeVelocity: number; // m/s along +z: positive rising off a warm leaf, negative sinking off a cool one
+  leafLength: number; // m, the species' leaf the mesh is drawn as
+  bladeWidth: number; // Widest blade half-width, share of the mesh half-width (the species' outline)
+  shape: GravityMorphology; // Blade narrowing and curl as drawn (morphologyShape)
+}
+
+export interface ParticleSystem {
+  count: number;
+  trailLength: number;
+  trails: Float32Array; // scene units, [particle][trail point][xyz], newest point first
+  speeds: Float32Array; // m/s, local air speed at each particle
+  ages: Float32Array; // s on screen
+}
+
+// Airflow around the leaf from the solved state, for a species' leaf size, outline and gravity response
+export const airflowConditions = (
+  state: SimulationState,
+  { leafLength, outline, morphology }: Pick<SpeciesProfile, 'leafLength' | 'outline' | 'morphology'>
+): AirflowConditions => {
+  const inputs = environmentFromState(state, morphology);
+  const leafAirTempDiff = state.temperature - state.ambientTemperature;
+  // The plume leaves from the face the buoyant air rises (or sinks) freely from, at the length the physics solves with
+  const plume = computeConvection(
+    0,
+    state.gravityFactor,
+    leafAirTempDiff,
+    state.ambientTemperature,
+    characteristicLength(inputs, leafLength / 1000),
+    leafAirTempDiff >= 0 ? 'adaxial' : 'abaxial'
+  );
+  return {
+    adaxialVelocity: faceAirVelocity(inputs, 'adaxial'),
+    abaxialVelocity: faceAirVelocity(inputs, 'abaxial'),
+    adaxialLayer: state.adaxialBoundaryLayer / 1000,
+    abaxialLayer: state.abaxialBoundaryLayer / 1000,
+    plumeVelocity: Math.sign(leafAirTempDiff) * plume.equivalentVelocity,
+    leafLength: leafLength / 1000,
+    bladeWidth: outline.bladeWidth,
+    shape: morphologyShape(state, morphology),
+  };
+};
+
+const clamp01 = (value: number): number => Math.min(Math.max(value, 0), 1);
+
+// Scene units per metre of air motion around the species' leaf
+const unitsPerMetre = ({ leafLength }: AirflowConditions): number => LEAF_MESH_LENGTH / leafLength;
+
+// Half-width of the (narrowed) blade, scene units
+const bladeHalfWidth = ({ bladeWidth, shape }: AirflowConditions): number => HALF_WIDTH * bladeWidth * shape.narrowing;
+
+// 1 over the blade's width, falling to 0 just beyond its edges
+const lateralFootprint = (conditions: AirflowConditions, x: number): number =>
+  clamp01((bladeHalfWidth(conditions) + FOOTPRINT_EDGE - Math.abs(x)) / FOOTPRINT_EDGE);
+
+// Height of the curled blade above the midrib plane at x, scene units; held at the edge height beyond it
+export const bladeSurface = (conditions: AirflowConditions, x: number): number =>
+  (LEAF_CURL_PROFILE * Math.min(Math.abs(x), bladeHalfWidth(conditions))) ** 2 * conditions.shape.curl;
+
+// Share of the forced flow left at (y, distance from the face), over the leaf and in its wake
+const forcedProfile = (y: number, distance: number, layer: number): number => {
+  if (y < -HALF_LENGTH) return 1;
+  const eta = clamp01(distance / Math.max(layer * FIELD_UNITS_PER_METRE, 1e-6));
+  const profile = 1.5 * eta - 0.5 * eta ** 3;
+  if (y <= HALF_LENGTH) return profile;
+  return profile + (1 - profile) * (1 - Math.exp(-(y - HALF_LENGTH) / WAKE_LENGTH));
+};
+
+// Air velocity at a leaf-local position, m/s
+export const airflowVelocity = (
+  conditions: AirflowConditions,
+  x: number,
+  y: number,
+  z: number
+): [number, number, number] => {
+  const height = z - bladeSurface(conditions, x);
+  const face: LeafFace = height >= 0 ? 'adaxial' : 'abaxial';
+  const free = face === 'adaxial' ? conditions.adaxialVelocity : conditions.abaxialVelocity;
+  const layer = face === 'adaxial' ? conditions.adaxialLayer : conditions.abaxialLayer;
+  const distance = Math.abs(height);
+  const halfWidth = bladeHalfWidth(conditions);
+  const footprint = lateralFootprint(conditions, x);
+  const slowdown = 1 - footprint * (1 - forcedProfile(y, distance, layer));
+  let vx = 0;
+  let vy = free * slowdown;
+  let vz = 0;
+
+  // Plume over the face it leaves from: zero at the surface, spreading with distance
+  const w = conditions.plumeVelocity;
+  if (w !== 0 && (w > 0) === (height >= 0)) {
+    const spread = 1 + distance / halfWidth;
+    const axial = Math.exp(-((x / (halfWidth * spread)) ** 2) - (y / (HALF_LENGTH * spread)) ** 2);
+    const lift = 1 - Math.exp(-distance / Math.max(layer * FIELD_UNITS_PER_METRE, 0.1));
+    vz += w * axial * lift / spread;
+    // Air drawn in toward the plume axis close to the leaf
+    const near = Math.abs(w) * ENTRAINMENT * Math.exp(-distance);
+    vx -= near * (x / halfWidth) * axial;
+    vy -= near * (y / HALF_LENGTH) * axial;
+  }
+  return [vx, vy, vz];
+};
+
+// Standard normal deviate (Box-Muller)
+const gaussian = (random: () => number): number =>
+  Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+
+const spawn = (system: ParticleSystem, p: number, conditions: AirflowConditions, random: () => number) => {
+  // Enter upstream when the flow carries particles across the volume in their lifetime, else anywhere
+  const crossing = Math.max(conditions.adaxialVelocity, conditions.abaxialVelocity) * unitsPerMetre(conditions) * PARTICLE_SLOW_MOTION * MAX_AGE;
+  const x = (2 * random() - 1) * PARTICLE_DOMAIN.x;
+  const y = crossing > 2 * PARTICLE_DOMAIN.y ? -PARTICLE_DOMAIN.y : (2 * random() - 1) * PARTICLE_DOMAIN.y;
+  const z = (2 * random() - 1) * PARTICLE_DOMAIN.z;
+  const base = p * system.trailLength * 3;
+  for (let k = 0; k < system.trailLength; k++) {
+    system.trails[base + 3 * k] = x;
+    system.trails[base + 3 * k + 1] = y;
+    system.trails[base + 3 * k + 2] = z;
+  }
+};
+
+export const createParticleSystem = (
+  count: number,
+  trailLength: number,
+  random: () => number = Math.random
+): ParticleSystem => {
+  const length = Math.max(Math.round(trailLength), 1);
+  const system: ParticleSystem = {
+    count,
+    trailLength: length,
+    trails: new Float32Array(count * length * 3),
+    speeds: new Float32Array(count),
+    ages: new Float32Array(count),
+  };
+  for (let p = 0; p < count; p++) {
+    const x = (2 * random() - 1) * PARTICLE_DOMAIN.x;
+    const y = (2 * random() - 1) * PARTICLE_DOMAIN.y;
+    const z = (2 * random() - 1) * PARTICLE_DOMAIN.z;
+    for (let k = 0; k < length; k++) system.trails.set([x, y, z], (p * length + k) * 3);
+    // Staggered ages so the particles are not all recycled together
+    system.ages[p] = random() * MAX_AGE;
+  }
+  return system;
+};
+
+// Moves every particle by dt seconds on screen: advection, diffusion, and recycling of the
+// particles that leave the volume or grow old. The blade is impermeable: crossing it reflects.
+export const advanceParticles = (
+  system: ParticleSystem,
+  conditions: AirflowConditions,
+  dt: number,
+  random: () => number = Math.random
+): void => {
+  if (dt <= 0) return;
+  const scale = unitsPerMetre(conditions) * PARTICLE_SLOW_MOTION * dt;
+  const jitter = unitsPerMetre(conditions) * Math.sqrt(2 * DIFFUSIVITY_CO2 * PARTICLE_SLOW_MOTION * dt);
+  const { trails, trailLength } = system;
+  const halfWidth = bladeHalfWidth(conditions);
+
+  for (let p = 0; p < system.count; p++) {
+    const base = p * trailLength * 3;
+    const x = trails[base];
+    const y = trails[base + 1];
+    const z = trails[base + 2];
+    const [vx, vy, vz] = airflowVelocity(conditions, x, y, z);
+    system.speeds[p] = Math.hypot(vx, vy, vz);
+
+    // Midpoint (RK2) step
+    const [mx, my, mz] = airflowVelocity(conditions, x + 0.5 * vx * scale, y + 0.5 * vy * scale, z + 0.5 * vz * scale);
+    const nx = x + mx * scale + jitter * gaussian(random);
+    const ny = y + my * scale + jitter * gaussian(random);
+    let nz = z + mz * scale + jitter * gaussian(random);
+    const surface = bladeSurface(conditions, nx);
+    if (Math.abs(nx) < halfWidth && Math.abs(ny) < HALF_LENGTH && (nz >= surface) !== (z >= bladeSurface(conditions, x))) {
+      nz = 2 * surface - nz;
+    }
+
+    system.ages[p] += dt;
+    if (
+      system.ages[p] > MAX_AGE ||
+      Math.abs(nx) > PARTICLE_DOMAIN.x ||
+      Math.abs(ny) > PARTICLE_DOMAIN.y ||
+      Math.abs(nz) > PARTICLE_DOMAIN.z
+    ) {
+      system.ages[p] = 0;
+      spawn(system, p, conditions, random);
+      continue;
+    }
+
+    if (trailLength > 1) trails.copyWithin(base + 3, base, base + 3 * (trailLength - 1));
+    trails[base] = nx;
+    trails[base + 1] = ny;
+    trails[base + 2] = nz;
+  }
+};
+
+// CO2 (ppm) at a leaf-local position, from the solved field of the face it is over, by distance
+// from the blade. The FDM is a midrib cut: off the sides of the blade the air relaxes to ambient.
+export const sampleParticleCO2 = (
+  adaxialField: GasField,
+  abaxialField: GasField,
+  ambientCO2: number,
+  conditions: AirflowConditions,
+  x: number,
+  y: number,
+  z: number
+): number => {
+  const height = z - bladeSurface(conditions, x);
+  const field = height >= 0 ? adaxialField : abaxialField;
+  const { nx, ny, dx, dy, leafStart } = field.grid;
+  const i = Math.floor(((y + HALF_LENGTH) / FIELD_UNITS_PER_METRE) / dx + leafStart);
+  const j = Math.floor(Math.abs(height) / FIELD_UNITS_PER_METRE / dy);
+  if (i < 0 || j >= ny) return ambientCO2;
+  const solved = field.co2[j * nx + Math.min(i, nx - 1)];
+  return ambientCO2 + lateralFootprint(conditions, x) * (solved - ambientCO2);
+};
+
+const COLOR_STOPS = GAS_FIELD_COLORMAP.map(hex => {
+  const value = parseInt(hex.slice(1), 16);
+  return [(value >> 16) / 255, ((value >> 8) & 0xff) / 255, (value & 0xff) / 255];
+});
+
+// GAS_FIELD_COLORMAP at t in 0-1, as the slice shader interpolates it
+export const particleColormap = (t: number): [number, number, number] => {
+  const scaled = clamp01(t) * (COLOR_STOPS.length - 1);
+  const k = Math.min(Math.floor(scaled), COLOR_STOPS.length - 2);
+  const f = scaled - k;
+  const [a, b] = [COLOR_STOPS[k], COLOR_STOPS[k + 1]];
+  return [a[0] + (b[0] - a[0]) * f, a[1] + (b[1] - a[1]) * f, a[2] + (b[2] - a[2]) * f];
+};
+
+// Speed that colours as free stream; anything slower shades toward the stagnant end of the colormap
+export const referenceSpeed = (conditions: AirflowConditions): number =>
+  Math.max(conditions.adaxialVelocity, conditions.abaxialVelocity, Math.abs(conditions.plumeVelocity), MIN_REFERENCE_SPEED);
+
+// Vertex colours of every trail point: each particle's colour, fading along its trail
+// (drawn with additive blending, so dark is transparent)
+export const writeParticleColors = (
+  system: ParticleSystem,
+  colors: Float32Array,
+  coloring: ParticleColoring,
+  conditions: AirflowConditions,
+  state: Pick<SimulationState, 'gasField' | 'abaxialGasField' | 'ambientCO2'>
+): void => {
+  const { trails, trailLength } = system;
+  const reference = referenceSpeed(conditions);
+  for (let p = 0; p < system.count; p++) {
+    const base = p * trailLength * 3;
+    let t: number;
+    if (coloring === 'co2') {
+      const co2 = sampleParticleCO2(
+        state.gasField,
+        state.abaxialGasField,
+        state.ambientCO2,
+        conditions,
+        trails[base],
+        trails[base + 1],
+        trails[base + 2]
+      );
+      t = (state.ambientCO2 - co2) / (state.ambientCO2 * GAS_FIELD_DEPLETION_RANGE);
+    } else {
+      t = 1 - system.speeds[p] / reference;
+    }
+    const [r, g, b] = particleColormap(t);
+    for (let k = 0; k < trailLength; k++) {
+      const fade = 1 - k / trailLength;
+      colors[base + 3 * k] = r * fade;
+      colors[base + 3 * k + 1] = g * fade;
+      colors[base + 3 * k + 2] = b * fade;
+    }
+  }
+};
+
+// Index pairs joining consecutive trail points of each particle, for LineSegments
+export const trailSegmentIndices = (count: number, trailLength: number): Uint32Array => {
+  const segments = Math.max(trailLength - 1, 0);
+  const indices = new Uint32Array(count * segments * 2);
+  for (let p = 0; p < count; p++) {
+    for (let k = 0; k < segments; k++) {
+      const at = (p * segments + k) * 2;
+      indices[at] = p * trailLength + k;
+      indices[at + 1] = p * trailLength + k + 1;
+    }
+  }
+  return indices;
+};
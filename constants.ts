@@ -1,16 +1,334 @@
 
 
-import { SimulationState, GravityMode } from './types';
+import { SimulationState, GravityMode, GravityPreset, LightPreset, Photoperiod, ChamberSettings, FanFault, FanSettings, AlarmRule, AlarmSeverity, RosetteSettings, SpeciesProfile, AirflowParticleSettings } from './types';
+import { createGasField } from './physics/boundaryLayerSolver';
+import { parseScenario } from './scenarios/scenario';
+import { VPD_STRESS_THRESHOLD } from './physics/leafPhysics';
+import { LOW_GRAVITY_FACTOR, MIN_LEAF_AIR_VELOCITY } from './physics/circulation';
+
+// Grow light settings; LED channel ids and spectra are in physics/lightSpectrum.ts.
+// Flight hardware mixes are approximate photon ratios of the nearest channels.
+export const LIGHT_PRESETS: LightPreset[] = [
+    {
+        name: 'Veggie',
+        description: 'Veggie light bank: red 630, blue 455 and green 530 nm LEDs, red-dominant',
+        ppfd: 300,
+        ledMix: { red630: 0.59, blue450: 0.27, green525: 0.14 },
+    },
+    {
+        name: 'APH',
+        description: 'Advanced Plant Habitat: red, green, blue, broad white and far-red channels',
+        ppfd: 300,
+        ledMix: { red630: 0.45, blue450: 0.15, green525: 0.1, white: 0.25, farRed730: 0.05 },
+    },
+    { name: 'White', description: 'Broad-spectrum 4000 K white', ppfd: 300, ledMix: { white: 1 } },
+    { name: 'Red/Blue', description: 'Horticultural 660/450 nm at 9:1', ppfd: 300, ledMix: { red660: 0.9, blue450: 0.1 } },
+    { name: 'Far-red+', description: 'White enriched with 730 nm far-red', ppfd: 300, ledMix: { white: 0.8, farRed730: 0.2 } },
+];
+// Common photoperiods (light hours per day); by default the lights come on at T+0
+export const PHOTOPERIOD_PRESETS = [12, 16, 20, 24];
+export const DEFAULT_PHOTOPERIOD: Photoperiod = { lightHours: 16, rampMinutes: 30, lightsOn: 0 };
+
+// Sealed growth chamber of ~0.1 m2 of leaves in a spacecraft cabin running at ~2500 ppm CO2
+export const DEFAULT_CHAMBER: ChamberSettings = {
+  volume: 0.2,
+  leafCount: 50,
+  leafArea: 20,
+  leakRate: 0.1,
+  cabinCO2: 2500,
+  cabinO2: 21,
+  controller: 'ON_OFF',
+  co2Setpoint: 400,
+  hysteresis: 20,
+  maxInjection: 5,
+  pidGains: { kp: 0.05, ki: 0.0002, kd: 0 },
+  scrubberSetpoint: 1000,
+  scrubberRate: 5,
+};
+
+// Small axial fan (~40 CFM) blowing through a filter and a 0.02 m2 duct onto the canopy;
+// ~0.85 m/s at the canopy top and ~0.5 m/s at a leaf halfway down
+export const DEFAULT_FAN: FanSettings = {
+  maxPressure: 150,
+  maxFlow: 0.02,
+  systemResistance: 150000,
+  outletArea: 0.02,
+  speed: 1,
+  dutyCycle: 1,
+  dutyPeriod: 300,
+  canopyAttenuation: 1,
+  leafDepth: 0.5,
+  degradedResistance: 10,
+  outageProbability: 0.5,
+};
+
+// Vegetative Arabidopsis rosette, ~5 cm across
+export const DEFAULT_ROSETTE: RosetteSettings = {
+  leafCount: 12,
+  phyllotaxisAngle: 137.5,
+  petioleLength: 8,
+  leafLength: 20,
+  leafWidth: 12,
+  inclination: 15,
+};
+
+// Airflow particle tracer around the single leaf
+export const DEFAULT_AIRFLOW_PARTICLES: AirflowParticleSettings = {
+  count: 1500,
+  trailLength: 8,
+  colorBy: 'co2',
+};
+export const MAX_AIRFLOW_PARTICLES = 5000;
+export const MAX_PARTICLE_TRAIL = 24;
+
+// Crops grown in our chambers and on orbit. Physiology values are representative of each crop
+// (C3, well watered), not fitted to our cultivars; fit a calibration and save it as a custom species for that.
+export const SPECIES_PROFILES: SpeciesProfile[] = [
+  {
+    name: 'Arabidopsis',
+    description: 'Arabidopsis thaliana Col-0 rosette leaf',
+    outline: { stemWidth: 0.06, bladeStart: 0.1, bladeLength: 0.924, bladeWidth: 0.95, bladeRoundness: 0.4, marginDepth: 0.03, marginFrequency: 20 },
+    leafLength: 20,
+    leafWidth: 12,
+    trichomeDensity: 0.6,
+    morphology: { narrowing: 0.5, curl: 4.5 },
+    parameters: {},
+  },
+  {
+    name: 'Lettuce',
+    description: "Lactuca sativa 'Outredgeous' (Veggie), broad ruffled leaf",
+    outline: { stemWidth: 0.12, bladeStart: 0.05, bladeLength: 0.97, bladeWidth: 0.98, bladeRoundness: 0.3, marginDepth: 0.06, marginFrequency: 9 },
+    leafLength: 100,
+    leafWidth: 80,
+    trichomeDensity: 0,
+    morphology: { narrowing: 0.8, curl: 2.5 },
+    parameters: { 'photosynthesis.vcmax25': 75, 'photosynthesis.jmax25': 130, 'photosynthesis.tpu25': 8, 'photosynthesis.g1': 4.5, leafHeatCapacity: 900, adaxialStomata: 0.45 },
+  },
+  {
+    name: 'Mizuna',
+    description: 'Brassica rapa var. nipposinica, narrow deeply serrated leaf',
+    outline: { stemWidth: 0.1, bladeStart: 0.08, bladeLength: 0.92, bladeWidth: 0.7, bladeRoundness: 0.5, marginDepth: 0.22, marginFrequency: 14 },
+    leafLength: 80,
+    leafWidth: 35,
+    trichomeDensity: 0.1,
+    morphology: { narrowing: 0.7, curl: 3 },
+    parameters: { 'photosynthesis.vcmax25': 80, 'photosynthesis.jmax25': 140, 'photosynthesis.tpu25': 9 },
+  },
+  {
+    name: 'Dwarf wheat',
+    description: "Triticum aestivum 'Apogee', strap-shaped grass blade",
+    outline: { stemWidth: 0.25, bladeStart: 0.02, bladeLength: 1, bladeWidth: 0.3, bladeRoundness: 0.12, marginDepth: 0.005, marginFrequency: 40 },
+    leafLength: 120,
+    leafWidth: 10,
+    trichomeDensity: 0.2,
+    morphology: { narrowing: 0.95, curl: 1.5 },
+    parameters: {
+      'photosynthesis.vcmax25': 95,
+      'photosynthesis.jmax25': 170,
+      'photosynthesis.tpu25': 11,
+      'photosynthesis.rd25': 1.1,
+      'photosynthesis.g1': 3.5,
+      leafHeatCapacity: 600,
+      adaxialStomata: 0.55, // Grass blade, stomata on both faces
+    },
+  },
+  {
+    name: 'Pepper',
+    description: "Capsicum annuum 'Española Improved', smooth ovate leaf",
+    outline: { stemWidth: 0.08, bladeStart: 0.12, bladeLength: 0.9, bladeWidth: 0.75, bladeRoundness: 0.6, marginDepth: 0.01, marginFrequency: 10 },
+    leafLength: 90,
+    leafWidth: 40,
+    trichomeDensity: 0.05,
+    morphology: { narrowing: 0.75, curl: 3 },
+    parameters: {
+      'photosynthesis.vcmax25': 65,
+      'photosynthesis.jmax25': 115,
+      'photosynthesis.tpu25': 7.5,
+      'photosynthesis.rd25': 1,
+      'photosynthesis.g1': 3.5,
+      stomatalOpeningTime: 900,
+      leafHeatCapacity: 800,
+      adaxialStomata: 0.1, // Nearly hypostomatous
+    },
+  },
+];
+export const DEFAULT_SPECIES = SPECIES_PROFILES[0];
+
+// Range of the PPFD control, µmol/m2/s
+export const MAX_PPFD = 1500;
+// PPFD drawn at unit grow-light intensity in the leaf shader
+export const SHADER_REFERENCE_PPFD = 300;
+
+export const GRAVITY_PRESETS: GravityPreset[] = [
+    { mode: GravityMode.EARTH_1G, label: '🌍 1G', gravityFactor: 1.0 },
+    { mode: GravityMode.MARS_038G, label: '🔴 Mars', gravityFactor: 0.38 },
+    { mode: GravityMode.LUNAR_016G, label: '🌙 Moon', gravityFactor: 0.16 },
+    { mode: GravityMode.MICRO_UG, label: '🚀 µG', gravityFactor: 0.0 },
+];
+
+// Telemetry alarms evaluated every tick on configuration A; editable in the alarm panel and saved with setups
+export const DEFAULT_ALARM_RULES: AlarmRule[] = [
+  {
+    id: 'heat-trap',
+    enabled: true,
+    metric: 'temperatureRise',
+    comparator: '>',
+    threshold: 2,
+    duration: 10,
+    hysteresis: 0.5,
+    severity: 'WARNING',
+    message: 'Heat trap effect: leaf warming above the air',
+  },
+  {
+    id: 'diffusion-critical',
+    enabled: true,
+    metric: 'boundaryLayerThickness',
+    comparator: '>',
+    threshold: 1.5,
+    duration: 0,
+    hysteresis: 0.1,
+    severity: 'CRITICAL',
+    message: 'Diffusional resistance critical',
+    guard: { metric: 'gravityFactor', comparator: '<', threshold: LOW_GRAVITY_FACTOR },
+  },
+  {
+    id: 'low-airflow',
+    enabled: true,
+    metric: 'airVelocity',
+    comparator: '<',
+    threshold: MIN_LEAF_AIR_VELOCITY,
+    duration: 5,
+    hysteresis: 0.02,
+    severity: 'WARNING',
+    message: 'Low airflow at the leaf: boundary layer building up',
+    guard: { metric: 'gravityFactor', comparator: '<', threshold: LOW_GRAVITY_FACTOR },
+  },
+  {
+    id: 'water-stress',
+    enabled: true,
+    metric: 'vapourPressureDeficit',
+    comparator: '>',
+    threshold: VPD_STRESS_THRESHOLD,
+    duration: 30,
+    hysteresis: 0.1,
+    severity: 'WARNING',
+    message: 'Water stress: high VPD',
+  },
+  {
+    id: 'photosynthesis-inhibited',
+    enabled: true,
+    metric: 'photosyntheticEfficiency',
+    comparator: '<',
+    threshold: 40,
+    duration: 10,
+    hysteresis: 5,
+    severity: 'CRITICAL',
+    message: 'Photosynthesis inhibited',
+    // Not at night: no light, no photosynthesis
+    guard: { metric: 'light', comparator: '>', threshold: 0 },
+  },
+  {
+    id: 'hypoxia',
+    enabled: true,
+    metric: 'stressLevel',
+    comparator: '>',
+    threshold: 50,
+    duration: 0,
+    hysteresis: 5,
+    severity: 'CRITICAL',
+    message: 'Hypoxia imminent: thick boundary layer inhibiting gas exchange',
+  },
+];
+// Alarm events kept in the log
+export const ALARM_LOG_LENGTH = 200;
+export const ALARM_SEVERITY_CLASSES: Record<AlarmSeverity, string> = {
+  INFO: 'text-gray-300',
+  WARNING: 'text-yellow-500',
+  CRITICAL: 'text-sci-alert',
+};
+
+// Reported in the footer and in exported run metadata
+export const MODEL_NAME = 'AstroBotany LEAF FDM';
+export const MODEL_VERSION = '2.5.0';
+
+// Built-in lab scenarios, in the same JSON format as scenario files
+export const SCENARIO_PRESETS = [
+  {
+    name: 'Launch & Fan Failure',
+    description: 'Ascent to orbit, cabin fan failure at 2h, lights switched to red/blue at 4h',
+    events: [
+      { time: 0, label: 'Pad (1G)', changes: { gravityMode: 'EARTH_1G', gravityFactor: 1.0, airVelocity: 1.0, ledMix: { white: 1 } } },
+      { time: '10m', label: 'Orbit insertion', changes: { gravityMode: 'MICRO_UG', gravityFactor: 0.0 } },
+      { time: '2h', label: 'Fan failure', changes: { airVelocity: 0 } },
+      { time: '4h', label: 'Lights → Red/Blue', changes: { ledMix: { red660: 0.9, blue450: 0.1 } } },
+    ],
+  },
+  {
+    name: 'Night Cycle',
+    description: 'Lights out for two hours, then back on',
+    events: [
+      { time: '1h', label: 'Lights off', changes: { ppfd: 0 } },
+      { time: '3h', label: 'Lights on', changes: { ppfd: 300 } },
+    ],
+  },
+  {
+    name: 'Fan Degradation',
+    description: 'Filter clogging, intermittent dropouts, then a stall (with the fan hardware model on)',
+    events: [
+      { time: '1h', label: 'Filter clogged', changes: { fanFault: 'DEGRADED' } },
+      { time: '2h', label: 'Intermittent fan', changes: { fanFault: 'INTERMITTENT' } },
+      { time: '3h', label: 'Fan stall', changes: { fanFault: 'STALL' } },
+      { time: '4h', label: 'Fan replaced', changes: { fanFault: 'NONE' } },
+    ],
+  },
+  {
+    name: 'CO2 Scrubber Fault',
+    description: 'Cabin CO2 climbs while the scrubber is offline, then recovers',
+    events: [
+      { time: '30m', label: 'Scrubber offline', changes: { ambientCO2: 1500 } },
+      { time: '90m', label: 'Scrubber restored', changes: { ambientCO2: 400 } },
+    ],
+  },
+  {
+    name: 'Orbit & Return',
+    description: 'Three days in orbit, then back to 1G: the leaves curl and narrow over hours to days and only partly recover (run at 1000x)',
+    events: [
+      { time: '1h', label: 'Orbit insertion', changes: { gravityMode: 'MICRO_UG', gravityFactor: 0.0 } },
+      { time: '73h', label: 'Landing', changes: { gravityMode: 'EARTH_1G', gravityFactor: 1.0 } },
+    ],
+  },
+].map(parseScenario);
+
+// Simulation clock: real-time tick and the available time accelerations
+export const CLOCK_TICK_MS = 250;
+export const SIMULATION_SPEEDS = [1, 10, 100, 1000];
+// Samples kept on the timeline for charting
+export const TIMELINE_LENGTH = 240;
+
+// Leaf mesh size in scene units (planeGeometry width x length)
+export const LEAF_MESH_WIDTH = 5;
+export const LEAF_MESH_LENGTH = 8;
+// Curl profile across the blade: the curled surface rises (LEAF_CURL_PROFILE x)^2 x curl above the midrib
+export const LEAF_CURL_PROFILE = 0.6;
+// Radius, in scene units, the canopy view scales a rosette to
+export const ROSETTE_VIEW_RADIUS = 4;
+
+// Gas field visualization: fractional CO2 drawdown shown at full colour,
+// and the colour bar used by the cross-section slice and its legend (low -> high depletion)
+export const GAS_FIELD_DEPLETION_RANGE = 0.5;
+export const GAS_FIELD_COLORMAP = ['#1e3a8a', '#00f0ff', '#fbbf24', '#ff4d4d'];
 
 // Vertex Shader: Handles the Leaf Morphology (Step 1)
-// Morphs between flat (1G) and curled/narrow (uG) based on uGravityFactor
+// Morphs between flat (1G) and curled/narrow (uG) as the clock develops the morphology (physics/morphology.ts)
 export const LEAF_VERTEX_SHADER = `
   varying vec2 vUv;
   varying vec3 vNormal;
   varying vec3 vViewPosition;
   
   uniform float uTime;
-  uniform float uGravityFactor; // 1.0 = Flat (1G), 0.0 = Curled (uG)
+  uniform float uGravityFactor; // 1.0 = 1G, 0.0 = uG (sway only)
+  uniform float uNarrowing; // Blade width relative to 1 g, as developed so far
+  uniform float uCurl; // Hyponastic curl, as developed so far
 
   // Pseudo-random function
   float random(vec2 st) {
@@ -34,24 +352,22 @@ export const LEAF_VERTEX_SHADER = `
     vec3 pos = position;
     
     // -- MORPHOLOGY LOGIC (Step 1) --
-    // Based on Arabidopsis adaptation diagrams
+    // Based on Arabidopsis adaptation diagrams; the species sets the strength of each response
     
     // Normalized distance from center vein (x-axis assumed as width)
     float xDist = pos.x; 
     
     // 1. Narrowing Effect in uG
-    // In uG (factor 0), leaf becomes significantly narrower (lanceolate).
-    // In 1G (factor 1), leaf is wider (obovate).
-    float narrowing = mix(0.5, 1.0, uGravityFactor); 
-    pos.x *= narrowing;
+    // Leaves grown in uG become significantly narrower (lanceolate); in 1G they are wider (obovate).
+    pos.x *= uNarrowing;
 
     // 2. Curling Effect (Hyponasty)
-    // In uG, leaf curls upwards/inwards like a boat/taco. 
-    float curlStrength = 4.5 * (1.0 - uGravityFactor); // Stronger curl in uG
+    // In uG, leaf curls upwards/inwards like a boat/taco over hours of growth
+    float curlStrength = uCurl;
     
     // Apply curl: z increases quadratically as we move away from center x
     // This creates the "folded" look seen in the hypoxia diagrams
-    float curl = pow(abs(pos.x * 0.6), 2.0) * curlStrength;
+    float curl = pow(abs(pos.x * ${LEAF_CURL_PROFILE.toFixed(2)}), 2.0) * curlStrength;
     
     // Add subtle organic movement (breathing)
     float breath = sin(uTime * 0.5) * 0.05 * (1.0 - uGravityFactor);
@@ -65,7 +381,7 @@ export const LEAF_VERTEX_SHADER = `
     // Recalculate normal after displacement for correct lighting
     // (Approximation by rotating original normal based on curl derivative)
     vec3 objectNormal = normal;
-    float slope = 2.0 * (pos.x * 0.6) * 0.6 * curlStrength * sign(pos.x);
+    float slope = 2.0 * (pos.x * ${LEAF_CURL_PROFILE.toFixed(2)}) * ${LEAF_CURL_PROFILE.toFixed(2)} * curlStrength * sign(pos.x);
     vec3 tangent = normalize(vec3(1.0, 0.0, slope));
     vec3 bitangent = vec3(0.0, 1.0, 0.0);
     objectNormal = normalize(cross(tangent, bitangent));
@@ -84,10 +400,26 @@ export const LEAF_FRAGMENT_SHADER = `
   varying vec3 vViewPosition;
 
   uniform float uTime;
-  uniform float uBoundaryLayerThickness; // Visual intensity 0.0 - 1.0
+  uniform float uBoundaryLayerThickness; // Visual intensity 0.0 - 1.0, adaxial (front) face
+  uniform float uAbaxialBoundaryLayerThickness; // Back face
   uniform float uAirVelocity; // Controls turbulence speed
   uniform vec3 uLightColor; // Dynamic grow light color
   uniform float uLightIntensity; // Dynamic grow light intensity
+  uniform sampler2D uGasField; // FDM solution: R = CO2 depletion, G = O2 build-up (x along leaf, y height)
+  uniform sampler2D uAbaxialGasField; // Same, below the leaf
+  uniform float uAdaxialStomata; // Share of the stomata on the front face
+  uniform vec2 uGasFieldLeafRange; // Texture u at leaf base / tip
+  uniform float uGasFieldSurfaceV; // Texture v of the row at the leaf surface
+  uniform float uShowGasField; // 1: colour the layer by the solved field, 0: the field is not this leaf's
+  // Species outline (texture space: x across, y from base to tip)
+  uniform float uStemWidth;
+  uniform float uBladeStart;
+  uniform float uBladeLength;
+  uniform float uBladeWidth;
+  uniform float uBladeRoundness;
+  uniform float uMarginDepth;
+  uniform float uMarginFrequency;
+  uniform float uTrichomeDensity; // 0-1
 
   // --- NOISE FUNCTIONS ---
 
@@ -140,8 +472,10 @@ export const LEAF_FRAGMENT_SHADER = `
   }
 
   float getTrichomes(vec2 uv) {
+      // Denser trichomes: more of the noise field passes the threshold
       float t = snoise(uv * 120.0); 
-      t = smoothstep(0.75, 1.0, t);
+      float threshold = mix(0.98, 0.6, uTrichomeDensity);
+      t = smoothstep(threshold, 1.0, t) * step(0.01, uTrichomeDensity);
       return t;
   }
 
@@ -158,9 +492,9 @@ export const LEAF_FRAGMENT_SHADER = `
       // Threshold to create small pores
       float stomata = smoothstep(0.5, 0.7, cells);
       
-      // Stomata are often more dense on abaxial (bottom) side, 
-      // but we visualize them here as texture
-      return stomata * (0.5 + 0.5 * patchNoise);
+      // Each face shows its share of the stomata (usually denser on the abaxial, back side)
+      float faceShare = gl_FrontFacing ? uAdaxialStomata : 1.0 - uAdaxialStomata;
+      return stomata * (0.5 + 0.5 * patchNoise) * 2.0 * faceShare;
   }
 
   float getMicroTexture(vec2 uv) {
@@ -186,12 +520,12 @@ export const LEAF_FRAGMENT_SHADER = `
     // --- 0. SHAPE MASKING ---
     float lx = (vUv.x - 0.5) * 2.0; 
     float ly = vUv.y;
-    float stemWidth = 0.06;
-    float bladeCurve = sin((ly - 0.1) * 3.4); 
+    float stemWidth = uStemWidth;
+    float bladeCurve = sin((ly - uBladeStart) * 3.14159 / uBladeLength); 
     bladeCurve = smoothstep(0.0, 1.0, bladeCurve); 
-    float bladeWidth = pow(bladeCurve, 0.4) * 0.95; 
-    float widthProfile = mix(stemWidth, bladeWidth, smoothstep(0.1, 0.25, ly));
-    float marginNoise = snoise(vec2(ly * 20.0, 0.0)) * 0.03;
+    float bladeWidth = pow(bladeCurve, uBladeRoundness) * uBladeWidth; 
+    float widthProfile = mix(stemWidth, bladeWidth, smoothstep(uBladeStart, uBladeStart + 0.15, ly));
+    float marginNoise = snoise(vec2(ly * uMarginFrequency, 0.0)) * uMarginDepth;
     widthProfile += marginNoise;
     widthProfile *= smoothstep(1.02, 0.95, ly);
 
@@ -292,18 +626,32 @@ export const LEAF_FRAGMENT_SHADER = `
     // Boundary Layer Opacity/Glow
     // uBoundaryLayerThickness (0-1) drives the density
     
-    float layerDensity = smoothstep(0.0, 1.0, uBoundaryLayerThickness);
+    // Each face has its own layer and concentration field
+    float layerDensity = smoothstep(0.0, 1.0, gl_FrontFacing ? uBoundaryLayerThickness : uAbaxialBoundaryLayerThickness);
+
+    // Sample the solved concentration field right next to this point of the leaf
+    // (the solver's x axis runs from leaf base to tip along vUv.y)
+    vec2 gasUV = vec2(mix(uGasFieldLeafRange.x, uGasFieldLeafRange.y, vUv.y), uGasFieldSurfaceV);
+    vec4 gasSample = gl_FrontFacing ? texture2D(uGasField, gasUV) : texture2D(uAbaxialGasField, gasUV);
+    float co2Depletion = gasSample.r * uShowGasField;
+    float o2Buildup = gasSample.g * uShowGasField;
     
     // Fresnel effect for gas: clearer when looking straight on, opaque at angles (accumulating thickness)
     float gasFresnel = pow(1.0 - max(dot(vNormal, viewDir), 0.0), 2.0); // Uses vNormal (smooth) not bumped
     
     // Visualize Gas
-    // Color: Cyan for O2/CO2 flux
-    vec3 gasColor = vec3(0.2, 0.8, 1.0);
+    // Color: Cyan where exchange is healthy, shifting to orange where CO2 is drawn down.
+    // O2 build-up brightens the overlay.
+    vec3 cExchange = vec3(0.2, 0.8, 1.0);
+    vec3 cDepleted = vec3(1.0, 0.45, 0.15);
+    vec3 gasColor = mix(cExchange, cDepleted, smoothstep(0.0, 1.0, co2Depletion));
+    gasColor += vec3(0.6, 0.9, 1.0) * o2Buildup * 0.3;
     
     // Gas Visibility Mask
-    // Pattern creates gaps, Fresnel adds volume, Density scales overall intensity
+    // Pattern creates gaps, Fresnel adds volume, Density scales overall intensity,
+    // and the local depletion shows where the depletion zone forms
     float gasAlpha = (0.3 + 0.7 * gasPattern) * (gasFresnel + 0.2) * layerDensity;
+    gasAlpha *= 0.4 + 0.6 * max(co2Depletion, o2Buildup);
     
     // Clamp
     gasAlpha = clamp(gasAlpha, 0.0, 0.8);
@@ -315,19 +663,84 @@ export const LEAF_FRAGMENT_SHADER = `
   }
 `;
 
+// Cross-section Slice Shaders: vertical cut through the FDM domain along the midrib
+export const GAS_SLICE_VERTEX_SHADER = `
+  varying vec2 vUv;
+
+  void main() {
+    vUv = uv;
+    gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+  }
+`;
+
+export const GAS_SLICE_FRAGMENT_SHADER = `
+  varying vec2 vUv;
+
+  uniform sampler2D uGasField; // R = CO2 depletion (0-1 of GAS_FIELD_DEPLETION_RANGE)
+  uniform vec3 uColorStops[4]; // GAS_FIELD_COLORMAP
+  uniform float uOpacity;
+
+  vec3 colormap(float t) {
+    float scaled = clamp(t, 0.0, 1.0) * 3.0;
+    if (scaled < 1.0) return mix(uColorStops[0], uColorStops[1], scaled);
+    if (scaled < 2.0) return mix(uColorStops[1], uColorStops[2], scaled - 1.0);
+    return mix(uColorStops[2], uColorStops[3], scaled - 2.0);
+  }
+
+  void main() {
+    float depletion = texture2D(uGasField, vUv).r;
+    // Fade untouched ambient air so the depletion zone stands out
+    float alpha = uOpacity * (0.25 + 0.75 * smoothstep(0.0, 0.15, depletion));
+    gl_FragColor = vec4(colormap(depletion), alpha);
+  }
+`;
+
 export const INITIAL_STATE: SimulationState = {
   gravityMode: GravityMode.EARTH_1G,
   gravityFactor: 1.0,
   airVelocity: 1.0,
-  boundaryLayerThickness: 0.4,
-  co2Flux: 50,
-  o2Flux: 45,
+  boundaryLayerThickness: 0.76,
+  co2Flux: 29.3,
+  o2Flux: 26.4,
+  h2oFlux: 1.8,
+  vapourPressureDeficit: 1.0,
   temperature: 22,
   ambientTemperature: 22,
+  relativeHumidity: 60,
   stressLevel: 0,
   ambientCO2: 400,
   ambientO2: 21,
-  lightColor: '#ffffff',
-  lightIntensity: 1.0, // Multiplier (0-5 range approx in logic)
-  photosyntheticEfficiency: 85
+  ppfd: 300,
+  ledMix: { white: 1 },
+  lightFraction: 1,
+  co2Injection: 0,
+  co2Scrubbing: 0,
+  fanFault: FanFault.NONE,
+  leafCurl: 0,
+  leafNarrowing: 0,
+  microgravityExposure: 0,
+  photosyntheticEfficiency: 85,
+  surfaceCO2: 390,
+  intercellularCO2: 280,
+  stomatalConductance: 0.2,
+  photorespiration: 3,
+  photosynthesisLimitation: 'RUBP',
+  heatTransferCoefficient: 28,
+  richardsonNumber: 0.01,
+  reynoldsNumber: 1330,
+  grashofNumber: 18000,
+  absorbedRadiation: 57,
+  longwaveLoss: 0,
+  sensibleHeatFlux: 0,
+  latentHeatFlux: 57,
+  adaxialCO2Flux: 11.7,
+  abaxialCO2Flux: 17.6,
+  adaxialH2OFlux: 0.7,
+  abaxialH2OFlux: 1.1,
+  adaxialBoundaryLayer: 0.76,
+  abaxialBoundaryLayer: 0.76,
+  adaxialConductance: 0.08,
+  abaxialConductance: 0.12,
+  gasField: createGasField(400, 21),
+  abaxialGasField: createGasField(400, 21)
 };
\ No newline at end of file
@@ -0,0 +1,7 @@
+import { CalibrationProgress, CalibrationRequest, CalibrationResult } from '../calibration/calibration';
+import { useWorkerTask, WorkerTask } from './useWorkerTask';
+
+export type CalibrationRun = WorkerTask<CalibrationRequest, CalibrationProgress, CalibrationResult>;
+
+export const useCalibration = (): CalibrationRun =>
+  useWorkerTask(() => new Worker(new URL('../calibration/calibration.worker.ts', import.meta.url), { type: 'module' }));
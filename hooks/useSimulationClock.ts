@@ -0,0 +1,369 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { AlarmRule, ChamberSettings, FanSettings, Photoperiod, Scenario, SimulationState, TimelineSample } from '../types';
+import { ALARM_LOG_LENGTH, CLOCK_TICK_MS, DEFAULT_ALARM_RULES, SIMULATION_SPEEDS, TIMELINE_LENGTH } from '../constants';
+import { environmentFromState } from '../physics/leafPhysics';
+import { advanceLeafState } from '../physics/leafDynamics';
+import { advanceChamber, ControllerState, INITIAL_CONTROLLER_STATE } from '../physics/chamber';
+import { leafAirVelocity, nextFanSwitch } from '../physics/circulation';
+import { advanceMorphology, FLAT_MORPHOLOGY } from '../physics/morphology';
+import { DEFAULT_MODEL_PARAMETERS, ModelParameters } from '../physics/modelParameters';
+import { eventsBetween, nextEventTime } from '../scenarios/scenario';
+import { applyComparisonEvents, ComparisonRun, startComparisonRun, updateComparisonInputs } from '../scenarios/comparison';
+import { photoperiodLight } from '../scenarios/photoperiod';
+import { RunRecord, recordTick } from '../recording/runRecorder';
+import { activeAlarms, AlarmEvent, AlarmTracker, evaluateAlarms } from '../alarms/alarmRules';
+
+export interface SimulationClock {
+  state: SimulationState; // Current point on the timeline
+  time: number; // s of simulated time
+  running: boolean;
+  speed: number; // Simulated seconds per real second
+  history: TimelineSample[];
+  scenario: Scenario | null;
+  photoperiod: Photoperiod | null; // Daily light cycle, for both configurations
+  chamber: ChamberSettings | null; // Sealed chamber whose air follows the leaves; each configuration has its own
+  fan: FanSettings | null; // Circulation fan setting the air velocity at the leaf, for both configurations
+  recordCount: number; // Ticks recorded since the run started
+  parameters: ModelParameters; // Used from the next tick on
+  // Alarms are evaluated on the primary state (A) every tick
+  alarmRules: AlarmRule[];
+  alarmLog: AlarmEvent[]; // Raised and cleared, oldest first, since the run started
+  activeAlarms: AlarmRule[]; // Most severe first
+  // Comparison mode: a second configuration (B) run on the same clock, scenario and parameters
+  // (scenarios/comparison.ts). Only the primary state (A) is recorded.
+  comparison: SimulationState | null;
+  comparisonHistory: TimelineSample[];
+  startComparison: (overrides: Partial<SimulationState>) => void;
+  stopComparison: () => void;
+  setComparisonInputs: (updates: Partial<SimulationState>) => void;
+  getRecords: () => RunRecord[];
+  clearRecords: () => void;
+  setInputs: (updates: Partial<SimulationState>) => void;
+  loadScenario: (scenario: Scenario | null) => void;
+  setPhotoperiod: (photoperiod: Photoperiod | null) => void;
+  setChamber: (chamber: ChamberSettings | null) => void;
+  updateChamber: (chamber: ChamberSettings) => void; // New settings for the running chamber, controllers kept
+  setFan: (fan: FanSettings | null) => void;
+  setParameters: (parameters: ModelParameters) => void;
+  setAlarmRules: (rules: AlarmRule[]) => void;
+  clearAlarmLog: () => void;
+  play: () => void;
+  pause: () => void;
+  step: () => void;
+  setSpeed: (speed: number) => void;
+}
+
+export const timelineSample = (time: number, state: SimulationState): TimelineSample => ({
+  time,
+  ppfd: state.ppfd * state.lightFraction,
+  ambientCO2: state.ambientCO2,
+  surfaceCO2: state.surfaceCO2,
+  co2Injection: state.co2Injection,
+  co2Flux: state.co2Flux,
+  o2Flux: state.o2Flux,
+  h2oFlux: state.h2oFlux,
+  temperature: state.temperature,
+  stomatalConductance: state.stomatalConductance,
+  boundaryLayerThickness: state.boundaryLayerThickness,
+});
+
+// Single simulation timeline shared by the 3D view, telemetry and charts.
+// Controls only change the environment inputs; the leaf catches up through its
+// dynamic states (temperature, stomata, boundary layer) as the clock advances.
+export const useSimulationClock = (initialState: SimulationState): SimulationClock => {
+  const [state, setState] = useState(initialState);
+  const [time, setTime] = useState(0);
+  const [running, setRunning] = useState(true);
+  const [speed, setSpeed] = useState(SIMULATION_SPEEDS[0]);
+  const [history, setHistory] = useState<TimelineSample[]>(() => [timelineSample(0, initialState)]);
+  const [scenario, setScenario] = useState<Scenario | null>(null);
+  const [photoperiod, setPhotoperiodState] = useState<Photoperiod | null>(null);
+  const [chamber, setChamberState] = useState<ChamberSettings | null>(null);
+  const [fan, setFanState] = useState<FanSettings | null>(null);
+  const [recordCount, setRecordCount] = useState(1);
+  const [parameters, setParameterState] = useState(DEFAULT_MODEL_PARAMETERS);
+  const [comparison, setComparison] = useState<SimulationState | null>(null);
+  const [comparisonHistory, setComparisonHistory] = useState<TimelineSample[]>([]);
+  const [alarmRules, setAlarmRuleState] = useState(DEFAULT_ALARM_RULES);
+  const [alarmLog, setAlarmLog] = useState<AlarmEvent[]>([]);
+  const [active, setActive] = useState<AlarmRule[]>([]);
+
+  // Latest values for the interval callback, updated synchronously
+  const stateRef = useRef(state);
+  const timeRef = useRef(0);
+  const scenarioRef = useRef<Scenario | null>(null);
+  const photoperiodRef = useRef<Photoperiod | null>(null);
+  const chamberRef = useRef<ChamberSettings | null>(null);
+  const fanRef = useRef<FanSettings | null>(null);
+  const controllerRef = useRef<ControllerState>(INITIAL_CONTROLLER_STATE);
+  const comparisonControllerRef = useRef<ControllerState>(INITIAL_CONTROLLER_STATE);
+  const parametersRef = useRef(DEFAULT_MODEL_PARAMETERS);
+  const comparisonRef = useRef<ComparisonRun | null>(null);
+  const alarmRulesRef = useRef(DEFAULT_ALARM_RULES);
+  const alarmTrackersRef = useRef<Record<string, AlarmTracker>>({});
+  // Every tick of the run; kept out of React state as it grows without bound
+  const recordsRef = useRef<RunRecord[]>([recordTick(0, initialState)]);
+
+  const restartRecording = () => {
+    recordsRef.current = [recordTick(timeRef.current, stateRef.current)];
+    setRecordCount(1);
+  };
+
+  // Updates B's state, if comparing
+  const updateComparison = (update: (current: SimulationState) => SimulationState) => {
+    if (comparisonRef.current) comparisonRef.current = { ...comparisonRef.current, state: update(comparisonRef.current.state) };
+  };
+
+  // Scenario events change both configurations, except for B's overrides
+  const applyChanges = (changes: Partial<SimulationState>[]) => {
+    for (const change of changes) stateRef.current = { ...stateRef.current, ...change };
+    if (comparisonRef.current) comparisonRef.current = applyComparisonEvents(comparisonRef.current, changes);
+  };
+
+  const checkAlarms = (at: number) => {
+    const { trackers, events } = evaluateAlarms(alarmRulesRef.current, alarmTrackersRef.current, stateRef.current, at);
+    alarmTrackersRef.current = trackers;
+    if (events.length) setAlarmLog(prev => [...prev, ...events].slice(-ALARM_LOG_LENGTH));
+    setActive(activeAlarms(alarmRulesRef.current, trackers));
+  };
+
+  // The photoperiod sets the share of the PPFD that reaches the leaf at `at`
+  const applyPhotoperiod = (at: number) => {
+    const lightFraction = photoperiodRef.current ? photoperiodLight(photoperiodRef.current, at) : 1;
+    stateRef.current = { ...stateRef.current, lightFraction };
+    updateComparison(current => ({ ...current, lightFraction }));
+  };
+
+  // Next time after `at` the fan switches for either configuration, so a fast tick never averages across one
+  const nextFanTime = (at: number): number => {
+    const settings = fanRef.current;
+    if (!settings) return Infinity;
+    const other = comparisonRef.current?.state;
+    return Math.min(
+      nextFanSwitch(settings, stateRef.current.fanFault, at),
+      other ? nextFanSwitch(settings, other.fanFault, at) : Infinity,
+    );
+  };
+
+  // The fan hardware sets the air velocity at the leaf at `at`, each configuration with its own fault
+  const applyFan = (at: number) => {
+    const settings = fanRef.current;
+    if (!settings) return;
+    const airflow = (current: SimulationState) => ({ ...current, airVelocity: leafAirVelocity(settings, current.fanFault, at) });
+    stateRef.current = airflow(stateRef.current);
+    updateComparison(airflow);
+  };
+
+  // The leaf grows into its gravity morphology as fast as it photosynthesises
+  const stepLeaf = (previous: SimulationState, dt: number): SimulationState => {
+    const leaf = advanceLeafState(environmentFromState(previous, parametersRef.current.morphology), previous, dt, parametersRef.current);
+    return {
+      ...previous,
+      ...leaf,
+      ...advanceMorphology(previous, previous.gravityFactor, leaf.photosyntheticEfficiency, dt, parametersRef.current),
+    };
+  };
+
+  // The chamber air takes up the leaf's gas exchange over the step just taken
+  const stepChamber = (
+    current: SimulationState,
+    controller: ControllerState,
+    dt: number
+  ): { state: SimulationState; controller: ControllerState } => {
+    const settings = chamberRef.current;
+    if (!settings) return { state: current, controller };
+    const air = { co2: current.ambientCO2, o2: current.ambientO2 };
+    const step = advanceChamber(settings, air, controller, current, current.ambientTemperature, dt);
+    return {
+      state: {
+        ...current,
+        ambientCO2: step.air.co2,
+        ambientO2: step.air.o2,
+        co2Injection: step.injection,
+        co2Scrubbing: step.scrubbing,
+      },
+      controller: step.controller,
+    };
+  };
+
+  // Steps the leaf, stopping at every scheduled scenario event on the way to apply it and at every fan switch.
+  // The light follows the photoperiod, the airflow the fan and the chamber air the leaf from one step to the next.
+  const advance = useCallback((dt: number) => {
+    const end = timeRef.current + dt;
+    while (timeRef.current < end) {
+      const current = scenarioRef.current;
+      const stop = Math.min(end, current ? nextEventTime(current, timeRef.current) : Infinity, nextFanTime(timeRef.current));
+      const span = stop - timeRef.current;
+      applyFan(timeRef.current);
+      const primary = stepChamber(stepLeaf(stateRef.current, span), controllerRef.current, span);
+      stateRef.current = primary.state;
+      controllerRef.current = primary.controller;
+      if (comparisonRef.current) {
+        const other = stepChamber(stepLeaf(comparisonRef.current.state, span), comparisonControllerRef.current, span);
+        comparisonRef.current = { ...comparisonRef.current, state: other.state };
+        comparisonControllerRef.current = other.controller;
+      }
+      if (current) applyChanges(eventsBetween(current, timeRef.current, stop).map(event => event.changes));
+      timeRef.current = stop;
+      applyPhotoperiod(stop);
+    }
+    const next = stateRef.current;
+    setState(next);
+    setTime(end);
+    setHistory(prev => [...prev, timelineSample(end, next)].slice(-TIMELINE_LENGTH));
+    const other = comparisonRef.current?.state;
+    if (other) {
+      setComparison(other);
+      setComparisonHistory(prev => [...prev, timelineSample(end, other)].slice(-TIMELINE_LENGTH));
+    }
+    recordsRef.current.push(recordTick(end, next));
+    setRecordCount(recordsRef.current.length);
+    checkAlarms(end);
+  }, []);
+
+  // A scenario runs from T+0 with a flat 1 g-grown leaf: the clock restarts and events at t = 0 apply at once
+  const loadScenario = useCallback((next: Scenario | null) => {
+    scenarioRef.current = next;
+    timeRef.current = 0;
+    stateRef.current = { ...stateRef.current, ...FLAT_MORPHOLOGY };
+    updateComparison(current => ({ ...current, ...FLAT_MORPHOLOGY }));
+    if (next) applyChanges(eventsBetween(next, -Infinity, 0).map(event => event.changes));
+    applyPhotoperiod(0);
+    applyFan(0);
+    setScenario(next);
+    setState(stateRef.current);
+    setTime(0);
+    setHistory([timelineSample(0, stateRef.current)]);
+    if (comparisonRef.current) {
+      setComparison(comparisonRef.current.state);
+      setComparisonHistory([timelineSample(0, comparisonRef.current.state)]);
+    }
+    restartRecording();
+    alarmTrackersRef.current = {};
+    setAlarmLog([]);
+    checkAlarms(0);
+  }, []);
+
+  useEffect(() => {
+    if (!running) return;
+    const interval = setInterval(() => advance((speed * CLOCK_TICK_MS) / 1000), CLOCK_TICK_MS);
+    return () => clearInterval(interval);
+  }, [running, speed, advance]);
+
+  const setInputs = useCallback((updates: Partial<SimulationState>) => {
+    stateRef.current = { ...stateRef.current, ...updates };
+    setState(stateRef.current);
+  }, []);
+
+  // B starts as a copy of A with the overrides, and catches up from there like any input change
+  const startComparison = useCallback((overrides: Partial<SimulationState>) => {
+    comparisonRef.current = startComparisonRun(stateRef.current, overrides);
+    comparisonControllerRef.current = controllerRef.current;
+    setComparison(comparisonRef.current.state);
+    setComparisonHistory([timelineSample(timeRef.current, comparisonRef.current.state)]);
+  }, []);
+
+  const stopComparison = useCallback(() => {
+    comparisonRef.current = null;
+    setComparison(null);
+    setComparisonHistory([]);
+  }, []);
+
+  const setComparisonInputs = useCallback((updates: Partial<SimulationState>) => {
+    if (!comparisonRef.current) return;
+    comparisonRef.current = updateComparisonInputs(comparisonRef.current, updates);
+    setComparison(comparisonRef.current.state);
+  }, []);
+
+  const setPhotoperiod = useCallback((next: Photoperiod | null) => {
+    photoperiodRef.current = next;
+    setPhotoperiodState(next);
+    applyPhotoperiod(timeRef.current);
+    setState(stateRef.current);
+    if (comparisonRef.current) setComparison(comparisonRef.current.state);
+  }, []);
+
+  // Switching the chamber on starts from the current air with the controllers reset;
+  // switching it off leaves the air where it is
+  const setChamber = useCallback((next: ChamberSettings | null) => {
+    chamberRef.current = next;
+    controllerRef.current = INITIAL_CONTROLLER_STATE;
+    comparisonControllerRef.current = INITIAL_CONTROLLER_STATE;
+    setChamberState(next);
+    if (!next) {
+      const idle = { co2Injection: 0, co2Scrubbing: 0 };
+      stateRef.current = { ...stateRef.current, ...idle };
+      setState(stateRef.current);
+      updateComparison(current => ({ ...current, ...idle }));
+      if (comparisonRef.current) setComparison(comparisonRef.current.state);
+    }
+  }, []);
+
+  // Setpoints, gains and sizes change under the running controllers: the PID integral and the
+  // on/off latch carry on, so the loop can be watched responding
+  const updateChamber = useCallback((next: ChamberSettings) => {
+    chamberRef.current = next;
+    setChamberState(next);
+  }, []);
+
+  // Switching the fan off leaves the air velocity where it is
+  const setFan = useCallback((next: FanSettings | null) => {
+    fanRef.current = next;
+    setFanState(next);
+    applyFan(timeRef.current);
+    setState(stateRef.current);
+    if (comparisonRef.current) setComparison(comparisonRef.current.state);
+  }, []);
+
+  const setParameters = useCallback((next: ModelParameters) => {
+    parametersRef.current = next;
+    setParameterState(next);
+  }, []);
+
+  // Edited rules keep the progress of the rules they replace (by id)
+  const setAlarmRules = useCallback((rules: AlarmRule[]) => {
+    alarmRulesRef.current = rules;
+    setAlarmRuleState(rules);
+    const kept = Object.entries(alarmTrackersRef.current).filter(([id]) => rules.some(rule => rule.id === id));
+    alarmTrackersRef.current = Object.fromEntries(kept);
+    setActive(activeAlarms(rules, alarmTrackersRef.current));
+  }, []);
+
+  return {
+    state,
+    time,
+    running,
+    speed,
+    history,
+    scenario,
+    photoperiod,
+    chamber,
+    fan,
+    recordCount,
+    parameters,
+    alarmRules,
+    alarmLog,
+    activeAlarms: active,
+    comparison,
+    comparisonHistory,
+    startComparison,
+    stopComparison,
+    setComparisonInputs,
+    getRecords: () => recordsRef.current,
+    clearRecords: restartRecording,
+    setInputs,
+    loadScenario,
+    setPhotoperiod,
+    setChamber,
+    updateChamber,
+    setFan,
+    setParameters,
+    setAlarmRules,
+    clearAlarmLog: () => setAlarmLog([]),
+    play: () => setRunning(true),
+    pause: () => setRunning(false),
+    // One real second's worth of simulated time at the current speed
+    step: () => advance(speed),
+    setSpeed,
+  };
+};
@@ -0,0 +1,8 @@
+import { InputSensitivity, SensitivityRequest, SweepProgress, SweepRequest, SweepResult } from '../sweep/sweep';
+import { useWorkerTask, WorkerTask } from './useWorkerTask';
+
+export const useSweep = (): WorkerTask<SweepRequest, SweepProgress, SweepResult> =>
+  useWorkerTask(() => new Worker(new URL('../sweep/sweep.worker.ts', import.meta.url), { type: 'module' }));
+
+export const useSensitivity = (): WorkerTask<SensitivityRequest, SweepProgress, InputSensitivity[]> =>
+  useWorkerTask(() => new Worker(new URL('../sweep/sensitivity.worker.ts', import.meta.url), { type: 'module' }));
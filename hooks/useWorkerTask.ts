@@ -0,0 +1,65 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { WorkerMessage } from '../workers/workerTask';
+
+export interface WorkerTask<Request, Progress, Result> {
+  running: boolean;
+  progress: Progress | null;
+  result: Result | null;
+  error: string | null;
+  start: (request: Request) => void;
+  cancel: () => void;
+  clear: () => void;
+}
+
+// One task at a time, each in a fresh Web Worker (terminated on cancel, restart or unmount).
+// `createWorker` must construct the worker inline, new Worker(new URL(...), ...), for the bundler to find it.
+export const useWorkerTask = <Request, Progress, Result>(createWorker: () => Worker): WorkerTask<Request, Progress, Result> => {
+  const [running, setRunning] = useState(false);
+  const [progress, setProgress] = useState<Progress | null>(null);
+  const [result, setResult] = useState<Result | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const workerRef = useRef<Worker | null>(null);
+  const createRef = useRef(createWorker);
+  createRef.current = createWorker;
+
+  const stop = useCallback(() => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    setRunning(false);
+  }, []);
+
+  const start = useCallback((request: Request) => {
+    stop();
+    const worker = createRef.current();
+    workerRef.current = worker;
+    worker.onmessage = (event: MessageEvent<WorkerMessage<Progress, Result>>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        setProgress(message.progress);
+        return;
+      }
+      if (message.type === 'result') setResult(message.result);
+      else setError(message.message);
+      stop();
+    };
+    worker.onerror = (event) => {
+      setError(event.message || 'Worker failed');
+      stop();
+    };
+    setRunning(true);
+    setProgress(null);
+    setResult(null);
+    setError(null);
+    worker.postMessage(request);
+  }, [stop]);
+
+  const clear = useCallback(() => {
+    setResult(null);
+    setError(null);
+    setProgress(null);
+  }, []);
+
+  useEffect(() => () => workerRef.current?.terminate(), []);
+
+  return { running, progress, result, error, start, cancel: stop, clear };
+};
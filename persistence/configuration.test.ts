@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest';
+import { GravityMode } from '../types';
+import { DEFAULT_ALARM_RULES, DEFAULT_CHAMBER, DEFAULT_FAN, DEFAULT_ROSETTE, DEFAULT_SPECIES, INITIAL_STATE, SCENARIO_PRESETS, SPECIES_PROFILES } from '../constants';
+import { DEFAULT_MODEL_PARAMETERS, withParameter } from '../physics/modelParameters';
+import {
+  captureConfiguration,
+  configurationFromHash,
+  configurationParameters,
+  configurationScenario,
+  configurationSpecies,
+  configurationToHash,
+  deleteConfiguration,
+  linkOmitsScenario,
+  loadConfigurations,
+  MAX_LINK_SCENARIO_EVENTS,
+  parseConfiguration,
+  saveConfiguration,
+} from './configuration';
+
+const memoryStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => void items.set(key, value),
+  };
+};
+
+const orbit = { ...INITIAL_STATE, gravityMode: GravityMode.MICRO_UG, gravityFactor: 0, airVelocity: 0.2 };
+const fitted = withParameter({ ...DEFAULT_MODEL_PARAMETERS, morphology: SPECIES_PROFILES[3].morphology }, 'photosynthesis.vcmax25', 42);
+
+const config = captureConfiguration(' Orbit test ', {
+  state: orbit,
+  comparison: INITIAL_STATE,
+  scenario: SCENARIO_PRESETS[0],
+  photoperiod: { lightHours: 16, rampMinutes: 30, lightsOn: 6 },
+  chamber: { ...DEFAULT_CHAMBER, controller: 'PID' },
+  fan: { ...DEFAULT_FAN, dutyCycle: 0.5 },
+  canopy: { ...DEFAULT_ROSETTE, leafCount: 8 },
+  species: SPECIES_PROFILES[3],
+  alarmRules: DEFAULT_ALARM_RULES.map(rule => (rule.id === 'hypoxia' ? { ...rule, threshold: 60 } : rule)),
+  parameters: fitted,
+  parameterProfile: 'Lettuce',
+});
+
+describe('captureConfiguration', () => {
+  it('keeps the inputs, not the derived leaf state', () => {
+    expect(config.name).toBe('Orbit test');
+    expect(config.inputs.airVelocity).toBe(0.2);
+    expect(config.inputs.gravityMode).toBe(GravityMode.MICRO_UG);
+    expect(config.inputs).not.toHaveProperty('co2Flux');
+    expect(config.comparison?.gravityMode).toBe(GravityMode.EARTH_1G);
+  });
+
+  it('references built-in scenarios by name and stores only changed parameters', () => {
+    expect(config.scenario).toBe(SCENARIO_PRESETS[0].name);
+    expect(config.parameters).toEqual({ 'photosynthesis.vcmax25': 42 });
+    expect(config.parameterProfile).toBe('Lettuce');
+  });
+
+  it('leaves out alarm rules left at the defaults', () => {
+    const plain = captureConfiguration('Plain', {
+      state: INITIAL_STATE,
+      comparison: null,
+      scenario: null,
+      photoperiod: null,
+      chamber: null,
+      fan: null,
+      canopy: null,
+      species: DEFAULT_SPECIES,
+      alarmRules: DEFAULT_ALARM_RULES,
+      parameters: DEFAULT_MODEL_PARAMETERS,
+      parameterProfile: null,
+    });
+    expect(plain).not.toHaveProperty('alarmRules');
+    expect(plain).not.toHaveProperty('species');
+    expect(configurationSpecies(plain)).toBe(DEFAULT_SPECIES);
+    expect(config.alarmRules).toHaveLength(DEFAULT_ALARM_RULES.length);
+  });
+});
+
+describe('configuration links', () => {
+  it('reproduce the configuration from the URL hash', () => {
+    const hash = configurationToHash(config);
+    expect(hash).toMatch(/^#config=[\w-]+$/);
+    const restored = configurationFromHash(hash)!;
+    expect(restored.inputs).toEqual(config.inputs);
+    expect(restored.comparison).toEqual(config.comparison);
+    expect(configurationScenario(restored)).toBe(SCENARIO_PRESETS[0]);
+    expect(configurationParameters(restored)).toEqual(fitted);
+    expect(restored.photoperiod).toEqual({ lightHours: 16, rampMinutes: 30, lightsOn: 6 });
+    expect(restored.chamber).toEqual({ ...DEFAULT_CHAMBER, controller: 'PID' });
+    expect(restored.fan).toEqual({ ...DEFAULT_FAN, dutyCycle: 0.5 });
+    expect(restored.canopy).toEqual({ ...DEFAULT_ROSETTE, leafCount: 8 });
+    expect(restored.species).toBe(SPECIES_PROFILES[3].name);
+    expect(configurationSpecies(restored)).toBe(SPECIES_PROFILES[3]);
+    expect(restored.alarmRules?.find(rule => rule.id === 'hypoxia')?.threshold).toBe(60);
+    expect(restored.alarmRules?.find(rule => rule.id === 'low-airflow')?.guard).toEqual(DEFAULT_ALARM_RULES[2].guard);
+  });
+
+  it('survive non-ASCII names and scenario files', () => {
+    const scenario = { name: 'Fan test µG', events: [{ time: 60, label: 'Fan off', changes: { airVelocity: 0 } }] };
+    const restored = configurationFromHash(configurationToHash({ ...config, name: 'Düsseldorf µG', scenario }))!;
+    expect(restored.name).toBe('Düsseldorf µG');
+    expect(configurationScenario(restored)).toEqual({ ...scenario, description: undefined });
+  });
+
+  it('leave out scenarios too long for a link', () => {
+    const events = Array.from({ length: MAX_LINK_SCENARIO_EVENTS + 1 }, (_, i) => ({ time: i, label: 'Step', changes: {} }));
+    const long = { ...config, scenario: { name: 'Telemetry', events } };
+    expect(linkOmitsScenario(long)).toBe(true);
+    expect(configurationFromHash(configurationToHash(long))!.scenario).toBeUndefined();
+  });
+
+  it('ignore other hashes and reject damaged ones', () => {
+    expect(configurationFromHash('')).toBeNull();
+    expect(configurationFromHash('#about')).toBeNull();
+    expect(() => configurationFromHash('#config=%%%')).toThrow(/damaged/);
+  });
+});
+
+describe('parseConfiguration', () => {
+  it('rejects incomplete or invalid inputs', () => {
+    expect(() => parseConfiguration({ name: 'x', inputs: { airVelocity: 1 } })).toThrow(/missing/);
+    expect(() => parseConfiguration({ ...config, inputs: { ...config.inputs, gravityMode: 'JUPITER' } })).toThrow(/gravityMode/);
+    expect(() => parseConfiguration({ ...config, scenario: 'No such scenario' })).toThrow(/Unknown scenario/);
+    expect(() => parseConfiguration({ ...config, species: 'Kudzu' })).toThrow(/Unknown species/);
+  });
+});
+
+describe('saved configurations', () => {
+  it('are stored by name and deleted', () => {
+    const storage = memoryStorage();
+    saveConfiguration(config, storage);
+    saveConfiguration({ ...config, name: 'Another' }, storage);
+    expect(loadConfigurations(storage).map(entry => entry.name)).toEqual(['Another', 'Orbit test']);
+    expect(deleteConfiguration('Another', storage).map(entry => entry.name)).toEqual(['Orbit test']);
+  });
+});
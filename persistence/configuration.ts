@@ -0,0 +1,208 @@
+import { AlarmRule, ChamberSettings, EnvironmentInputs, FanSettings, GravityMode, Photoperiod, RosetteSettings, Scenario, SimulationState, SpeciesProfile } from '../types';
+import { DEFAULT_ALARM_RULES, DEFAULT_SPECIES, MODEL_NAME, MODEL_VERSION, SCENARIO_PRESETS, SPECIES_PROFILES } from '../constants';
+import { NUMERIC_INPUTS, parseChanges, parseScenario } from '../scenarios/scenario';
+import { parsePhotoperiod } from '../scenarios/photoperiod';
+import { parseChamberSettings } from '../physics/chamber';
+import { parseFanSettings } from '../physics/circulation';
+import { parseRosetteSettings } from '../physics/canopy';
+import { parseSpeciesProfile } from '../species/speciesProfiles';
+import { parseAlarmRules } from '../alarms/alarmRules';
+import { DEFAULT_MODEL_PARAMETERS, flattenParameters, ModelParameters, parametersFromFlat } from '../physics/modelParameters';
+import { deleteNamed, loadNamed, NamedStorage, saveNamed } from './namedStore';
+
+// A complete, reproducible setup: the environment inputs (and those of configuration B in
+// comparison mode), the scenario, the photoperiod, the chamber and fan hardware, the rosette of canopy mode, the species, the alarm rules and the model parameters. Saved by name in localStorage,
+// exchanged as JSON files and encoded in the URL hash for links.
+
+export const CONFIGURATION_STORAGE_KEY = 'astrobotany.configurations';
+const HASH_PREFIX = '#config=';
+// Longer scenarios (e.g. replayed telemetry) are left out of links; save or export them instead
+export const MAX_LINK_SCENARIO_EVENTS = 100;
+
+export type ConfigurationInputs = EnvironmentInputs & { gravityMode: GravityMode };
+
+export interface SavedConfiguration {
+  name: string;
+  savedAt: string; // ISO 8601
+  model: string;
+  version: string;
+  inputs: ConfigurationInputs;
+  comparison?: ConfigurationInputs;
+  scenario?: Scenario | string; // A string names a built-in scenario
+  photoperiod?: Photoperiod;
+  chamber?: ChamberSettings;
+  fan?: FanSettings;
+  canopy?: RosetteSettings;
+  species?: SpeciesProfile | string; // A string names a built-in species; left out for the default
+  alarmRules?: AlarmRule[]; // Only when they differ from the defaults
+  parameterProfile?: string;
+  parameters?: Record<string, number>; // Only values that differ from the defaults
+}
+
+export interface ConfigurationSource {
+  state: SimulationState;
+  comparison: SimulationState | null;
+  scenario: Scenario | null;
+  photoperiod: Photoperiod | null;
+  chamber: ChamberSettings | null;
+  fan: FanSettings | null;
+  canopy: RosetteSettings | null;
+  species: SpeciesProfile;
+  alarmRules: AlarmRule[];
+  parameters: ModelParameters;
+  parameterProfile: string | null;
+}
+
+const inputsOf = (state: SimulationState): ConfigurationInputs => ({
+  gravityMode: state.gravityMode,
+  gravityFactor: state.gravityFactor,
+  airVelocity: state.airVelocity,
+  ambientCO2: state.ambientCO2,
+  ambientO2: state.ambientO2,
+  ambientTemperature: state.ambientTemperature,
+  relativeHumidity: state.relativeHumidity,
+  ppfd: state.ppfd,
+  ledMix: state.ledMix,
+});
+
+export const captureConfiguration = (
+  name: string,
+  { state, comparison, scenario, photoperiod, chamber, fan, canopy, species, alarmRules, parameters, parameterProfile }: ConfigurationSource
+): SavedConfiguration => {
+  const defaults = flattenParameters(DEFAULT_MODEL_PARAMETERS);
+  // The gravity response is the species'
+  const changed = Object.entries(flattenParameters(parameters)).filter(([key, value]) => !key.startsWith('morphology.') && defaults[key] !== value);
+  return {
+    name: name.trim(),
+    savedAt: new Date().toISOString(),
+    model: MODEL_NAME,
+    version: MODEL_VERSION,
+    inputs: inputsOf(state),
+    ...(comparison ? { comparison: inputsOf(comparison) } : {}),
+    ...(scenario ? { scenario: SCENARIO_PRESETS.includes(scenario) ? scenario.name : scenario } : {}),
+    ...(photoperiod ? { photoperiod } : {}),
+    ...(chamber ? { chamber } : {}),
+    ...(fan ? { fan } : {}),
+    ...(canopy ? { canopy } : {}),
+    ...(species !== DEFAULT_SPECIES ? { species: SPECIES_PROFILES.includes(species) ? species.name : species } : {}),
+    ...(JSON.stringify(alarmRules) !== JSON.stringify(DEFAULT_ALARM_RULES) ? { alarmRules } : {}),
+    ...(parameterProfile ? { parameterProfile } : {}),
+    ...(changed.length ? { parameters: Object.fromEntries(changed) } : {}),
+  };
+};
+
+const parseInputs = (value: unknown, label: string): ConfigurationInputs => {
+  const inputs = parseChanges(value) as Partial<ConfigurationInputs>;
+  const missing = [...NUMERIC_INPUTS, 'ledMix', 'gravityMode'].filter(key => !(key in inputs));
+  if (missing.length) throw new Error(`${label} are missing ${missing.join(', ')}`);
+  return inputs as ConfigurationInputs;
+};
+
+export const parseConfiguration = (data: unknown): SavedConfiguration => {
+  const config = data as Partial<Record<keyof SavedConfiguration, unknown>> | null;
+  if (!config || typeof config !== 'object' || Array.isArray(config)) throw new Error('Configuration must be a JSON object');
+  if (typeof config.name !== 'string' || !config.name.trim()) throw new Error('Configuration needs a "name"');
+
+  let scenario: SavedConfiguration['scenario'];
+  if (typeof config.scenario === 'string') {
+    if (!SCENARIO_PRESETS.some(preset => preset.name === config.scenario)) throw new Error(`Unknown scenario: ${config.scenario}`);
+    scenario = config.scenario;
+  } else if (config.scenario !== undefined && config.scenario !== null) {
+    scenario = parseScenario(config.scenario);
+  }
+
+  let species: SavedConfiguration['species'];
+  if (typeof config.species === 'string') {
+    if (!SPECIES_PROFILES.some(preset => preset.name === config.species)) throw new Error(`Unknown species: ${config.species}`);
+    species = config.species;
+  } else if (config.species !== undefined && config.species !== null) {
+    species = parseSpeciesProfile(config.species);
+  }
+
+  let parameters: Record<string, number> | undefined;
+  if (config.parameters !== undefined) {
+    if (!config.parameters || typeof config.parameters !== 'object') throw new Error('"parameters" must be an object');
+    for (const [key, value] of Object.entries(config.parameters)) {
+      if (typeof value !== 'number' || !Number.isFinite(value)) throw new Error(`Parameter "${key}" must be a number`);
+    }
+    parameters = config.parameters as Record<string, number>;
+  }
+
+  return {
+    name: config.name.trim(),
+    savedAt: typeof config.savedAt === 'string' ? config.savedAt : new Date().toISOString(),
+    model: typeof config.model === 'string' ? config.model : MODEL_NAME,
+    version: typeof config.version === 'string' ? config.version : MODEL_VERSION,
+    inputs: parseInputs(config.inputs, 'Inputs'),
+    ...(config.comparison ? { comparison: parseInputs(config.comparison, 'Comparison inputs') } : {}),
+    ...(scenario ? { scenario } : {}),
+    ...(config.photoperiod ? { photoperiod: parsePhotoperiod(config.photoperiod) } : {}),
+    ...(config.chamber ? { chamber: parseChamberSettings(config.chamber) } : {}),
+    ...(config.fan ? { fan: parseFanSettings(config.fan) } : {}),
+    ...(config.canopy ? { canopy: parseRosetteSettings(config.canopy) } : {}),
+    ...(species ? { species } : {}),
+    ...(config.alarmRules !== undefined ? { alarmRules: parseAlarmRules(config.alarmRules) } : {}),
+    ...(typeof config.parameterProfile === 'string' ? { parameterProfile: config.parameterProfile } : {}),
+    ...(parameters ? { parameters } : {}),
+  };
+};
+
+export const configurationScenario = (config: SavedConfiguration): Scenario | null =>
+  typeof config.scenario === 'string'
+    ? SCENARIO_PRESETS.find(preset => preset.name === config.scenario) ?? null
+    : config.scenario ?? null;
+
+export const configurationSpecies = (config: SavedConfiguration): SpeciesProfile =>
+  typeof config.species === 'string'
+    ? SPECIES_PROFILES.find(preset => preset.name === config.species) ?? DEFAULT_SPECIES
+    : config.species ?? DEFAULT_SPECIES;
+
+export const configurationParameters = (config: SavedConfiguration): ModelParameters => ({
+  ...parametersFromFlat(config.parameters ?? {}, DEFAULT_MODEL_PARAMETERS),
+  morphology: configurationSpecies(config).morphology,
+});
+
+export const configurationToJson = (config: SavedConfiguration): string => JSON.stringify(config, null, 2);
+
+// UTF-8 safe, URL safe base64
+const toBase64Url = (text: string): string => {
+  let binary = '';
+  for (const byte of new TextEncoder().encode(text)) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (encoded: string): string => {
+  const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+};
+
+export const linkOmitsScenario = (config: SavedConfiguration): boolean =>
+  typeof config.scenario === 'object' && config.scenario.events.length > MAX_LINK_SCENARIO_EVENTS;
+
+// Links carry everything but the save time and, if too long, the scenario
+export const configurationToHash = (config: SavedConfiguration): string => {
+  const { savedAt: _savedAt, scenario, ...rest } = config;
+  const linked = linkOmitsScenario(config) || !scenario ? rest : { ...rest, scenario };
+  return HASH_PREFIX + toBase64Url(JSON.stringify(linked));
+};
+
+// null when the hash holds no configuration; throws when it holds a broken one
+export const configurationFromHash = (hash: string): SavedConfiguration | null => {
+  if (!hash.startsWith(HASH_PREFIX)) return null;
+  let data: unknown;
+  try {
+    data = JSON.parse(fromBase64Url(decodeURIComponent(hash.slice(HASH_PREFIX.length))));
+  } catch {
+    throw new Error('The link is damaged or incomplete');
+  }
+  return parseConfiguration(data);
+};
+
+export const loadConfigurations = (storage?: NamedStorage): SavedConfiguration[] =>
+  loadNamed(CONFIGURATION_STORAGE_KEY, parseConfiguration, storage);
+
+export const saveConfiguration = (config: SavedConfiguration, storage?: NamedStorage): SavedConfiguration[] =>
+  saveNamed(CONFIGURATION_STORAGE_KEY, parseConfiguration, config, storage);
+
+export const deleteConfiguration = (name: string, storage?: NamedStorage): SavedConfiguration[] =>
+  deleteNamed(CONFIGURATION_STORAGE_KEY, parseConfiguration, name, storage);
@@ -0,0 +1,49 @@
+// Lists of named entries in localStorage (parameter profiles, saved configurations).
+// Entries are validated on every load; unreadable ones are dropped rather than failing the whole list.
+
+export type NamedStorage = Pick<Storage, 'getItem' | 'setItem'>;
+
+export const loadNamed = <T extends { name: string }>(
+  key: string,
+  parse: (data: unknown) => T,
+  storage: NamedStorage = localStorage
+): T[] => {
+  try {
+    const stored = JSON.parse(storage.getItem(key) ?? '[]');
+    if (!Array.isArray(stored)) return [];
+    return stored.flatMap(entry => {
+      try {
+        return [parse(entry)];
+      } catch {
+        return [];
+      }
+    });
+  } catch {
+    return [];
+  }
+};
+
+// Saving under an existing name replaces that entry. Returns the updated list, sorted by name.
+export const saveNamed = <T extends { name: string }>(
+  key: string,
+  parse: (data: unknown) => T,
+  entry: T,
+  storage: NamedStorage = localStorage
+): T[] => {
+  const entries = [...loadNamed(key, parse, storage).filter(existing => existing.name !== entry.name), entry].sort((a, b) =>
+    a.name.localeCompare(b.name)
+  );
+  storage.setItem(key, JSON.stringify(entries));
+  return entries;
+};
+
+export const deleteNamed = <T extends { name: string }>(
+  key: string,
+  parse: (data: unknown) => T,
+  name: string,
+  storage: NamedStorage = localStorage
+): T[] => {
+  const entries = loadNamed(key, parse, storage).filter(entry => entry.name !== name);
+  storage.setItem(key, JSON.stringify(entries));
+  return entries;
+};
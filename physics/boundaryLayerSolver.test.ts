@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+import {
+  BoundaryLayerConditions,
+  DEFAULT_GRID,
+  PHOTOSYNTHETIC_QUOTIENT,
+  advanceGasField,
+  computeVelocityField,
+  createGasField,
+  solveBoundaryLayer,
+} from './boundaryLayerSolver';
+
+const baseConditions: BoundaryLayerConditions = {
+  airVelocity: 1.0,
+  gravityFactor: 1.0,
+  leafAirTempDiff: 2.5,
+  ambientTemperature: 22,
+  ambientCO2: 400,
+  ambientO2: 21,
+  leafConductance: 0.12,
+  intercellularCO2: 250,
+};
+
+const solve = (overrides: Partial<BoundaryLayerConditions> = {}) =>
+  solveBoundaryLayer({ ...baseConditions, ...overrides });
+
+describe('computeVelocityField', () => {
+  it('is no-slip at the leaf and free-stream above the shear layer', () => {
+    const u = computeVelocityField(baseConditions);
+    const { nx, ny } = DEFAULT_GRID;
+    const mid = Math.floor((DEFAULT_GRID.leafStart + DEFAULT_GRID.leafEnd) / 2);
+    expect(u[mid]).toBe(0);
+    expect(u[(ny - 1) * nx + mid]).toBeCloseTo(u[0]);
+  });
+
+  it('is driven by buoyancy alone in still air under gravity', () => {
+    const earth = computeVelocityField({ ...baseConditions, airVelocity: 0, gravityFactor: 1 });
+    const moon = computeVelocityField({ ...baseConditions, airVelocity: 0, gravityFactor: 0.16 });
+    expect(moon[0]).toBeGreaterThan(0);
+    expect(earth[0]).toBeGreaterThan(moon[0]);
+  });
+
+  it('is zero everywhere in still air in µG', () => {
+    const u = computeVelocityField({ ...baseConditions, airVelocity: 0, gravityFactor: 0 });
+    expect(u.every(v => v === 0)).toBe(true);
+  });
+});
+
+describe('solveBoundaryLayer', () => {
+  it('converges to a steady field', () => {
+    const solution = solve();
+    expect(solution.converged).toBe(true);
+    expect(solution.field.co2.every(Number.isFinite)).toBe(true);
+  });
+
+  it('depletes CO2 and enriches O2 at the leaf surface', () => {
+    const solution = solve();
+    expect(solution.surfaceCO2).toBeLessThan(baseConditions.ambientCO2);
+    expect(solution.surfaceO2).toBeGreaterThan(baseConditions.ambientO2);
+  });
+
+  it('balances surface flux against the leaf sink', () => {
+    const solution = solve();
+    expect(solution.co2Flux).toBeCloseTo(
+      baseConditions.leafConductance * (solution.surfaceCO2 - baseConditions.intercellularCO2),
+      1
+    );
+    expect(solution.o2Flux).toBeCloseTo(solution.co2Flux * PHOTOSYNTHETIC_QUOTIENT, 1);
+  });
+
+  it('releases CO2 and consumes O2 when Ci exceeds ambient (respiration)', () => {
+    const solution = solve({ leafConductance: 0.01, intercellularCO2: 550 });
+    expect(solution.co2Flux).toBeLessThan(0);
+    expect(solution.o2Flux).toBeLessThan(0);
+    expect(solution.surfaceCO2).toBeGreaterThan(baseConditions.ambientCO2);
+    expect(solution.effectiveThickness).toBeGreaterThan(0);
+  });
+
+  it('leaves the air untouched when the leaf takes nothing up', () => {
+    const solution = solve({ leafConductance: 0 });
+    expect(solution.co2Flux).toBeCloseTo(0);
+    expect(solution.surfaceCO2).toBeCloseTo(baseConditions.ambientCO2);
+  });
+
+  it('thins the boundary layer with forced air', () => {
+    const still = solve({ airVelocity: 0, gravityFactor: 0 });
+    const breeze = solve({ airVelocity: 0.3 });
+    const fan = solve({ airVelocity: 5 });
+    expect(breeze.effectiveThickness).toBeLessThan(still.effectiveThickness);
+    expect(fan.effectiveThickness).toBeLessThan(breeze.effectiveThickness);
+    expect(fan.co2Flux).toBeGreaterThan(still.co2Flux);
+  });
+
+  it('thins the boundary layer by buoyant convection only under gravity', () => {
+    const orbit = solve({ airVelocity: 0, gravityFactor: 0 });
+    const mars = solve({ airVelocity: 0, gravityFactor: 0.38 });
+    const earth = solve({ airVelocity: 0, gravityFactor: 1 });
+    expect(mars.effectiveThickness).toBeLessThan(orbit.effectiveThickness);
+    expect(earth.effectiveThickness).toBeLessThan(mars.effectiveThickness);
+  });
+
+  it('never reports a layer thicker than the domain', () => {
+    const solution = solve({ airVelocity: 0, gravityFactor: 0 });
+    expect(solution.effectiveThickness).toBeLessThanOrEqual(DEFAULT_GRID.ny * DEFAULT_GRID.dy * 1000);
+  });
+});
+
+describe('advanceGasField', () => {
+  it('builds the depletion zone up over time', () => {
+    const conditions = { ...baseConditions, airVelocity: 0, gravityFactor: 0 };
+    const start = createGasField(400, 21);
+    const early = advanceGasField(start, conditions, 0.05);
+    const later = advanceGasField(early.field, conditions, 1.0);
+    expect(early.effectiveThickness).toBeLessThan(later.effectiveThickness);
+    expect(later.field.time).toBeCloseTo(1.05);
+  });
+
+  it('does not mutate the field it starts from', () => {
+    const start = createGasField(400, 21);
+    advanceGasField(start, baseConditions, 0.1);
+    expect(start.co2.every(v => v === 400)).toBe(true);
+    expect(start.time).toBe(0);
+  });
+
+  it('jumps to the steady state when the duration needs more than maxSteps', () => {
+    const start = createGasField(400, 21);
+    const jumped = advanceGasField(start, baseConditions, 60, 500);
+    const steady = solveBoundaryLayer(baseConditions);
+    expect(jumped.co2Flux).toBeCloseTo(steady.co2Flux, 1);
+    expect(jumped.field.time).toBeCloseTo(60);
+  });
+});
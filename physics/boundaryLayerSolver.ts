@@ -0,0 +1,333 @@
+import {
+  DIFFUSIVITY_CO2,
+  DIFFUSIVITY_O2,
+  KINEMATIC_VISCOSITY_AIR,
+  STILL_AIR_MIXING_HEIGHT,
+  airMolarDensity,
+} from './physicalConstants';
+import { computeConvection } from './convection';
+import { LeafFace } from '../types';
+
+// 2D finite-difference (FDM) advection-diffusion solver for CO2/O2 in the air above the leaf.
+//
+// The domain is a vertical slice along the flow direction:
+//   x: streamwise, upstream margin -> leaf -> downstream wake
+//   y: normal to the leaf surface, y = 0 is the leaf / support plane
+// Air enters at x = 0 and at the top edge with ambient composition. Over the leaf
+// the bottom edge is a flux boundary: CO2 diffuses through the stomata to the
+// intercellular spaces, J = g (Cs - Ci), and O2 is released in proportion.
+// Each face of the leaf has its own field, y pointing away from that face.
+//
+// Time integration is operator split: explicit upwind advection + diffusion in x,
+// then implicit (tridiagonal) diffusion in y so thin layers near the leaf stay stable.
+
+export interface GasFieldGrid {
+  nx: number; // columns (x)
+  ny: number; // rows (y), row 0 is the surface
+  dx: number; // m
+  dy: number; // m
+  leafStart: number; // first column over the leaf
+  leafEnd: number; // one past the last column over the leaf
+}
+
+export interface GasField {
+  grid: GasFieldGrid;
+  co2: Float64Array; // ppm, indexed [j * nx + i]
+  o2: Float64Array; // %, indexed [j * nx + i]
+  time: number; // s of simulated evolution
+}
+
+export interface BoundaryLayerConditions {
+  airVelocity: number; // m/s, forced flow
+  gravityFactor: number; // 0.0 (uG) to 1.0 (1G)
+  leafAirTempDiff: number; // K, drives buoyant convection
+  ambientTemperature: number; // Celsius
+  ambientCO2: number; // ppm
+  ambientO2: number; // %
+  leafConductance: number; // mol/m2/s, stomatal conductance to CO2 of the stomata on this face
+  intercellularCO2: number; // ppm, Ci behind the stomata
+  leafLength?: number; // m, sets the convective free stream (the grid keeps its 20 mm leaf)
+  face?: LeafFace; // Sets the buoyant flow (adaxial if not given)
+}
+
+export interface BoundaryLayerSolution {
+  field: GasField;
+  co2Flux: number; // µmol/m2/s, mean uptake over the leaf
+  o2Flux: number; // µmol/m2/s, mean release over the leaf
+  surfaceCO2: number; // ppm, mean over the leaf
+  surfaceO2: number; // %, mean over the leaf
+  effectiveThickness: number; // mm, equivalent still-air layer for the CO2 flux
+  steps: number;
+  converged: boolean;
+}
+
+// O2 released per CO2 fixed
+export const PHOTOSYNTHETIC_QUOTIENT = 0.9;
+
+// 4 mm upstream, 20 mm leaf, 8 mm wake; STILL_AIR_MIXING_HEIGHT of air above the leaf.
+// The top edge stands in for the well-mixed cabin air.
+export const DEFAULT_GRID: GasFieldGrid = {
+  nx: 64,
+  ny: 40,
+  dx: 0.5e-3,
+  dy: STILL_AIR_MIXING_HEIGHT / 40,
+  leafStart: 8,
+  leafEnd: 48,
+};
+
+const MAX_STEPS = 20000;
+// Steady once no cell changes faster than this fraction of ambient per second
+const STEADY_RATE_TOLERANCE = 1e-4;
+
+export const createGasField = (
+  ambientCO2: number,
+  ambientO2: number,
+  grid: GasFieldGrid = DEFAULT_GRID
+): GasField => {
+  const size = grid.nx * grid.ny;
+  return {
+    grid,
+    co2: new Float64Array(size).fill(ambientCO2),
+    o2: new Float64Array(size).fill(ambientO2),
+    time: 0,
+  };
+};
+
+export const cloneGasField = (field: GasField): GasField => ({
+  grid: field.grid,
+  co2: new Float64Array(field.co2),
+  o2: new Float64Array(field.o2),
+  time: field.time,
+});
+
+// Streamwise velocity at every grid node. Forced and buoyant flow are combined through the
+// mixed-convection Nusselt number (physics/convection.ts) into an equivalent free stream;
+// over the leaf a Pohlhausen profile grows with the Blasius thickness.
+export const computeVelocityField = (
+  conditions: BoundaryLayerConditions,
+  grid: GasFieldGrid = DEFAULT_GRID
+): Float64Array => {
+  const { nx, ny, dx, dy, leafStart, leafEnd } = grid;
+  const freeStream = computeConvection(
+    conditions.airVelocity,
+    conditions.gravityFactor,
+    conditions.leafAirTempDiff,
+    conditions.ambientTemperature,
+    conditions.leafLength,
+    conditions.face
+  ).equivalentVelocity;
+
+  const u = new Float64Array(nx * ny);
+  if (freeStream <= 0) return u;
+
+  for (let i = 0; i < nx; i++) {
+    // Distance from the leading edge; the wake keeps the trailing-edge profile
+    const xLeaf = (Math.min(i, leafEnd - 1) - leafStart + 0.5) * dx;
+    const shear = xLeaf > 0 ? 4.64 * Math.sqrt((KINEMATIC_VISCOSITY_AIR * xLeaf) / freeStream) : 0;
+    for (let j = 0; j < ny; j++) {
+      if (i < leafStart || shear <= 0) {
+        u[j * nx + i] = freeStream;
+        continue;
+      }
+      const eta = Math.min((j * dy) / shear, 1);
+      u[j * nx + i] = freeStream * (1.5 * eta - 0.5 * eta ** 3);
+    }
+  }
+  return u;
+};
+
+// Explicit x sweep is stable while u dt/dx + 2 D dt/dx² <= 1
+const stableTimeStep = (u: Float64Array, grid: GasFieldGrid): number => {
+  let uMax = 0;
+  for (let k = 0; k < u.length; k++) uMax = Math.max(uMax, u[k]);
+  const diffusionRate = (2 * Math.max(DIFFUSIVITY_CO2, DIFFUSIVITY_O2)) / (grid.dx * grid.dx);
+  return 0.9 / (uMax / grid.dx + diffusionRate);
+};
+
+// Scratch buffers for the tridiagonal solve, sized per grid
+const scratch = { size: 0, star: new Float64Array(0), c: new Float64Array(0), d: new Float64Array(0) };
+const ensureScratch = (grid: GasFieldGrid) => {
+  const size = grid.nx * grid.ny;
+  if (scratch.size !== size) {
+    scratch.size = size;
+    scratch.star = new Float64Array(size);
+    scratch.c = new Float64Array(grid.ny);
+    scratch.d = new Float64Array(grid.ny);
+  }
+};
+
+// Bottom boundary row: a * C0 + b * C1 = r
+type SurfaceCondition = (i: number) => { a: number; b: number; r: number };
+
+// Advances one species by dt in place. Returns the largest change of any cell.
+const stepSpecies = (
+  values: Float64Array,
+  u: Float64Array,
+  grid: GasFieldGrid,
+  diffusivity: number,
+  ambient: number,
+  dt: number,
+  surface: SurfaceCondition
+): number => {
+  const { nx, ny, dx, dy } = grid;
+  const { star, c, d } = scratch;
+
+  // 1. Explicit x sweep (upwind advection + central diffusion)
+  const kx = (diffusivity * dt) / (dx * dx);
+  for (let j = 0; j < ny; j++) {
+    const row = j * nx;
+    star[row] = ambient; // inflow
+    for (let i = 1; i < nx; i++) {
+      const k = row + i;
+      const east = i < nx - 1 ? values[k + 1] : values[k]; // zero-gradient outflow
+      const advection = (u[k] * dt * (values[k] - values[k - 1])) / dx;
+      star[k] = values[k] - advection + kx * (east - 2 * values[k] + values[k - 1]);
+    }
+  }
+
+  // 2. Implicit y sweep per column (Thomas algorithm)
+  const ry = (diffusivity * dt) / (dy * dy);
+  let maxChange = 0;
+  for (let i = 0; i < nx; i++) {
+    if (i === 0) {
+      for (let j = 0; j < ny; j++) values[j * nx] = ambient;
+      continue;
+    }
+    const bottom = surface(i);
+    c[0] = bottom.b / bottom.a;
+    d[0] = bottom.r / bottom.a;
+    for (let j = 1; j < ny - 1; j++) {
+      const denom = 1 + 2 * ry + ry * c[j - 1];
+      c[j] = -ry / denom;
+      d[j] = (star[j * nx + i] + ry * d[j - 1]) / denom;
+    }
+    // Top edge is held at ambient
+    let above = ambient;
+    const topIndex = (ny - 1) * nx + i;
+    maxChange = Math.max(maxChange, Math.abs(values[topIndex] - ambient));
+    values[topIndex] = ambient;
+    for (let j = ny - 2; j >= 0; j--) {
+      const next = d[j] - c[j] * above;
+      const k = j * nx + i;
+      maxChange = Math.max(maxChange, Math.abs(next - values[k]));
+      values[k] = next;
+      above = next;
+    }
+  }
+  return maxChange;
+};
+
+const isLeafColumn = (grid: GasFieldGrid, i: number) => i >= grid.leafStart && i < grid.leafEnd;
+
+// Advances the field in place by `steps` stable steps of length dt
+const integrate = (
+  field: GasField,
+  conditions: BoundaryLayerConditions,
+  u: Float64Array,
+  dt: number,
+  steps: number,
+  stopWhenSteady: boolean
+): { steps: number; converged: boolean } => {
+  const { grid } = field;
+  const { dy } = grid;
+  ensureScratch(grid);
+
+  const molarDensity = airMolarDensity(conditions.ambientTemperature);
+  const kCO2 = (molarDensity * DIFFUSIVITY_CO2) / dy; // mol/m2/s
+  const kO2 = (molarDensity * DIFFUSIVITY_O2) / dy;
+  const g = Math.max(conditions.leafConductance, 0);
+  const ci = conditions.intercellularCO2;
+
+  // CO2 uptake: k (C1 - C0) = g (C0 - Ci)
+  const co2Surface: SurfaceCondition = (i) =>
+    isLeafColumn(grid, i) ? { a: kCO2 + g, b: -kCO2, r: g * ci } : { a: 1, b: -1, r: 0 };
+  // O2 release balances the CO2 uptake at the same column (% -> ppm is 1e4)
+  const o2Surface: SurfaceCondition = (i) =>
+    isLeafColumn(grid, i)
+      ? { a: 1, b: -1, r: (PHOTOSYNTHETIC_QUOTIENT * g * (field.co2[i] - ci)) / (kO2 * 1e4) }
+      : { a: 1, b: -1, r: 0 };
+
+  const tolerance = STEADY_RATE_TOLERANCE * dt;
+  for (let n = 0; n < steps; n++) {
+    const co2Change = stepSpecies(field.co2, u, grid, DIFFUSIVITY_CO2, conditions.ambientCO2, dt, co2Surface);
+    const o2Change = stepSpecies(field.o2, u, grid, DIFFUSIVITY_O2, conditions.ambientO2, dt, o2Surface);
+    field.time += dt;
+    if (
+      stopWhenSteady &&
+      co2Change <= tolerance * conditions.ambientCO2 &&
+      o2Change <= tolerance * conditions.ambientO2
+    ) {
+      return { steps: n + 1, converged: true };
+    }
+  }
+  return { steps, converged: !stopWhenSteady };
+};
+
+// Surface fluxes from the concentration gradient at the leaf
+export const measureSurfaceFluxes = (
+  field: GasField,
+  conditions: BoundaryLayerConditions
+): Omit<BoundaryLayerSolution, 'field' | 'steps' | 'converged'> => {
+  const { nx, dy, leafStart, leafEnd } = field.grid;
+  const molarDensity = airMolarDensity(conditions.ambientTemperature);
+
+  let co2Flux = 0;
+  let o2Flux = 0;
+  let surfaceCO2 = 0;
+  let surfaceO2 = 0;
+  for (let i = leafStart; i < leafEnd; i++) {
+    co2Flux += (molarDensity * DIFFUSIVITY_CO2 * (field.co2[nx + i] - field.co2[i])) / dy;
+    o2Flux += (molarDensity * DIFFUSIVITY_O2 * (field.o2[i] - field.o2[nx + i]) * 1e4) / dy;
+    surfaceCO2 += field.co2[i];
+    surfaceO2 += field.o2[i];
+  }
+  const columns = leafEnd - leafStart;
+  co2Flux /= columns;
+  o2Flux /= columns;
+  surfaceCO2 /= columns;
+  surfaceO2 /= columns;
+
+  // Thickness of a still-air layer that would give the same flux for the same drawdown
+  const drawdown = conditions.ambientCO2 - surfaceCO2;
+  const domainHeight = field.grid.ny * dy * 1000;
+  const effectiveThickness =
+    Math.abs(co2Flux) > 1e-9
+      ? Math.min(((molarDensity * DIFFUSIVITY_CO2 * drawdown) / co2Flux) * 1000, domainHeight)
+      : domainHeight;
+
+  return { co2Flux, o2Flux, surfaceCO2, surfaceO2, effectiveThickness };
+};
+
+// Evolves an existing field forward by `duration` seconds of simulated time.
+// Durations needing more than `maxSteps` stable steps span many relaxation times of the layer
+// (a few hundred steps at most), so they jump straight to the steady state instead.
+export const advanceGasField = (
+  field: GasField,
+  conditions: BoundaryLayerConditions,
+  duration: number,
+  maxSteps = Infinity
+): BoundaryLayerSolution => {
+  const next = cloneGasField(field);
+  const u = computeVelocityField(conditions, next.grid);
+  const dtMax = stableTimeStep(u, next.grid);
+  const steps = Math.max(1, Math.ceil(duration / dtMax));
+  if (steps > maxSteps) {
+    const result = integrate(next, conditions, u, dtMax, MAX_STEPS, true);
+    next.time = field.time + duration;
+    return { field: next, ...measureSurfaceFluxes(next, conditions), ...result };
+  }
+  const result = integrate(next, conditions, u, duration / steps, steps, false);
+  return { field: next, ...measureSurfaceFluxes(next, conditions), ...result };
+};
+
+// Time-marches from `initial` (or ambient air) until the field stops changing
+export const solveBoundaryLayer = (
+  conditions: BoundaryLayerConditions,
+  initial?: GasField
+): BoundaryLayerSolution => {
+  const field = initial ? cloneGasField(initial) : createGasField(conditions.ambientCO2, conditions.ambientO2);
+  const u = computeVelocityField(conditions, field.grid);
+  const dt = stableTimeStep(u, field.grid);
+  const result = integrate(field, conditions, u, dt, MAX_STEPS, true);
+  return { field, ...measureSurfaceFluxes(field, conditions), ...result };
+};
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import { layoutRosette, LEAF_TRANSMITTANCE, parseRosetteSettings, solveCanopy } from './canopy';
+import { energyBalanceInputs, environmentFromState } from './leafPhysics';
+import { solveLeafEnergyBalance } from './energyBalance';
+import { DEFAULT_MODEL_PARAMETERS } from './modelParameters';
+import { DEFAULT_ROSETTE, INITIAL_STATE } from '../constants';
+
+const inputs = environmentFromState(INITIAL_STATE);
+const layout = layoutRosette(DEFAULT_ROSETTE);
+
+describe('layoutRosette', () => {
+  it('places the leaves at the phyllotaxis angle, younger ones smaller and higher', () => {
+    expect(layout).toHaveLength(DEFAULT_ROSETTE.leafCount);
+    expect(layout[1].azimuth - layout[0].azimuth).toBeCloseTo((137.5 * Math.PI) / 180);
+    expect(layout[0].length * 1000).toBeCloseTo(DEFAULT_ROSETTE.leafLength);
+    const youngest = layout[layout.length - 1];
+    expect(youngest.area).toBeLessThan(layout[0].area);
+    expect(youngest.position.z).toBeGreaterThan(layout[0].position.z);
+  });
+
+  it('shades older leaves under younger ones', () => {
+    const single = layoutRosette({ ...DEFAULT_ROSETTE, leafCount: 1 })[0];
+    expect(single.lightFraction).toBeCloseTo(Math.cos(single.inclination));
+    // Two leaves on top of each other: the lower one gets what the upper one lets through
+    const stacked = layoutRosette({ ...DEFAULT_ROSETTE, leafCount: 2, phyllotaxisAngle: 0, petioleLength: 0 });
+    const unshaded = Math.cos(stacked[0].inclination);
+    expect(stacked[0].lightFraction).toBeLessThan(unshaded);
+    expect(stacked[0].lightFraction).toBeGreaterThanOrEqual(unshaded * LEAF_TRANSMITTANCE);
+    expect(stacked[1].lightFraction).toBeCloseTo(Math.cos(stacked[1].inclination));
+  });
+
+  it('links each leaf to the upstream leaves whose wake reaches it', () => {
+    for (const leaf of layout) {
+      for (const { upstream, weight } of leaf.wakes) {
+        expect(layout[upstream].position.x).toBeLessThan(leaf.position.x);
+        expect(weight).toBeGreaterThan(0);
+        expect(weight).toBeLessThanOrEqual(1);
+      }
+    }
+    expect(layout.some(leaf => leaf.wakes.length > 0)).toBe(true);
+  });
+});
+
+describe('solveCanopy', () => {
+  it('leaves a lone leaf in the free-stream air', () => {
+    const canopy = solveCanopy(inputs, layoutRosette({ ...DEFAULT_ROSETTE, leafCount: 1 }));
+    expect(canopy.leaves[0].ambientCO2).toBe(inputs.ambientCO2);
+    expect(canopy.leaves[0].airVelocity).toBe(inputs.airVelocity);
+    expect(canopy.leaves[0].surfaceCO2).toBeLessThan(inputs.ambientCO2);
+    expect(canopy.leaves[0].co2Flux).toBeGreaterThan(0);
+  });
+
+  it('draws the surface CO2 down across the boundary layers of both faces', () => {
+    const [lone] = layoutRosette({ ...DEFAULT_ROSETTE, leafCount: 1 });
+    const [leaf] = solveCanopy(inputs, [lone]).leaves;
+    const local = { ...inputs, ppfd: inputs.ppfd * lone.lightFraction };
+    const { faces } = solveLeafEnergyBalance(
+      energyBalanceInputs(local, leaf.stomatalConductance, lone.length, DEFAULT_MODEL_PARAMETERS.adaxialStomata)
+    );
+    const co2Conductance = (faces.adaxial.boundaryLayerConductance + faces.abaxial.boundaryLayerConductance) / 1.37;
+    expect(inputs.ambientCO2 - leaf.surfaceCO2).toBeCloseTo(leaf.co2Flux / co2Conductance, 0);
+  });
+
+  it('slows and depletes the air downstream of other leaves', () => {
+    const canopy = solveCanopy(inputs, layout);
+    const sheltered = canopy.leaves.filter((_, i) => layout[i].wakes.length > 0);
+    expect(sheltered.length).toBeGreaterThan(0);
+    for (const leaf of sheltered) {
+      expect(leaf.airVelocity).toBeLessThan(inputs.airVelocity);
+      expect(leaf.ambientCO2).toBeLessThanOrEqual(inputs.ambientCO2);
+    }
+    expect(canopy.minAmbientCO2).toBeLessThan(inputs.ambientCO2);
+  });
+
+  it('depletes the rosette air more in stagnant µG air than in a breeze', () => {
+    const breeze = solveCanopy({ ...inputs, gravityFactor: 0, airVelocity: 0.5 }, layout);
+    const stagnant = solveCanopy({ ...inputs, gravityFactor: 0, airVelocity: 0 }, layout);
+    expect(stagnant.minAmbientCO2).toBeLessThan(breeze.minAmbientCO2 - 20);
+    expect(stagnant.meanBoundaryLayer).toBeGreaterThan(breeze.meanBoundaryLayer);
+    expect(stagnant.co2Uptake).toBeLessThan(breeze.co2Uptake);
+  });
+
+  it('adds the per-leaf fluxes up to the canopy totals', () => {
+    const canopy = solveCanopy(inputs, layout);
+    const uptake = canopy.leaves.reduce((sum, leaf, i) => sum + leaf.co2Flux * layout[i].area, 0);
+    expect(canopy.co2Uptake).toBeCloseTo(uptake, 9);
+    expect(canopy.leafArea).toBeCloseTo(layout.reduce((sum, leaf) => sum + leaf.area, 0) * 1e4, 6);
+    expect(canopy.meanCO2Flux).toBeCloseTo(uptake / (canopy.leafArea / 1e4), 6);
+  });
+});
+
+describe('parseRosetteSettings', () => {
+  it('accepts valid settings and rejects out-of-range ones', () => {
+    expect(parseRosetteSettings(DEFAULT_ROSETTE)).toEqual(DEFAULT_ROSETTE);
+    expect(() => parseRosetteSettings({ ...DEFAULT_ROSETTE, leafCount: 0 })).toThrow(/leafCount/);
+    expect(() => parseRosetteSettings({ ...DEFAULT_ROSETTE, inclination: 90 })).toThrow(/inclination/);
+    expect(() => parseRosetteSettings(null)).toThrow(/object/);
+  });
+});
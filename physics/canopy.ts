@@ -0,0 +1,246 @@
+import { EnvironmentInputs, RosetteSettings } from '../types';
+import { DEFAULT_MODEL_PARAMETERS, ModelParameters } from './modelParameters';
+import { lumpedCO2Conductance, solveLumpedLeaf } from './leafPhysics';
+import { airMolarDensity, DIFFUSIVITY_CO2, STILL_AIR_MIXING_HEIGHT } from './physicalConstants';
+
+// Rosette canopy: N leaves of an Arabidopsis-style rosette, each with its own light, airflow
+// and CO2, so the leaves deep in the rosette sit in the shade and stagnant air of their neighbours.
+//
+// Layout:   leaf i at azimuth i φ (phyllotaxis); younger leaves are smaller, more erect and
+//           grow from the apex above the older ones
+// Shading:  light reaching a point of a leaf's footprint is τ^k under k younger leaves
+// Wakes:    the air blows along +x; a leaf downstream of another inside its wake sees slower
+//           air (sheltering) and the CO2 the upstream leaf took out of it:
+//           ΔC = A F / (c u_vent w δ)   (flux diluted into the ventilated boundary layer)
+//
+// Each leaf is solved with the lumped boundary-layer conductance from convection instead of the
+// FDM field, which keeps a rosette cheap enough to solve every tick.
+
+// Upper bound on the rosette size, to keep the per-leaf solves and the 3D view affordable
+export const MAX_ROSETTE_LEAVES = 24;
+// Size and inclination of the youngest leaf relative to the oldest
+const YOUNGEST_LEAF_SCALE = 0.4;
+const YOUNG_LEAF_EXTRA_INCLINATION = 30; // degrees
+// Rise of each leaf above the previous one at the apex, m
+const LEAF_RISE = 5e-4;
+// Share of PAR a leaf lets through
+export const LEAF_TRANSMITTANCE = 0.1;
+// Wake decay length downstream of a leaf, m, and the velocity lost in a full wake
+const WAKE_LENGTH = 0.03;
+const WAKE_SHELTERING = 0.6;
+// Air still mixes by diffusion across the mixing height when nothing moves it
+const DIFFUSIVE_MIXING_VELOCITY = DIFFUSIVITY_CO2 / STILL_AIR_MIXING_HEIGHT; // m/s
+const SAMPLE_STEPS = [-0.8, -0.4, 0, 0.4, 0.8];
+
+// Geometry of one leaf blade; positions in m with the rosette centre at the origin
+export interface RosetteLeaf {
+  index: number; // 0 is the oldest leaf
+  azimuth: number; // radians
+  length: number; // m, blade
+  width: number; // m
+  inclination: number; // radians above horizontal
+  position: { x: number; y: number; z: number }; // Blade centre
+  area: number; // m2, one side
+  lightFraction: number; // PPFD per leaf area relative to the canopy top, 0-1
+  wakes: { upstream: number; weight: number }[]; // Upstream leaves and how much of their wake reaches this one
+}
+
+export interface CanopyLeafState {
+  index: number;
+  lightFraction: number;
+  ppfd: number; // µmol/m2/s on the leaf
+  airVelocity: number; // m/s reaching the leaf
+  ambientCO2: number; // ppm of the air reaching the leaf
+  surfaceCO2: number; // ppm
+  boundaryLayerThickness: number; // mm
+  temperature: number; // Celsius
+  stomatalConductance: number; // mol/m2/s
+  co2Flux: number; // µmol/m2/s
+  h2oFlux: number; // mmol/m2/s
+}
+
+export interface CanopyState {
+  leaves: CanopyLeafState[];
+  leafArea: number; // cm2, one side
+  co2Uptake: number; // µmol/s, whole rosette
+  transpiration: number; // µmol/s, whole rosette
+  meanCO2Flux: number; // µmol/m2/s, per leaf area
+  meanLightFraction: number; // Area weighted
+  meanBoundaryLayer: number; // mm, area weighted
+  minAmbientCO2: number; // ppm, most depleted air in the rosette
+}
+
+const radians = (degrees: number): number => (degrees * Math.PI) / 180;
+
+// Half extent across the wind (y) of a leaf's projected footprint
+const crosswindHalfWidth = (leaf: RosetteLeaf): number => {
+  const a = (leaf.length * Math.cos(leaf.inclination)) / 2;
+  const b = leaf.width / 2;
+  return Math.hypot(a * Math.sin(leaf.azimuth), b * Math.cos(leaf.azimuth));
+};
+
+// Whether a ground point lies under the projected footprint (ellipse) of a leaf
+const covers = (leaf: RosetteLeaf, x: number, y: number): boolean => {
+  const dx = x - leaf.position.x;
+  const dy = y - leaf.position.y;
+  const radial = dx * Math.cos(leaf.azimuth) + dy * Math.sin(leaf.azimuth);
+  const across = -dx * Math.sin(leaf.azimuth) + dy * Math.cos(leaf.azimuth);
+  const a = (leaf.length * Math.cos(leaf.inclination)) / 2;
+  const b = leaf.width / 2;
+  return (radial / a) ** 2 + (across / b) ** 2 <= 1;
+};
+
+// Share of the canopy-top light reaching a leaf, averaged over points of its footprint
+const shadedLight = (leaf: RosetteLeaf, above: RosetteLeaf[]): number => {
+  const a = (leaf.length * Math.cos(leaf.inclination)) / 2;
+  const b = leaf.width / 2;
+  let total = 0;
+  let samples = 0;
+  for (const u of SAMPLE_STEPS) {
+    for (const v of SAMPLE_STEPS) {
+      if (u * u + v * v > 1) continue;
+      const x = leaf.position.x + u * a * Math.cos(leaf.azimuth) - v * b * Math.sin(leaf.azimuth);
+      const y = leaf.position.y + u * a * Math.sin(leaf.azimuth) + v * b * Math.cos(leaf.azimuth);
+      const layers = above.filter(other => covers(other, x, y)).length;
+      total += LEAF_TRANSMITTANCE ** layers;
+      samples += 1;
+    }
+  }
+  return Math.cos(leaf.inclination) * (total / samples);
+};
+
+// Leaf geometry, shading and wake overlaps of a rosette (depends on the settings only)
+export const layoutRosette = (settings: RosetteSettings): RosetteLeaf[] => {
+  const count = Math.max(Math.round(settings.leafCount), 0);
+  const leaves: RosetteLeaf[] = Array.from({ length: count }, (_, index) => {
+    const age = count > 1 ? index / (count - 1) : 0; // 0 oldest, 1 youngest
+    const scale = 1 - (1 - YOUNGEST_LEAF_SCALE) * age;
+    const length = (settings.leafLength / 1000) * scale;
+    const width = (settings.leafWidth / 1000) * scale;
+    const petiole = (settings.petioleLength / 1000) * scale;
+    const inclination = radians(Math.min(settings.inclination + YOUNG_LEAF_EXTRA_INCLINATION * age, 85));
+    const azimuth = radians(index * settings.phyllotaxisAngle);
+    const reach = petiole + length / 2;
+    return {
+      index,
+      azimuth,
+      length,
+      width,
+      inclination,
+      position: {
+        x: reach * Math.cos(inclination) * Math.cos(azimuth),
+        y: reach * Math.cos(inclination) * Math.sin(azimuth),
+        z: index * LEAF_RISE + reach * Math.sin(inclination),
+      },
+      area: (Math.PI * length * width) / 4,
+      lightFraction: 1,
+      wakes: [],
+    };
+  });
+
+  return leaves.map(leaf => {
+    const halfWidth = crosswindHalfWidth(leaf);
+    const wakes = leaves
+      .filter(other => other.position.x < leaf.position.x)
+      .map(other => {
+        const otherHalfWidth = crosswindHalfWidth(other);
+        const overlap =
+          Math.min(leaf.position.y + halfWidth, other.position.y + otherHalfWidth) -
+          Math.max(leaf.position.y - halfWidth, other.position.y - otherHalfWidth);
+        const share = Math.min(Math.max(overlap, 0) / (2 * halfWidth), 1);
+        return { upstream: other.index, weight: share * Math.exp(-(leaf.position.x - other.position.x) / WAKE_LENGTH) };
+      })
+      .filter(wake => wake.weight > 0);
+    return { ...leaf, lightFraction: shadedLight(leaf, leaves.slice(leaf.index + 1)), wakes };
+  });
+};
+
+// Per-leaf light, airflow, CO2 and fluxes of the rosette in the given environment, and the canopy totals.
+// Leaves are solved upstream first, so each sees the air its upstream neighbours left behind.
+export const solveCanopy = (
+  inputs: EnvironmentInputs,
+  layout: RosetteLeaf[],
+  params: ModelParameters = DEFAULT_MODEL_PARAMETERS
+): CanopyState => {
+  const airDensity = airMolarDensity(inputs.ambientTemperature);
+  const solved = new Map<number, CanopyLeafState & { wakeCO2: number }>();
+
+  for (const leaf of [...layout].sort((a, b) => a.position.x - b.position.x)) {
+    let sheltering = 0;
+    let depletion = 0;
+    for (const { upstream, weight } of leaf.wakes) {
+      const source = solved.get(upstream)!;
+      sheltering = Math.max(sheltering, weight);
+      depletion = Math.max(depletion, weight * (inputs.ambientCO2 - source.wakeCO2));
+    }
+    const local: EnvironmentInputs = {
+      ...inputs,
+      ppfd: inputs.ppfd * leaf.lightFraction,
+      airVelocity: inputs.airVelocity * (1 - WAKE_SHELTERING * sheltering),
+      ambientCO2: inputs.ambientCO2 - depletion,
+    };
+    const { energy, exchange, surfaceCO2 } = solveLumpedLeaf(local, lumpedCO2Conductance, leaf.length, params);
+
+    // The uptake is diluted into the leaf's boundary layer as it is ventilated; the wake air
+    // cannot be poorer in CO2 than the leaf surface
+    const ventilation = (energy.convection.equivalentVelocity + DIFFUSIVE_MIXING_VELOCITY) * leaf.width * (energy.convection.thermalBoundaryLayer / 1000);
+    const uptake = (exchange.netAssimilation * leaf.area) / (airDensity * ventilation);
+    const wakeCO2 = Math.max(local.ambientCO2 - uptake, Math.min(surfaceCO2, local.ambientCO2));
+
+    solved.set(leaf.index, {
+      index: leaf.index,
+      lightFraction: leaf.lightFraction,
+      ppfd: local.ppfd,
+      airVelocity: local.airVelocity,
+      ambientCO2: local.ambientCO2,
+      surfaceCO2,
+      boundaryLayerThickness: energy.convection.thermalBoundaryLayer,
+      temperature: energy.temperature,
+      stomatalConductance: exchange.stomatalConductance,
+      co2Flux: exchange.netAssimilation,
+      h2oFlux: energy.transpiration * 1000,
+      wakeCO2,
+    });
+  }
+
+  const leaves = layout.map(leaf => {
+    const { wakeCO2: _wakeCO2, ...state } = solved.get(leaf.index)!;
+    return state;
+  });
+  const area = layout.reduce((sum, leaf) => sum + leaf.area, 0);
+  const weighted = (value: (leaf: CanopyLeafState) => number): number =>
+    area > 0 ? leaves.reduce((sum, leaf, i) => sum + value(leaf) * layout[i].area, 0) : 0;
+  const co2Uptake = weighted(leaf => leaf.co2Flux);
+
+  return {
+    leaves,
+    leafArea: area * 1e4,
+    co2Uptake,
+    transpiration: weighted(leaf => leaf.h2oFlux * 1000),
+    meanCO2Flux: area > 0 ? co2Uptake / area : 0,
+    meanLightFraction: area > 0 ? weighted(leaf => leaf.lightFraction) / area : 0,
+    meanBoundaryLayer: area > 0 ? weighted(leaf => leaf.boundaryLayerThickness) / area : 0,
+    minAmbientCO2: leaves.reduce((min, leaf) => Math.min(min, leaf.ambientCO2), inputs.ambientCO2),
+  };
+};
+
+// Validates rosette settings read from a file or link
+export const parseRosetteSettings = (value: unknown): RosetteSettings => {
+  if (typeof value !== 'object' || value === null) throw new Error('Rosette settings must be an object');
+  const data = value as Record<string, unknown>;
+  const number = (name: keyof RosetteSettings, min: number, max: number): number => {
+    const entry = data[name];
+    if (typeof entry !== 'number' || !Number.isFinite(entry) || entry < min || entry > max) {
+      throw new Error(`Rosette ${name} must be a number from ${min} to ${max}`);
+    }
+    return entry;
+  };
+  return {
+    leafCount: Math.round(number('leafCount', 1, MAX_ROSETTE_LEAVES)),
+    phyllotaxisAngle: number('phyllotaxisAngle', 0, 360),
+    petioleLength: number('petioleLength', 0, 100),
+    leafLength: number('leafLength', 1, 200),
+    leafWidth: number('leafWidth', 1, 200),
+    inclination: number('inclination', 0, 85),
+  };
+};
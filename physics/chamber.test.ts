@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { advanceChamber, ControllerState, INITIAL_CONTROLLER_STATE, parseChamberSettings, totalLeafArea } from './chamber';
+import { airMolarDensity } from './physicalConstants';
+import { ChamberSettings } from '../types';
+import { DEFAULT_CHAMBER } from '../constants';
+
+// No makeup, scrubbing or leakage
+const sealed: ChamberSettings = { ...DEFAULT_CHAMBER, leakRate: 0, maxInjection: 0, scrubberRate: 0 };
+const uptake = { co2Flux: 20, o2Flux: 18 };
+
+// Runs the chamber for `seconds` in leaf steps of `dt`, returning the CO2 history
+const run = (settings: ChamberSettings, co2: number, leaf: { co2Flux: number; o2Flux: number }, seconds: number, dt = 10) => {
+  let air = { co2, o2: 21 };
+  let controller: ControllerState = INITIAL_CONTROLLER_STATE;
+  const history: number[] = [];
+  for (let t = 0; t < seconds; t += dt) {
+    const step = advanceChamber(settings, air, controller, leaf, 22, dt);
+    air = step.air;
+    controller = step.controller;
+    history.push(air.co2);
+  }
+  return { air, controller, history };
+};
+
+describe('advanceChamber', () => {
+  it('draws CO2 down and pushes O2 up by the integrated leaf fluxes', () => {
+    const moles = airMolarDensity(22) * sealed.volume;
+    const { air } = run(sealed, 400, uptake, 600);
+    expect(totalLeafArea(sealed)).toBeCloseTo(0.1);
+    expect(air.co2).toBeCloseTo(400 - (20 * 0.1 * 600) / moles, 6);
+    expect(air.o2).toBeCloseTo(21 + (18 * 0.1 * 600) / moles / 1e4, 9);
+  });
+
+  it('builds up CO2 from dark respiration', () => {
+    expect(run(sealed, 400, { co2Flux: -1, o2Flux: -0.9 }, 600).air.co2).toBeGreaterThan(400);
+  });
+
+  it('relaxes toward the cabin air through leaks', () => {
+    const leaky = { ...sealed, leakRate: 1 };
+    const { air } = run(leaky, 400, { co2Flux: 0, o2Flux: 0 }, 3600, 1);
+    expect(air.co2).toBeCloseTo(2500 - 2100 * Math.exp(-1), 0);
+  });
+
+  it('holds CO2 in the hysteresis band with on/off makeup', () => {
+    const { history } = run(DEFAULT_CHAMBER, 400, uptake, 4 * 3600);
+    const settled = history.slice(history.length / 2);
+    expect(Math.min(...settled)).toBeGreaterThan(385);
+    expect(Math.max(...settled)).toBeLessThan(415);
+  });
+
+  it('settles on the setpoint with PID makeup', () => {
+    const pid: ChamberSettings = { ...DEFAULT_CHAMBER, controller: 'PID' };
+    const { air, controller } = run(pid, 300, uptake, 6 * 3600);
+    expect(air.co2).toBeCloseTo(400, 0);
+    // The valve supplies the leaf uptake less the leak in from the CO2-rich cabin
+    const leakIn = (pid.leakRate / 3600) * airMolarDensity(22) * pid.volume * (pid.cabinCO2 - 400);
+    const step = advanceChamber(pid, air, controller, uptake, 22, 60);
+    expect(step.injection).toBeCloseTo(20 * 0.1 - leakIn, 1);
+  });
+
+  it('never opens the makeup valve beyond its capacity', () => {
+    const pid: ChamberSettings = { ...DEFAULT_CHAMBER, controller: 'PID' };
+    const step = advanceChamber(pid, { co2: 0, o2: 21 }, INITIAL_CONTROLLER_STATE, uptake, 22, 60);
+    expect(step.injection).toBeLessThanOrEqual(pid.maxInjection);
+    expect(step.injection).toBeGreaterThan(0);
+  });
+
+  it('runs the scrubber above its setpoint', () => {
+    const step = advanceChamber(DEFAULT_CHAMBER, { co2: 1500, o2: 21 }, INITIAL_CONTROLLER_STATE, { co2Flux: 0, o2Flux: 0 }, 22, 60);
+    expect(step.scrubbing).toBe(DEFAULT_CHAMBER.scrubberRate);
+    expect(step.injection).toBe(0);
+    expect(step.air.co2).toBeLessThan(1500);
+  });
+});
+
+describe('parseChamberSettings', () => {
+  it('accepts valid settings and rejects the rest', () => {
+    expect(parseChamberSettings(DEFAULT_CHAMBER)).toEqual(DEFAULT_CHAMBER);
+    expect(() => parseChamberSettings({ ...DEFAULT_CHAMBER, volume: 0 })).toThrow('volume');
+    expect(() => parseChamberSettings({ ...DEFAULT_CHAMBER, controller: 'BANG_BANG' })).toThrow('controller');
+    expect(() => parseChamberSettings({ ...DEFAULT_CHAMBER, pidGains: { kp: 1 } })).toThrow('pidGains.ki');
+    expect(() => parseChamberSettings(null)).toThrow();
+  });
+});
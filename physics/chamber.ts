@@ -0,0 +1,133 @@
+import { ChamberSettings } from '../types';
+import { airMolarDensity } from './physicalConstants';
+
+// Closed-volume gas balance of a well-mixed growth chamber, with n = ρ V moles of air:
+//   n dC/dt = U_makeup - U_scrub - A F_co2 + λ n (C_cabin - C)    C in ppm (µmol/mol), U in µmol/s
+//   n dX/dt =                      A F_o2  + λ n (X_cabin - X)    X in µmol/mol
+// A is the total leaf area, F the leaf fluxes (µmol/m2/s; CO2 uptake, O2 release) and λ the leak rate.
+// The CO2 makeup is an on/off valve or a PID loop; the scrubber is on/off.
+
+export interface ControllerState {
+  integral: number; // ppm s (PID)
+  previousError: number | null; // ppm (PID)
+  injecting: boolean; // Makeup valve (on/off)
+  scrubbing: boolean;
+}
+
+export const INITIAL_CONTROLLER_STATE: ControllerState = { integral: 0, previousError: null, injecting: false, scrubbing: false };
+
+export interface ChamberAir {
+  co2: number; // ppm
+  o2: number; // %
+}
+
+export interface ChamberStep {
+  air: ChamberAir;
+  controller: ControllerState;
+  injection: number; // µmol/s, mean over the step
+  scrubbing: number; // µmol/s, mean over the step
+}
+
+// Integration sub-step, s; the leaf fluxes are held over the leaf's own (longer) step
+const MAX_SUBSTEP = 1;
+
+// Total one-sided leaf area in the chamber, m2
+export const totalLeafArea = (settings: ChamberSettings): number => settings.leafCount * settings.leafArea * 1e-4;
+
+// CO2 makeup rate (µmol/s) for the next `dt` seconds at chamber CO2 `co2`
+export const makeupInjection = (
+  settings: ChamberSettings,
+  controller: ControllerState,
+  co2: number,
+  dt: number
+): { rate: number; controller: ControllerState } => {
+  const error = settings.co2Setpoint - co2;
+  if (settings.controller === 'ON_OFF') {
+    const band = settings.hysteresis / 2;
+    const injecting = error > band ? true : error < -band ? false : controller.injecting;
+    return { rate: injecting ? settings.maxInjection : 0, controller: { ...controller, injecting } };
+  }
+  const { kp, ki, kd } = settings.pidGains;
+  const derivative = controller.previousError === null || dt <= 0 ? 0 : (error - controller.previousError) / dt;
+  const integral = controller.integral + error * dt;
+  const raw = kp * error + ki * integral + kd * derivative;
+  const rate = Math.min(Math.max(raw, 0), settings.maxInjection);
+  // Anti-windup: stop integrating while the valve is saturated in the direction of the error
+  const saturated = (raw > settings.maxInjection && error > 0) || (raw < 0 && error < 0);
+  return {
+    rate,
+    controller: { ...controller, integral: saturated ? controller.integral : integral, previousError: error },
+  };
+};
+
+const scrubberOn = (settings: ChamberSettings, scrubbing: boolean, co2: number): boolean => {
+  const band = settings.hysteresis / 2;
+  if (co2 > settings.scrubberSetpoint + band) return true;
+  if (co2 < settings.scrubberSetpoint - band) return false;
+  return scrubbing;
+};
+
+// Chamber air after `dt` seconds of the given leaf gas exchange
+export const advanceChamber = (
+  settings: ChamberSettings,
+  air: ChamberAir,
+  controller: ControllerState,
+  leaf: { co2Flux: number; o2Flux: number },
+  airTemperature: number,
+  dt: number
+): ChamberStep => {
+  if (dt <= 0) return { air, controller, injection: 0, scrubbing: 0 };
+  const moles = airMolarDensity(airTemperature) * settings.volume;
+  const area = totalLeafArea(settings);
+  const leak = settings.leakRate / 3600;
+  let { co2, o2 } = air;
+  let state = controller;
+  let injected = 0;
+  let scrubbed = 0;
+
+  for (let elapsed = 0; elapsed < dt - 1e-9; ) {
+    const h = Math.min(MAX_SUBSTEP, dt - elapsed);
+    const makeup = makeupInjection(settings, state, co2, h);
+    const scrubbing = scrubberOn(settings, state.scrubbing, co2);
+    state = { ...makeup.controller, scrubbing };
+    const scrub = scrubbing ? settings.scrubberRate : 0;
+
+    const dCo2 = (makeup.rate - scrub - area * leaf.co2Flux) / moles + leak * (settings.cabinCO2 - co2);
+    const dO2 = (area * leaf.o2Flux) / moles / 1e4 + leak * (settings.cabinO2 - o2);
+    co2 = Math.max(co2 + dCo2 * h, 0);
+    o2 = Math.max(o2 + dO2 * h, 0);
+    injected += makeup.rate * h;
+    scrubbed += scrub * h;
+    elapsed += h;
+  }
+  return { air: { co2, o2 }, controller: state, injection: injected / dt, scrubbing: scrubbed / dt };
+};
+
+// Validates chamber settings read from a file or link
+export const parseChamberSettings = (value: unknown): ChamberSettings => {
+  if (typeof value !== 'object' || value === null) throw new Error('Chamber settings must be an object');
+  const data = value as Record<string, unknown>;
+  const number = (entry: unknown, name: string): number => {
+    if (typeof entry !== 'number' || !Number.isFinite(entry) || entry < 0) throw new Error(`Chamber ${name} must be a non-negative number`);
+    return entry;
+  };
+  if (data.controller !== 'ON_OFF' && data.controller !== 'PID') throw new Error(`Unknown chamber controller: ${data.controller}`);
+  const gains = (data.pidGains ?? {}) as Record<string, unknown>;
+  const volume = number(data.volume, 'volume');
+  if (volume === 0) throw new Error('Chamber volume must be positive');
+  return {
+    volume,
+    leafCount: number(data.leafCount, 'leafCount'),
+    leafArea: number(data.leafArea, 'leafArea'),
+    leakRate: number(data.leakRate, 'leakRate'),
+    cabinCO2: number(data.cabinCO2, 'cabinCO2'),
+    cabinO2: number(data.cabinO2, 'cabinO2'),
+    controller: data.controller,
+    co2Setpoint: number(data.co2Setpoint, 'co2Setpoint'),
+    hysteresis: number(data.hysteresis, 'hysteresis'),
+    maxInjection: number(data.maxInjection, 'maxInjection'),
+    pidGains: { kp: number(gains.kp, 'pidGains.kp'), ki: number(gains.ki, 'pidGains.ki'), kd: number(gains.kd, 'pidGains.kd') },
+    scrubberSetpoint: number(data.scrubberSetpoint, 'scrubberSetpoint'),
+    scrubberRate: number(data.scrubberRate, 'scrubberRate'),
+  };
+};
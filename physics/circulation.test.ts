@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import { canopyTopVelocity, fanRunning, leafAirVelocity, lowAirflow, MIN_LEAF_AIR_VELOCITY, nextFanSwitch, operatingFlow, parseFanSettings } from './circulation';
+import { CLOCK_TICK_MS, DEFAULT_FAN, SIMULATION_SPEEDS } from '../constants';
+import { FanFault } from '../types';
+
+describe('operatingFlow', () => {
+  it('balances the fan curve against the system resistance', () => {
+    const flow = operatingFlow(DEFAULT_FAN, 1, DEFAULT_FAN.systemResistance);
+    const fanPressure = DEFAULT_FAN.maxPressure * (1 - (flow / DEFAULT_FAN.maxFlow) ** 2);
+    expect(fanPressure).toBeCloseTo(DEFAULT_FAN.systemResistance * flow ** 2, 6);
+    expect(operatingFlow(DEFAULT_FAN, 1, 0)).toBeCloseTo(DEFAULT_FAN.maxFlow);
+  });
+
+  it('scales with fan speed and drops with a clogged system', () => {
+    const full = operatingFlow(DEFAULT_FAN, 1, DEFAULT_FAN.systemResistance);
+    expect(operatingFlow(DEFAULT_FAN, 0.5, DEFAULT_FAN.systemResistance)).toBeCloseTo(full / 2);
+    expect(operatingFlow(DEFAULT_FAN, 1, DEFAULT_FAN.systemResistance * 10)).toBeLessThan(full);
+    expect(operatingFlow(DEFAULT_FAN, 0, DEFAULT_FAN.systemResistance)).toBe(0);
+  });
+});
+
+describe('leafAirVelocity', () => {
+  it('attenuates the canopy-top velocity with depth in the canopy', () => {
+    const top = canopyTopVelocity(DEFAULT_FAN, FanFault.NONE);
+    expect(top).toBeGreaterThan(0.5);
+    expect(leafAirVelocity({ ...DEFAULT_FAN, leafDepth: 0 }, FanFault.NONE, 0)).toBeCloseTo(top);
+    expect(leafAirVelocity(DEFAULT_FAN, FanFault.NONE, 0)).toBeCloseTo(top * Math.exp(-0.5));
+  });
+
+  it('follows the duty cycle', () => {
+    const cycled = { ...DEFAULT_FAN, dutyCycle: 0.25, dutyPeriod: 400 };
+    expect(fanRunning(cycled, FanFault.NONE, 50)).toBe(true);
+    expect(fanRunning(cycled, FanFault.NONE, 150)).toBe(false);
+    expect(fanRunning(cycled, FanFault.NONE, 450)).toBe(true);
+    expect(leafAirVelocity(cycled, FanFault.NONE, 150)).toBe(0);
+  });
+
+  it('stops for a stall and slows for a degraded fan', () => {
+    expect(leafAirVelocity(DEFAULT_FAN, FanFault.STALL, 0)).toBe(0);
+    const healthy = leafAirVelocity(DEFAULT_FAN, FanFault.NONE, 0);
+    const degraded = leafAirVelocity(DEFAULT_FAN, FanFault.DEGRADED, 0);
+    expect(degraded).toBeGreaterThan(0);
+    expect(degraded).toBeLessThan(healthy);
+  });
+
+  it('drops out for about the outage share of periods when intermittent, reproducibly', () => {
+    const periods = Array.from({ length: 400 }, (_, k) => fanRunning(DEFAULT_FAN, FanFault.INTERMITTENT, (k + 0.5) * DEFAULT_FAN.dutyPeriod));
+    const outages = periods.filter(running => !running).length / periods.length;
+    expect(outages).toBeGreaterThan(0.4);
+    expect(outages).toBeLessThan(0.6);
+    expect(fanRunning(DEFAULT_FAN, FanFault.INTERMITTENT, 1234)).toBe(fanRunning(DEFAULT_FAN, FanFault.INTERMITTENT, 1234));
+  });
+});
+
+describe('nextFanSwitch', () => {
+  const cycled = { ...DEFAULT_FAN, dutyCycle: 0.25, dutyPeriod: 400 };
+
+  it('stops at the end of the on time and at the start of the next period', () => {
+    expect(nextFanSwitch(cycled, FanFault.NONE, 50)).toBe(100);
+    expect(nextFanSwitch(cycled, FanFault.NONE, 100)).toBe(400);
+    expect(nextFanSwitch(cycled, FanFault.NONE, 250)).toBe(400);
+    expect(fanRunning(cycled, FanFault.NONE, 399.9)).not.toBe(fanRunning(cycled, FanFault.NONE, 400));
+  });
+
+  it('never stops for a fan that stays on or off', () => {
+    expect(nextFanSwitch(DEFAULT_FAN, FanFault.NONE, 50)).toBe(Infinity);
+    expect(nextFanSwitch(cycled, FanFault.STALL, 50)).toBe(Infinity);
+    expect(nextFanSwitch({ ...cycled, dutyPeriod: 0 }, FanFault.NONE, 50)).toBe(Infinity);
+    expect(nextFanSwitch(DEFAULT_FAN, FanFault.INTERMITTENT, 50)).toBe(DEFAULT_FAN.dutyPeriod);
+  });
+
+  it('lets the fastest clock tick see the duty fraction of the airflow', () => {
+    const fan = { ...DEFAULT_FAN, dutyCycle: 0.4 };
+    const tick = (Math.max(...SIMULATION_SPEEDS) * CLOCK_TICK_MS) / 1000;
+    expect(tick).toBeGreaterThan(fan.dutyCycle * fan.dutyPeriod);
+    // Steps like the clock's advance: each span holds the airflow of its start
+    const averageAirflow = (split: boolean): number => {
+      let time = 0;
+      let flow = 0;
+      for (let k = 1; k <= 100; k++) {
+        const end = k * tick;
+        while (time < end) {
+          const stop = Math.min(end, split ? nextFanSwitch(fan, FanFault.NONE, time) : Infinity);
+          flow += leafAirVelocity(fan, FanFault.NONE, time) * (stop - time);
+          time = stop;
+        }
+      }
+      return flow / time;
+    };
+    const running = leafAirVelocity(fan, FanFault.NONE, 0);
+    expect(averageAirflow(true)).toBeCloseTo(fan.dutyCycle * running, 2);
+    expect(Math.abs(averageAirflow(false) - fan.dutyCycle * running)).toBeGreaterThan(0.05 * running);
+  });
+});
+
+describe('lowAirflow', () => {
+  it('flags weak airflow in reduced gravity only', () => {
+    expect(lowAirflow({ airVelocity: MIN_LEAF_AIR_VELOCITY / 2, gravityFactor: 0 })).toBe(true);
+    expect(lowAirflow({ airVelocity: MIN_LEAF_AIR_VELOCITY * 2, gravityFactor: 0 })).toBe(false);
+    expect(lowAirflow({ airVelocity: 0, gravityFactor: 1 })).toBe(false);
+  });
+});
+
+describe('parseFanSettings', () => {
+  it('accepts valid settings and rejects the rest', () => {
+    expect(parseFanSettings(DEFAULT_FAN)).toEqual(DEFAULT_FAN);
+    expect(() => parseFanSettings({ ...DEFAULT_FAN, dutyCycle: 2 })).toThrow('dutyCycle');
+    expect(() => parseFanSettings({ ...DEFAULT_FAN, speed: 'max' })).toThrow('speed');
+    expect(() => parseFanSettings(null)).toThrow();
+  });
+});
@@ -0,0 +1,86 @@
+import { FanFault, FanSettings, SimulationState } from '../types';
+
+// Circulation fan hardware: the air velocity at the leaf from the fan's operating point,
+// its duty cycle, injected faults and the decay of the wind through the canopy.
+//
+// Fan curve (affinity laws, speed s):  ΔP_fan = P0 s² (1 - (Q / (Qmax s))²)
+// System curve:                        ΔP_sys = K Q²
+// Operating point:                     Q = s √(P0 / (K + P0 / Qmax²))
+// In-canopy profile (Cionco):          u = u_top exp(-a depth)
+
+// Below this leaf air velocity the boundary layer builds up in µG, where there is no
+// buoyant convection to clear it (photosynthesis and transpiration fall off below ~0.2 m/s)
+export const MIN_LEAF_AIR_VELOCITY = 0.2;
+// Gravity below which free convection is too weak to stand in for the fan
+export const LOW_GRAVITY_FACTOR = 0.2;
+
+// Volumetric flow at the operating point, m3/s
+export const operatingFlow = (fan: FanSettings, speed: number, resistance: number): number => {
+  if (speed <= 0 || fan.maxPressure <= 0 || fan.maxFlow <= 0) return 0;
+  return speed * Math.sqrt(fan.maxPressure / (Math.max(resistance, 0) + fan.maxPressure / fan.maxFlow ** 2));
+};
+
+// Deterministic noise in [0, 1) per duty period, so intermittent runs are reproducible
+const periodNoise = (period: number): number => {
+  const x = Math.sin(period * 12.9898 + 78.233) * 43758.5453;
+  return x - Math.floor(x);
+};
+
+// Whether the fan runs at `time` (s), from its duty cycle and fault
+export const fanRunning = (fan: FanSettings, fault: FanFault, time: number): boolean => {
+  if (fault === FanFault.STALL || fan.dutyCycle <= 0) return false;
+  if (fan.dutyPeriod <= 0) return true;
+  const period = Math.floor(time / fan.dutyPeriod);
+  if (fault === FanFault.INTERMITTENT && periodNoise(period) < fan.outageProbability) return false;
+  return time - period * fan.dutyPeriod < fan.dutyCycle * fan.dutyPeriod;
+};
+
+// Next time after `time` (s) at which the fan may switch on or off, Infinity if it never does.
+// A clock stepping past it would hold the airflow of the step's start over the whole step.
+export const nextFanSwitch = (fan: FanSettings, fault: FanFault, time: number): number => {
+  if (fault === FanFault.STALL || fan.dutyCycle <= 0 || fan.dutyPeriod <= 0) return Infinity;
+  if (fan.dutyCycle >= 1 && fault !== FanFault.INTERMITTENT) return Infinity;
+  const start = Math.floor(time / fan.dutyPeriod) * fan.dutyPeriod;
+  const off = start + Math.min(fan.dutyCycle, 1) * fan.dutyPeriod;
+  return time < off ? off : start + fan.dutyPeriod;
+};
+
+// Air velocity at the canopy top while the fan runs, m/s
+export const canopyTopVelocity = (fan: FanSettings, fault: FanFault): number => {
+  const resistance = fan.systemResistance * (fault === FanFault.DEGRADED ? fan.degradedResistance : 1);
+  return fan.outletArea > 0 ? operatingFlow(fan, fan.speed, resistance) / fan.outletArea : 0;
+};
+
+// Air velocity reaching the leaf at `time` (s), m/s
+export const leafAirVelocity = (fan: FanSettings, fault: FanFault, time: number): number =>
+  fanRunning(fan, fault, time) ? canopyTopVelocity(fan, fault) * Math.exp(-fan.canopyAttenuation * fan.leafDepth) : 0;
+
+// Flags airflow too weak to keep the boundary layer thin in reduced gravity
+export const lowAirflow = ({ airVelocity, gravityFactor }: Pick<SimulationState, 'airVelocity' | 'gravityFactor'>): boolean =>
+  gravityFactor < LOW_GRAVITY_FACTOR && airVelocity < MIN_LEAF_AIR_VELOCITY;
+
+// Validates fan settings read from a file or link
+export const parseFanSettings = (value: unknown): FanSettings => {
+  if (typeof value !== 'object' || value === null) throw new Error('Fan settings must be an object');
+  const data = value as Record<string, unknown>;
+  const number = (name: keyof FanSettings, max = Infinity): number => {
+    const entry = data[name];
+    if (typeof entry !== 'number' || !Number.isFinite(entry) || entry < 0 || entry > max) {
+      throw new Error(`Fan ${name} must be a number from 0 to ${max}`);
+    }
+    return entry;
+  };
+  return {
+    maxPressure: number('maxPressure'),
+    maxFlow: number('maxFlow'),
+    systemResistance: number('systemResistance'),
+    outletArea: number('outletArea'),
+    speed: number('speed', 1),
+    dutyCycle: number('dutyCycle', 1),
+    dutyPeriod: number('dutyPeriod'),
+    canopyAttenuation: number('canopyAttenuation'),
+    leafDepth: number('leafDepth', 1),
+    degradedResistance: number('degradedResistance'),
+    outageProbability: number('outageProbability', 1),
+  };
+};
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { computeConvection, describeConvectionRegime } from './convection';
+import { LEAF_LENGTH, STILL_AIR_MIXING_HEIGHT, THERMAL_CONDUCTIVITY_AIR } from './physicalConstants';
+
+const stillAirH = (LEAF_LENGTH / STILL_AIR_MIXING_HEIGHT) * THERMAL_CONDUCTIVITY_AIR / LEAF_LENGTH;
+
+describe('computeConvection', () => {
+  it('has no buoyancy in µG', () => {
+    const orbit = computeConvection(0, 0, 5, 22);
+    expect(orbit.grashof).toBe(0);
+    expect(orbit.nusseltNatural).toBe(0);
+    expect(orbit.equivalentVelocity).toBe(0);
+  });
+
+  it('falls back to conduction through still air when nothing moves', () => {
+    const orbit = computeConvection(0, 0, 5, 22);
+    expect(orbit.heatTransferCoefficient).toBeCloseTo(stillAirH);
+    expect(orbit.thermalBoundaryLayer).toBeCloseTo(STILL_AIR_MIXING_HEIGHT * 1000);
+    expect(describeConvectionRegime(orbit)).toBe('STILL AIR');
+  });
+
+  it('scales the Grashof number linearly with gravity and temperature difference', () => {
+    const earth = computeConvection(0, 1, 4, 22);
+    expect(computeConvection(0, 0.38, 4, 22).grashof).toBeCloseTo(earth.grashof * 0.38);
+    expect(computeConvection(0, 1, 2, 22).grashof).toBeCloseTo(earth.grashof / 2);
+    expect(earth.rayleigh).toBeGreaterThan(0);
+  });
+
+  it('orders natural convection Earth > Mars > Moon > orbit', () => {
+    const h = (g: number) => computeConvection(0, g, 4, 22).heatTransferCoefficient;
+    expect(h(1)).toBeGreaterThan(h(0.38));
+    expect(h(0.38)).toBeGreaterThan(h(0.16));
+    expect(h(0.16)).toBeGreaterThan(h(0));
+  });
+
+  it('transfers less heat from a leaf cooler than the air', () => {
+    expect(computeConvection(0, 1, -4, 22).nusseltNatural).toBeCloseTo(
+      computeConvection(0, 1, 4, 22).nusseltNatural / 2
+    );
+  });
+
+  it('blocks the buoyant plume under a warm leaf and over a cool one', () => {
+    const upper = computeConvection(0, 1, 4, 22);
+    const lower = computeConvection(0, 1, 4, 22, undefined, 'abaxial');
+    expect(lower.nusseltNatural).toBeCloseTo(upper.nusseltNatural / 2);
+    expect(computeConvection(0, 1, -4, 22, undefined, 'abaxial').nusseltNatural).toBeCloseTo(upper.nusseltNatural);
+  });
+
+  it('is dominated by forced flow at fan speeds', () => {
+    const fan = computeConvection(1, 1, 4, 22);
+    expect(fan.richardson).toBeLessThan(0.1);
+    expect(fan.nusselt).toBeCloseTo(fan.nusseltForced, 0);
+    expect(describeConvectionRegime(fan)).toBe('FORCED');
+  });
+
+  it('labels a fan without buoyancy as forced, in µG or over an isothermal leaf', () => {
+    expect(describeConvectionRegime(computeConvection(1, 0, 4, 22))).toBe('FORCED');
+    expect(describeConvectionRegime(computeConvection(1, 1, 0, 22))).toBe('FORCED');
+    expect(describeConvectionRegime(computeConvection(0, 1, 4, 22))).toBe('NATURAL');
+  });
+
+  it('combines forced and natural flow into a larger Nusselt number than either', () => {
+    const mixed = computeConvection(0.05, 1, 4, 22);
+    expect(mixed.nusselt).toBeGreaterThan(mixed.nusseltForced);
+    expect(mixed.nusselt).toBeGreaterThan(mixed.nusseltNatural);
+  });
+
+  it('reports a forced-flow equivalent velocity for pure natural convection', () => {
+    const natural = computeConvection(0, 1, 4, 22);
+    expect(natural.equivalentVelocity).toBeGreaterThan(0);
+    expect(computeConvection(natural.equivalentVelocity, 0, 0, 22).nusseltForced).toBeCloseTo(natural.nusseltNatural);
+  });
+});
@@ -0,0 +1,81 @@
+import { LeafFace } from '../types';
+import {
+  KELVIN_OFFSET,
+  KINEMATIC_VISCOSITY_AIR,
+  LEAF_LENGTH,
+  PRANDTL_AIR,
+  STANDARD_GRAVITY,
+  STILL_AIR_MIXING_HEIGHT,
+  THERMAL_CONDUCTIVITY_AIR,
+} from './physicalConstants';
+
+// Mixed (forced + natural) convection from a leaf, treated as a flat plate of length L.
+//
+// Forced:  Nu_F = 0.664 Re^1/2 Pr^1/3                 (laminar flat plate, mean)
+// Natural: Nu_N = 0.54 Ra^1/4 (warm upper face or cool lower face of a horizontal plate: the plume rises freely)
+//          Nu_N = 0.27 Ra^1/4 (cool upper face or warm lower face: the plate blocks it)
+// Mixed:   Nu = (Nu_F^3 + Nu_N^3 + Nu_0^3)^1/3         (assisting flows)
+// Nu_0 = L / STILL_AIR_MIXING_HEIGHT is conduction through still air.
+//
+// Gravity enters only through Gr, so at 0 g the leaf relies on forced flow alone.
+
+export interface ConvectionState {
+  reynolds: number;
+  grashof: number;
+  rayleigh: number;
+  richardson: number; // Gr / Re^2: > 1 natural, < 0.1 forced convection dominates
+  nusseltForced: number;
+  nusseltNatural: number;
+  nusselt: number;
+  heatTransferCoefficient: number; // W/m2/K
+  thermalBoundaryLayer: number; // mm, L / Nu
+  equivalentVelocity: number; // m/s, forced flow giving the same convective (non-conduction) Nu
+}
+
+const FORCED_COEFFICIENT = 0.664 * Math.cbrt(PRANDTL_AIR);
+
+export const computeConvection = (
+  airVelocity: number,
+  gravityFactor: number,
+  leafAirTempDiff: number,
+  ambientTemperature: number,
+  length: number = LEAF_LENGTH,
+  face: LeafFace = 'adaxial'
+): ConvectionState => {
+  const beta = 1 / (ambientTemperature + KELVIN_OFFSET);
+  const velocity = Math.max(airVelocity, 0);
+
+  const reynolds = (velocity * length) / KINEMATIC_VISCOSITY_AIR;
+  const grashof =
+    (STANDARD_GRAVITY * Math.max(gravityFactor, 0) * beta * Math.abs(leafAirTempDiff) * length ** 3) /
+    KINEMATIC_VISCOSITY_AIR ** 2;
+  const rayleigh = grashof * PRANDTL_AIR;
+  const richardson = reynolds > 0 ? grashof / reynolds ** 2 : grashof > 0 ? Infinity : 0;
+
+  const nusseltForced = FORCED_COEFFICIENT * Math.sqrt(reynolds);
+  const rising = (leafAirTempDiff >= 0) === (face === 'adaxial');
+  const nusseltNatural = (rising ? 0.54 : 0.27) * rayleigh ** 0.25;
+  const convective = Math.cbrt(nusseltForced ** 3 + nusseltNatural ** 3);
+  const nusselt = Math.cbrt(convective ** 3 + (length / STILL_AIR_MIXING_HEIGHT) ** 3);
+
+  return {
+    reynolds,
+    grashof,
+    rayleigh,
+    richardson,
+    nusseltForced,
+    nusseltNatural,
+    nusselt,
+    heatTransferCoefficient: (nusselt * THERMAL_CONDUCTIVITY_AIR) / length,
+    thermalBoundaryLayer: (length / nusselt) * 1000,
+    equivalentVelocity: ((convective / FORCED_COEFFICIENT) ** 2 * KINEMATIC_VISCOSITY_AIR) / length,
+  };
+};
+
+// Regime label: still air only when nothing moves (no flow and no buoyancy, e.g. a fan off in µG)
+export const describeConvectionRegime = ({ reynolds, grashof, richardson }: Pick<ConvectionState, 'reynolds' | 'grashof' | 'richardson'>): string => {
+  if (grashof === 0) return reynolds === 0 ? 'STILL AIR' : 'FORCED';
+  if (richardson < 0.1) return 'FORCED';
+  if (richardson > 10) return 'NATURAL';
+  return 'MIXED';
+};
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { EnergyBalanceInputs, evaluateEnergyBalance, solveLeafEnergyBalance } from './energyBalance';
+
+const baseInputs: EnergyBalanceInputs = {
+  absorbedShortwave: 200,
+  ambientTemperature: 22,
+  relativeHumidity: 0.6,
+  stomatalConductance: 0.2,
+  airVelocity: 0.5,
+  gravityFactor: 1,
+};
+
+const solve = (overrides: Partial<EnergyBalanceInputs> = {}) =>
+  solveLeafEnergyBalance({ ...baseInputs, ...overrides });
+
+describe('solveLeafEnergyBalance', () => {
+  it('closes the energy budget', () => {
+    const result = solve();
+    expect(Math.abs(result.residual)).toBeLessThan(0.05);
+    expect(result.longwaveLoss + result.sensibleHeat + result.latentHeat).toBeCloseTo(result.absorbedShortwave, 1);
+  });
+
+  it('sits at air temperature with no light, no transpiration', () => {
+    const result = solve({ absorbedShortwave: 0, stomatalConductance: 0 });
+    expect(result.temperature).toBeCloseTo(22, 2);
+  });
+
+  it('cools the leaf below air temperature by transpiration in the dark', () => {
+    const result = solve({ absorbedShortwave: 0, relativeHumidity: 0.3 });
+    expect(result.temperature).toBeLessThan(22);
+    expect(result.transpiration).toBeGreaterThan(0);
+  });
+
+  it('warms the leaf more when stomata close', () => {
+    expect(solve({ stomatalConductance: 0.02 }).temperature).toBeGreaterThan(solve().temperature);
+  });
+
+  it('warms the leaf more in humid air', () => {
+    expect(solve({ relativeHumidity: 0.95 }).temperature).toBeGreaterThan(solve({ relativeHumidity: 0.3 }).temperature);
+  });
+
+  describe('gravity and airflow', () => {
+    const leafTemp = (gravityFactor: number, airVelocity: number) =>
+      solve({ gravityFactor, airVelocity, absorbedShortwave: 300 }).temperature;
+
+    it('gets hottest in µG with weak airflow', () => {
+      expect(leafTemp(0, 0.02)).toBeGreaterThan(leafTemp(1, 0.02));
+      expect(leafTemp(0, 0.02)).toBeGreaterThan(leafTemp(0, 1));
+    });
+
+    it('orders partial gravity between Earth and orbit in still air', () => {
+      expect(leafTemp(0, 0)).toBeGreaterThan(leafTemp(0.16, 0));
+      expect(leafTemp(0.16, 0)).toBeGreaterThan(leafTemp(0.38, 0));
+      expect(leafTemp(0.38, 0)).toBeGreaterThan(leafTemp(1, 0));
+    });
+
+    it('shifts losses from sensible heat to radiation and transpiration when convection weakens', () => {
+      const still = solve({ gravityFactor: 0, airVelocity: 0, absorbedShortwave: 300 });
+      const fan = solve({ gravityFactor: 0, airVelocity: 2, absorbedShortwave: 300 });
+      expect(still.sensibleHeat / still.absorbedShortwave).toBeLessThan(fan.sensibleHeat / fan.absorbedShortwave);
+      expect(still.longwaveLoss).toBeGreaterThan(fan.longwaveLoss);
+    });
+  });
+});
+
+describe('evaluateEnergyBalance', () => {
+  it('reports a gain below and a loss above the balance temperature', () => {
+    const { temperature } = solveLeafEnergyBalance(baseInputs);
+    expect(evaluateEnergyBalance(baseInputs, temperature - 1).residual).toBeGreaterThan(0);
+    expect(evaluateEnergyBalance(baseInputs, temperature + 1).residual).toBeLessThan(0);
+  });
+});
@@ -0,0 +1,126 @@
+import {
+  ATMOSPHERIC_PRESSURE,
+  KELVIN_OFFSET,
+  LATENT_HEAT_VAPORIZATION,
+  MOLAR_HEAT_CAPACITY_AIR,
+  STEFAN_BOLTZMANN,
+  VAPOUR_HEAT_CONDUCTANCE_RATIO,
+  saturationVapourPressure,
+} from './physicalConstants';
+import { LeafFace } from '../types';
+import { ConvectionState, computeConvection } from './convection';
+
+// Steady-state leaf energy balance, per unit (one-sided) leaf area:
+//
+//   absorbed shortwave = longwave loss + sensible heat + latent heat
+//
+//   longwave:  2 ε σ (T_leaf^4 - T_air^4)               both faces see surroundings at air temperature
+//   sensible:  (h_ad + h_ab) (T_leaf - T_air)           h from mixed convection, depends on T_leaf itself
+//   latent:    λ Σ g_tw,face (e_s(T_leaf) - e_a) / P    transpiration through each face's stomata + boundary layer
+//
+// The faces differ in their stomata and in their convection: buoyancy lifts heat off a warm upper
+// face but is blocked under the lower one, and a curled leaf shelters its upper face from the airflow.
+//
+// Every loss term increases with leaf temperature, so the root is bracketed and found by bisection.
+
+export const LEAF_EMISSIVITY = 0.97;
+
+export interface EnergyBalanceInputs {
+  absorbedShortwave: number; // W/m2 (PAR + NIR)
+  ambientTemperature: number; // Celsius
+  relativeHumidity: number; // 0-1
+  stomatalConductance: number; // mol/m2/s (water vapour, whole leaf)
+  airVelocity: number; // m/s
+  gravityFactor: number; // 0.0 (uG) to 1.0 (1G)
+  leafLength?: number; // m, characteristic length for convection (LEAF_LENGTH if not given)
+  adaxialStomata?: number; // 0-1 share of the stomata on the upper face (0.5 if not given)
+  adaxialAirVelocity?: number; // m/s over the upper face (airVelocity if not given)
+}
+
+export interface FaceExchange {
+  convection: ConvectionState;
+  boundaryLayerConductance: number; // mol/m2/s (water vapour)
+  transpiration: number; // mol/m2/s
+}
+
+export interface EnergyBalanceResult {
+  temperature: number; // Celsius
+  absorbedShortwave: number; // W/m2
+  longwaveLoss: number; // W/m2 (net emitted)
+  sensibleHeat: number; // W/m2 (to the air)
+  latentHeat: number; // W/m2 (transpiration)
+  transpiration: number; // mol/m2/s
+  vapourPressureDeficit: number; // kPa, leaf to air
+  boundaryLayerConductance: number; // mol/m2/s (water vapour, mean of the faces)
+  convection: ConvectionState; // Upper face
+  faces: Record<LeafFace, FaceExchange>;
+  residual: number; // W/m2, energy left unbalanced
+}
+
+const MAX_ITERATIONS = 80;
+const TEMPERATURE_TOLERANCE = 1e-4; // K
+
+// Loss terms for a candidate leaf temperature
+export const evaluateEnergyBalance = (
+  inputs: EnergyBalanceInputs,
+  temperature: number
+): EnergyBalanceResult => {
+  const { absorbedShortwave, ambientTemperature, relativeHumidity, stomatalConductance, airVelocity, gravityFactor, leafLength } = inputs;
+  const leafAirTempDiff = temperature - ambientTemperature;
+  const vapourDeficit =
+    saturationVapourPressure(temperature) - relativeHumidity * saturationVapourPressure(ambientTemperature);
+  const adaxialStomata = inputs.adaxialStomata ?? 0.5;
+
+  // Water vapour: each face's stomata in series with its boundary layer
+  const face = (side: LeafFace, velocity: number, share: number): FaceExchange => {
+    const convection = computeConvection(velocity, gravityFactor, leafAirTempDiff, ambientTemperature, leafLength, side);
+    const boundaryLayerConductance =
+      (convection.heatTransferCoefficient / MOLAR_HEAT_CAPACITY_AIR) * VAPOUR_HEAT_CONDUCTANCE_RATIO;
+    const stomatal = Math.max(stomatalConductance * share, 0);
+    const conductance = stomatal > 0 ? 1 / (1 / stomatal + 1 / boundaryLayerConductance) : 0;
+    return { convection, boundaryLayerConductance, transpiration: (conductance * vapourDeficit * 1000) / ATMOSPHERIC_PRESSURE };
+  };
+  const faces = {
+    adaxial: face('adaxial', inputs.adaxialAirVelocity ?? airVelocity, adaxialStomata),
+    abaxial: face('abaxial', airVelocity, 1 - adaxialStomata),
+  };
+
+  const leafK = temperature + KELVIN_OFFSET;
+  const airK = ambientTemperature + KELVIN_OFFSET;
+  const longwaveLoss = 2 * LEAF_EMISSIVITY * STEFAN_BOLTZMANN * (leafK ** 4 - airK ** 4);
+  const sensibleHeat =
+    (faces.adaxial.convection.heatTransferCoefficient + faces.abaxial.convection.heatTransferCoefficient) * leafAirTempDiff;
+  const transpiration = faces.adaxial.transpiration + faces.abaxial.transpiration;
+  const latentHeat = LATENT_HEAT_VAPORIZATION * transpiration;
+  const boundaryLayerConductance = 0.5 * (faces.adaxial.boundaryLayerConductance + faces.abaxial.boundaryLayerConductance);
+
+  return {
+    temperature,
+    absorbedShortwave,
+    longwaveLoss,
+    sensibleHeat,
+    latentHeat,
+    transpiration,
+    vapourPressureDeficit: vapourDeficit,
+    boundaryLayerConductance,
+    convection: faces.adaxial.convection,
+    faces,
+    residual: absorbedShortwave - longwaveLoss - sensibleHeat - latentHeat,
+  };
+};
+
+// Solves for the leaf temperature at which the energy budget closes
+export const solveLeafEnergyBalance = (inputs: EnergyBalanceInputs): EnergyBalanceResult => {
+  let low = inputs.ambientTemperature - 40;
+  let high = inputs.ambientTemperature + 80;
+  let result = evaluateEnergyBalance(inputs, inputs.ambientTemperature);
+
+  for (let i = 0; i < MAX_ITERATIONS && high - low > TEMPERATURE_TOLERANCE; i++) {
+    const mid = 0.5 * (low + high);
+    result = evaluateEnergyBalance(inputs, mid);
+    // Positive residual: the leaf still gains energy, so it must be warmer
+    if (result.residual > 0) low = mid;
+    else high = mid;
+  }
+  return result;
+};
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { advanceLeafState } from './leafDynamics';
+import { computeLeafState } from './leafPhysics';
+import { DerivedLeafState, EnvironmentInputs } from '../types';
+
+const baseInputs: EnvironmentInputs = {
+  gravityFactor: 1.0,
+  airVelocity: 1.0,
+  ambientCO2: 400,
+  ambientO2: 21,
+  ambientTemperature: 22,
+  relativeHumidity: 60,
+  ppfd: 300,
+  ledMix: { white: 1 },
+};
+
+const simulate = (inputs: EnvironmentInputs, start: DerivedLeafState, duration: number, dt: number) => {
+  let state = start;
+  for (let t = 0; t < duration - 1e-9; t += dt) state = advanceLeafState(inputs, state, dt);
+  return state;
+};
+
+describe('advanceLeafState', () => {
+  const steady = computeLeafState(baseInputs);
+
+  it('leaves the state unchanged for a zero step', () => {
+    expect(advanceLeafState(baseInputs, steady, 0)).toBe(steady);
+  });
+
+  it('holds a steady state', () => {
+    const next = advanceLeafState(baseInputs, steady, 10);
+    expect(next.temperature).toBeCloseTo(steady.temperature, 1);
+    expect(next.stomatalConductance).toBeCloseTo(steady.stomatalConductance, 2);
+    expect(next.co2Flux).toBeCloseTo(steady.co2Flux, 0);
+  });
+
+  it('relaxes to the steady state of new conditions', () => {
+    const bright = { ...baseInputs, ppfd: 900 };
+    const target = computeLeafState(bright);
+    const state = simulate(bright, steady, 6000, 100);
+    expect(state.temperature).toBeCloseTo(target.temperature, 1);
+    expect(state.stomatalConductance).toBeCloseTo(target.stomatalConductance, 2);
+    expect(state.co2Flux).toBeCloseTo(target.co2Flux, 0);
+  });
+
+  it('warms the leaf gradually through its thermal inertia', () => {
+    const hot = { ...baseInputs, ppfd: 1500, airVelocity: 0.1 };
+    const target = computeLeafState(hot).temperature;
+    const after1s = advanceLeafState(hot, steady, 1).temperature;
+    const after10s = simulate(hot, steady, 10, 1).temperature;
+    expect(after1s).toBeGreaterThan(steady.temperature);
+    expect(after10s).toBeGreaterThan(after1s);
+    expect(target - after10s).toBeGreaterThan(0.5);
+  });
+
+  it('closes the stomata with a lag after the lights go out', () => {
+    const dark = { ...baseInputs, ppfd: 0 };
+    const target = computeLeafState(dark).stomatalConductance;
+    const after1min = simulate(dark, steady, 60, 10);
+    const after1h = simulate(dark, steady, 3600, 100);
+    expect(after1min.stomatalConductance).toBeGreaterThan(0.5 * steady.stomatalConductance);
+    expect(after1h.stomatalConductance).toBeCloseTo(target, 2);
+    // Photosynthesis stops at once even while the stomata are still open
+    expect(after1min.co2Flux).toBeLessThan(0);
+  });
+
+  it('builds the boundary layer up over seconds after the fans stop in µG', () => {
+    const fansOff = { ...baseInputs, airVelocity: 0, gravityFactor: 0 };
+    const early = advanceLeafState(fansOff, steady, 0.25);
+    const later = simulate(fansOff, early, 5, 0.25);
+    expect(early.boundaryLayerThickness).toBeGreaterThan(steady.boundaryLayerThickness);
+    expect(later.boundaryLayerThickness).toBeGreaterThan(early.boundaryLayerThickness);
+    expect(later.surfaceCO2).toBeLessThan(early.surfaceCO2);
+    expect(later.co2Flux).toBeLessThan(steady.co2Flux);
+  });
+});
@@ -0,0 +1,92 @@
+import { DerivedLeafState, EnvironmentInputs, LeafFace } from '../types';
+import { advanceGasField, GasField } from './boundaryLayerSolver';
+import { evaluateEnergyBalance, solveLeafEnergyBalance } from './energyBalance';
+import { solveGasExchangeAtConductance, solveLeafGasExchange } from './photosynthesis';
+import { assembleLeafState, boundaryLayerConditions, combineFaces, energyBalanceInputs, leafPpfd } from './leafPhysics';
+import { DEFAULT_MODEL_PARAMETERS, ModelParameters } from './modelParameters';
+
+// Time-stepped leaf model. The slow states carried from one step to the next are
+//
+//   leaf temperature      thermal inertia:  C dT/dt = absorbed - longwave - sensible - latent
+//   stomatal aperture     first-order lag toward the Medlyn optimum (opening slower than closing)
+//   CO2 / O2 fields       transient FDM over each face, e.g. the depletion zone building up after the fans stop
+//
+// Photosynthesis itself is fast and solved at each step for the current aperture.
+
+// Heat capacity and stomatal time constants are in ModelParameters.
+// Longer FDM marches than this have long since relaxed; jump to the steady field instead
+const MAX_TRANSIENT_FDM_STEPS = 1000;
+// Change in Ci (ppm) within a step above which the gas field is marched again
+const CI_CORRECTION_THRESHOLD = 1;
+
+// Exponential relaxation toward a target over dt, exact for a first-order lag
+export const relax = (current: number, target: number, dt: number, timeConstant: number): number =>
+  target + (current - target) * Math.exp(-dt / timeConstant);
+
+// Advances the leaf by dt seconds of simulated time from the previous derived state
+export const advanceLeafState = (
+  inputs: EnvironmentInputs,
+  previous: DerivedLeafState,
+  dt: number,
+  params: ModelParameters = DEFAULT_MODEL_PARAMETERS
+): DerivedLeafState => {
+  if (dt <= 0) return previous;
+  const stomatalConductance = previous.stomatalConductance;
+
+  // Temperature: relax toward the energy-balance temperature for the current aperture.
+  // The time constant is C / (d losses / dT), linearised about the current temperature.
+  const energyInputs = energyBalanceInputs(inputs, stomatalConductance, params.leafLength, params.adaxialStomata);
+  const equilibrium = solveLeafEnergyBalance(energyInputs);
+  const now = evaluateEnergyBalance(energyInputs, previous.temperature);
+  const nudged = evaluateEnergyBalance(energyInputs, previous.temperature + 0.1);
+  const lossSlope = Math.max((now.residual - nudged.residual) / 0.1, 1e-3);
+  const temperature = relax(previous.temperature, equilibrium.temperature, dt, params.leafHeatCapacity / lossSlope);
+  const energy = evaluateEnergyBalance(energyInputs, temperature);
+
+  // Boundary layers: march the gas field of each face with the current stomata and a given Ci
+  const marchFace = (face: LeafFace, field: GasField, intercellularCO2: number) =>
+    advanceGasField(
+      field,
+      boundaryLayerConditions(inputs, temperature, stomatalConductance, intercellularCO2, params.leafLength, face, params.adaxialStomata),
+      dt,
+      MAX_TRANSIENT_FDM_STEPS
+    );
+  const march = (intercellularCO2: number) => ({
+    adaxial: marchFace('adaxial', previous.gasField, intercellularCO2),
+    abaxial: marchFace('abaxial', previous.abaxialGasField, intercellularCO2),
+  });
+
+  // Photosynthesis at the lagging aperture, which relaxes toward the Medlyn optimum
+  const photosynthesise = (surfaceCO2: number, surfaceO2: number) => {
+    const conditions = {
+      surfaceCO2,
+      leafTemperature: temperature,
+      ppfd: leafPpfd(inputs),
+      o2Percent: surfaceO2,
+      vapourPressureDeficit: energy.vapourPressureDeficit,
+    };
+    const target = solveLeafGasExchange(conditions, params.photosynthesis).stomatalConductance;
+    const timeConstant = target > stomatalConductance ? params.stomatalOpeningTime : params.stomatalClosingTime;
+    return solveGasExchangeAtConductance(
+      conditions,
+      relax(stomatalConductance, target, dt, timeConstant),
+      params.photosynthesis
+    );
+  };
+
+  // The mesophyll sees both faces, weighted by their stomata
+  const exchangeThrough = (faces: ReturnType<typeof march>) => {
+    const surface = combineFaces(faces, params.adaxialStomata);
+    return photosynthesise(surface.surfaceCO2, surface.surfaceO2);
+  };
+
+  let faces = march(previous.intercellularCO2);
+  let exchange = exchangeThrough(faces);
+  // Ci has no inertia of its own; if it moved, march again with it so the flux matches A
+  if (Math.abs(exchange.intercellularCO2 - previous.intercellularCO2) > CI_CORRECTION_THRESHOLD) {
+    faces = march(exchange.intercellularCO2);
+    exchange = exchangeThrough(faces);
+  }
+
+  return assembleLeafState(inputs, energy, faces, exchange, params);
+};
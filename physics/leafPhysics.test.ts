@@ -0,0 +1,334 @@
+import { describe, it, expect } from 'vitest';
+import { computeLeafState, environmentFromState, faceAirVelocity, lumpedCO2Conductance, solveLumpedLeaf } from './leafPhysics';
+import { computeConvection } from './convection';
+import { DEFAULT_SPECIES, INITIAL_STATE, SPECIES_PROFILES } from '../constants';
+import { DEFAULT_MODEL_PARAMETERS } from './modelParameters';
+import { EnvironmentInputs } from '../types';
+
+const baseInputs: EnvironmentInputs = {
+  gravityFactor: 1.0,
+  airVelocity: 1.0,
+  ambientCO2: 400,
+  ambientO2: 21,
+  ambientTemperature: 22,
+  relativeHumidity: 60,
+  ppfd: 300,
+  ledMix: { white: 1 },
+};
+
+const run = (overrides: Partial<EnvironmentInputs> = {}) =>
+  computeLeafState({ ...baseInputs, ...overrides });
+
+describe('computeLeafState', () => {
+  describe('1G vs µG', () => {
+    // Still air, so only buoyant convection can thin the layer
+    // Strong light so the leaf is warmer than the air and buoyancy matters
+    const earth = run({ gravityFactor: 1.0, airVelocity: 0, ppfd: 1500 });
+    const orbit = run({ gravityFactor: 0.0, airVelocity: 0, ppfd: 1500 });
+
+    it('thickens the boundary layer in µG', () => {
+      expect(orbit.boundaryLayerThickness).toBeGreaterThan(earth.boundaryLayerThickness);
+    });
+
+    it('reduces gas exchange in µG', () => {
+      expect(orbit.co2Flux).toBeLessThan(earth.co2Flux);
+      expect(orbit.o2Flux).toBeLessThan(earth.o2Flux);
+    });
+
+    it('traps more heat at the leaf in µG', () => {
+      expect(orbit.temperature).toBeGreaterThan(earth.temperature);
+    });
+
+    it('flags a stagnant layer as stress', () => {
+      expect(run().stressLevel).toBe(10);
+      expect(orbit.boundaryLayerThickness).toBeGreaterThan(1.5);
+      expect(orbit.stressLevel).toBeGreaterThanOrEqual(40);
+    });
+  });
+
+  it('scrubs the boundary layer with forced air', () => {
+    const still = run({ airVelocity: 0 });
+    const breeze = run({ airVelocity: 0.3 });
+    const fan = run({ airVelocity: 2 });
+    expect(breeze.boundaryLayerThickness).toBeLessThan(still.boundaryLayerThickness);
+    expect(fan.boundaryLayerThickness).toBeLessThan(breeze.boundaryLayerThickness);
+    expect(fan.co2Flux).toBeGreaterThan(still.co2Flux);
+  });
+
+  it('reports the upper-face convection at the leaf length it was solved with', () => {
+    const long = computeLeafState(baseInputs, undefined, { ...DEFAULT_MODEL_PARAMETERS, leafLength: 0.1 });
+    const convection = computeConvection(
+      faceAirVelocity(baseInputs, 'adaxial'),
+      baseInputs.gravityFactor,
+      long.temperature - baseInputs.ambientTemperature,
+      baseInputs.ambientTemperature,
+      0.1
+    );
+    expect(long.reynoldsNumber).toBeCloseTo(convection.reynolds);
+    expect(long.grashofNumber / long.reynoldsNumber ** 2).toBeCloseTo(long.richardsonNumber);
+    expect(long.reynoldsNumber).toBeCloseTo(5 * run().reynoldsNumber);
+  });
+
+  it('releases O2 at 90% of the CO2 uptake', () => {
+    const state = run();
+    expect(state.o2Flux).toBeCloseTo(state.co2Flux * 0.9);
+  });
+
+  describe('light saturation', () => {
+    it('increases efficiency with PPFD below saturation', () => {
+      expect(run({ ppfd: 300 }).photosyntheticEfficiency)
+        .toBeGreaterThan(run({ ppfd: 150 }).photosyntheticEfficiency);
+    });
+
+    it('stops increasing efficiency once the light curve saturates', () => {
+      // Cool the environment so the extra radiant heat does not trigger the heat penalty.
+      const saturated = run({ ppfd: 720, ambientTemperature: 15 });
+      const beyond = run({ ppfd: 900, ambientTemperature: 15 });
+      const gain = (beyond.photosyntheticEfficiency - saturated.photosyntheticEfficiency) / saturated.photosyntheticEfficiency;
+      expect(Math.abs(gain)).toBeLessThan(0.05);
+    });
+
+    it('weights efficiency by the McCree action spectrum', () => {
+      const red = run({ ledMix: { red660: 1 } });
+      const green = run({ ledMix: { green525: 1 } });
+      const farRed = run({ ledMix: { farRed730: 1 } });
+      expect(red.photosyntheticEfficiency).toBeGreaterThan(green.photosyntheticEfficiency);
+      expect(green.photosyntheticEfficiency).toBeGreaterThan(farRed.photosyntheticEfficiency);
+    });
+
+    it('heats the leaf by absorbed energy rather than photon count', () => {
+      // Blue photons carry ~45% more energy than red ones at the same PPFD
+      const blue = run({ ledMix: { blue450: 1 } });
+      const red = run({ ledMix: { red660: 1 } });
+      expect(blue.absorbedRadiation).toBeGreaterThan(red.absorbedRadiation * 1.3);
+      expect(blue.temperature).toBeGreaterThan(red.temperature);
+    });
+  });
+
+  describe('heat penalty', () => {
+    it('warms the leaf with PPFD', () => {
+      expect(run({ ppfd: 1200 }).temperature).toBeGreaterThan(run({ ppfd: 300 }).temperature);
+    });
+
+    it('closes the leaf energy budget', () => {
+      const state = run({ ppfd: 900, airVelocity: 0.2 });
+      const losses = state.longwaveLoss + state.sensibleHeatFlux + state.latentHeatFlux;
+      expect(losses).toBeCloseTo(state.absorbedRadiation, 1);
+    });
+
+    it('runs hotter in µG with weak airflow than with a fan', () => {
+      const weak = run({ gravityFactor: 0, airVelocity: 0.05, ppfd: 1500 });
+      const fan = run({ gravityFactor: 0, airVelocity: 1, ppfd: 1500 });
+      expect(weak.temperature).toBeGreaterThan(fan.temperature + 2);
+    });
+
+    it('penalizes efficiency and raises stress above 30°C', () => {
+      const cool = run({ ambientTemperature: 22, ppfd: 600 });
+      const hot = run({ ambientTemperature: 33, ppfd: 600 });
+      expect(hot.temperature).toBeGreaterThan(30);
+      expect(hot.photosyntheticEfficiency).toBeLessThan(cool.photosyntheticEfficiency);
+      expect(hot.stressLevel).toBeGreaterThan(cool.stressLevel);
+    });
+
+    it('never reports efficiency outside 0-100% or stress above 100', () => {
+      const extreme = run({ ambientTemperature: 35, ppfd: 1500, airVelocity: 0, gravityFactor: 0 });
+      expect(extreme.temperature).toBeGreaterThan(35);
+      expect(extreme.photosyntheticEfficiency).toBeGreaterThanOrEqual(0);
+      expect(extreme.photosyntheticEfficiency).toBeLessThan(20);
+      expect(extreme.stressLevel).toBe(100);
+    });
+  });
+
+  describe('CO2 starvation', () => {
+    it('raises CO2 uptake with ambient CO2 along a saturating response', () => {
+      const low = run({ ambientCO2: 200 }).co2Flux;
+      const normal = run({ ambientCO2: 400 }).co2Flux;
+      const high = run({ ambientCO2: 1500 }).co2Flux;
+      expect(low).toBeLessThan(normal);
+      expect(low).toBeGreaterThan(normal / 2);
+      expect(high - normal).toBeLessThan((normal - low) * 5.5);
+    });
+
+    it('limits efficiency and raises stress when intercellular CO2 drops', () => {
+      const starved = run({ ambientCO2: 200, airVelocity: 0, gravityFactor: 0 });
+      const fed = run({ ambientCO2: 1500 });
+      expect(starved.intercellularCO2).toBeLessThan(150);
+      expect(starved.surfaceCO2).toBeLessThan(200);
+      expect(starved.photosyntheticEfficiency).toBeLessThan(fed.photosyntheticEfficiency);
+      expect(starved.stressLevel).toBeGreaterThanOrEqual(70);
+    });
+  });
+});
+
+describe('gas exchange', () => {
+  it('draws CO2 down from ambient to the surface to the intercellular spaces', () => {
+    const state = run();
+    expect(state.surfaceCO2).toBeLessThan(baseInputs.ambientCO2);
+    expect(state.intercellularCO2).toBeLessThan(state.surfaceCO2);
+  });
+
+  it('draws the surface down further behind a stagnant boundary layer', () => {
+    expect(run({ gravityFactor: 0, airVelocity: 0 }).surfaceCO2).toBeLessThan(run().surfaceCO2);
+  });
+
+  it('inhibits photosynthesis through photorespiration at high O2', () => {
+    const lowO2 = run({ ambientO2: 2 });
+    const normal = run();
+    const highO2 = run({ ambientO2: 30 });
+    expect(lowO2.co2Flux).toBeGreaterThan(normal.co2Flux);
+    expect(highO2.co2Flux).toBeLessThan(normal.co2Flux);
+    expect(lowO2.photorespiration).toBeLessThan(normal.photorespiration);
+    expect(highO2.photorespiration).toBeGreaterThan(normal.photorespiration);
+  });
+
+  it('closes the stomata and respires in the dark', () => {
+    const dark = run({ ppfd: 0 });
+    expect(dark.co2Flux).toBeLessThan(0);
+    expect(dark.o2Flux).toBeLessThan(0); // O2 is consumed
+    expect(dark.photosynthesisLimitation).toBe('DARK');
+    expect(dark.stomatalConductance).toBeLessThan(run().stomatalConductance / 5);
+    expect(dark.photosyntheticEfficiency).toBe(0);
+  });
+
+  it('keeps the FDM flux consistent with the stomatal supply', () => {
+    const state = run();
+    const supply = (state.stomatalConductance / 1.6) * (state.surfaceCO2 - state.intercellularCO2);
+    expect(state.co2Flux).toBeCloseTo(supply, 0);
+  });
+});
+
+describe('environmentFromState', () => {
+  it('picks the environment inputs from the UI state', () => {
+    const inputs = environmentFromState(INITIAL_STATE);
+    expect(inputs.gravityFactor).toBe(INITIAL_STATE.gravityFactor);
+    expect(inputs.ambientCO2).toBe(INITIAL_STATE.ambientCO2);
+    expect(inputs).not.toHaveProperty('co2Flux');
+  });
+
+  it('dims the PPFD by the photoperiod', () => {
+    expect(environmentFromState({ ...INITIAL_STATE, ppfd: 400, lightFraction: 0.25 }).ppfd).toBe(100);
+    expect(environmentFromState({ ...INITIAL_STATE, lightFraction: 0 }).ppfd).toBe(0);
+  });
+});
+
+describe('humidity and transpiration', () => {
+  it('transpires more into dry air', () => {
+    const dry = run({ relativeHumidity: 20 });
+    const humid = run({ relativeHumidity: 90 });
+    expect(dry.vapourPressureDeficit).toBeGreaterThan(humid.vapourPressureDeficit);
+    expect(dry.h2oFlux).toBeGreaterThan(humid.h2oFlux);
+  });
+
+  it('cools the leaf by transpiration', () => {
+    expect(run({ relativeHumidity: 20 }).temperature).toBeLessThan(run({ relativeHumidity: 90 }).temperature);
+  });
+
+  it('reduces transpiration when the boundary layer is stagnant', () => {
+    const still = run({ gravityFactor: 0, airVelocity: 0 });
+    const fan = run({ gravityFactor: 0, airVelocity: 1 });
+    expect(still.h2oFlux).toBeLessThan(fan.h2oFlux);
+  });
+
+  it('flags water stress at high vapour pressure deficit', () => {
+    const dry = run({ relativeHumidity: 10, ambientTemperature: 28 });
+    expect(dry.vapourPressureDeficit).toBeGreaterThan(1.5);
+    expect(dry.stressLevel).toBeGreaterThan(run().stressLevel);
+  });
+});
+
+describe('leaf faces', () => {
+  it('adds the fluxes of the two faces up to the leaf totals', () => {
+    const state = run();
+    expect(state.adaxialCO2Flux + state.abaxialCO2Flux).toBeCloseTo(state.co2Flux, 6);
+    expect(state.adaxialH2OFlux + state.abaxialH2OFlux).toBeCloseTo(state.h2oFlux, 6);
+    expect(state.adaxialConductance + state.abaxialConductance).toBeCloseTo(state.stomatalConductance, 6);
+    // Arabidopsis has more stomata below
+    expect(state.abaxialCO2Flux).toBeGreaterThan(state.adaxialCO2Flux);
+  });
+
+  it('exchanges only through the face that has stomata', () => {
+    const hypostomatous = computeLeafState(baseInputs, undefined, { ...DEFAULT_MODEL_PARAMETERS, adaxialStomata: 0 });
+    expect(hypostomatous.adaxialCO2Flux).toBeCloseTo(0, 3);
+    expect(hypostomatous.adaxialH2OFlux).toBeCloseTo(0, 6);
+    expect(hypostomatous.abaxialCO2Flux).toBeCloseTo(hypostomatous.co2Flux, 6);
+    expect(hypostomatous.gasField.co2[hypostomatous.gasField.grid.leafStart + 1]).toBeCloseTo(baseInputs.ambientCO2, 1);
+  });
+
+  it('thickens the layer under a warm leaf in still 1G air, where buoyancy is blocked', () => {
+    const even = { ...DEFAULT_MODEL_PARAMETERS, adaxialStomata: 0.5 };
+    const state = computeLeafState({ ...baseInputs, airVelocity: 0, ppfd: 1500 }, undefined, even);
+    expect(state.temperature).toBeGreaterThan(baseInputs.ambientTemperature);
+    expect(state.abaxialBoundaryLayer).toBeGreaterThan(state.adaxialBoundaryLayer);
+    expect(state.abaxialCO2Flux).toBeLessThan(state.adaxialCO2Flux);
+  });
+
+  it('stagnates the concave upper face of a curled leaf', () => {
+    const orbit = { ...baseInputs, gravityFactor: 0, airVelocity: 0.3 };
+    const flat = computeLeafState(orbit);
+    const curled = computeLeafState({ ...orbit, leafShape: { narrowing: 1, curl: 4.5 } });
+    expect(curled.adaxialBoundaryLayer).toBeGreaterThan(flat.adaxialBoundaryLayer);
+    expect(curled.abaxialBoundaryLayer).toBeCloseTo(flat.abaxialBoundaryLayer, 1);
+  });
+});
+
+describe('morphology feedback', () => {
+  const orbit = { ...baseInputs, gravityFactor: 0, airVelocity: 0.3 };
+
+  it('thins the boundary layer of a narrowed blade and exchanges more through it', () => {
+    const full = computeLeafState(orbit);
+    const narrowed = computeLeafState({ ...orbit, leafShape: { narrowing: 0.5, curl: 0 } });
+    expect(narrowed.boundaryLayerThickness).toBeLessThan(full.boundaryLayerThickness);
+    expect(narrowed.co2Flux).toBeGreaterThan(full.co2Flux);
+    expect(narrowed.reynoldsNumber).toBeCloseTo(full.reynoldsNumber / 2);
+  });
+
+  it('follows the species response at the same developed morphology', () => {
+    const grown = { ...INITIAL_STATE, ...orbit, leafCurl: 1, leafNarrowing: 1 };
+    const wheat = SPECIES_PROFILES.find(species => species.name === 'Dwarf wheat')!;
+    const arabidopsis = computeLeafState(environmentFromState(grown, DEFAULT_SPECIES.morphology));
+    const grass = computeLeafState(environmentFromState(grown, wheat.morphology));
+    expect(arabidopsis.co2Flux).not.toBeCloseTo(grass.co2Flux, 1);
+    // The stronger curl stagnates the upper face more, relative to the lower
+    expect(arabidopsis.adaxialBoundaryLayer / arabidopsis.abaxialBoundaryLayer).toBeGreaterThan(
+      grass.adaxialBoundaryLayer / grass.abaxialBoundaryLayer
+    );
+  });
+});
+
+describe('gas field', () => {
+  it('returns the solved concentration field', () => {
+    const state = run();
+    const { nx, leafStart } = state.gasField.grid;
+    expect(state.gasField.co2).toHaveLength(nx * state.gasField.grid.ny);
+    expect(state.gasField.co2[leafStart + 1]).toBeLessThan(baseInputs.ambientCO2);
+  });
+
+  it('reaches the same steady state when warm-started from a previous field', () => {
+    const cold = run({ airVelocity: 0.5 });
+    const warm = computeLeafState({ ...baseInputs, airVelocity: 0.5 }, run({ airVelocity: 2 }).gasField);
+    expect(warm.co2Flux).toBeCloseTo(cold.co2Flux, 0);
+    expect(warm.boundaryLayerThickness).toBeCloseTo(cold.boundaryLayerThickness, 1);
+  });
+});
+
+describe('solveLumpedLeaf', () => {
+  it('draws the surface CO2 down across a fixed boundary-layer conductance', () => {
+    const { exchange, surfaceCO2 } = solveLumpedLeaf(baseInputs, 0.5);
+    expect(baseInputs.ambientCO2 - surfaceCO2).toBeCloseTo(exchange.netAssimilation / 0.5, 0);
+    expect(solveLumpedLeaf(baseInputs, Infinity).surfaceCO2).toBe(baseInputs.ambientCO2);
+  });
+
+  it('follows the convection when given the conductance of both faces', () => {
+    const breeze = solveLumpedLeaf(baseInputs, lumpedCO2Conductance);
+    const stagnant = solveLumpedLeaf({ ...baseInputs, gravityFactor: 0, airVelocity: 0 }, lumpedCO2Conductance);
+    expect(stagnant.surfaceCO2).toBeLessThan(breeze.surfaceCO2);
+    expect(stagnant.exchange.netAssimilation).toBeLessThan(breeze.exchange.netAssimilation);
+  });
+
+  it('lands close to the full solve of the boundary-layer fields', () => {
+    const full = computeLeafState(baseInputs);
+    const lumped = solveLumpedLeaf(baseInputs, lumpedCO2Conductance);
+    expect(lumped.exchange.netAssimilation).toBeCloseTo(full.co2Flux, -1);
+    expect(lumped.energy.temperature).toBeCloseTo(full.temperature, 0);
+  });
+});
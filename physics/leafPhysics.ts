@@ -0,0 +1,292 @@
+import { DerivedLeafState, EnvironmentInputs, GravityMorphology, LeafFace, SimulationState } from '../types';
+import { DEFAULT_MODEL_PARAMETERS, ModelParameters } from './modelParameters';
+import { describeLight } from './lightSpectrum';
+import { BoundaryLayerConditions, BoundaryLayerSolution, GasField, solveBoundaryLayer } from './boundaryLayerSolver';
+import { EnergyBalanceInputs, EnergyBalanceResult, solveLeafEnergyBalance } from './energyBalance';
+import { LeafGasExchange, referenceAssimilation, solveLeafGasExchange } from './photosynthesis';
+import { LEAF_LENGTH } from './physicalConstants';
+import { CURL_SHADING, CURL_SHELTERING, curlFeedback, morphologyShape } from './morphology';
+
+// Starting guess for whole-leaf stomatal conductance to water vapour, mol/m2/s
+export const INITIAL_STOMATAL_CONDUCTANCE = 0.2;
+// Boundary-layer conductance ratio CO2 / water vapour
+const CO2_VAPOUR_CONDUCTANCE_RATIO = 1 / 1.37;
+const MAX_COUPLING_ITERATIONS = 12;
+
+// Leaf-to-air vapour pressure deficit above which the leaf is water stressed, kPa
+export const VPD_STRESS_THRESHOLD = 1.5;
+// Intercellular CO2 below which the leaf is CO2 starved, ppm
+export const CI_STARVATION_THRESHOLD = 150;
+
+// Shortwave energy absorbed by the leaf, W/m2: the grow-light spectrum weighted by leaf absorptance
+export const absorbedShortwave = (inputs: EnvironmentInputs): number =>
+  describeLight(Math.max(inputs.ppfd, 0), inputs.ledMix).absorbedShortwave;
+
+// Builds engine inputs from the UI state; the photoperiod dims the PPFD setpoint.
+// The morphology grows the blade into the shape of the species' response, and a curled blade
+// turns part of itself away from the light.
+export const environmentFromState = (
+  state: SimulationState,
+  response: GravityMorphology = DEFAULT_MODEL_PARAMETERS.morphology
+): EnvironmentInputs => {
+  const leafShape = morphologyShape(state, response);
+  return {
+    gravityFactor: state.gravityFactor,
+    airVelocity: state.airVelocity,
+    ambientCO2: state.ambientCO2,
+    ambientO2: state.ambientO2,
+    ambientTemperature: state.ambientTemperature,
+    relativeHumidity: state.relativeHumidity,
+    ppfd: state.ppfd * state.lightFraction * (1 - CURL_SHADING * curlFeedback(leafShape)),
+    ledMix: state.ledMix,
+    leafShape,
+  };
+};
+
+// Share of the stomata on a face
+export const faceStomata = (face: LeafFace, adaxialStomata: number): number =>
+  face === 'adaxial' ? adaxialStomata : 1 - adaxialStomata;
+
+// Air velocity over a face: the concave upper face of a curled leaf stagnates
+export const faceAirVelocity = (inputs: EnvironmentInputs, face: LeafFace): number =>
+  face === 'adaxial' ? inputs.airVelocity * (1 - CURL_SHELTERING * curlFeedback(inputs.leafShape)) : inputs.airVelocity;
+
+// Characteristic length for convection of a leaf of the given length. A leaf's characteristic
+// dimension follows its blade width (d ≈ 0.72 w, Campbell & Norman), so narrowing shortens it.
+export const characteristicLength = (inputs: EnvironmentInputs, leafLength: number): number =>
+  leafLength * (inputs.leafShape?.narrowing ?? 1);
+
+// Photosynthetically useful photon flux, µmol/m2/s: the yield photon flux of the spectrum (McCree).
+// FvCB takes it as is: the action spectrum already accounts for the leaf's absorptance.
+export const leafPpfd = (inputs: EnvironmentInputs): number =>
+  describeLight(Math.max(inputs.ppfd, 0), inputs.ledMix).yieldPhotonFlux;
+
+export const energyBalanceInputs = (
+  inputs: EnvironmentInputs,
+  stomatalConductance: number,
+  leafLength = LEAF_LENGTH,
+  adaxialStomata = DEFAULT_MODEL_PARAMETERS.adaxialStomata
+): EnergyBalanceInputs => ({
+  absorbedShortwave: absorbedShortwave(inputs),
+  ambientTemperature: inputs.ambientTemperature,
+  relativeHumidity: inputs.relativeHumidity / 100,
+  stomatalConductance,
+  airVelocity: inputs.airVelocity,
+  gravityFactor: inputs.gravityFactor,
+  leafLength: characteristicLength(inputs, leafLength),
+  adaxialStomata,
+  adaxialAirVelocity: faceAirVelocity(inputs, 'adaxial'),
+});
+
+// Boundary layer over one face, fed by that face's stomata.
+// Buoyancy in the boundary layer is driven by the leaf-air temperature difference.
+export const boundaryLayerConditions = (
+  inputs: EnvironmentInputs,
+  leafTemperature: number,
+  stomatalConductance: number,
+  intercellularCO2: number,
+  leafLength = LEAF_LENGTH,
+  face: LeafFace = 'adaxial',
+  adaxialStomata = DEFAULT_MODEL_PARAMETERS.adaxialStomata
+): BoundaryLayerConditions => ({
+  airVelocity: faceAirVelocity(inputs, face),
+  gravityFactor: inputs.gravityFactor,
+  leafAirTempDiff: leafTemperature - inputs.ambientTemperature,
+  ambientTemperature: inputs.ambientTemperature,
+  ambientCO2: inputs.ambientCO2,
+  ambientO2: inputs.ambientO2,
+  leafConductance: (stomatalConductance * faceStomata(face, adaxialStomata)) / 1.6,
+  intercellularCO2,
+  leafLength: characteristicLength(inputs, leafLength),
+  face,
+});
+
+// Whole-leaf boundary layer from the two faces: the fluxes add up, while the surface CO2 and O2
+// behind which the mesophyll sits, and the thickness, are weighted by each face's share of the stomata
+export const combineFaces = (
+  faces: Record<LeafFace, BoundaryLayerSolution>,
+  adaxialStomata: number
+): Pick<BoundaryLayerSolution, 'co2Flux' | 'o2Flux' | 'surfaceCO2' | 'surfaceO2' | 'effectiveThickness'> => {
+  const weighted = (key: 'surfaceCO2' | 'surfaceO2' | 'effectiveThickness') =>
+    adaxialStomata * faces.adaxial[key] + (1 - adaxialStomata) * faces.abaxial[key];
+  return {
+    co2Flux: faces.adaxial.co2Flux + faces.abaxial.co2Flux,
+    o2Flux: faces.adaxial.o2Flux + faces.abaxial.o2Flux,
+    surfaceCO2: weighted('surfaceCO2'),
+    surfaceO2: weighted('surfaceO2'),
+    effectiveThickness: weighted('effectiveThickness'),
+  };
+};
+
+// Efficiency, stress and telemetry from the solved sub-models
+export const assembleLeafState = (
+  inputs: EnvironmentInputs,
+  energy: EnergyBalanceResult,
+  faces: Record<LeafFace, BoundaryLayerSolution>,
+  exchange: LeafGasExchange,
+  params = DEFAULT_MODEL_PARAMETERS
+): DerivedLeafState => {
+  const { convection } = energy;
+  const boundaryLayer = combineFaces(faces, params.adaxialStomata);
+  const leafTemp = energy.temperature;
+  const thickness = boundaryLayer.effectiveThickness;
+  const { intercellularCO2 } = exchange;
+
+  // Photosynthetic Efficiency: net assimilation relative to an unstressed leaf
+  // in saturating light (spectrum, light, temperature, CO2 and O2 all enter via FvCB)
+  let efficiency = (100 * exchange.netAssimilation) / referenceAssimilation(params.photosynthesis);
+  efficiency = Math.min(Math.max(efficiency, 0), 100);
+
+  // Stress Calculation
+  let stress = 10;
+  if (thickness > 1.5) stress += 30;
+  if (inputs.ppfd > 0 && intercellularCO2 < CI_STARVATION_THRESHOLD) stress += 30;
+  if (leafTemp > 30) stress += (leafTemp - 30) * 5;
+  if (inputs.ppfd > 0 && efficiency < 30) stress += 20;
+  if (energy.vapourPressureDeficit > VPD_STRESS_THRESHOLD) stress += (energy.vapourPressureDeficit - VPD_STRESS_THRESHOLD) * 20;
+  stress = Math.min(stress, 100);
+
+  return {
+    boundaryLayerThickness: thickness,
+    co2Flux: boundaryLayer.co2Flux,
+    o2Flux: boundaryLayer.o2Flux,
+    stressLevel: stress,
+    temperature: leafTemp,
+    photosyntheticEfficiency: efficiency,
+    surfaceCO2: boundaryLayer.surfaceCO2,
+    intercellularCO2,
+    stomatalConductance: exchange.stomatalConductance,
+    photorespiration: exchange.rates.photorespiration,
+    photosynthesisLimitation: exchange.rates.limitation,
+    heatTransferCoefficient: 0.5 * (energy.faces.adaxial.convection.heatTransferCoefficient + energy.faces.abaxial.convection.heatTransferCoefficient),
+    richardsonNumber: convection.richardson,
+    reynoldsNumber: convection.reynolds,
+    grashofNumber: convection.grashof,
+    absorbedRadiation: energy.absorbedShortwave,
+    longwaveLoss: energy.longwaveLoss,
+    sensibleHeatFlux: energy.sensibleHeat,
+    latentHeatFlux: energy.latentHeat,
+    h2oFlux: energy.transpiration * 1000,
+    vapourPressureDeficit: energy.vapourPressureDeficit,
+    adaxialCO2Flux: faces.adaxial.co2Flux,
+    abaxialCO2Flux: faces.abaxial.co2Flux,
+    adaxialH2OFlux: energy.faces.adaxial.transpiration * 1000,
+    abaxialH2OFlux: energy.faces.abaxial.transpiration * 1000,
+    adaxialBoundaryLayer: faces.adaxial.effectiveThickness,
+    abaxialBoundaryLayer: faces.abaxial.effectiveThickness,
+    adaxialConductance: exchange.stomatalConductance * params.adaxialStomata,
+    abaxialConductance: exchange.stomatalConductance * (1 - params.adaxialStomata),
+    gasField: faces.adaxial.field,
+    abaxialGasField: faces.abaxial.field,
+  };
+};
+
+// Boundary-layer conductance to CO2 of both faces, mol/m2/s per one-sided leaf area
+export const lumpedCO2Conductance = (energy: EnergyBalanceResult): number =>
+  (energy.faces.adaxial.boundaryLayerConductance + energy.faces.abaxial.boundaryLayerConductance) * CO2_VAPOUR_CONDUCTANCE_RATIO;
+
+export interface LumpedLeafState {
+  energy: EnergyBalanceResult;
+  exchange: LeafGasExchange;
+  surfaceCO2: number; // ppm
+}
+
+// Steady state with the boundary layer lumped into one CO2 conductance instead of the FDM fields,
+// for solves too many to afford them (rosette leaves every tick, calibration fits):
+//   Cs = Ca - A / g_b,CO2, iterated with the energy balance and FvCB + Medlyn.
+// The conductance is held fixed, or follows the convection of the energy balance.
+export const solveLumpedLeaf = (
+  inputs: EnvironmentInputs,
+  co2Conductance: number | ((energy: EnergyBalanceResult) => number),
+  leafLength: number = LEAF_LENGTH,
+  params: ModelParameters = DEFAULT_MODEL_PARAMETERS
+): LumpedLeafState => {
+  const ppfd = leafPpfd(inputs);
+  let stomatalConductance = INITIAL_STOMATAL_CONDUCTANCE;
+  let surfaceCO2 = inputs.ambientCO2;
+  let energy!: EnergyBalanceResult;
+  let exchange!: LeafGasExchange;
+
+  for (let i = 0; i < MAX_COUPLING_ITERATIONS; i++) {
+    energy = solveLeafEnergyBalance(energyBalanceInputs(inputs, stomatalConductance, leafLength, params.adaxialStomata));
+    exchange = solveLeafGasExchange({
+      surfaceCO2,
+      leafTemperature: energy.temperature,
+      ppfd,
+      o2Percent: inputs.ambientO2,
+      vapourPressureDeficit: energy.vapourPressureDeficit,
+    }, params.photosynthesis);
+
+    const conductance = typeof co2Conductance === 'number' ? co2Conductance : co2Conductance(energy);
+    const nextSurfaceCO2 = Math.max(inputs.ambientCO2 - exchange.netAssimilation / conductance, 0);
+    const converged =
+      Math.abs(nextSurfaceCO2 - surfaceCO2) < 0.01 &&
+      Math.abs(exchange.stomatalConductance - stomatalConductance) < 1e-5;
+    // Damped: the surface CO2 feeds back on the assimilation that sets it
+    surfaceCO2 = 0.5 * (surfaceCO2 + nextSurfaceCO2);
+    stomatalConductance = exchange.stomatalConductance;
+    if (converged) break;
+  }
+
+  return { energy, exchange, surfaceCO2 };
+};
+
+// Pure leaf physics: boundary layer, gas exchange, leaf temperature,
+// photosynthetic efficiency and stress at steady state. No React / DOM dependencies so it can run headless.
+// Passing a previous gas field warm-starts the FDM solver of both faces. See leafDynamics for the time-stepped model.
+//
+// The sub-models depend on each other, so they are iterated to a consistent state:
+//   energy balance (T_leaf | gs)  ->  FDM boundary layer of each face (Cs | gs, Ci, T_leaf)
+//   ->  FvCB + Medlyn (A, gs, Ci | Cs, T_leaf, VPD)  ->  repeat
+export const computeLeafState = (
+  inputs: EnvironmentInputs,
+  previousField?: GasField,
+  params: ModelParameters = DEFAULT_MODEL_PARAMETERS
+): DerivedLeafState => {
+  const ppfd = leafPpfd(inputs);
+
+  let stomatalConductance = INITIAL_STOMATAL_CONDUCTANCE;
+  let intercellularCO2 = inputs.ambientCO2 * 0.7;
+  let fields: Record<LeafFace, GasField | undefined> = { adaxial: previousField, abaxial: previousField };
+
+  let energy!: EnergyBalanceResult;
+  let faces!: Record<LeafFace, BoundaryLayerSolution>;
+  let exchange!: LeafGasExchange;
+
+  for (let i = 0; i < MAX_COUPLING_ITERATIONS; i++) {
+    // Temperature Calculation
+    // Steady-state energy balance: absorbed light vs longwave emission, sensible heat
+    // (mixed forced/natural convection, gravity enters via Grashof) and transpiration cooling,
+    // which is set by the vapour pressure deficit, the stomata and the boundary layer.
+    energy = solveLeafEnergyBalance(energyBalanceInputs(inputs, stomatalConductance, params.leafLength, params.adaxialStomata));
+
+    // Boundary Layer & Flux: solve the CO2/O2 field above and below the leaf (FDM)
+    const solveFace = (face: LeafFace) =>
+      solveBoundaryLayer(
+        boundaryLayerConditions(inputs, energy.temperature, stomatalConductance, intercellularCO2, params.leafLength, face, params.adaxialStomata),
+        fields[face]
+      );
+    faces = { adaxial: solveFace('adaxial'), abaxial: solveFace('abaxial') };
+    fields = { adaxial: faces.adaxial.field, abaxial: faces.abaxial.field };
+    const boundaryLayer = combineFaces(faces, params.adaxialStomata);
+
+    // Photosynthesis: FvCB demand vs stomatal supply at the leaf surface.
+    // O2 at the surface sets photorespiration.
+    exchange = solveLeafGasExchange({
+      surfaceCO2: boundaryLayer.surfaceCO2,
+      leafTemperature: energy.temperature,
+      ppfd,
+      o2Percent: boundaryLayer.surfaceO2,
+      vapourPressureDeficit: energy.vapourPressureDeficit,
+    }, params.photosynthesis);
+
+    const converged =
+      Math.abs(exchange.stomatalConductance - stomatalConductance) < 1e-4 &&
+      Math.abs(exchange.intercellularCO2 - intercellularCO2) < 0.1;
+    stomatalConductance = exchange.stomatalConductance;
+    intercellularCO2 = exchange.intercellularCO2;
+    if (converged) break;
+  }
+
+  return assembleLeafState(inputs, energy, faces, exchange, params);
+};
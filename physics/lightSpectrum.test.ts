@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { describeLight, lightSpectrum, mccreeEfficiency, photonEnergy, WAVELENGTHS } from './lightSpectrum';
+import { LIGHT_PRESETS } from '../constants';
+
+const channel = (hex: string, k: number) => parseInt(hex.slice(1 + 2 * k, 3 + 2 * k), 16);
+
+describe('lightSpectrum', () => {
+  it('scales the mix so photons in 400-700 nm equal the PPFD', () => {
+    LIGHT_PRESETS.forEach(preset => expect(describeLight(450, preset.ledMix).ppfd).toBeCloseTo(450, 6));
+  });
+
+  it('only depends on the ratios of the channel outputs', () => {
+    expect(lightSpectrum(300, { red660: 2, blue450: 1 })).toEqual(lightSpectrum(300, { red660: 0.5, blue450: 0.25 }));
+  });
+
+  it('counts far-red outside the PPFD', () => {
+    const white = describeLight(300, { white: 1 });
+    const enriched = describeLight(300, { white: 0.8, farRed730: 0.2 });
+    expect(enriched.photonFlux).toBeGreaterThan(white.photonFlux + 40);
+  });
+
+  it('treats the PPFD of a far-red-only light as its photon flux', () => {
+    expect(describeLight(300, { farRed730: 1 }).photonFlux).toBeCloseTo(300, 6);
+  });
+
+  it('is dark without light or channels', () => {
+    expect(describeLight(0, { white: 1 }).absorbedShortwave).toBe(0);
+    expect(describeLight(300, { uv385: 1 }).yieldPhotonFlux).toBe(0);
+    expect(lightSpectrum(300, {})).toHaveLength(WAVELENGTHS.length);
+  });
+});
+
+describe('describeLight', () => {
+  it('weights photons by the McCree action spectrum', () => {
+    const yieldOf = (id: string) => describeLight(300, { [id]: 1 }).yieldPhotonFlux;
+    expect(mccreeEfficiency(625)).toBe(1);
+    expect(yieldOf('red660')).toBeGreaterThan(yieldOf('green525'));
+    expect(yieldOf('green525')).toBeGreaterThan(yieldOf('blue450'));
+    expect(yieldOf('blue450')).toBeGreaterThan(yieldOf('farRed730'));
+    expect(yieldOf('red660')).toBeLessThanOrEqual(300);
+  });
+
+  it('converts photons to energy by wavelength', () => {
+    // ~0.22 J per µmol of PAR photons in white light
+    expect(photonEnergy(550)).toBeCloseTo(0.2175, 3);
+    const white = describeLight(300, { white: 1 });
+    expect(white.irradiance).toBeGreaterThan(55);
+    expect(white.irradiance).toBeLessThan(75);
+    expect(white.absorbedShortwave).toBeLessThan(white.irradiance);
+    expect(describeLight(300, { blue450: 1 }).irradiance).toBeGreaterThan(describeLight(300, { red660: 1 }).irradiance);
+  });
+
+  it('colours the light by its spectrum', () => {
+    const red = describeLight(300, { red660: 1 }).color;
+    const blue = describeLight(300, { blue450: 1 }).color;
+    const white = describeLight(300, { white: 1 }).color;
+    expect(channel(red, 0)).toBe(255);
+    expect(channel(red, 2)).toBeLessThan(50);
+    expect(channel(blue, 2)).toBe(255);
+    expect(channel(blue, 0)).toBeLessThan(128);
+    [0, 1, 2].forEach(k => expect(channel(white, k)).toBeGreaterThan(180));
+  });
+});
@@ -0,0 +1,177 @@
+import { LedChannel, LedMix } from '../types';
+
+// Spectral model of the grow light. A light is a PPFD (photons 400-700 nm, µmol/m2/s)
+// plus the relative photon output of each LED channel. From the spectrum follow
+//   - the yield photon flux (McCree action spectrum) that drives photosynthesis,
+//   - the shortwave energy absorbed by the leaf (leaf absorptance spectrum), which heats it,
+//   - the colour of the light as seen by a person (CIE 1931), used by the leaf shader.
+
+// Wavelength grid, nm
+export const SPECTRUM_MIN = 350;
+export const SPECTRUM_MAX = 800;
+export const SPECTRUM_STEP = 5;
+export const WAVELENGTHS = Array.from(
+  { length: (SPECTRUM_MAX - SPECTRUM_MIN) / SPECTRUM_STEP + 1 },
+  (_, i) => SPECTRUM_MIN + i * SPECTRUM_STEP
+);
+
+// Photosynthetically active radiation band, nm
+export const PAR_MIN = 400;
+export const PAR_MAX = 700;
+
+// LED channels of plant-growth light banks; emission bands are Gaussian in wavelength
+export const LED_CHANNELS: LedChannel[] = [
+  { id: 'blue450', label: 'Blue 450', bands: [{ peak: 450, fwhm: 20, weight: 1 }] },
+  { id: 'green525', label: 'Green 525', bands: [{ peak: 525, fwhm: 35, weight: 1 }] },
+  { id: 'red630', label: 'Red 630', bands: [{ peak: 630, fwhm: 20, weight: 1 }] },
+  { id: 'red660', label: 'Red 660', bands: [{ peak: 660, fwhm: 20, weight: 1 }] },
+  { id: 'farRed730', label: 'Far-red 730', bands: [{ peak: 730, fwhm: 25, weight: 1 }] },
+  // Phosphor-converted white (~4000 K): blue pump plus a broad phosphor band
+  {
+    id: 'white',
+    label: 'White',
+    bands: [
+      { peak: 450, fwhm: 20, weight: 0.15 },
+      { peak: 575, fwhm: 120, weight: 0.85 },
+    ],
+  },
+];
+
+// Relative quantum efficiency of photosynthesis per incident photon
+// (McCree 1972, mean of field-grown species), normalised to the red peak
+const MCCREE_RQE: [number, number][] = [
+  [350, 0.3], [375, 0.45], [400, 0.6], [425, 0.68], [450, 0.71], [475, 0.67], [500, 0.68],
+  [525, 0.73], [550, 0.8], [575, 0.87], [600, 0.95], [625, 1.0], [650, 0.98], [675, 0.93],
+  [700, 0.6], [725, 0.2], [750, 0.05], [775, 0.01], [800, 0],
+];
+
+// Absorptance of a green leaf: high in blue and red, a dip in green, transparent in the near infrared
+const LEAF_ABSORPTANCE: [number, number][] = [
+  [350, 0.9], [400, 0.92], [450, 0.93], [500, 0.9], [525, 0.8], [550, 0.75], [575, 0.8],
+  [600, 0.87], [650, 0.91], [675, 0.92], [700, 0.7], [725, 0.3], [750, 0.12], [800, 0.08],
+];
+
+// Photon energy, J/µmol (Planck constant x speed of light x Avogadro / wavelength)
+export const photonEnergy = (wavelength: number): number => 119.63 / wavelength;
+
+const interpolate = (table: [number, number][], x: number): number => {
+  if (x <= table[0][0]) return table[0][1];
+  for (let i = 1; i < table.length; i++) {
+    const [x1, y1] = table[i];
+    if (x <= x1) {
+      const [x0, y0] = table[i - 1];
+      return y0 + ((y1 - y0) * (x - x0)) / (x1 - x0);
+    }
+  }
+  return table[table.length - 1][1];
+};
+
+export const mccreeEfficiency = (wavelength: number): number => interpolate(MCCREE_RQE, wavelength);
+export const leafAbsorptance = (wavelength: number): number => interpolate(LEAF_ABSORPTANCE, wavelength);
+
+const gaussian = (x: number, peak: number, fwhm: number) => {
+  const sigma = fwhm / 2.3548;
+  return Math.exp(-((x - peak) ** 2) / (2 * sigma * sigma));
+};
+
+// Photon spectrum of each channel on the grid, normalised to unit total photon flux.
+// Each band's area is proportional to its weight.
+const CHANNEL_SPECTRA: Record<string, number[]> = Object.fromEntries(
+  LED_CHANNELS.map(channel => {
+    const raw = WAVELENGTHS.map(w =>
+      channel.bands.reduce((sum, band) => sum + (band.weight * gaussian(w, band.peak, band.fwhm)) / band.fwhm, 0)
+    );
+    const total = raw.reduce((a, b) => a + b, 0);
+    return [channel.id, raw.map(v => v / total)];
+  })
+);
+
+const inPar = (wavelength: number) => wavelength >= PAR_MIN && wavelength <= PAR_MAX;
+
+// Photon flux per grid bin, µmol/m2/s, of `mix` scaled so photons in 400-700 nm equal `ppfd`.
+// A mix with (almost) no PAR, e.g. far-red only, is scaled to a total photon flux of `ppfd` instead.
+// Unknown channel ids and negative outputs are ignored.
+export const lightSpectrum = (ppfd: number, mix: LedMix): number[] => {
+  const shape = WAVELENGTHS.map((_, i) =>
+    Object.entries(mix).reduce((sum, [id, output]) => {
+      const spectrum = CHANNEL_SPECTRA[id];
+      return spectrum && output > 0 ? sum + output * spectrum[i] : sum;
+    }, 0)
+  );
+  const total = shape.reduce((a, b) => a + b, 0);
+  if (total <= 0 || ppfd <= 0) return shape.map(() => 0);
+  const par = shape.reduce((sum, v, i) => (inPar(WAVELENGTHS[i]) ? sum + v : sum), 0);
+  const scale = ppfd / (par / total >= 0.01 ? par : total);
+  return shape.map(v => v * scale);
+};
+
+export interface LightDescription {
+  ppfd: number; // Photons 400-700 nm, µmol/m2/s
+  photonFlux: number; // All photons 350-800 nm, µmol/m2/s
+  yieldPhotonFlux: number; // Photons weighted by the McCree action spectrum, µmol/m2/s
+  irradiance: number; // Incident shortwave energy, W/m2
+  absorbedShortwave: number; // Energy absorbed by the leaf, W/m2
+  color: string; // Hex colour of the light for display, at full brightness
+}
+
+// CIE 1931 2° colour matching functions x̄, ȳ, z̄ at 20 nm (zero outside 380-780 nm)
+const CIE_1931: [number, number, number, number][] = [
+  [360, 0, 0, 0], [380, 0.0014, 0, 0.0065], [400, 0.0143, 0.0004, 0.0679], [420, 0.1344, 0.004, 0.6456],
+  [440, 0.3483, 0.023, 1.7471], [460, 0.2908, 0.06, 1.6692], [480, 0.0956, 0.139, 0.813],
+  [500, 0.0049, 0.323, 0.272], [520, 0.0633, 0.71, 0.0782], [540, 0.2904, 0.954, 0.0203],
+  [560, 0.5945, 0.995, 0.0039], [580, 0.9163, 0.87, 0.0017], [600, 1.0622, 0.631, 0.0008],
+  [620, 0.8544, 0.381, 0.0002], [640, 0.4479, 0.175, 0], [660, 0.1649, 0.061, 0],
+  [680, 0.0468, 0.017, 0], [700, 0.0114, 0.0041, 0], [720, 0.0029, 0.001, 0],
+  [740, 0.0007, 0.0003, 0], [760, 0.0002, 0.0001, 0], [780, 0, 0, 0],
+];
+const cieTable = (k: 1 | 2 | 3) => CIE_1931.map(row => [row[0], row[k]] as [number, number]);
+const CIE_X = cieTable(1);
+const CIE_Y = cieTable(2);
+const CIE_Z = cieTable(3);
+
+const gammaEncode = (linear: number) => (linear <= 0.0031308 ? 12.92 * linear : 1.055 * linear ** (1 / 2.4) - 0.055);
+
+// sRGB hex of a spectral irradiance (W/m2 per bin), normalised so the brightest primary is full
+export const spectrumColor = (irradiance: number[]): string => {
+  let X = 0;
+  let Y = 0;
+  let Z = 0;
+  irradiance.forEach((e, i) => {
+    X += e * interpolate(CIE_X, WAVELENGTHS[i]);
+    Y += e * interpolate(CIE_Y, WAVELENGTHS[i]);
+    Z += e * interpolate(CIE_Z, WAVELENGTHS[i]);
+  });
+  const rgb = [
+    3.2406 * X - 1.5372 * Y - 0.4986 * Z,
+    -0.9689 * X + 1.8758 * Y + 0.0415 * Z,
+    0.0557 * X - 0.204 * Y + 1.057 * Z,
+  ].map(c => Math.max(c, 0));
+  const peak = Math.max(...rgb);
+  if (peak <= 0) return '#000000';
+  return '#' + rgb.map(c => Math.round(255 * gammaEncode(c / peak)).toString(16).padStart(2, '0')).join('');
+};
+
+export const describeLight = (ppfd: number, mix: LedMix): LightDescription => {
+  const photons = lightSpectrum(ppfd, mix);
+  const energy = photons.map((n, i) => n * photonEnergy(WAVELENGTHS[i]));
+  const sum = (values: number[]) => values.reduce((a, b) => a + b, 0);
+  return {
+    ppfd: sum(photons.filter((_, i) => inPar(WAVELENGTHS[i]))),
+    photonFlux: sum(photons),
+    yieldPhotonFlux: sum(photons.map((n, i) => n * mccreeEfficiency(WAVELENGTHS[i]))),
+    irradiance: sum(energy),
+    absorbedShortwave: sum(energy.map((e, i) => e * leafAbsorptance(WAVELENGTHS[i]))),
+    color: spectrumColor(energy),
+  };
+};
+
+// Lights before the spectral model: an intensity multiplier and a colour swatch.
+// Used to read old scenario files and links.
+export const LEGACY_PPFD_PER_INTENSITY = 300;
+export const LEGACY_LIGHT_COLORS: Record<string, LedMix> = {
+  '#ffffff': { white: 1 },
+  '#ff0000': { red660: 1 },
+  '#0000ff': { blue450: 1 },
+  '#00ff00': { green525: 1 },
+  '#8b0000': { farRed730: 1 },
+};
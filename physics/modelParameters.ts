@@ -0,0 +1,81 @@
+import { GravityMorphology } from '../types';
+import { DEFAULT_PHOTOSYNTHESIS, PhotosynthesisParameters } from './photosynthesis';
+import { LEAF_LENGTH } from './physicalConstants';
+
+// Empirical parameters of the leaf model: everything a calibration may adjust.
+// Physical constants (physicalConstants.ts), the FDM grid and the light spectra (lightSpectrum.ts) are fixed.
+export interface ModelParameters {
+  photosynthesis: PhotosynthesisParameters;
+  // Dynamics
+  leafHeatCapacity: number; // J/m2/K, areal
+  stomatalOpeningTime: number; // s
+  stomatalClosingTime: number; // s
+  curlTime: number; // s, hyponastic curl at full growth (physics/morphology.ts)
+  narrowingTime: number; // s, blade narrowing at full growth
+  // Geometry and anatomy
+  leafLength: number; // m, characteristic length (base to tip) for convection
+  adaxialStomata: number; // 0-1 share of the stomata on the upper (adaxial) face
+  morphology: GravityMorphology; // The species' full µG response, which the curl and narrowing feedbacks scale with
+}
+
+export const DEFAULT_MODEL_PARAMETERS: ModelParameters = {
+  photosynthesis: DEFAULT_PHOTOSYNTHESIS,
+  leafHeatCapacity: 700, // Thin (~0.2 mm) mostly-water leaf
+  stomatalOpeningTime: 600,
+  stomatalClosingTime: 300,
+  curlTime: 6 * 3600,
+  narrowingTime: 3 * 86400,
+  leafLength: LEAF_LENGTH,
+  adaxialStomata: 0.4, // Amphistomatous, denser on the abaxial face
+  morphology: { narrowing: 0.5, curl: 4.5 }, // Arabidopsis
+};
+
+// Parameters are addressed by dotted keys, e.g. "photosynthesis.vcmax25" or "leafHeatCapacity"
+export const flattenParameters = (params: ModelParameters): Record<string, number> => {
+  const flat: Record<string, number> = {};
+  for (const [key, value] of Object.entries(params)) {
+    if (typeof value === 'number') flat[key] = value;
+    else for (const [inner, entry] of Object.entries(value as Record<string, number>)) flat[`${key}.${inner}`] = entry;
+  }
+  return flat;
+};
+
+export const getParameter = (params: ModelParameters, key: string): number => {
+  const value = flattenParameters(params)[key];
+  if (value === undefined) throw new Error(`Unknown model parameter: ${key}`);
+  return value;
+};
+
+// Copy of `params` with one value replaced
+export const withParameter = (params: ModelParameters, key: string, value: number): ModelParameters => {
+  getParameter(params, key);
+  const dot = key.indexOf('.');
+  if (dot < 0) return { ...params, [key]: value };
+  const group = key.slice(0, dot) as 'photosynthesis' | 'morphology';
+  return { ...params, [group]: { ...params[group], [key.slice(dot + 1)]: value } };
+};
+
+// Rebuilds a full parameter set from a flat record, e.g. a saved profile; unknown keys are ignored
+export const parametersFromFlat = (flat: Record<string, number>, base = DEFAULT_MODEL_PARAMETERS): ModelParameters =>
+  Object.entries(flat).reduce(
+    (params, [key, value]) => (key in flattenParameters(base) && Number.isFinite(value) ? withParameter(params, key, value) : params),
+    base
+  );
+
+export interface FittableParameter {
+  key: string;
+  label: string;
+  unit: string;
+  min: number;
+  max: number;
+}
+
+// Parameters a steady-state fit can identify from gas-exchange data
+export const FITTABLE_PARAMETERS: FittableParameter[] = [
+  { key: 'photosynthesis.vcmax25', label: 'Vcmax25', unit: 'µmol/m²/s', min: 5, max: 250 },
+  { key: 'photosynthesis.jmax25', label: 'Jmax25', unit: 'µmol/m²/s', min: 10, max: 400 },
+  { key: 'photosynthesis.tpu25', label: 'TPU25', unit: 'µmol/m²/s', min: 1, max: 30 },
+  { key: 'photosynthesis.rd25', label: 'Rd25', unit: 'µmol/m²/s', min: 0.05, max: 5 },
+  { key: 'photosynthesis.g0', label: 'g0 (Medlyn)', unit: 'mol/m²/s', min: 0.001, max: 0.2 },
+  { key: 'photosynthesis.g1', label: 'g1 (Medlyn)', unit: 'kPa^½', min: 0.5, max: 12 },
+];
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { advanceMorphology, curlFeedback, FLAT_MORPHOLOGY, LeafMorphology, morphologyShape, retainedResponse } from './morphology';
+import { environmentFromState, faceAirVelocity } from './leafPhysics';
+import { DEFAULT_SPECIES, INITIAL_STATE, SPECIES_PROFILES } from '../constants';
+
+const HOUR = 3600;
+
+// Holds a gravity for a while, in 15-minute steps
+const grow = (start: LeafMorphology, gravityFactor: number, hours: number, efficiency = 85): LeafMorphology => {
+  let morphology = start;
+  for (let t = 0; t < hours * HOUR; t += 900) morphology = advanceMorphology(morphology, gravityFactor, efficiency, 900);
+  return morphology;
+};
+
+describe('advanceMorphology', () => {
+  it('stays flat at 1 g', () => {
+    expect(grow(FLAT_MORPHOLOGY, 1, 48)).toEqual(FLAT_MORPHOLOGY);
+  });
+
+  it('curls over hours and narrows over days in µG', () => {
+    const minutes = grow(FLAT_MORPHOLOGY, 0, 0.25);
+    expect(minutes.leafCurl).toBeLessThan(0.1);
+    const day = grow(FLAT_MORPHOLOGY, 0, 24);
+    expect(day.leafCurl).toBeGreaterThan(0.9);
+    expect(day.leafNarrowing).toBeGreaterThan(0.2);
+    expect(day.leafNarrowing).toBeLessThan(0.5);
+    expect(day.microgravityExposure).toBeCloseTo(24 * HOUR);
+    expect(grow(day, 0, 14 * 24).leafNarrowing).toBeGreaterThan(0.95);
+  });
+
+  it('adapts only as fast as the leaf grows', () => {
+    const lit = grow(FLAT_MORPHOLOGY, 0, 6, 85);
+    const dark = grow(FLAT_MORPHOLOGY, 0, 6, 0);
+    expect(dark.leafCurl).toBeLessThan(lit.leafCurl / 2);
+    expect(dark.microgravityExposure).toBe(lit.microgravityExposure);
+  });
+
+  it('only partly reverses back at 1 g, more so after a longer µG stay', () => {
+    const short = grow(grow(FLAT_MORPHOLOGY, 0, 12), 1, 14 * 24);
+    const long = grow(grow(FLAT_MORPHOLOGY, 0, 14 * 24), 1, 14 * 24);
+    expect(long.leafCurl).toBeGreaterThan(0);
+    expect(long.leafCurl).toBeLessThan(0.5);
+    expect(long.leafNarrowing).toBeGreaterThan(short.leafNarrowing);
+    expect(long.leafNarrowing).toBeCloseTo(retainedResponse(long.microgravityExposure, 0.8), 2);
+    // Back at 1 g the dose stops building up
+    expect(long.microgravityExposure).toBeCloseTo(14 * 24 * HOUR);
+  });
+
+  it('lags the gravity: a minute after landing the leaf is still curled', () => {
+    const flight = grow(FLAT_MORPHOLOGY, 0, 2);
+    const landed = advanceMorphology(flight, 1, 85, 60);
+    expect(landed.leafCurl).toBeGreaterThan(0.9 * flight.leafCurl);
+  });
+});
+
+describe('morphology feedback', () => {
+  it('scales the species response for the shaders', () => {
+    const response = { narrowing: 0.6, curl: 4 };
+    expect(morphologyShape(FLAT_MORPHOLOGY, response)).toEqual({ narrowing: 1, curl: 0 });
+    expect(morphologyShape({ leafCurl: 1, leafNarrowing: 1, microgravityExposure: 0 }, response)).toEqual(response);
+  });
+
+  it('shelters the concave face of a curled leaf from the airflow, and the leaf from the light', () => {
+    const flat = environmentFromState(INITIAL_STATE);
+    const curled = environmentFromState({ ...INITIAL_STATE, leafCurl: 1 });
+    expect(faceAirVelocity(curled, 'adaxial')).toBeLessThan(faceAirVelocity(flat, 'adaxial'));
+    expect(faceAirVelocity(curled, 'abaxial')).toBe(faceAirVelocity(flat, 'abaxial'));
+    expect(curled.ppfd).toBeLessThan(flat.ppfd);
+    expect(curled.gravityFactor).toBe(flat.gravityFactor);
+  });
+
+  it('scales the sheltering and shading with the species response', () => {
+    const curled = { ...INITIAL_STATE, leafCurl: 1, leafNarrowing: 1 };
+    const wheat = SPECIES_PROFILES.find(species => species.name === 'Dwarf wheat')!;
+    const strong = environmentFromState(curled, DEFAULT_SPECIES.morphology);
+    const weak = environmentFromState(curled, wheat.morphology);
+    expect(curlFeedback(strong.leafShape)).toBe(1);
+    expect(curlFeedback(weak.leafShape)).toBeCloseTo(wheat.morphology.curl / DEFAULT_SPECIES.morphology.curl);
+    expect(faceAirVelocity(weak, 'adaxial')).toBeGreaterThan(faceAirVelocity(strong, 'adaxial'));
+    expect(weak.ppfd).toBeGreaterThan(strong.ppfd);
+    expect(weak.leafShape).toEqual(wheat.morphology);
+  });
+});
@@ -0,0 +1,69 @@
+import { GravityMorphology, SimulationState } from '../types';
+import { DEFAULT_MODEL_PARAMETERS, ModelParameters } from './modelParameters';
+import { relax } from './leafDynamics';
+
+// Gravitropic leaf morphology, advanced by the simulation clock. Curl (hyponasty) and blade
+// narrowing are growth responses: they develop toward 1 - g at a rate set by how fast the leaf grows,
+//
+//   dm/dt = growth (target - m) / τ        growth = MIN_GROWTH + (1 - MIN_GROWTH) efficiency
+//
+// with τ = curlTime (petiole and midrib growth, hours) or narrowingTime (new blade tissue, days).
+// The µG dose (time at 0 g equivalent) is remembered: back at 1 g the leaf only relaxes to a
+// share of its response that grows with the dose, as tissue formed in µG keeps its shape.
+//
+// Both are 0-1 of the species' full response (GravityMorphology) and feed back into the physics
+// through the shape they give the blade: a curled blade shelters its upper surface from the airflow
+// and turns part of it away from the light, a narrowed blade has a shorter characteristic length.
+
+export type LeafMorphology = Pick<SimulationState, 'leafCurl' | 'leafNarrowing' | 'microgravityExposure'>;
+
+export const FLAT_MORPHOLOGY: LeafMorphology = { leafCurl: 0, leafNarrowing: 0, microgravityExposure: 0 };
+
+// Share of the growth rate left without photosynthesis (growth on reserves, e.g. at night)
+const MIN_GROWTH = 0.1;
+// µG dose over which the retained response builds up, s
+const EXPOSURE_SCALE = 2 * 86400;
+// Share of the response kept at 1 g after a long µG exposure
+const CURL_MEMORY = 0.3;
+const NARROWING_MEMORY = 0.8;
+
+// Share of the airflow a fully curled blade keeps off its upper surface
+export const CURL_SHELTERING = 0.5;
+// Light lost by a fully curled blade
+export const CURL_SHADING = 0.15;
+// Curl (shader units) of a fully curled blade: Arabidopsis' response, the strongest of the built-in crops
+const FULL_CURL = 4.5;
+
+// Share of the response retained at 1 g after the given µG dose
+export const retainedResponse = (exposure: number, memory: number): number =>
+  memory * (1 - Math.exp(-exposure / EXPOSURE_SCALE));
+
+// Advances the morphology by dt seconds at the given gravity; efficiency (%) sets the growth rate
+export const advanceMorphology = (
+  previous: LeafMorphology,
+  gravityFactor: number,
+  efficiency: number,
+  dt: number,
+  params: ModelParameters = DEFAULT_MODEL_PARAMETERS
+): LeafMorphology => {
+  if (dt <= 0) return previous;
+  const unloading = 1 - Math.min(Math.max(gravityFactor, 0), 1);
+  const microgravityExposure = previous.microgravityExposure + unloading * dt;
+  const growth = MIN_GROWTH + (1 - MIN_GROWTH) * Math.min(Math.max(efficiency / 100, 0), 1);
+  const curlTarget = Math.max(unloading, retainedResponse(microgravityExposure, CURL_MEMORY));
+  const narrowingTarget = Math.max(unloading, retainedResponse(microgravityExposure, NARROWING_MEMORY));
+  return {
+    leafCurl: relax(previous.leafCurl, curlTarget, dt, params.curlTime / growth),
+    leafNarrowing: relax(previous.leafNarrowing, narrowingTarget, dt, params.narrowingTime / growth),
+    microgravityExposure,
+  };
+};
+
+// Shape drawn by the shaders: curl strength and width multiplier for a species' response
+export const morphologyShape = (morphology: LeafMorphology, response: GravityMorphology): GravityMorphology => ({
+  curl: response.curl * morphology.leafCurl,
+  narrowing: 1 - (1 - response.narrowing) * morphology.leafNarrowing,
+});
+
+// 0-1 share of the sheltering and shading a blade of this shape gets (flat if not given)
+export const curlFeedback = (shape?: GravityMorphology): number => Math.min((shape?.curl ?? 0) / FULL_CURL, 1);
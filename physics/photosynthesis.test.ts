@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_PHOTOSYNTHESIS,
+  electronTransport,
+  fvcbAssimilation,
+  medlynConductance,
+  referenceAssimilation,
+  solveLeafGasExchange,
+} from './photosynthesis';
+
+const assimilation = (ci: number, leafT = 25, ppfd = 1000, o2 = 21) =>
+  fvcbAssimilation(ci, leafT, ppfd, o2).netAssimilation;
+
+describe('fvcbAssimilation', () => {
+  it('is Rubisco limited at low Ci and RuBP or TPU limited at high Ci', () => {
+    expect(fvcbAssimilation(100, 25, 1500, 21).limitation).toBe('RUBISCO');
+    expect(['RUBP', 'TPU']).toContain(fvcbAssimilation(1000, 25, 1500, 21).limitation);
+  });
+
+  it('saturates with CO2', () => {
+    expect(assimilation(200)).toBeGreaterThan(assimilation(100));
+    expect(assimilation(1200) - assimilation(800)).toBeLessThan(assimilation(200) - assimilation(100));
+  });
+
+  it('saturates with light', () => {
+    expect(assimilation(300, 25, 300)).toBeGreaterThan(assimilation(300, 25, 100));
+    expect(assimilation(300, 25, 2000) - assimilation(300, 25, 1500)).toBeLessThan(1);
+  });
+
+  it('peaks at moderate leaf temperatures', () => {
+    expect(assimilation(300, 25)).toBeGreaterThan(assimilation(300, 10));
+    expect(assimilation(300, 25)).toBeGreaterThan(assimilation(300, 42));
+  });
+
+  it('is inhibited by O2 through photorespiration', () => {
+    const low = fvcbAssimilation(300, 25, 1000, 2);
+    const high = fvcbAssimilation(300, 25, 1000, 40);
+    expect(low.netAssimilation).toBeGreaterThan(assimilation(300));
+    expect(high.netAssimilation).toBeLessThan(assimilation(300));
+    expect(high.compensationPoint).toBeGreaterThan(low.compensationPoint);
+    expect(high.photorespiration).toBeGreaterThan(low.photorespiration);
+  });
+
+  it('only respires in the dark', () => {
+    const dark = fvcbAssimilation(400, 25, 0, 21);
+    expect(dark.limitation).toBe('DARK');
+    expect(dark.netAssimilation).toBeCloseTo(-DEFAULT_PHOTOSYNTHESIS.rd25);
+  });
+
+  it('uses a positive reference assimilation', () => {
+    expect(referenceAssimilation()).toBeGreaterThan(10);
+  });
+});
+
+describe('electronTransport', () => {
+  it('drives PSII with the yield photon flux, counting the absorptance only once', () => {
+    // (100 x 0.85 / 2 + 100 - sqrt((100 x 0.85 / 2 + 100)^2 - 4 x 0.7 x 42.5 x 100)) / (2 x 0.7)
+    expect(electronTransport(100, 100)).toBeCloseTo(36.3, 1);
+    // Initial slope: 0.425 electrons per yield photon, then Jmax
+    expect(electronTransport(1, 100)).toBeCloseTo(0.425, 2);
+    expect(electronTransport(1e6, 100)).toBeCloseTo(100, 0);
+    expect(electronTransport(0, 100)).toBe(0);
+  });
+});
+
+describe('medlynConductance', () => {
+  it('falls to g0 without assimilation', () => {
+    expect(medlynConductance(0, 400, 1)).toBe(DEFAULT_PHOTOSYNTHESIS.g0);
+    expect(medlynConductance(-2, 400, 1)).toBe(DEFAULT_PHOTOSYNTHESIS.g0);
+  });
+
+  it('closes the stomata in dry air', () => {
+    expect(medlynConductance(10, 400, 3)).toBeLessThan(medlynConductance(10, 400, 0.5));
+  });
+});
+
+describe('solveLeafGasExchange', () => {
+  const conditions = { surfaceCO2: 400, leafTemperature: 25, ppfd: 1000, o2Percent: 21, vapourPressureDeficit: 1 };
+
+  it('balances demand against stomatal supply', () => {
+    const result = solveLeafGasExchange(conditions);
+    const supply = (result.stomatalConductance / 1.6) * (conditions.surfaceCO2 - result.intercellularCO2);
+    expect(result.netAssimilation).toBeCloseTo(supply, 2);
+  });
+
+  it('holds Ci / Cs near the Medlyn optimum g1 / (g1 + sqrt(D))', () => {
+    const { g1 } = DEFAULT_PHOTOSYNTHESIS;
+    for (const vpd of [0.5, 1, 2]) {
+      const result = solveLeafGasExchange({ ...conditions, vapourPressureDeficit: vpd });
+      expect(result.intercellularCO2 / conditions.surfaceCO2).toBeCloseTo(g1 / (g1 + Math.sqrt(vpd)), 1);
+    }
+  });
+
+  it('raises Ci above Cs in the dark', () => {
+    const result = solveLeafGasExchange({ ...conditions, ppfd: 0 });
+    expect(result.netAssimilation).toBeLessThan(0);
+    expect(result.intercellularCO2).toBeGreaterThan(conditions.surfaceCO2);
+  });
+});
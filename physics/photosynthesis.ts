@@ -0,0 +1,214 @@
+import { GAS_CONSTANT, KELVIN_OFFSET } from './physicalConstants';
+
+// Farquhar–von Caemmerer–Berry (FvCB) C3 photosynthesis with Medlyn stomatal conductance.
+//
+//   Rubisco-limited: Wc = Vcmax (Ci - Γ*) / (Ci + Kc (1 + O / Ko))
+//   RuBP-limited:    Wj = J (Ci - Γ*) / (4 Ci + 8 Γ*)
+//   TPU-limited:     Wp = 3 TPU
+//   A = min(Wc, Wj, Wp) - Rd
+//
+// J follows the yield photon flux (lightSpectrum.ts): McCree's quantum yield is per incident photon,
+// so it already counts what the leaf absorbs and no absorptance is applied on top.
+// O2 enters through the Rubisco oxygenation terms (Ko, Γ*), i.e. photorespiration.
+// Kinetic constants and temperature responses after Bernacchi et al. (2001);
+// Vcmax / Jmax use a peaked Arrhenius function.
+//
+//   Medlyn: gs = g0 + 1.6 (1 + g1 / sqrt(D)) A / Cs
+//   Supply: A = (gs / 1.6) (Cs - Ci)
+//
+// Cs is the CO2 at the leaf surface, i.e. after the boundary layer (see boundaryLayerSolver).
+
+export interface PhotosynthesisParameters {
+  vcmax25: number; // µmol/m2/s
+  jmax25: number; // µmol/m2/s
+  tpu25: number; // µmol/m2/s
+  rd25: number; // µmol/m2/s, day respiration
+  curvature: number; // θ, non-rectangular hyperbola for J
+  g0: number; // mol/m2/s, residual stomatal conductance (H2O)
+  g1: number; // kPa^0.5, Medlyn slope
+}
+
+// Arabidopsis-like C3 leaf
+export const DEFAULT_PHOTOSYNTHESIS: PhotosynthesisParameters = {
+  vcmax25: 60,
+  jmax25: 100,
+  tpu25: 7,
+  rd25: 0.9,
+  curvature: 0.7,
+  g0: 0.01,
+  g1: 4.0,
+};
+
+export type PhotosynthesisLimitation = 'RUBISCO' | 'RUBP' | 'TPU' | 'DARK';
+
+export interface FvcbRates {
+  rubiscoLimited: number; // Wc, µmol/m2/s
+  rubpLimited: number; // Wj, µmol/m2/s
+  tpuLimited: number; // Wp, µmol/m2/s
+  netAssimilation: number; // A, µmol/m2/s
+  darkRespiration: number; // Rd, µmol/m2/s
+  photorespiration: number; // CO2 released by photorespiration, µmol/m2/s
+  compensationPoint: number; // Γ*, ppm
+  limitation: PhotosynthesisLimitation;
+}
+
+export interface LeafGasExchange {
+  netAssimilation: number; // µmol/m2/s
+  intercellularCO2: number; // Ci, ppm
+  stomatalConductance: number; // mol/m2/s (H2O)
+  rates: FvcbRates;
+}
+
+const REFERENCE_K = 25 + KELVIN_OFFSET;
+const KC25 = 404.9; // µmol/mol
+const KO25 = 278.4; // mmol/mol
+const GAMMA_STAR25 = 42.75; // µmol/mol at 21% O2
+const REFERENCE_O2 = 210; // mmol/mol
+
+const arrhenius = (value25: number, activation: number, leafK: number): number =>
+  value25 * Math.exp((activation * (leafK - REFERENCE_K)) / (REFERENCE_K * GAS_CONSTANT * leafK));
+
+const peakedArrhenius = (value25: number, activation: number, leafK: number): number => {
+  const deactivation = 200000; // J/mol
+  const entropy = 650; // J/mol/K
+  const high = (k: number) => 1 + Math.exp((k * entropy - deactivation) / (GAS_CONSTANT * k));
+  return (arrhenius(value25, activation, leafK) * high(REFERENCE_K)) / high(leafK);
+};
+
+// Potential electron transport rate (non-rectangular hyperbola) from the yield photon flux:
+// 15% of the effective photons are lost to other pigments and half reach photosystem II
+export const electronTransport = (ppfd: number, jmax: number, params: PhotosynthesisParameters = DEFAULT_PHOTOSYNTHESIS): number => {
+  const effective = (Math.max(ppfd, 0) * (1 - 0.15)) / 2;
+  const sum = effective + jmax;
+  return (sum - Math.sqrt(sum * sum - 4 * params.curvature * effective * jmax)) / (2 * params.curvature);
+};
+
+// Net assimilation for a given intercellular CO2 (ppm), leaf temperature (°C), yield photon flux and O2 (%)
+export const fvcbAssimilation = (
+  intercellularCO2: number,
+  leafTemperature: number,
+  ppfd: number,
+  o2Percent: number,
+  params: PhotosynthesisParameters = DEFAULT_PHOTOSYNTHESIS
+): FvcbRates => {
+  const leafK = leafTemperature + KELVIN_OFFSET;
+  const oxygen = o2Percent * 10; // mmol/mol
+
+  const kc = arrhenius(KC25, 79430, leafK);
+  const ko = arrhenius(KO25, 36380, leafK);
+  const gammaStar = arrhenius(GAMMA_STAR25, 37830, leafK) * (oxygen / REFERENCE_O2);
+  const vcmax = peakedArrhenius(params.vcmax25, 65330, leafK);
+  const jmax = peakedArrhenius(params.jmax25, 43540, leafK);
+  const tpu = peakedArrhenius(params.tpu25, 53100, leafK);
+  const darkRespiration = arrhenius(params.rd25, 46390, leafK);
+  const j = electronTransport(ppfd, jmax, params);
+
+  const ci = Math.max(intercellularCO2, 0);
+  const rubiscoLimited = (vcmax * (ci - gammaStar)) / (ci + kc * (1 + oxygen / ko));
+  const rubpLimited = (j * (ci - gammaStar)) / (4 * ci + 8 * gammaStar);
+  const tpuLimited = 3 * tpu;
+
+  const gross = Math.min(rubiscoLimited, rubpLimited, tpuLimited);
+  let limitation: PhotosynthesisLimitation = 'TPU';
+  if (j <= 0) limitation = 'DARK';
+  else if (gross === rubiscoLimited) limitation = 'RUBISCO';
+  else if (gross === rubpLimited) limitation = 'RUBP';
+
+  // Photorespiratory release is Vo / 2 = Vc Γ* / Ci, with Vc the carboxylation behind `gross`
+  const photorespiration = ci > gammaStar && gross > 0 ? (gross * gammaStar) / (ci - gammaStar) : 0;
+
+  return {
+    rubiscoLimited,
+    rubpLimited,
+    tpuLimited,
+    netAssimilation: gross - darkRespiration,
+    darkRespiration,
+    photorespiration,
+    compensationPoint: gammaStar,
+    limitation,
+  };
+};
+
+// Medlyn stomatal conductance (H2O, mol/m2/s) for a given assimilation
+export const medlynConductance = (
+  netAssimilation: number,
+  surfaceCO2: number,
+  vapourPressureDeficit: number,
+  params: PhotosynthesisParameters = DEFAULT_PHOTOSYNTHESIS
+): number => {
+  const deficit = Math.max(vapourPressureDeficit, 0.05);
+  const assimilation = Math.max(netAssimilation, 0);
+  return params.g0 + (1.6 * (1 + params.g1 / Math.sqrt(deficit)) * assimilation) / Math.max(surfaceCO2, 1);
+};
+
+const MAX_ITERATIONS = 80;
+const CI_TOLERANCE = 1e-3; // ppm
+
+export interface GasExchangeConditions {
+  surfaceCO2: number; // ppm
+  leafTemperature: number; // Celsius
+  ppfd: number; // µmol/m2/s, yield photon flux (leafPhysics.ts leafPpfd)
+  o2Percent: number; // %
+  vapourPressureDeficit: number; // kPa
+}
+
+// Bisection for the Ci at which demand (FvCB) meets stomatal supply.
+// `conductance` gives the stomatal conductance (H2O) for a candidate assimilation.
+const balanceIntercellularCO2 = (
+  conditions: GasExchangeConditions,
+  conductance: (netAssimilation: number) => number,
+  params: PhotosynthesisParameters
+): LeafGasExchange => {
+  const { surfaceCO2, leafTemperature, ppfd, o2Percent } = conditions;
+
+  const evaluate = (ci: number) => {
+    const rates = fvcbAssimilation(ci, leafTemperature, ppfd, o2Percent, params);
+    const gs = conductance(rates.netAssimilation);
+    const supply = (gs / 1.6) * (surfaceCO2 - ci);
+    return { rates, gs, residual: rates.netAssimilation - supply };
+  };
+
+  // In the dark respiration pushes Ci above Cs, so bracket past it
+  let low = 0;
+  let high = surfaceCO2 + (1.6 * 10 * params.rd25) / Math.max(conductance(0), params.g0);
+  let result = evaluate(high);
+  let ci = high;
+  for (let i = 0; i < MAX_ITERATIONS && high - low > CI_TOLERANCE; i++) {
+    ci = 0.5 * (low + high);
+    result = evaluate(ci);
+    if (result.residual > 0) high = ci;
+    else low = ci;
+  }
+
+  return {
+    netAssimilation: result.rates.netAssimilation,
+    intercellularCO2: ci,
+    stomatalConductance: result.gs,
+    rates: result.rates,
+  };
+};
+
+// Solves demand (FvCB) against stomatal supply for Ci, given the CO2 at the leaf surface.
+// Stomata are at their Medlyn steady state.
+export const solveLeafGasExchange = (
+  conditions: GasExchangeConditions,
+  params: PhotosynthesisParameters = DEFAULT_PHOTOSYNTHESIS
+): LeafGasExchange =>
+  balanceIntercellularCO2(
+    conditions,
+    (netAssimilation) => medlynConductance(netAssimilation, conditions.surfaceCO2, conditions.vapourPressureDeficit, params),
+    params
+  );
+
+// Same balance for stomata held at a given aperture (mol/m2/s, H2O), e.g. while they lag behind
+export const solveGasExchangeAtConductance = (
+  conditions: GasExchangeConditions,
+  stomatalConductance: number,
+  params: PhotosynthesisParameters = DEFAULT_PHOTOSYNTHESIS
+): LeafGasExchange =>
+  balanceIntercellularCO2(conditions, () => Math.max(stomatalConductance, params.g0), params);
+
+// Net assimilation of an unstressed leaf at 25°C, Ci = 280 ppm, 21% O2 and saturating light.
+// Used as the 100% reference for photosynthetic efficiency.
+export const referenceAssimilation = (params: PhotosynthesisParameters = DEFAULT_PHOTOSYNTHESIS): number =>
+  fvcbAssimilation(280, 25, 2000, 21, params).netAssimilation;
@@ -0,0 +1,33 @@
+// Physical constants shared by the physics modules (SI units unless noted)
+
+export const STANDARD_GRAVITY = 9.81; // m/s2 (gravityFactor = 1.0)
+export const GAS_CONSTANT = 8.314; // J/mol/K
+export const ATMOSPHERIC_PRESSURE = 101325; // Pa
+export const KELVIN_OFFSET = 273.15;
+export const STEFAN_BOLTZMANN = 5.67e-8; // W/m2/K4
+export const LATENT_HEAT_VAPORIZATION = 44000; // J/mol (water, ~25°C)
+export const MOLAR_HEAT_CAPACITY_AIR = 29.3; // J/mol/K
+
+// Transport properties of air at ~20°C
+export const DIFFUSIVITY_CO2 = 1.6e-5; // m2/s, CO2 in air
+export const DIFFUSIVITY_O2 = 2.0e-5; // m2/s, O2 in air
+export const KINEMATIC_VISCOSITY_AIR = 1.5e-5; // m2/s
+export const THERMAL_CONDUCTIVITY_AIR = 0.026; // W/m/K
+export const PRANDTL_AIR = 0.71;
+// Boundary-layer conductance ratio water vapour / heat, (D_v / alpha)^2/3
+export const VAPOUR_HEAT_CONDUCTANCE_RATIO = 1.08;
+
+// Characteristic length of an Arabidopsis rosette leaf (base to tip)
+export const LEAF_LENGTH = 0.02; // m
+
+// Distance above the leaf at which cabin air is taken as well mixed.
+// Sets the still-air (pure conduction / diffusion) limit in µG.
+export const STILL_AIR_MIXING_HEIGHT = 5e-3; // m
+
+// Molar density of air (mol/m3) at the given temperature (Celsius)
+export const airMolarDensity = (temperatureC: number): number =>
+  ATMOSPHERIC_PRESSURE / (GAS_CONSTANT * (temperatureC + KELVIN_OFFSET));
+
+// Saturation vapour pressure (kPa) at the given temperature (Celsius), Tetens formula
+export const saturationVapourPressure = (temperatureC: number): number =>
+  0.61078 * Math.exp((17.27 * temperatureC) / (temperatureC + 237.3));
@@ -0,0 +1,12 @@
+// Saves text as a file through a temporary object URL
+export const downloadText = (filename: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// File-name friendly timestamp, e.g. 2025-03-01T12-30-00
+export const fileTimestamp = (date = new Date()): string => date.toISOString().slice(0, 19).replace(/:/g, '-');
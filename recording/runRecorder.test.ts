@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { RECORD_UNITS, modelParameters, recordTick, runMetadata, runToCsv, runToJson } from './runRecorder';
+import { INITIAL_STATE, MODEL_VERSION } from '../constants';
+
+const records = [recordTick(0, INITIAL_STATE), recordTick(0.25, { ...INITIAL_STATE, co2Flux: 12.5, ledMix: { red660: 1 } })];
+const metadata = runMetadata(records, 'Night Cycle');
+
+describe('recordTick', () => {
+  it('keeps inputs and derived values but drops the gas field', () => {
+    const record = recordTick(5, INITIAL_STATE);
+    expect(record.time).toBe(5);
+    expect(record.ambientCO2).toBe(INITIAL_STATE.ambientCO2);
+    expect(record.co2Flux).toBe(INITIAL_STATE.co2Flux);
+    expect(record).not.toHaveProperty('gasField');
+  });
+
+  it('has a unit for every recorded field', () => {
+    expect(Object.keys(RECORD_UNITS).sort()).toEqual(Object.keys(recordTick(0, INITIAL_STATE)).sort());
+  });
+});
+
+describe('runMetadata', () => {
+  it('describes the model, run and parameters', () => {
+    expect(metadata.version).toBe(MODEL_VERSION);
+    expect(metadata.scenario).toBe('Night Cycle');
+    expect(metadata.ticks).toBe(2);
+    expect(metadata.endTime).toBe(0.25);
+    expect(metadata.parameters['photosynthesis.vcmax25']).toBeGreaterThan(0);
+    expect(modelParameters()).toHaveProperty('LEAF_LENGTH');
+  });
+});
+
+describe('runToCsv', () => {
+  const lines = runToCsv(metadata, records).trim().split('\n');
+  const data = lines.filter(line => !line.startsWith('#'));
+
+  it('puts the metadata in comment lines before the table', () => {
+    expect(lines[0]).toMatch(/^# model: /);
+    expect(lines.some(line => line === `# version: ${MODEL_VERSION}`)).toBe(true);
+    expect(lines.some(line => line.startsWith('# parameter.LEAF_LENGTH: '))).toBe(true);
+  });
+
+  it('writes one row per tick under a header', () => {
+    const header = data[0].split(',');
+    expect(header[0]).toBe('time');
+    expect(data).toHaveLength(3);
+    const row = data[2].split(',');
+    expect(Number(row[header.indexOf('co2Flux')])).toBe(12.5);
+    expect(row[header.indexOf('ledMix')]).toBe('"{""red660"":1}"');
+  });
+});
+
+describe('runToJson', () => {
+  it('round-trips the records with their metadata', () => {
+    const parsed = JSON.parse(runToJson(metadata, records));
+    expect(parsed.metadata.ticks).toBe(2);
+    expect(parsed.records[1].co2Flux).toBe(12.5);
+    expect(parsed.records[0]).not.toHaveProperty('gasField');
+  });
+});
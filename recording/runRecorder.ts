@@ -0,0 +1,145 @@
+import { SimulationState } from '../types';
+import { MODEL_NAME, MODEL_VERSION } from '../constants';
+import * as physical from '../physics/physicalConstants';
+import { DEFAULT_GRID, PHOTOSYNTHETIC_QUOTIENT } from '../physics/boundaryLayerSolver';
+import { LEAF_EMISSIVITY } from '../physics/energyBalance';
+import { CI_STARVATION_THRESHOLD, VPD_STRESS_THRESHOLD } from '../physics/leafPhysics';
+import { DEFAULT_MODEL_PARAMETERS, ModelParameters, flattenParameters } from '../physics/modelParameters';
+
+// Run recorder: one row per clock tick with the full simulation state.
+// The 2D gas fields are left out; they are a grid per face per tick and are summarised by the
+// surface CO2, fluxes and effective boundary-layer thickness columns. The blade shape is only an
+// engine input, given by the leafCurl and leafNarrowing columns.
+
+export type RecordedField = Exclude<keyof SimulationState, 'gasField' | 'abaxialGasField' | 'leafShape'>;
+
+export type RunRecord = { time: number } & Pick<SimulationState, RecordedField>;
+
+// Column units; also fixes the column order of the exports
+export const RECORD_UNITS: Record<'time' | RecordedField, string> = {
+  time: 's',
+  gravityMode: '',
+  gravityFactor: 'g',
+  airVelocity: 'm/s',
+  ambientCO2: 'ppm',
+  ambientO2: '%',
+  ambientTemperature: 'degC',
+  relativeHumidity: '%',
+  ppfd: 'umol/m2/s',
+  ledMix: 'json', // Relative output per LED channel
+  lightFraction: '0-1', // Photoperiod dimming of the PPFD
+  co2Injection: 'umol/s', // Chamber CO2 makeup
+  co2Scrubbing: 'umol/s',
+  fanFault: '',
+  leafCurl: '0-1', // Share of the species' µG response developed
+  leafNarrowing: '0-1',
+  microgravityExposure: 's', // At 0 g equivalent
+  boundaryLayerThickness: 'mm',
+  co2Flux: 'umol/m2/s',
+  o2Flux: 'umol/m2/s',
+  h2oFlux: 'mmol/m2/s',
+  vapourPressureDeficit: 'kPa',
+  temperature: 'degC',
+  stressLevel: '0-100',
+  photosyntheticEfficiency: '%',
+  surfaceCO2: 'ppm',
+  intercellularCO2: 'ppm',
+  stomatalConductance: 'mol/m2/s',
+  photorespiration: 'umol/m2/s',
+  photosynthesisLimitation: '',
+  heatTransferCoefficient: 'W/m2/K',
+  richardsonNumber: '',
+  reynoldsNumber: '',
+  grashofNumber: '',
+  absorbedRadiation: 'W/m2',
+  longwaveLoss: 'W/m2',
+  sensibleHeatFlux: 'W/m2',
+  latentHeatFlux: 'W/m2',
+  adaxialCO2Flux: 'umol/m2/s',
+  abaxialCO2Flux: 'umol/m2/s',
+  adaxialH2OFlux: 'mmol/m2/s',
+  abaxialH2OFlux: 'mmol/m2/s',
+  adaxialBoundaryLayer: 'mm',
+  abaxialBoundaryLayer: 'mm',
+  adaxialConductance: 'mol/m2/s',
+  abaxialConductance: 'mol/m2/s',
+};
+
+const COLUMNS = Object.keys(RECORD_UNITS) as (keyof RunRecord)[];
+
+export interface RunMetadata {
+  model: string;
+  version: string;
+  exportedAt: string; // ISO 8601
+  scenario: string | null;
+  parameterProfile: string | null; // Name of the loaded parameter profile, null for the defaults
+  ticks: number;
+  startTime: number; // s of simulated time
+  endTime: number;
+  units: Record<string, string>;
+  parameters: Record<string, number | string>;
+}
+
+export const recordTick = (time: number, state: SimulationState): RunRecord => {
+  const { gasField: _field, abaxialGasField: _abaxial, ...rest } = state;
+  return { time, ...rest };
+};
+
+// Model constants and the (possibly calibrated) model parameters in effect for the run
+export const modelParameters = (params: ModelParameters = DEFAULT_MODEL_PARAMETERS): Record<string, number | string> => ({
+  ...(Object.fromEntries(Object.entries(physical).filter(([, value]) => typeof value === 'number')) as Record<string, number>),
+  ...flattenParameters(params),
+  PHOTOSYNTHETIC_QUOTIENT,
+  LEAF_EMISSIVITY,
+  VPD_STRESS_THRESHOLD,
+  CI_STARVATION_THRESHOLD,
+  'grid.nx': DEFAULT_GRID.nx,
+  'grid.ny': DEFAULT_GRID.ny,
+  'grid.dx': DEFAULT_GRID.dx,
+  'grid.dy': DEFAULT_GRID.dy,
+  'grid.leafStart': DEFAULT_GRID.leafStart,
+  'grid.leafEnd': DEFAULT_GRID.leafEnd,
+});
+
+export const runMetadata = (
+  records: RunRecord[],
+  scenario: string | null,
+  params: ModelParameters = DEFAULT_MODEL_PARAMETERS,
+  parameterProfile: string | null = null
+): RunMetadata => ({
+  model: MODEL_NAME,
+  version: MODEL_VERSION,
+  exportedAt: new Date().toISOString(),
+  scenario,
+  parameterProfile,
+  ticks: records.length,
+  startTime: records.length ? records[0].time : 0,
+  endTime: records.length ? records[records.length - 1].time : 0,
+  units: RECORD_UNITS,
+  parameters: modelParameters(params),
+});
+
+const csvCell = (value: unknown): string => {
+  const text =
+    typeof value === 'number'
+      ? Number.isFinite(value) ? String(value) : ''
+      : typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value ?? '');
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// CSV with the metadata as leading '#' comment lines
+// (R: read.csv(comment.char = "#"), pandas: read_csv(comment="#"))
+export const runToCsv = (metadata: RunMetadata, records: RunRecord[]): string => {
+  const { units, parameters, ...header } = metadata;
+  const lines = [
+    ...Object.entries(header).map(([key, value]) => `# ${key}: ${value ?? ''}`),
+    ...Object.entries(parameters).map(([key, value]) => `# parameter.${key}: ${value}`),
+    `# units: ${COLUMNS.map(column => `${column}=${units[column] || '-'}`).join('; ')}`,
+    COLUMNS.join(','),
+    ...records.map(record => COLUMNS.map(column => csvCell(record[column])).join(',')),
+  ];
+  return lines.join('\n') + '\n';
+};
+
+export const runToJson = (metadata: RunMetadata, records: RunRecord[]): string =>
+  JSON.stringify({ metadata, records }, null, 2);
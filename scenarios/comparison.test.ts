@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { applyComparisonEvents, startComparisonRun, updateComparisonInputs } from './comparison';
+import { eventsBetween } from './scenario';
+import { INITIAL_STATE, SCENARIO_PRESETS } from '../constants';
+import { GravityMode } from '../types';
+
+const MICRO_G = { gravityMode: GravityMode.MICRO_UG, gravityFactor: 0 };
+const launch = SCENARIO_PRESETS.find(preset => preset.name === 'Launch & Fan Failure')!;
+
+describe('startComparisonRun', () => {
+  it('copies A with the overrides, keeping only the inputs that differ as overrides', () => {
+    const run = startComparisonRun(INITIAL_STATE, { ...MICRO_G, ppfd: INITIAL_STATE.ppfd });
+    expect(run.state).toEqual({ ...INITIAL_STATE, ...MICRO_G });
+    expect(run.overrides).toEqual(MICRO_G);
+  });
+
+  it('takes a whole saved configuration, without pinning its derived leaf state', () => {
+    const saved = { ...INITIAL_STATE, ...MICRO_G, temperature: INITIAL_STATE.temperature + 3, ledMix: { ...INITIAL_STATE.ledMix } };
+    const run = startComparisonRun(INITIAL_STATE, saved);
+    expect(run.state.temperature).toBe(saved.temperature);
+    expect(run.overrides).toEqual(MICRO_G);
+  });
+
+  it('starts afresh after a stop', () => {
+    const first = updateComparisonInputs(startComparisonRun(INITIAL_STATE, MICRO_G), { airVelocity: 0 });
+    const restarted = startComparisonRun(first.state, {});
+    expect(restarted.overrides).toEqual({});
+  });
+});
+
+describe('updateComparisonInputs', () => {
+  it('changes B and keeps the edited inputs as overrides', () => {
+    const run = updateComparisonInputs(startComparisonRun(INITIAL_STATE, MICRO_G), { airVelocity: 0, temperature: 30 });
+    expect(run.state.airVelocity).toBe(0);
+    expect(run.state.temperature).toBe(30);
+    expect(run.overrides).toEqual({ ...MICRO_G, airVelocity: 0 });
+  });
+});
+
+describe('applyComparisonEvents', () => {
+  it('applies scenario events to B except over its overrides', () => {
+    const run = startComparisonRun(INITIAL_STATE, MICRO_G);
+    const changes = eventsBetween(launch, -Infinity, 2 * 3600).map(event => event.changes);
+    const after = applyComparisonEvents(run, changes);
+    expect(after.state.gravityFactor).toBe(0);
+    expect(after.state.gravityMode).toBe(GravityMode.MICRO_UG);
+    // The fan failure is not an override: B loses its airflow like A
+    expect(after.state.airVelocity).toBe(0);
+    expect(after.overrides).toEqual(MICRO_G);
+  });
+
+  it('keeps a 1 g B at 1 g through the launch preset', () => {
+    const orbit = { ...INITIAL_STATE, ...MICRO_G };
+    const run = startComparisonRun(orbit, { gravityMode: GravityMode.EARTH_1G, gravityFactor: 1 });
+    const pad = applyComparisonEvents(run, eventsBetween(launch, -Infinity, 0).map(event => event.changes));
+    const inOrbit = applyComparisonEvents(pad, eventsBetween(launch, 0, 600).map(event => event.changes));
+    expect(inOrbit.state.gravityFactor).toBe(1);
+    expect(inOrbit.state.gravityMode).toBe(GravityMode.EARTH_1G);
+  });
+});
@@ -0,0 +1,43 @@
+import { SimulationState } from '../types';
+import { NUMERIC_INPUTS } from './scenario';
+
+// Comparison mode: a second configuration (B) run on the same clock, scenario and parameters as A.
+// B keeps the inputs that set it apart from A (its overrides): scenario events apply to B as well,
+// but never over an override, so a preset that schedules gravity cannot make a 1 g vs µG comparison identical.
+
+export interface ComparisonRun {
+  state: SimulationState;
+  overrides: Partial<SimulationState>;
+}
+
+// Inputs a configuration can differ in (those scenario events can schedule)
+export const COMPARISON_INPUTS: (keyof SimulationState)[] = [...NUMERIC_INPUTS, 'gravityMode', 'ledMix', 'fanFault'];
+
+const sameInput = (a: unknown, b: unknown): boolean => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+// Input overrides among the updates; with a reference state, only those that differ from it
+const inputOverrides = (updates: Partial<SimulationState>, reference?: SimulationState): Partial<SimulationState> =>
+  Object.fromEntries(
+    COMPARISON_INPUTS.filter(key => key in updates && (!reference || !sameInput(updates[key], reference[key]))).map(key => [
+      key,
+      updates[key],
+    ])
+  );
+
+// B starts as a copy of A with the overrides (a few inputs, or a whole saved configuration)
+export const startComparisonRun = (primary: SimulationState, overrides: Partial<SimulationState>): ComparisonRun => ({
+  state: { ...primary, ...overrides },
+  overrides: inputOverrides(overrides, primary),
+});
+
+// Inputs edited on B become overrides of their own
+export const updateComparisonInputs = (run: ComparisonRun, updates: Partial<SimulationState>): ComparisonRun => ({
+  state: { ...run.state, ...updates },
+  overrides: { ...run.overrides, ...inputOverrides(updates) },
+});
+
+// Scenario events, in order, with B's overrides restored after them
+export const applyComparisonEvents = (run: ComparisonRun, changes: Partial<SimulationState>[]): ComparisonRun => ({
+  ...run,
+  state: { ...changes.reduce<SimulationState>((state, change) => ({ ...state, ...change }), run.state), ...run.overrides },
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { dailyLightIntegral, hourOfDay, parsePhotoperiod, photoperiodLight, SECONDS_PER_DAY } from './photoperiod';
+
+const longDay = { lightHours: 16, rampMinutes: 60, lightsOn: 6 };
+const at = (hours: number) => hours * 3600;
+
+describe('hourOfDay', () => {
+  it('wraps the clock every 24 h from 00:00 at T+0', () => {
+    expect(hourOfDay(0)).toBe(0);
+    expect(hourOfDay(at(30))).toBeCloseTo(6);
+  });
+});
+
+describe('photoperiodLight', () => {
+  it('is on for the light hours and off at night', () => {
+    expect(photoperiodLight(longDay, at(12))).toBe(1);
+    expect(photoperiodLight(longDay, at(2))).toBe(0);
+    expect(photoperiodLight(longDay, at(23))).toBe(0);
+    expect(photoperiodLight(longDay, at(12) + SECONDS_PER_DAY)).toBe(1);
+  });
+
+  it('ramps smoothly through sunrise and sunset, centred on the switching times', () => {
+    expect(photoperiodLight(longDay, at(6))).toBeCloseTo(0.5);
+    expect(photoperiodLight(longDay, at(22))).toBeCloseTo(0.5);
+    expect(photoperiodLight(longDay, at(5.75))).toBeGreaterThan(0);
+    expect(photoperiodLight(longDay, at(5.75))).toBeLessThan(photoperiodLight(longDay, at(6.25)));
+    expect(photoperiodLight(longDay, at(5.5))).toBeCloseTo(0);
+    expect(photoperiodLight(longDay, at(6.5))).toBeCloseTo(1);
+  });
+
+  it('switches instantly without a ramp, including across midnight', () => {
+    const overnight = { lightHours: 12, rampMinutes: 0, lightsOn: 18 };
+    expect(photoperiodLight(overnight, at(17.9))).toBe(0);
+    expect(photoperiodLight(overnight, at(18))).toBe(1);
+    expect(photoperiodLight(overnight, at(3))).toBe(1);
+    expect(photoperiodLight(overnight, at(6))).toBe(0);
+  });
+
+  it('handles continuous light and darkness', () => {
+    expect(photoperiodLight({ lightHours: 24, rampMinutes: 30, lightsOn: 0 }, at(5))).toBe(1);
+    expect(photoperiodLight({ lightHours: 0, rampMinutes: 30, lightsOn: 0 }, at(5))).toBe(0);
+  });
+
+  it('delivers the daily light integral of PPFD x light hours', () => {
+    const ppfd = 300;
+    const step = 60;
+    let integral = 0;
+    for (let t = 0; t < SECONDS_PER_DAY; t += step) integral += (ppfd * photoperiodLight(longDay, t + step / 2) * step) / 1e6;
+    expect(integral).toBeCloseTo(dailyLightIntegral(ppfd, longDay), 2);
+    expect(dailyLightIntegral(ppfd, longDay)).toBeCloseTo(17.28);
+    expect(dailyLightIntegral(ppfd, null)).toBeCloseTo(25.92);
+  });
+});
+
+describe('parsePhotoperiod', () => {
+  it('accepts valid photoperiods and rejects the rest', () => {
+    expect(parsePhotoperiod(longDay)).toEqual(longDay);
+    expect(() => parsePhotoperiod({ ...longDay, lightHours: 25 })).toThrow('lightHours');
+    expect(() => parsePhotoperiod({ ...longDay, rampMinutes: 'slow' })).toThrow('rampMinutes');
+    expect(() => parsePhotoperiod(null)).toThrow();
+  });
+});
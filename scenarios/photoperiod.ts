@@ -0,0 +1,47 @@
+import { Photoperiod } from '../types';
+
+// Daily light cycle of the grow light. T+0 of the simulation clock is 00:00 on day 1.
+// Sunrise and sunset are cosine ramps centred on the lights-on and lights-off times,
+// so the daily light integral is exactly PPFD x light hours.
+
+export const SECONDS_PER_DAY = 86400;
+
+// Hours since 00:00 of the current simulated day
+export const hourOfDay = (time: number): number => (((time / 3600) % 24) + 24) % 24;
+
+const ramp = (u: number) => 0.5 - 0.5 * Math.cos(Math.PI * Math.min(Math.max(u, 0), 1));
+
+// Share of the PPFD setpoint the lights deliver at `time` (s), 0-1
+export const photoperiodLight = ({ lightHours, rampMinutes, lightsOn }: Photoperiod, time: number): number => {
+  const light = Math.min(Math.max(lightHours, 0), 24);
+  // Ramps cannot be longer than the light or the dark period
+  const half = Math.min(Math.max(rampMinutes, 0) / 60, light, 24 - light) / 2;
+  let h = (((hourOfDay(time) - lightsOn) % 24) + 24) % 24; // Hours since lights on
+  if (h >= 24 - half) h -= 24; // First half of the sunrise ramp, before lights on
+  if (half === 0) return h < light ? 1 : 0;
+  if (h < half) return ramp((h + half) / (2 * half));
+  if (h < light - half) return 1;
+  if (h < light + half) return 1 - ramp((h - light + half) / (2 * half));
+  return 0;
+};
+
+// Daily light integral, mol/m2/day
+export const dailyLightIntegral = (ppfd: number, photoperiod: Photoperiod | null): number =>
+  (ppfd * (photoperiod ? Math.min(Math.max(photoperiod.lightHours, 0), 24) : 24) * 3600) / 1e6;
+
+// Validates a photoperiod read from a file or link
+export const parsePhotoperiod = (value: unknown): Photoperiod => {
+  if (typeof value !== 'object' || value === null) throw new Error('Photoperiod must be an object');
+  const { lightHours, rampMinutes, lightsOn } = value as Record<string, unknown>;
+  const number = (entry: unknown, name: string, min: number, max: number): number => {
+    if (typeof entry !== 'number' || !Number.isFinite(entry) || entry < min || entry > max) {
+      throw new Error(`Photoperiod ${name} must be a number from ${min} to ${max}`);
+    }
+    return entry;
+  };
+  return {
+    lightHours: number(lightHours, 'lightHours', 0, 24),
+    rampMinutes: number(rampMinutes, 'rampMinutes', 0, 720),
+    lightsOn: number(lightsOn, 'lightsOn', 0, 24),
+  };
+};
@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import { eventsBetween, nextEventTime, parseScenario, parseScenarioTime, scenarioDuration } from './scenario';
+import { SCENARIO_PRESETS } from '../constants';
+import { FanFault, GravityMode } from '../types';
+
+const fanFailure = {
+  name: 'Fan failure',
+  events: [
+    { time: '4h', label: 'Lights → Red', changes: { lightColor: '#ff0000' } },
+    { time: 0, label: 'Launch', changes: { gravityMode: 'MICRO_UG', gravityFactor: 0 } },
+    { time: '2h', label: 'Fan failure', changes: { airVelocity: 0 } },
+  ],
+};
+
+describe('parseScenarioTime', () => {
+  it('reads seconds and h / m / s suffixes', () => {
+    expect(parseScenarioTime(90)).toBe(90);
+    expect(parseScenarioTime('90')).toBe(90);
+    expect(parseScenarioTime('45s')).toBe(45);
+    expect(parseScenarioTime('10m')).toBe(600);
+    expect(parseScenarioTime('1.5h')).toBe(5400);
+  });
+
+  it('rejects negative or malformed times', () => {
+    expect(() => parseScenarioTime(-1)).toThrow();
+    expect(() => parseScenarioTime('2 days')).toThrow();
+    expect(() => parseScenarioTime(undefined)).toThrow();
+  });
+});
+
+describe('parseScenario', () => {
+  it('sorts events by time', () => {
+    const scenario = parseScenario(fanFailure);
+    expect(scenario.events.map(event => event.time)).toEqual([0, 7200, 14400]);
+    expect(scenario.events[0].changes).toEqual({ gravityMode: GravityMode.MICRO_UG, gravityFactor: 0 });
+  });
+
+  it('labels unlabelled events', () => {
+    const scenario = parseScenario({ name: 'x', events: [{ time: 5, changes: { airVelocity: 1 } }] });
+    expect(scenario.events[0].label).toBe('Event 1');
+  });
+
+  it('only schedules environment inputs', () => {
+    expect(() => parseScenario({ name: 'x', events: [{ time: 0, changes: { co2Flux: 0 } }] })).toThrow('co2Flux');
+    expect(() => parseScenario({ name: 'x', events: [{ time: 0, changes: { airVelocity: 'fast' } }] })).toThrow();
+    expect(() => parseScenario({ name: 'x', events: [{ time: 0, changes: { gravityMode: 'JUPITER' } }] })).toThrow();
+  });
+
+  it('validates LED mixes', () => {
+    const changes = { ppfd: 450, ledMix: { red660: 0.9, blue450: 0.1 } };
+    expect(parseScenario({ name: 'x', events: [{ time: 0, changes }] }).events[0].changes).toEqual(changes);
+    expect(() => parseScenario({ name: 'x', events: [{ time: 0, changes: { ledMix: { uv385: 1 } } }] })).toThrow('uv385');
+    expect(() => parseScenario({ name: 'x', events: [{ time: 0, changes: { ledMix: { white: -1 } } }] })).toThrow();
+    expect(() => parseScenario({ name: 'x', events: [{ time: 0, changes: { ledMix: { white: 0 } } }] })).toThrow();
+  });
+
+  it('schedules fan faults', () => {
+    const scenario = parseScenario({ name: 'x', events: [{ time: '1h', changes: { fanFault: 'STALL' } }] });
+    expect(scenario.events[0].changes).toEqual({ fanFault: FanFault.STALL });
+    expect(() => parseScenario({ name: 'x', events: [{ time: 0, changes: { fanFault: 'SMOKING' } }] })).toThrow('SMOKING');
+  });
+
+  it('converts the intensity multiplier and colour swatches of older files', () => {
+    const scenario = parseScenario({ name: 'x', events: [{ time: 0, changes: { lightIntensity: 1.5, lightColor: '#0000FF' } }] });
+    expect(scenario.events[0].changes).toEqual({ ppfd: 450, ledMix: { blue450: 1 } });
+    expect(parseScenario(fanFailure).events[2].changes).toEqual({ ledMix: { red660: 1 } });
+    expect(() => parseScenario({ name: 'x', events: [{ time: 0, changes: { lightColor: '#123456' } }] })).toThrow();
+  });
+
+  it('requires a name and an events array', () => {
+    expect(() => parseScenario({ events: [] })).toThrow();
+    expect(() => parseScenario({ name: 'x' })).toThrow();
+    expect(() => parseScenario(null)).toThrow();
+  });
+
+  it('parses the built-in scenarios', () => {
+    expect(SCENARIO_PRESETS.length).toBeGreaterThan(0);
+    SCENARIO_PRESETS.forEach(preset => expect(preset.events.length).toBeGreaterThan(0));
+  });
+});
+
+describe('scheduling', () => {
+  const scenario = parseScenario(fanFailure);
+
+  it('finds events in a half-open interval', () => {
+    expect(eventsBetween(scenario, 0, 7200).map(event => event.label)).toEqual(['Fan failure']);
+    expect(eventsBetween(scenario, 7200, 10000)).toEqual([]);
+    expect(eventsBetween(scenario, -Infinity, 0).map(event => event.label)).toEqual(['Launch']);
+  });
+
+  it('finds the next event time', () => {
+    expect(nextEventTime(scenario, 0)).toBe(7200);
+    expect(nextEventTime(scenario, 7200)).toBe(14400);
+    expect(nextEventTime(scenario, 14400)).toBe(Infinity);
+  });
+
+  it('extends past the last event', () => {
+    expect(scenarioDuration(scenario)).toBeGreaterThan(14400);
+  });
+});
@@ -0,0 +1,120 @@
+import { EnvironmentInputs, FanFault, GravityMode, LedMix, Scenario, ScenarioEvent, SimulationState } from '../types';
+import { LED_CHANNELS, LEGACY_LIGHT_COLORS, LEGACY_PPFD_PER_INTENSITY } from '../physics/lightSpectrum';
+
+// Scenario files are JSON:
+//
+//   {
+//     "name": "Fan failure",
+//     "events": [
+//       { "time": "10m", "label": "Launch", "changes": { "gravityMode": "MICRO_UG", "gravityFactor": 0 } },
+//       { "time": 7200, "label": "Fan failure", "changes": { "airVelocity": 0 } }
+//     ]
+//   }
+//
+// `time` is seconds from the start of the scenario, or a string with an h / m / s suffix.
+// Only environment inputs can be scheduled; the leaf state follows through the simulation clock.
+// "fanFault" (NONE, STALL, DEGRADED, INTERMITTENT) injects circulation faults for the fan hardware model.
+// The light is "ppfd" (µmol/m2/s) and "ledMix", e.g. { "red660": 0.9, "blue450": 0.1 }. Files written
+// before the spectral model use "lightIntensity" (x300 µmol/m2/s) and "lightColor" (a hex swatch); both still load.
+
+export const NUMERIC_INPUTS: (keyof EnvironmentInputs)[] = [
+  'gravityFactor',
+  'airVelocity',
+  'ambientCO2',
+  'ambientO2',
+  'ambientTemperature',
+  'relativeHumidity',
+  'ppfd',
+];
+
+const TIME_UNITS: Record<string, number> = { h: 3600, m: 60, s: 1 };
+
+export const parseScenarioTime = (value: unknown): number => {
+  if (typeof value === 'number' && Number.isFinite(value) && value >= 0) return value;
+  if (typeof value === 'string') {
+    const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*([hms]?)$/);
+    if (match) return parseFloat(match[1]) * TIME_UNITS[match[2] || 's'];
+  }
+  throw new Error(`Invalid event time: ${JSON.stringify(value)}`);
+};
+
+// Relative output per LED channel: known channels, non-negative, not all off
+export const parseLedMix = (value: unknown): LedMix => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) throw new Error('ledMix must be an object');
+  const mix: LedMix = {};
+  for (const [id, output] of Object.entries(value)) {
+    if (!LED_CHANNELS.some(channel => channel.id === id)) throw new Error(`Unknown LED channel: ${id}`);
+    if (typeof output !== 'number' || !Number.isFinite(output) || output < 0) throw new Error(`ledMix.${id} must be a non-negative number`);
+    mix[id] = output;
+  }
+  if (!Object.values(mix).some(output => output > 0)) throw new Error('ledMix needs at least one channel on');
+  return mix;
+};
+
+// Validates the `changes` of an event: known environment inputs only
+export const parseChanges = (value: unknown): Partial<SimulationState> => {
+  if (typeof value !== 'object' || value === null) throw new Error('Event changes must be an object');
+  const changes: Partial<SimulationState> = {};
+  for (const [key, entry] of Object.entries(value)) {
+    if ((NUMERIC_INPUTS as string[]).includes(key)) {
+      if (typeof entry !== 'number' || !Number.isFinite(entry)) throw new Error(`${key} must be a number`);
+      (changes as Record<string, number>)[key] = entry;
+    } else if (key === 'ledMix') {
+      changes.ledMix = parseLedMix(entry);
+    } else if (key === 'lightIntensity') {
+      if (typeof entry !== 'number' || !Number.isFinite(entry)) throw new Error('lightIntensity must be a number');
+      changes.ppfd = entry * LEGACY_PPFD_PER_INTENSITY;
+    } else if (key === 'lightColor') {
+      const mix = typeof entry === 'string' ? LEGACY_LIGHT_COLORS[entry.toLowerCase()] : undefined;
+      if (!mix) throw new Error(`Unknown lightColor: ${entry}`);
+      changes.ledMix = { ...mix };
+    } else if (key === 'gravityMode') {
+      if (!Object.values(GravityMode).includes(entry as GravityMode)) throw new Error(`Unknown gravityMode: ${entry}`);
+      changes.gravityMode = entry as GravityMode;
+    } else if (key === 'fanFault') {
+      if (!Object.values(FanFault).includes(entry as FanFault)) throw new Error(`Unknown fanFault: ${entry}`);
+      changes.fanFault = entry as FanFault;
+    } else {
+      throw new Error(`${key} cannot be scheduled`);
+    }
+  }
+  return changes;
+};
+
+// Validates scenario JSON (already parsed) and sorts its events
+export const parseScenario = (json: unknown): Scenario => {
+  if (typeof json !== 'object' || json === null) throw new Error('Scenario must be an object');
+  const { name, description, events } = json as Record<string, unknown>;
+  if (typeof name !== 'string' || !name) throw new Error('Scenario needs a name');
+  if (!Array.isArray(events)) throw new Error('Scenario needs an events array');
+
+  const parsed: ScenarioEvent[] = events.map((event, index) => {
+    if (typeof event !== 'object' || event === null) throw new Error(`Event ${index + 1} must be an object`);
+    const { time, label, changes } = event as Record<string, unknown>;
+    return {
+      time: parseScenarioTime(time),
+      label: typeof label === 'string' ? label : `Event ${index + 1}`,
+      changes: parseChanges(changes),
+    };
+  });
+
+  return {
+    name,
+    description: typeof description === 'string' ? description : undefined,
+    events: parsed.sort((a, b) => a.time - b.time),
+  };
+};
+
+// Events scheduled in (from, to]; use from = -Infinity to include events at t = 0
+export const eventsBetween = (scenario: Scenario, from: number, to: number): ScenarioEvent[] =>
+  scenario.events.filter(event => event.time > from && event.time <= to);
+
+// Time of the first event after `time`, or Infinity
+export const nextEventTime = (scenario: Scenario, time: number): number =>
+  scenario.events.find(event => event.time > time)?.time ?? Infinity;
+
+// Scenario length for display, with some margin after the last event
+export const scenarioDuration = (scenario: Scenario): number => {
+  const last = scenario.events.length ? scenario.events[scenario.events.length - 1].time : 0;
+  return Math.max(last * 1.1, 60);
+};
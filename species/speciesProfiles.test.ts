@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createSpeciesProfile,
+  deleteCustomSpecies,
+  isBuiltInSpecies,
+  loadCustomSpecies,
+  parseSpeciesProfile,
+  saveCustomSpecies,
+  speciesParameters,
+} from './speciesProfiles';
+import { DEFAULT_SPECIES, SPECIES_PROFILES } from '../constants';
+import { DEFAULT_MODEL_PARAMETERS, withParameter } from '../physics/modelParameters';
+import { LEAF_LENGTH } from '../physics/physicalConstants';
+
+const memoryStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => void items.set(key, value),
+  };
+};
+
+const wheat = SPECIES_PROFILES.find(species => species.name === 'Dwarf wheat')!;
+
+describe('built-in species', () => {
+  it('are valid profiles, Arabidopsis matching the default model', () => {
+    for (const species of SPECIES_PROFILES) expect(parseSpeciesProfile(species)).toEqual(species);
+    expect(speciesParameters(DEFAULT_SPECIES)).toEqual({ ...DEFAULT_MODEL_PARAMETERS, leafLength: LEAF_LENGTH });
+    expect(SPECIES_PROFILES.map(species => species.name)).toEqual(['Arabidopsis', 'Lettuce', 'Mizuna', 'Dwarf wheat', 'Pepper']);
+  });
+
+  it('set their physiology and leaf length in the model parameters', () => {
+    const params = speciesParameters(wheat);
+    expect(params.photosynthesis.vcmax25).toBe(95);
+    expect(params.photosynthesis.curvature).toBe(DEFAULT_MODEL_PARAMETERS.photosynthesis.curvature);
+    expect(params.leafLength).toBeCloseTo(0.12);
+  });
+});
+
+describe('custom species', () => {
+  it('keep the base shape and only the parameters that differ from the defaults', () => {
+    const fitted = withParameter(speciesParameters(wheat), 'photosynthesis.g1', 6);
+    const custom = createSpeciesProfile(' Apogee fit ', wheat, fitted);
+    expect(custom.name).toBe('Apogee fit');
+    expect(custom.outline).toEqual(wheat.outline);
+    expect(custom.parameters['photosynthesis.g1']).toBe(6);
+    expect(custom.parameters).not.toHaveProperty('photosynthesis.curvature');
+    expect(custom.parameters).not.toHaveProperty('leafLength');
+    expect(speciesParameters(custom)).toEqual(fitted);
+    expect(isBuiltInSpecies(custom)).toBe(false);
+    expect(isBuiltInSpecies(wheat)).toBe(true);
+  });
+
+  it('are stored by name and deleted', () => {
+    const storage = memoryStorage();
+    saveCustomSpecies(createSpeciesProfile('Wheat B', wheat, DEFAULT_MODEL_PARAMETERS), storage);
+    saveCustomSpecies(createSpeciesProfile('Arabidopsis B', DEFAULT_SPECIES, DEFAULT_MODEL_PARAMETERS), storage);
+    expect(loadCustomSpecies(storage).map(species => species.name)).toEqual(['Arabidopsis B', 'Wheat B']);
+    expect(deleteCustomSpecies('Wheat B', storage).map(species => species.name)).toEqual(['Arabidopsis B']);
+  });
+});
+
+describe('parseSpeciesProfile', () => {
+  it('rejects incomplete profiles and unknown parameters', () => {
+    expect(() => parseSpeciesProfile({ ...wheat, name: ' ' })).toThrow(/name/);
+    expect(() => parseSpeciesProfile({ ...wheat, outline: { ...wheat.outline, bladeWidth: 2 } })).toThrow(/bladeWidth/);
+    expect(() => parseSpeciesProfile({ ...wheat, morphology: { narrowing: 0.5 } })).toThrow(/curl/);
+    expect(() => parseSpeciesProfile({ ...wheat, parameters: { 'photosynthesis.vmax': 1 } })).toThrow(/Unknown model parameter/);
+  });
+
+  it('reads every outline entry and nothing else', () => {
+    const { marginFrequency, ...partial } = wheat.outline;
+    expect(marginFrequency).toBeGreaterThan(0);
+    expect(() => parseSpeciesProfile({ ...wheat, outline: partial })).toThrow(/marginFrequency/);
+    expect(parseSpeciesProfile({ ...wheat, outline: { ...wheat.outline, veins: 3 } }).outline).toEqual(wheat.outline);
+  });
+});
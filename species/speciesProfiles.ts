@@ -0,0 +1,99 @@
+import { LeafOutline, SpeciesProfile } from '../types';
+import { SPECIES_PROFILES } from '../constants';
+import { DEFAULT_MODEL_PARAMETERS, flattenParameters, ModelParameters, parametersFromFlat, withParameter } from '../physics/modelParameters';
+import { deleteNamed, loadNamed, NamedStorage, saveNamed } from '../persistence/namedStore';
+
+// Species profiles: the built-in crops (constants.ts) plus custom ones kept in localStorage.
+// A profile sets the leaf outline and gravity response drawn by the shaders, and the
+// model parameters (physiology and leaf length) used by the physics, which the gravity response feeds too.
+
+export const SPECIES_STORAGE_KEY = 'astrobotany.speciesProfiles';
+
+const OUTLINE_LIMITS: Record<keyof LeafOutline, [number, number]> = {
+  stemWidth: [0, 1],
+  bladeStart: [0, 0.5],
+  bladeLength: [0.1, 1],
+  bladeWidth: [0.05, 1],
+  bladeRoundness: [0.05, 2],
+  marginDepth: [0, 0.5],
+  marginFrequency: [0, 100],
+};
+
+// Model parameters of a species: its physiology over the defaults, its leaf length and gravity response
+export const speciesParameters = (species: SpeciesProfile): ModelParameters => ({
+  ...withParameter(parametersFromFlat(species.parameters, DEFAULT_MODEL_PARAMETERS), 'leafLength', species.leafLength / 1000),
+  morphology: species.morphology,
+});
+
+// Parameters a species profile holds in its own fields rather than in `parameters`
+const isShapeParameter = (key: string): boolean => key === 'leafLength' || key.startsWith('morphology.');
+
+// A custom species with the shape of `base` and the given model parameters (e.g. a calibration)
+export const createSpeciesProfile = (name: string, base: SpeciesProfile, params: ModelParameters): SpeciesProfile => {
+  const defaults = flattenParameters(DEFAULT_MODEL_PARAMETERS);
+  const changed = Object.entries(flattenParameters(params)).filter(([key, value]) => !isShapeParameter(key) && defaults[key] !== value);
+  return {
+    ...base,
+    name: name.trim(),
+    leafLength: params.leafLength * 1000,
+    parameters: Object.fromEntries(changed),
+  };
+};
+
+export const isBuiltInSpecies = (species: SpeciesProfile): boolean => SPECIES_PROFILES.includes(species);
+
+// Validates a species profile read from a file, a link or storage
+export const parseSpeciesProfile = (value: unknown): SpeciesProfile => {
+  if (typeof value !== 'object' || value === null) throw new Error('Species profile must be an object');
+  const data = value as Record<string, unknown>;
+  if (typeof data.name !== 'string' || !data.name.trim()) throw new Error('Species profile needs a "name"');
+  const number = (entry: unknown, label: string, min: number, max: number): number => {
+    if (typeof entry !== 'number' || !Number.isFinite(entry) || entry < min || entry > max) {
+      throw new Error(`Species ${label} must be a number from ${min} to ${max}`);
+    }
+    return entry;
+  };
+  const outline = (data.outline ?? {}) as Record<string, unknown>;
+  const outlineEntry = (key: keyof LeafOutline): number => number(outline[key], `outline ${key}`, ...OUTLINE_LIMITS[key]);
+  const morphology = (data.morphology ?? {}) as Record<string, unknown>;
+  const parameters = data.parameters ?? {};
+  if (typeof parameters !== 'object' || parameters === null || Array.isArray(parameters)) {
+    throw new Error('Species "parameters" must be an object');
+  }
+  const known = flattenParameters(DEFAULT_MODEL_PARAMETERS);
+  for (const [key, entry] of Object.entries(parameters)) {
+    if (!(key in known)) throw new Error(`Unknown model parameter: ${key}`);
+    if (typeof entry !== 'number' || !Number.isFinite(entry)) throw new Error(`Parameter "${key}" must be a number`);
+  }
+  return {
+    name: data.name.trim(),
+    description: typeof data.description === 'string' ? data.description : '',
+    outline: {
+      stemWidth: outlineEntry('stemWidth'),
+      bladeStart: outlineEntry('bladeStart'),
+      bladeLength: outlineEntry('bladeLength'),
+      bladeWidth: outlineEntry('bladeWidth'),
+      bladeRoundness: outlineEntry('bladeRoundness'),
+      marginDepth: outlineEntry('marginDepth'),
+      marginFrequency: outlineEntry('marginFrequency'),
+    },
+    leafLength: number(data.leafLength, 'leafLength', 1, 500),
+    leafWidth: number(data.leafWidth, 'leafWidth', 1, 500),
+    trichomeDensity: number(data.trichomeDensity, 'trichomeDensity', 0, 1),
+    morphology: {
+      narrowing: number(morphology.narrowing, 'narrowing', 0, 1),
+      curl: number(morphology.curl, 'curl', 0, 10),
+    },
+    parameters: { ...(parameters as Record<string, number>) },
+  };
+};
+
+export const loadCustomSpecies = (storage?: NamedStorage): SpeciesProfile[] =>
+  loadNamed(SPECIES_STORAGE_KEY, parseSpeciesProfile, storage);
+
+// Saving under an existing name replaces that species. Returns the updated list.
+export const saveCustomSpecies = (species: SpeciesProfile, storage?: NamedStorage): SpeciesProfile[] =>
+  saveNamed(SPECIES_STORAGE_KEY, parseSpeciesProfile, species, storage);
+
+export const deleteCustomSpecies = (name: string, storage?: NamedStorage): SpeciesProfile[] =>
+  deleteNamed(SPECIES_STORAGE_KEY, parseSpeciesProfile, name, storage);
@@ -0,0 +1,4 @@
+import { localSensitivity } from './sweep';
+import { serveTask } from '../workers/workerTask';
+
+serveTask(localSensitivity);
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { INITIAL_STATE } from '../constants';
+import { environmentFromState } from '../physics/leafPhysics';
+import { DEFAULT_MODEL_PARAMETERS } from '../physics/modelParameters';
+import { axisValues, contourSegments, localSensitivity, runSweep } from './sweep';
+
+const base = environmentFromState(INITIAL_STATE);
+
+describe('axisValues', () => {
+  it('spans the range inclusively', () => {
+    expect(axisValues({ input: 'airVelocity', min: 0, max: 2, steps: 5 })).toEqual([0, 0.5, 1, 1.5, 2]);
+    expect(axisValues({ input: 'airVelocity', min: 0, max: 2, steps: 1 })).toEqual([0, 2]);
+  });
+});
+
+describe('runSweep', () => {
+  const progress: number[] = [];
+  const result = runSweep(
+    {
+      base,
+      parameters: DEFAULT_MODEL_PARAMETERS,
+      x: { input: 'airVelocity', min: 0, max: 2, steps: 3 },
+      y: { input: 'gravityFactor', min: 0, max: 1, steps: 2 },
+    },
+    ({ done }) => progress.push(done)
+  );
+
+  it('solves every grid point, row by row', () => {
+    expect(result.values.boundaryLayerThickness).toHaveLength(2);
+    expect(result.values.boundaryLayerThickness[0]).toHaveLength(3);
+    expect(progress).toEqual([1, 2, 3, 4, 5, 6]);
+  });
+
+  it('thins the boundary layer with airflow and gravity', () => {
+    const [microgravity, earth] = result.values.boundaryLayerThickness;
+    expect(microgravity[2]).toBeLessThan(microgravity[0]);
+    expect(earth[0]).toBeLessThan(microgravity[0]);
+  });
+
+  it('keeps unswept inputs at the base values', () => {
+    const single = runSweep({
+      base,
+      parameters: DEFAULT_MODEL_PARAMETERS,
+      x: { input: 'ppfd', min: 0, max: 600, steps: 2 },
+      y: null,
+    });
+    expect(single.yValues).toEqual([base.ppfd]);
+    expect(single.values.co2Flux[0][0]).toBeLessThan(0);
+    expect(single.values.co2Flux[0][1]).toBeGreaterThan(0);
+  });
+
+  it('rejects sweeping the same input twice', () => {
+    const axis = { input: 'airVelocity' as const, min: 0, max: 1, steps: 2 };
+    expect(() => runSweep({ base, parameters: DEFAULT_MODEL_PARAMETERS, x: axis, y: axis })).toThrow(/different inputs/);
+  });
+});
+
+describe('contourSegments', () => {
+  it('interpolates the crossing along cell edges', () => {
+    const segments = contourSegments(
+      [
+        [0, 2],
+        [0, 2],
+      ],
+      1
+    );
+    expect(segments).toEqual([[0.5, 0, 0.5, 1]]);
+  });
+
+  it('draws nothing when the level is outside the data', () => {
+    expect(contourSegments([[0, 1], [2, 3]], 5)).toEqual([]);
+  });
+
+  it('splits saddle cells into two segments', () => {
+    expect(contourSegments([[2, 0], [0, 2]], 1)).toHaveLength(2);
+  });
+});
+
+describe('localSensitivity', () => {
+  const sensitivity = localSensitivity({ base, parameters: DEFAULT_MODEL_PARAMETERS });
+  const of = (input: string) => sensitivity.find(item => item.input === input)!;
+
+  it('covers every numeric input', () => {
+    expect(sensitivity.map(item => item.input)).toEqual([
+      'gravityFactor',
+      'airVelocity',
+      'ambientCO2',
+      'ambientO2',
+      'ambientTemperature',
+      'relativeHumidity',
+      'ppfd',
+    ]);
+  });
+
+  it('signs the responses as the physics expects', () => {
+    expect(of('ambientCO2').elasticity.co2Flux).toBeGreaterThan(0);
+    expect(of('ambientO2').elasticity.co2Flux).toBeLessThan(0);
+    expect(of('airVelocity').rangeEffect.boundaryLayerThickness).toBeLessThan(0);
+    expect(of('ppfd').rangeEffect.temperature).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,188 @@
+import { DerivedLeafState, EnvironmentInputs } from '../types';
+import { computeLeafState } from '../physics/leafPhysics';
+import { ModelParameters } from '../physics/modelParameters';
+
+// Headless parameter sweeps and local sensitivity of the steady-state leaf model.
+// Every point is a full coupled solve (energy balance, FDM boundary layer, FvCB),
+// so sweeps run in a Web Worker (sweep.worker.ts, sensitivity.worker.ts).
+
+export type SweepInput = Exclude<keyof EnvironmentInputs, 'ledMix' | 'leafShape'>;
+export type SweepOutput = keyof Pick<
+  DerivedLeafState,
+  'co2Flux' | 'stressLevel' | 'temperature' | 'photosyntheticEfficiency' | 'boundaryLayerThickness' | 'h2oFlux'
+>;
+
+// Ranges match the environment controls
+export const SWEEP_INPUTS: Record<SweepInput, { label: string; unit: string; min: number; max: number }> = {
+  gravityFactor: { label: 'Gravity', unit: 'g', min: 0, max: 1 },
+  airVelocity: { label: 'Air velocity', unit: 'm/s', min: 0, max: 5 },
+  ambientCO2: { label: 'Ambient CO2', unit: 'ppm', min: 200, max: 1500 },
+  ambientO2: { label: 'Ambient O2', unit: '%', min: 15, max: 30 },
+  ambientTemperature: { label: 'Air temp', unit: '°C', min: 15, max: 35 },
+  relativeHumidity: { label: 'Humidity', unit: '%', min: 10, max: 95 },
+  ppfd: { label: 'Light (PPFD)', unit: 'µmol/m²/s', min: 0, max: 1500 },
+};
+
+export const SWEEP_OUTPUTS: Record<SweepOutput, { label: string; unit: string }> = {
+  co2Flux: { label: 'CO2 uptake', unit: 'µmol/m²/s' },
+  stressLevel: { label: 'Stress', unit: '0-100' },
+  temperature: { label: 'Leaf temp', unit: '°C' },
+  photosyntheticEfficiency: { label: 'Efficiency', unit: '%' },
+  boundaryLayerThickness: { label: 'Boundary layer', unit: 'mm' },
+  h2oFlux: { label: 'Transpiration', unit: 'mmol/m²/s' },
+};
+
+const OUTPUT_KEYS = Object.keys(SWEEP_OUTPUTS) as SweepOutput[];
+const INPUT_KEYS = Object.keys(SWEEP_INPUTS) as SweepInput[];
+
+export interface SweepAxis {
+  input: SweepInput;
+  min: number;
+  max: number;
+  steps: number; // Grid points, >= 2
+}
+
+export interface SweepRequest {
+  base: EnvironmentInputs; // Inputs not swept stay at these values
+  parameters: ModelParameters;
+  x: SweepAxis;
+  y: SweepAxis | null; // null: one-dimensional sweep
+}
+
+export interface SweepResult {
+  x: SweepAxis;
+  y: SweepAxis | null;
+  xValues: number[];
+  yValues: number[]; // A single entry for a one-dimensional sweep
+  values: Record<SweepOutput, number[][]>; // [y index][x index]
+}
+
+export interface SweepProgress {
+  done: number;
+  total: number;
+}
+
+export const axisValues = ({ min, max, steps }: SweepAxis): number[] => {
+  const count = Math.max(Math.round(steps), 2);
+  return Array.from({ length: count }, (_, i) => min + ((max - min) * i) / (count - 1));
+};
+
+const outputsOf = (state: DerivedLeafState): Record<SweepOutput, number> =>
+  Object.fromEntries(OUTPUT_KEYS.map(key => [key, state[key]])) as Record<SweepOutput, number>;
+
+export const runSweep = (
+  { base, parameters, x, y }: SweepRequest,
+  onProgress?: (progress: SweepProgress) => void
+): SweepResult => {
+  if (y && y.input === x.input) throw new Error('Sweep axes must vary different inputs');
+  const xValues = axisValues(x);
+  const yValues = y ? axisValues(y) : [base[x.input]];
+  const values = Object.fromEntries(OUTPUT_KEYS.map(key => [key, [] as number[][]])) as Record<SweepOutput, number[][]>;
+  const total = xValues.length * yValues.length;
+
+  yValues.forEach((yValue, j) => {
+    OUTPUT_KEYS.forEach(key => values[key].push([]));
+    xValues.forEach((xValue, i) => {
+      const inputs = { ...base, [x.input]: xValue, ...(y ? { [y.input]: yValue } : {}) };
+      const outputs = outputsOf(computeLeafState(inputs, undefined, parameters));
+      OUTPUT_KEYS.forEach(key => values[key][j].push(outputs[key]));
+      onProgress?.({ done: j * xValues.length + i + 1, total });
+    });
+  });
+  return { x, y, xValues, yValues, values };
+};
+
+// Iso-line of `grid` ([row][column]) at `level` by marching squares.
+// Segments are [x1, y1, x2, y2] in fractional column / row indices.
+export const contourSegments = (grid: number[][], level: number): [number, number, number, number][] => {
+  const segments: [number, number, number, number][] = [];
+  // Where the level crosses the edge between two corners
+  const cross = (a: number, b: number) => (a === b ? 0.5 : (level - a) / (b - a));
+
+  for (let j = 0; j < grid.length - 1; j++) {
+    for (let i = 0; i < grid[j].length - 1; i++) {
+      const tl = grid[j][i];
+      const tr = grid[j][i + 1];
+      const br = grid[j + 1][i + 1];
+      const bl = grid[j + 1][i];
+      if (![tl, tr, br, bl].every(Number.isFinite)) continue;
+      const top: [number, number] = [i + cross(tl, tr), j];
+      const right: [number, number] = [i + 1, j + cross(tr, br)];
+      const bottom: [number, number] = [i + cross(bl, br), j + 1];
+      const left: [number, number] = [i, j + cross(tl, bl)];
+
+      const edges: [number, number][] = [];
+      if (tl >= level !== tr >= level) edges.push(top);
+      if (tr >= level !== br >= level) edges.push(right);
+      if (br >= level !== bl >= level) edges.push(bottom);
+      if (bl >= level !== tl >= level) edges.push(left);
+
+      if (edges.length === 2) segments.push([...edges[0], ...edges[1]]);
+      else if (edges.length === 4) {
+        // Saddle: the cell centre decides which corners connect
+        const centreAbove = (tl + tr + br + bl) / 4 >= level;
+        if (centreAbove === tl >= level) {
+          segments.push([...top, ...right], [...bottom, ...left]);
+        } else {
+          segments.push([...top, ...left], [...bottom, ...right]);
+        }
+      }
+    }
+  }
+  return segments;
+};
+
+export interface SensitivityRequest {
+  base: EnvironmentInputs;
+  parameters: ModelParameters;
+}
+
+export interface InputSensitivity {
+  input: SweepInput;
+  value: number;
+  // d ln(output) / d ln(input): % change in the output per % change in the input.
+  // NaN where the input or the output is zero (e.g. in microgravity or still air).
+  elasticity: Record<SweepOutput, number>;
+  // Local slope times the input's full control range, in output units: comparable across inputs even at zero
+  rangeEffect: Record<SweepOutput, number>;
+}
+
+// Relative step for the central differences, and the absolute floor as a fraction of the range
+const RELATIVE_STEP = 0.05;
+const RANGE_STEP = 0.01;
+
+// One-at-a-time local sensitivity of every output to every numeric input, around `base`
+export const localSensitivity = (
+  { base, parameters }: SensitivityRequest,
+  onProgress?: (progress: SweepProgress) => void
+): InputSensitivity[] => {
+  const total = INPUT_KEYS.length * 2 + 1;
+  let done = 0;
+  const solve = (inputs: EnvironmentInputs) => {
+    const outputs = outputsOf(computeLeafState(inputs, undefined, parameters));
+    onProgress?.({ done: ++done, total });
+    return outputs;
+  };
+  const centre = solve(base);
+
+  return INPUT_KEYS.map(input => {
+    const { min, max } = SWEEP_INPUTS[input];
+    const value = base[input];
+    const step = Math.max(Math.abs(value) * RELATIVE_STEP, (max - min) * RANGE_STEP);
+    // One-sided at the ends of the range; microgravity and still air cannot go negative
+    const low = Math.max(value - step, min);
+    const high = Math.min(value + step, max);
+    const below = low < value ? solve({ ...base, [input]: low }) : centre;
+    const above = high > value ? solve({ ...base, [input]: high }) : centre;
+
+    const slope = (key: SweepOutput) => (high > low ? (above[key] - below[key]) / (high - low) : 0);
+    const elasticity = (key: SweepOutput) =>
+      value !== 0 && Math.abs(centre[key]) > 1e-9 ? (slope(key) * value) / centre[key] : NaN;
+    return {
+      input,
+      value,
+      elasticity: Object.fromEntries(OUTPUT_KEYS.map(key => [key, elasticity(key)])) as Record<SweepOutput, number>,
+      rangeEffect: Object.fromEntries(OUTPUT_KEYS.map(key => [key, slope(key) * (max - min)])) as Record<SweepOutput, number>,
+    };
+  });
+};
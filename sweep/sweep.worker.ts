@@ -0,0 +1,4 @@
+import { runSweep } from './sweep';
+import { serveTask } from '../workers/workerTask';
+
+serveTask(runSweep);
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { parseTelemetryCsv, telemetryToScenario } from './telemetryImport';
+
+const simpleLog = [
+  'timestamp,CO2 (ppm),RH (%),PAR,Tair,Leaf Temp,A,Trmmol,airflow',
+  '12:00:00,400,60,300,22,23.1,10.2,1.9,1.0',
+  '12:00:10,400,60,300,22,23.3,10.4,2.0,1.0',
+  '12:00:20,800,60,0,22,22.0,-0.8,0.2,0.0',
+].join('\n');
+
+// LI-COR 6800 style: metadata lines, group row, names, units, tab separated
+const licorLog = [
+  '[Header]',
+  'Chamber type\t6800-01A',
+  '[Data]',
+  'SysObs\tSysObs\tSysObs\tGasEx\tGasEx\tGasEx\tMeas\tMeas\tMeas\tMeas',
+  'obs\ttime\telapsed\tE\tA\tgsw\tCO2_r\tH2O_r\tQin\tTair',
+  '\ts\ts\tmol m-2 s-1\tµmol m-2 s-1\tmol m-2 s-1\tµmol mol-1\tmmol mol-1\tµmol m-2 s-1\t°C',
+  '1\t1680000000\t0\t0.0021\t12.5\t0.21\t410\t16.0\t1000\t25',
+  '2\t1680000060\t60\t0.0022\t12.8\t0.22\t410\t16.0\t1000\t25',
+].join('\n');
+
+describe('parseTelemetryCsv', () => {
+  it('maps named columns onto model fields', () => {
+    const log = parseTelemetryCsv(simpleLog, 'chamber.csv');
+    expect(log.columns).toMatchObject({
+      'CO2 (ppm)': 'ambientCO2',
+      'RH (%)': 'relativeHumidity',
+      PAR: 'ppfd',
+      'Leaf Temp': 'temperature',
+      A: 'co2Flux',
+      Trmmol: 'h2oFlux',
+      airflow: 'airVelocity',
+    });
+    expect(log.samples).toHaveLength(3);
+  });
+
+  it('converts to model units and relative time', () => {
+    const [first, , last] = parseTelemetryCsv(simpleLog).samples;
+    expect(first.time).toBe(0);
+    expect(last.time).toBe(20);
+    expect(first.inputs.ppfd).toBe(300);
+    expect(first.measured.co2Flux).toBe(10.2);
+    expect(first.measured.h2oFlux).toBe(1.9);
+    expect(last.inputs.ambientCO2).toBe(800);
+  });
+
+  it('reads LI-COR 6800 exports', () => {
+    const log = parseTelemetryCsv(licorLog);
+    expect(log.samples).toHaveLength(2);
+    expect(log.samples[1].time).toBe(60);
+    // E is mol/m2/s, the model uses mmol/m2/s
+    expect(log.samples[0].measured.h2oFlux).toBeCloseTo(2.1);
+    expect(log.samples[0].measured.stomatalConductance).toBe(0.21);
+    // H2O mole fraction becomes relative humidity at the air temperature
+    expect(log.samples[0].inputs.relativeHumidity).toBeGreaterThan(40);
+    expect(log.samples[0].inputs.relativeHumidity).toBeLessThan(60);
+  });
+
+  it('rolls clock times over midnight', () => {
+    const log = parseTelemetryCsv('time,CO2\n23:59:50,400\n00:00:10,410');
+    expect(log.samples[1].time).toBe(20);
+  });
+
+  it('rejects files without usable columns', () => {
+    expect(() => parseTelemetryCsv('foo,bar\n1,2')).toThrow();
+    expect(() => parseTelemetryCsv('time,CO2\nx,y')).toThrow();
+  });
+});
+
+describe('telemetryToScenario', () => {
+  it('schedules only the inputs that change', () => {
+    const scenario = telemetryToScenario(parseTelemetryCsv(simpleLog, 'chamber.csv'));
+    expect(scenario.name).toContain('chamber.csv');
+    expect(scenario.events.map(event => event.time)).toEqual([0, 20]);
+    expect(scenario.events[1].changes).toEqual({ ambientCO2: 800, ppfd: 0, airVelocity: 0 });
+  });
+});
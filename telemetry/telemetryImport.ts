@@ -0,0 +1,202 @@
+import { EnvironmentInputs, MeasuredField, Scenario, TelemetryLog, TelemetrySample } from '../types';
+import { ATMOSPHERIC_PRESSURE, saturationVapourPressure } from '../physics/physicalConstants';
+
+// Importer for gas-exchange logs (LI-COR 6400 / 6800 style, or any CSV / tab-separated
+// file with similar column names). Columns are matched by name, case-insensitively and
+// ignoring units in brackets, e.g. "Tleaf", "CO2_r", "Qin", "CO2 (ppm)".
+// Metadata lines before the header and a units row after it are skipped.
+
+type TargetField = keyof EnvironmentInputs | MeasuredField;
+
+interface ColumnRule {
+  field: TargetField;
+  aliases: string[]; // In order of preference
+  convert?: (value: number) => number;
+}
+
+const TIME_ALIASES = ['elapsed', 'time_s', 'seconds', 'time', 'timestamp', 'datetime', 'date_time'];
+
+// Water vapour mole fraction in the chamber, mmol/mol; converted to RH with the air temperature
+const H2O_ALIASES = ['h2o_r', 'h2o_ref', 'h2o', 'h2o_mmol'];
+
+const COLUMN_RULES: ColumnRule[] = [
+  // Recorded environment
+  { field: 'ambientCO2', aliases: ['co2_r', 'co2_ref', 'ca', 'co2', 'co2_ppm', 'ambient_co2'] },
+  { field: 'ambientO2', aliases: ['o2', 'o2_percent', 'ambient_o2'] },
+  { field: 'ambientTemperature', aliases: ['tair', 't_air', 'tchamb', 'air_temp', 'ambient_temp'] },
+  { field: 'relativeHumidity', aliases: ['rhcham', 'rh_r', 'rh', 'rh_percent', 'humidity'] },
+  // PAR photon flux, µmol/m2/s; the spectrum is not logged and stays at the current LED mix
+  { field: 'ppfd', aliases: ['qin', 'par', 'ppfd', 'qamb_in', 'par_in'] },
+  { field: 'airVelocity', aliases: ['airflow', 'air_velocity', 'airspeed', 'wind_speed', 'velocity'] },
+  { field: 'gravityFactor', aliases: ['gravity_factor', 'gravity', 'g'] },
+  // Measured leaf response
+  { field: 'co2Flux', aliases: ['a', 'photo', 'a_net', 'co2_flux', 'net_assimilation'] },
+  // LI-COR 6800 reports E in mol/m2/s, the 6400 Trmmol in mmol/m2/s
+  { field: 'h2oFlux', aliases: ['e'], convert: v => v * 1000 },
+  { field: 'h2oFlux', aliases: ['trmmol', 'e_mmol', 'h2o_flux', 'transpiration'] },
+  { field: 'temperature', aliases: ['tleaf', 't_leaf', 'leaf_temp', 'leaf_temperature'] },
+  { field: 'stomatalConductance', aliases: ['gsw', 'gs', 'cond'] },
+];
+
+const MEASURED_FIELDS: MeasuredField[] = ['co2Flux', 'h2oFlux', 'temperature', 'stomatalConductance'];
+
+// "CO2 (ppm)" -> "co2", "Leaf Temp" -> "leaf_temp"
+const normaliseHeader = (name: string): string =>
+  name
+    .replace(/[([].*?[)\]]/g, '')
+    .trim()
+    .toLowerCase()
+    .replace(/[\s-]+/g, '_');
+
+const splitRow = (line: string, delimiter: string): string[] => {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') quoted = false;
+      else cell += char;
+    } else if (char === '"') quoted = true;
+    else if (char === delimiter) {
+      cells.push(cell.trim());
+      cell = '';
+    } else cell += char;
+  }
+  cells.push(cell.trim());
+  return cells;
+};
+
+const parseNumber = (cell: string | undefined): number | null => {
+  if (cell === undefined || cell === '') return null;
+  const value = Number(cell);
+  return Number.isFinite(value) ? value : null;
+};
+
+// Absolute time in seconds: plain numbers, clock times (HH:MM[:SS]) or dates
+const parseTimestamp = (cell: string | undefined): { seconds: number; clock: boolean } | null => {
+  const numeric = parseNumber(cell);
+  if (numeric !== null) return { seconds: numeric, clock: false };
+  if (!cell) return null;
+  const clock = cell.match(/^(\d{1,2}):(\d{2})(?::(\d{2}(?:\.\d+)?))?$/);
+  if (clock) {
+    return { seconds: Number(clock[1]) * 3600 + Number(clock[2]) * 60 + Number(clock[3] ?? 0), clock: true };
+  }
+  // LI-COR 6800 dates look like "20230501 12:00:00"
+  const date = Date.parse(cell.replace(/^(\d{4})(\d{2})(\d{2})(?=\s)/, '$1-$2-$3'));
+  return Number.isFinite(date) ? { seconds: date / 1000, clock: false } : null;
+};
+
+interface ColumnMatch {
+  index: number;
+  rule: ColumnRule;
+}
+
+const matchColumns = (headers: string[]) => {
+  const normalised = headers.map(normaliseHeader);
+  const used = new Set<number>();
+  const take = (aliases: string[]): number => {
+    for (const alias of aliases) {
+      const index = normalised.findIndex((name, i) => name === alias && !used.has(i));
+      if (index >= 0) {
+        used.add(index);
+        return index;
+      }
+    }
+    return -1;
+  };
+
+  const time = take(TIME_ALIASES);
+  const matches: ColumnMatch[] = [];
+  const fields = new Set<TargetField>();
+  for (const rule of COLUMN_RULES) {
+    if (fields.has(rule.field)) continue;
+    const index = take(rule.aliases);
+    if (index >= 0) {
+      matches.push({ index, rule });
+      fields.add(rule.field);
+    }
+  }
+  const h2o = fields.has('relativeHumidity') ? -1 : take(H2O_ALIASES);
+  const airTemperature = matches.find(match => match.rule.field === 'ambientTemperature');
+  return { time, matches, h2o: airTemperature ? h2o : -1 };
+};
+
+// Parses the log text into samples in model units. Throws if nothing usable is found.
+export const parseTelemetryCsv = (text: string, name = 'telemetry'): TelemetryLog => {
+  const lines = text.split(/\r?\n/).filter(line => line.trim() && !line.startsWith('#'));
+  const count = (char: string) => lines.reduce((sum, line) => sum + line.split(char).length - 1, 0);
+  const delimiter = count('\t') > count(',') ? '\t' : ',';
+  const rows = lines.map(line => splitRow(line, delimiter));
+
+  // Header: the first row with a time column and at least one other recognised column
+  const headerIndex = rows.findIndex(row => {
+    const { time, matches } = matchColumns(row);
+    return time >= 0 && matches.length > 0;
+  });
+  if (headerIndex < 0) throw new Error('No time column and recognised data columns found');
+  const headers = rows[headerIndex];
+  const { time, matches, h2o } = matchColumns(headers);
+
+  const columns: TelemetryLog['columns'] = {};
+  matches.forEach(match => (columns[headers[match.index]] = match.rule.field));
+  if (h2o >= 0) columns[headers[h2o]] = 'relativeHumidity';
+
+  const samples: TelemetrySample[] = [];
+  let start: number | null = null;
+  let previous = -Infinity;
+  let dayOffset = 0;
+  for (const row of rows.slice(headerIndex + 1)) {
+    const timestamp = parseTimestamp(row[time]);
+    // Units rows and other non-data rows have no parseable time
+    if (!timestamp) continue;
+
+    // Clock times roll over at midnight
+    if (timestamp.clock && timestamp.seconds + dayOffset < previous) dayOffset += 86400;
+    const seconds = timestamp.seconds + dayOffset;
+    previous = seconds;
+    if (start === null) start = seconds;
+
+    const sample: TelemetrySample = { time: seconds - start, inputs: {}, measured: {} };
+    for (const { index, rule } of matches) {
+      const value = parseNumber(row[index]);
+      if (value === null) continue;
+      const converted = rule.convert ? rule.convert(value) : value;
+      if ((MEASURED_FIELDS as string[]).includes(rule.field)) sample.measured[rule.field as MeasuredField] = converted;
+      else (sample.inputs as Record<string, number>)[rule.field] = converted;
+    }
+    const h2oValue = h2o >= 0 ? parseNumber(row[h2o]) : null;
+    if (h2oValue !== null && sample.inputs.ambientTemperature !== undefined) {
+      // mmol/mol -> kPa -> RH
+      const vapourPressure = (h2oValue * ATMOSPHERIC_PRESSURE) / 1e6;
+      const saturation = saturationVapourPressure(sample.inputs.ambientTemperature);
+      sample.inputs.relativeHumidity = Math.min(Math.max((100 * vapourPressure) / saturation, 0), 100);
+    }
+    samples.push(sample);
+  }
+
+  if (!samples.length) throw new Error('No data rows with a valid time');
+  samples.sort((a, b) => a.time - b.time);
+  return { name, columns, samples };
+};
+
+// Plays the recorded environment through the model as a scenario:
+// one event per sample, carrying the inputs that changed since the previous one
+export const telemetryToScenario = (log: TelemetryLog): Scenario => {
+  const last: Partial<EnvironmentInputs> = {};
+  const events = log.samples.flatMap(sample => {
+    const changes = Object.fromEntries(
+      Object.entries(sample.inputs).filter(([key, value]) => last[key as keyof EnvironmentInputs] !== value)
+    ) as Partial<EnvironmentInputs>;
+    Object.assign(last, changes);
+    return Object.keys(changes).length ? [{ time: sample.time, label: 'Recorded environment', changes }] : [];
+  });
+  return {
+    name: `Telemetry: ${log.name}`,
+    description: `${log.samples.length} samples from ${log.name}`,
+    events,
+  };
+};
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { interpolateRecord, validateAgainstTelemetry } from './validation';
+import { recordTick } from '../recording/runRecorder';
+import { INITIAL_STATE } from '../constants';
+import { TelemetryLog } from '../types';
+
+const records = [0, 10, 20].map(time => recordTick(time, { ...INITIAL_STATE, co2Flux: time, temperature: 20 }));
+
+const log: TelemetryLog = {
+  name: 'test',
+  columns: {},
+  samples: [
+    { time: 5, inputs: {}, measured: { co2Flux: 6, temperature: 21 } },
+    { time: 15, inputs: {}, measured: { co2Flux: 14 } },
+    { time: 40, inputs: {}, measured: { co2Flux: 40 } },
+  ],
+};
+
+describe('interpolateRecord', () => {
+  it('interpolates linearly between ticks', () => {
+    expect(interpolateRecord(records, 'co2Flux', 5)).toBe(5);
+    expect(interpolateRecord(records, 'co2Flux', 20)).toBe(20);
+  });
+
+  it('returns null outside the recorded span', () => {
+    expect(interpolateRecord(records, 'co2Flux', 25)).toBeNull();
+    expect(interpolateRecord([], 'co2Flux', 0)).toBeNull();
+  });
+});
+
+describe('validateAgainstTelemetry', () => {
+  const validation = validateAgainstTelemetry(log, records);
+  const co2 = validation.find(v => v.field === 'co2Flux')!;
+
+  it('compares only measurements already simulated', () => {
+    expect(co2.points.map(p => p.time)).toEqual([5, 15]);
+  });
+
+  it('reports residuals, RMSE and bias', () => {
+    expect(co2.points.map(p => p.residual)).toEqual([1, -1]);
+    expect(co2.rmse).toBeCloseTo(1);
+    expect(co2.bias).toBeCloseTo(0);
+    const temperature = validation.find(v => v.field === 'temperature')!;
+    expect(temperature.rmse).toBeCloseTo(1);
+    expect(temperature.bias).toBeCloseTo(1);
+  });
+});
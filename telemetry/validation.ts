@@ -0,0 +1,64 @@
+import { MeasuredField, TelemetryLog } from '../types';
+import { RunRecord } from '../recording/runRecorder';
+
+// Measured vs predicted comparison for imported telemetry.
+// Predictions are the recorded run, linearly interpolated to each measurement time.
+
+export interface ValidationPoint {
+  time: number; // s
+  measured: number;
+  predicted: number;
+  residual: number; // measured - predicted
+}
+
+export interface FieldValidation {
+  field: MeasuredField;
+  points: ValidationPoint[];
+  rmse: number;
+  bias: number; // Mean residual
+}
+
+export const MEASURED_FIELD_LABELS: Record<MeasuredField, { label: string; unit: string }> = {
+  co2Flux: { label: 'CO2 uptake (A)', unit: 'µmol/m²/s' },
+  h2oFlux: { label: 'Transpiration (E)', unit: 'mmol/m²/s' },
+  temperature: { label: 'Leaf temp', unit: '°C' },
+  stomatalConductance: { label: 'Stomatal cond. (gsw)', unit: 'mol/m²/s' },
+};
+
+// Run value at `time`, or null outside the recorded span. Records are in time order.
+export const interpolateRecord = (records: RunRecord[], field: MeasuredField, time: number): number | null => {
+  if (!records.length || time < records[0].time || time > records[records.length - 1].time) return null;
+  let low = 0;
+  let high = records.length - 1;
+  while (high - low > 1) {
+    const mid = (low + high) >> 1;
+    if (records[mid].time <= time) low = mid;
+    else high = mid;
+  }
+  const a = records[low];
+  const b = records[high];
+  const span = b.time - a.time;
+  const weight = span > 0 ? (time - a.time) / span : 0;
+  return a[field] + (b[field] - a[field]) * weight;
+};
+
+// Residuals and RMSE for every measured field, over the part of the log already simulated
+export const validateAgainstTelemetry = (log: TelemetryLog, records: RunRecord[]): FieldValidation[] => {
+  const fields = new Set<MeasuredField>();
+  log.samples.forEach(sample => (Object.keys(sample.measured) as MeasuredField[]).forEach(field => fields.add(field)));
+
+  return [...fields].map(field => {
+    const points: ValidationPoint[] = [];
+    for (const sample of log.samples) {
+      const measured = sample.measured[field];
+      if (measured === undefined) continue;
+      const predicted = interpolateRecord(records, field, sample.time);
+      if (predicted === null) continue;
+      points.push({ time: sample.time, measured, predicted, residual: measured - predicted });
+    }
+    const n = points.length;
+    const rmse = n ? Math.sqrt(points.reduce((sum, p) => sum + p.residual ** 2, 0) / n) : NaN;
+    const bias = n ? points.reduce((sum, p) => sum + p.residual, 0) / n : NaN;
+    return { field, points, rmse, bias };
+  });
+};
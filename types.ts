@@ -1,33 +1,314 @@
 import * as THREE from 'three';
+import type { GasField } from './physics/boundaryLayerSolver';
+import type { PhotosynthesisLimitation } from './physics/photosynthesis';
 
 export enum GravityMode {
   EARTH_1G = 'EARTH_1G',
+  MARS_038G = 'MARS_038G',
+  LUNAR_016G = 'LUNAR_016G',
   MICRO_UG = 'MICRO_UG',
 }
 
-export interface SimulationState {
-  gravityMode: GravityMode;
+// Injectable circulation-fan faults (physics/circulation.ts)
+export enum FanFault {
+  NONE = 'NONE',
+  STALL = 'STALL', // Rotor stopped
+  DEGRADED = 'DEGRADED', // Clogged filter / worn fan: higher system resistance
+  INTERMITTENT = 'INTERMITTENT', // Fan drops out for whole duty periods
+}
+
+// The two faces of the leaf: adaxial (upper, concave when curled) and abaxial (lower)
+export type LeafFace = 'adaxial' | 'abaxial';
+
+// Inputs to the headless leaf physics engine (physics/leafPhysics.ts)
+export interface EnvironmentInputs {
   gravityFactor: number; // 0.0 (uG) to 1.0 (1G)
   airVelocity: number; // m/s
-  boundaryLayerThickness: number; // mm
-  co2Flux: number; // nmol/cm2/s (Intake)
-  o2Flux: number; // nmol/cm2/s (Output)
-  temperature: number; // Celsius (Leaf Temperature)
-  ambientTemperature: number; // Celsius (Environment)
-  stressLevel: number; // 0-100
   ambientCO2: number; // ppm
   ambientO2: number; // %
-  // Lighting & Biology
-  lightColor: string; // Hex color
-  lightIntensity: number; // 0-100
+  ambientTemperature: number; // Celsius
+  relativeHumidity: number; // % (ambient air)
+  ppfd: number; // µmol/m2/s, grow-light photons 400-700 nm at the leaf
+  ledMix: LedMix; // Spectrum of the grow light
+  leafShape?: GravityMorphology; // Blade as grown (physics/morphology.ts): its curl shelters the adaxial face, its narrowing shortens the characteristic length (flat and full width if not given)
+}
+
+// Relative photon output of each LED channel, by channel id (LED_CHANNELS); only the ratios matter
+export type LedMix = Record<string, number>;
+
+// One emission band of an LED channel (Gaussian in wavelength)
+export interface SpectralBand {
+  peak: number; // nm
+  fwhm: number; // nm
+  weight: number; // Share of the channel's photons
+}
+
+export interface LedChannel {
+  id: string;
+  label: string;
+  bands: SpectralBand[];
+}
+
+export interface LightPreset {
+  name: string;
+  description: string;
+  ppfd: number;
+  ledMix: LedMix;
+}
+
+// Values derived by the physics engine from EnvironmentInputs
+export interface DerivedLeafState {
+  boundaryLayerThickness: number; // mm (effective, from the FDM solution)
+  co2Flux: number; // µmol/m2/s (Intake)
+  o2Flux: number; // µmol/m2/s (Output)
+  h2oFlux: number; // mmol/m2/s (Transpiration)
+  vapourPressureDeficit: number; // kPa (leaf to air)
+  temperature: number; // Celsius (Leaf Temperature)
+  stressLevel: number; // 0-100
   photosyntheticEfficiency: number; // 0-100%
+  // Gas exchange (FvCB + Medlyn)
+  surfaceCO2: number; // ppm (Cs, at the leaf surface)
+  intercellularCO2: number; // ppm (Ci)
+  stomatalConductance: number; // mol/m2/s (H2O)
+  photorespiration: number; // µmol/m2/s (CO2 released)
+  photosynthesisLimitation: PhotosynthesisLimitation;
+  heatTransferCoefficient: number; // W/m2/K (mixed forced + natural convection)
+  richardsonNumber: number; // Gr/Re^2 (> 1: buoyancy dominated)
+  reynoldsNumber: number; // Upper face, at the species' leaf length, like the Ri above
+  grashofNumber: number;
+  // Leaf energy balance terms, W/m2
+  absorbedRadiation: number;
+  longwaveLoss: number;
+  sensibleHeatFlux: number;
+  latentHeatFlux: number;
+  // Per face, each with its own boundary layer and share of the stomata; the totals above are their sums
+  adaxialCO2Flux: number; // µmol/m2/s
+  abaxialCO2Flux: number;
+  adaxialH2OFlux: number; // mmol/m2/s
+  abaxialH2OFlux: number;
+  adaxialBoundaryLayer: number; // mm (effective)
+  abaxialBoundaryLayer: number;
+  adaxialConductance: number; // mol/m2/s (H2O, stomata on the face)
+  abaxialConductance: number;
+  gasField: GasField; // Solved CO2/O2 concentration field above the leaf (adaxial face)
+  abaxialGasField: GasField; // Below the leaf
+}
+
+// Full UI state: environment inputs plus the values derived from them
+export interface SimulationState extends EnvironmentInputs, DerivedLeafState {
+  gravityMode: GravityMode;
+  lightFraction: number; // Share of the PPFD the photoperiod lets through, 0-1 (1 without a photoperiod)
+  co2Injection: number; // µmol/s CO2 makeup into the chamber (0 without a chamber)
+  co2Scrubbing: number; // µmol/s CO2 removed by the chamber scrubber
+  fanFault: FanFault; // Only acts with the fan hardware model on
+  // Gravitropic morphology, developed through growth on the simulation clock (physics/morphology.ts)
+  leafCurl: number; // 0-1 of the species' full µG hyponasty
+  leafNarrowing: number; // 0-1 of the species' full µG blade narrowing
+  microgravityExposure: number; // s of 0 g-equivalent exposure so far
+}
+
+// Circulation fan feeding the canopy (physics/circulation.ts). With it on, the fan sets the air velocity at the leaf.
+export interface FanSettings {
+  maxPressure: number; // Pa, shut-off pressure at rated speed
+  maxFlow: number; // m3/s, free delivery at rated speed
+  systemResistance: number; // Pa/(m3/s)2, ducts, filter and plenum
+  outletArea: number; // m2 of duct feeding the canopy
+  speed: number; // 0-1 of rated speed
+  dutyCycle: number; // 0-1 share of each duty period the fan runs
+  dutyPeriod: number; // s
+  canopyAttenuation: number; // Extinction coefficient of the in-canopy wind profile
+  leafDepth: number; // 0-1, depth of the leaf below the canopy top
+  degradedResistance: number; // System resistance multiplier of a DEGRADED fan
+  outageProbability: number; // 0-1 share of duty periods an INTERMITTENT fan is out
+}
+
+export type ChamberController = 'ON_OFF' | 'PID';
+
+// Sealed growth chamber around the leaves (physics/chamber.ts): its air CO2 and O2 follow the
+// leaf fluxes, CO2 makeup and scrubbing, and leakage to the surrounding cabin
+export interface ChamberSettings {
+  volume: number; // m3 of air
+  leafCount: number;
+  leafArea: number; // cm2 per leaf, one side
+  leakRate: number; // Air changes per hour with the cabin
+  cabinCO2: number; // ppm outside the chamber
+  cabinO2: number; // % outside the chamber
+  controller: ChamberController; // CO2 makeup
+  co2Setpoint: number; // ppm
+  hysteresis: number; // ppm, on/off band around the setpoint
+  maxInjection: number; // µmol/s, makeup valve fully open
+  pidGains: { kp: number; ki: number; kd: number }; // µmol/s per ppm, per ppm s, per ppm/s
+  scrubberSetpoint: number; // ppm above which the scrubber runs
+  scrubberRate: number; // µmol/s CO2 removed while it runs
+}
+
+// Arabidopsis-style rosette solved leaf by leaf in canopy mode (physics/canopy.ts).
+// Sizes are those of the oldest (outermost) leaf; younger leaves are smaller and more erect.
+export interface RosetteSettings {
+  leafCount: number;
+  phyllotaxisAngle: number; // degrees between successive leaves (golden angle 137.5°)
+  petioleLength: number; // mm
+  leafLength: number; // mm, blade
+  leafWidth: number; // mm, blade
+  inclination: number; // degrees above horizontal
+}
+
+// Airflow particle tracer drawn around the single leaf (components/particleTracer.ts)
+export type ParticleColoring = 'co2' | 'speed';
+
+export interface AirflowParticleSettings {
+  count: number;
+  trailLength: number; // positions kept per particle; 1 draws points only
+  colorBy: ParticleColoring;
+}
+
+// Leaf blade outline drawn by the leaf shader, in texture space (x across the leaf, y from base to tip)
+export interface LeafOutline {
+  stemWidth: number; // Petiole half-width, share of the mesh half-width
+  bladeStart: number; // 0-1 along the leaf where the blade begins
+  bladeLength: number; // 0-1 along the leaf from the blade start to the tip
+  bladeWidth: number; // Widest half-width, share of the mesh half-width
+  bladeRoundness: number; // Exponent of the width profile: low is parallel-sided, high is pointed
+  marginDepth: number; // Lobing / serration depth, share of the mesh half-width
+  marginFrequency: number; // Lobes along the leaf
+}
+
+// How the leaf reshapes in reduced gravity, drawn by the leaf shader
+export interface GravityMorphology {
+  narrowing: number; // Blade width at 0 g relative to 1 g, 0-1
+  curl: number; // Hyponastic (boat-shaped) curl at 0 g, shader units
+}
+
+// A crop as the model sees it: leaf shape and size, surface and its gas-exchange physiology
+// (species/speciesProfiles.ts)
+export interface SpeciesProfile {
+  name: string;
+  description: string;
+  outline: LeafOutline;
+  leafLength: number; // mm, base to tip; the characteristic length for convection
+  leafWidth: number; // mm
+  trichomeDensity: number; // 0-1
+  morphology: GravityMorphology;
+  parameters: Record<string, number>; // Model parameters that differ from the defaults (dotted keys)
+}
+
+// Daily light cycle driving the grow light over the simulated timeline (scenarios/photoperiod.ts)
+export interface Photoperiod {
+  lightHours: number; // Lights on per 24 h, e.g. 16 for 16h/8h
+  rampMinutes: number; // Length of the sunrise and sunset ramps
+  lightsOn: number; // Hour of the simulated day the lights come on (T+0 is 00:00)
+}
+
+// Quantities alarm rules can watch (alarms/alarmRules.ts)
+export type AlarmMetric =
+  | 'temperature'
+  | 'temperatureRise'
+  | 'boundaryLayerThickness'
+  | 'vapourPressureDeficit'
+  | 'photosyntheticEfficiency'
+  | 'stressLevel'
+  | 'co2Flux'
+  | 'h2oFlux'
+  | 'stomatalConductance'
+  | 'surfaceCO2'
+  | 'intercellularCO2'
+  | 'ambientCO2'
+  | 'ambientO2'
+  | 'airVelocity'
+  | 'gravityFactor'
+  | 'light';
+
+export type AlarmSeverity = 'INFO' | 'WARNING' | 'CRITICAL';
+
+export interface AlarmCondition {
+  metric: AlarmMetric;
+  comparator: '>' | '<';
+  threshold: number;
+}
+
+// Declarative telemetry alarm, evaluated every clock tick
+export interface AlarmRule extends AlarmCondition {
+  id: string;
+  enabled: boolean;
+  duration: number; // s the condition must hold before the alarm raises
+  hysteresis: number; // Metric units back past the threshold before it clears
+  severity: AlarmSeverity;
+  message: string;
+  guard?: AlarmCondition; // Only evaluated while this holds, e.g. gravityFactor < 0.2
+}
+
+// One point on the simulation timeline (what the charts plot)
+export interface TimelineSample {
+  time: number; // s of simulated time
+  ppfd: number; // µmol/m2/s reaching the leaf
+  ambientCO2: number; // ppm, follows the chamber air when one is set
+  surfaceCO2: number;
+  co2Injection: number; // µmol/s chamber CO2 makeup
+  co2Flux: number;
+  o2Flux: number;
+  h2oFlux: number;
+  temperature: number;
+  stomatalConductance: number;
+  boundaryLayerThickness: number;
+}
+
+// Model outputs that can be compared against measured telemetry
+export type MeasuredField = 'co2Flux' | 'h2oFlux' | 'temperature' | 'stomatalConductance';
+
+// One row of imported chamber / flight telemetry, converted to model units
+export interface TelemetrySample {
+  time: number; // s from the first row
+  inputs: Partial<EnvironmentInputs>; // Recorded environment, played through the model
+  measured: Partial<Record<MeasuredField, number>>;
+}
+
+export interface TelemetryLog {
+  name: string;
+  columns: Record<string, keyof EnvironmentInputs | MeasuredField>; // Source column -> field
+  samples: TelemetrySample[];
+}
+
+// Scheduled environment change, `time` in s of simulated time from the start of the scenario
+export interface ScenarioEvent {
+  time: number;
+  label: string;
+  changes: Partial<SimulationState>;
+}
+
+export interface Scenario {
+  name: string;
+  description?: string;
+  events: ScenarioEvent[]; // Sorted by time
+}
+
+export interface GravityPreset {
+  mode: GravityMode;
+  label: string;
+  gravityFactor: number;
 }
 
 export interface LeafUniforms {
   uTime: { value: number };
   uGravityFactor: { value: number }; // 1.0 = 1G, 0.0 = uG
-  uBoundaryLayerThickness: { value: number }; // 0.0 to 1.0 visual scale
+  uBoundaryLayerThickness: { value: number }; // 0.0 to 1.0 visual scale, adaxial (front) face
+  uAbaxialBoundaryLayerThickness: { value: number };
   uAirVelocity: { value: number };
   uLightColor: { value: THREE.Color };
   uLightIntensity: { value: number };
+  uGasField: { value: THREE.DataTexture };
+  uGasFieldLeafRange: { value: THREE.Vector2 }; // Texture u at leaf base / tip
+  uGasFieldSurfaceV: { value: number }; // Texture v of the row at the leaf surface
+  uAbaxialGasField: { value: THREE.DataTexture };
+  uAdaxialStomata: { value: number }; // Share of the stomata on the front face
+  // Species (LeafOutline, GravityMorphology)
+  uStemWidth: { value: number };
+  uBladeStart: { value: number };
+  uBladeLength: { value: number };
+  uBladeWidth: { value: number };
+  uBladeRoundness: { value: number };
+  uMarginDepth: { value: number };
+  uMarginFrequency: { value: number };
+  uTrichomeDensity: { value: number };
+  uNarrowing: { value: number };
+  uCurl: { value: number };
 }
\ No newline at end of file
@@ -0,0 +1,31 @@
+// Message protocol for long computations run in a Web Worker (calibration, sweeps).
+// The page posts one request; the worker answers with progress messages and then a result or an error.
+
+export type WorkerMessage<Progress, Result> =
+  | { type: 'progress'; progress: Progress }
+  | { type: 'result'; result: Result }
+  | { type: 'error'; message: string };
+
+// Progress is throttled; a message per optimiser iteration or grid point would flood the main thread
+const PROGRESS_INTERVAL_MS = 100;
+
+// Worker side: answers every request with `run`
+export const serveTask = <Request, Progress, Result>(
+  run: (request: Request, onProgress: (progress: Progress) => void) => Result
+): void => {
+  const post = (message: WorkerMessage<Progress, Result>) => self.postMessage(message);
+  self.onmessage = (event: MessageEvent<Request>) => {
+    let lastProgress = 0;
+    try {
+      const result = run(event.data, progress => {
+        const now = Date.now();
+        if (now - lastProgress < PROGRESS_INTERVAL_MS) return;
+        lastProgress = now;
+        post({ type: 'progress', progress });
+      });
+      post({ type: 'result', result });
+    } catch (err) {
+      post({ type: 'error', message: err instanceof Error ? err.message : 'Worker task failed' });
+    }
+  };
+};